@@ -10,29 +10,63 @@
 import * as functions from "firebase-functions";
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { YoutubeTranscript } from 'youtube-transcript';
-import * as cors from 'cors';
+import cors from 'cors';
+import * as puppeteer from "puppeteer";
+import { Marked } from "marked";
+import pdfParse from "pdf-parse";
+import { getDownloadURL } from "firebase-admin/storage";
+import { llm, LlmPart, LlmProvider, LlmResult, LlmTask } from "./llm";
+import {
+    COACH_PROFILE_SCHEMA, FLASHCARD_SET_SCHEMA, generateStructured, INTERACTIVE_QUESTION_SET_SCHEMA, QUIZ_SCHEMA, Schema,
+    SOLUTION_SCHEMA, StructuredOutputError,
+} from "./structured";
 
 // Initialize Firebase Admin
 admin.initializeApp();
 const storage = admin.storage();
+const db = admin.firestore();
 
 // Initialize CORS middleware
 const corsHandler = cors({ origin: true });
 
-// Initialize Gemini
-let genAI: GoogleGenerativeAI;
-const API_KEY = functions.config().gemini?.key;
+// Runs `task` over `items` with at most `limit` of them in flight, keeping their order
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>) => {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+};
 
-if (API_KEY) {
-    genAI = new GoogleGenerativeAI(API_KEY);
-} else {
-    logger.error("GEMINI_API_KEY environment variable not set. Functions will not work.");
-}
+// Clients tell a malformed AI answer apart from other failures by details.reason
+const toStructuredHttpsError = (error: StructuredOutputError) =>
+    new functions.https.HttpsError('internal', 'AI beklenen biçimde bir yanıt üretemedi. Lütfen tekrar deneyin.', {
+        reason: 'invalid_ai_output',
+        code: error.code,
+        issues: error.issues,
+    });
+
+// The lesson authoring callables are for teachers and admins only; their
+// requests count against the caller's daily AI quota like gateway requests
+const requireLessonAuthor = (context: functions.https.CallableContext) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Bu işlemi yapmak için giriş yapmalısınız.');
+    }
+    if (!['teacher', 'admin'].includes(context.auth.token.app_role)) {
+        throw new functions.https.HttpsError('permission-denied', 'Bu işlemi yalnızca öğretmenler ve yöneticiler yapabilir.');
+    }
+    return context.auth.token;
+};
 
 export const generateLessonFromKeywords = functions.https.onCall(async (data: any, context: functions.https.CallableContext) => {
-    if (!genAI) {
+    const caller = requireLessonAuthor(context);
+    if (!llm) {
         logger.error("Gemini AI is not initialized. Check API key.");
         throw new functions.https.HttpsError("failed-precondition", "AI service is not configured.");
     }
@@ -41,6 +75,7 @@ export const generateLessonFromKeywords = functions.https.onCall(async (data: an
     if (!title || !subject || !gradeLevel || !keywords) {
         throw new functions.https.HttpsError('invalid-argument', 'Missing required fields: title, subject, gradeLevel, keywords.');
     }
+    await consumeAiQuota(caller, 'lessonContent');
     
     const prompt = `You are an expert curriculum developer. Your task is to generate a comprehensive lesson plan based on the following details.
 The output must be in Turkish and formatted as a clean, well-structured Markdown document.
@@ -54,12 +89,12 @@ ${keywords}
 ---
 
 Please generate the lesson content. Include headings (##), subheadings (###), lists (* or -), bold text, and other Markdown elements to create a rich, readable, and engaging educational text.
+Write formulas in LaTeX between $...$ (inline) or $$...$$ (on their own line), and chemical formulas and equations with \\ce{...}, e.g. $\\ce{2H2 + O2 -> 2H2O}$. Do not use raw HTML.
 The content should be detailed and suitable for the specified grade level.
 Do not include any text or explanation outside of the Markdown content itself.`;
 
     try {
-        const result = await genAI.getGenerativeModel({ model: "gemini-1.5-flash" }).generateContent(prompt);
-        const content = result.response.text();
+        const { text: content } = await llm.generate({ task: 'lessonContent', parts: [prompt] });
         return { content };
     } catch (error) {
         logger.error("Gemini API error:", error);
@@ -95,7 +130,8 @@ export const getYouTubeTranscript = functions.https.onCall(async (data: any, con
 });
 
 export const generateInteractiveQuestions = functions.https.onCall(async (data: any, context: functions.https.CallableContext) => {
-    if (!genAI) {
+    const caller = requireLessonAuthor(context);
+    if (!llm) {
         logger.error("Gemini AI is not initialized. Check API key.");
         throw new functions.https.HttpsError("failed-precondition", "AI service is not configured.");
     }
@@ -104,6 +140,7 @@ export const generateInteractiveQuestions = functions.https.onCall(async (data:
     if (!transcript) {
         throw new functions.https.HttpsError('invalid-argument', 'The function must be called with "transcript" data.');
     }
+    await consumeAiQuota(caller, 'interactiveQuestions');
 
     const prompt = `
         You are an expert instructional designer creating interactive video quizzes.
@@ -128,23 +165,11 @@ export const generateInteractiveQuestions = functions.https.onCall(async (data:
     `;
     
     try {
-        const result = await genAI.getGenerativeModel({ model: "gemini-1.5-flash" }).generateContent(prompt);
-        let textResponse = result.response.text();
-
-        // Clean the response to ensure it's valid JSON
-        textResponse = textResponse.trim().replace(/^```json\s*/, '').replace(/```$/, '');
-        
-        // Basic validation
-        if (!textResponse.startsWith('[') || !textResponse.endsWith(']')) {
-            logger.error("AI did not return a valid JSON array.", {rawResponse: textResponse});
-            throw new Error("AI response was not in the expected format.");
-        }
-
-        const questions = JSON.parse(textResponse);
+        const { data: questions } = await generateStructured(llm, { task: 'interactiveQuestions', parts: [prompt] }, INTERACTIVE_QUESTION_SET_SCHEMA);
         return { questions };
-
     } catch (error: any) {
         logger.error("Interactive questions generation failed:", error);
+        if (error instanceof StructuredOutputError) throw toStructuredHttpsError(error);
         throw new functions.https.HttpsError("internal", "Failed to generate interactive questions from the transcript.", error.message);
     }
 });
@@ -187,3 +212,1459 @@ export const uploadFileAsBase64 = functions.runWith({ memory: "1GB" }).https.onC
         throw new functions.https.HttpsError("internal", "Dosya yüklenemedi.", error.message);
     }
 });
+
+
+// --- Supabase claims ---
+// Supabase accepts the Firebase ID token (third-party auth). Its tokens need
+// role=authenticated to reach the Postgres `authenticated` role, and app_role
+// is the role the row-level security policies in supabase/migrations trust.
+// users/{uid}.role is chosen by the client at sign-up, so app_role is only
+// changed by an admin through setUserRole; the first admin is set with the
+// Admin SDK. Clients see new claims after their next token refresh.
+const APP_ROLES = ['user', 'teacher', 'admin'];
+
+const setAppRole = async (user: admin.auth.UserRecord, appRole: string) => {
+    await admin.auth().setCustomUserClaims(user.uid, { ...(user.customClaims || {}), role: 'authenticated', app_role: appRole });
+    logger.info(`Supabase claims of ${user.uid} set to ${appRole}.`);
+};
+
+// New accounts start as plain users, whatever role they picked at sign-up
+export const syncSupabaseClaims = functions.firestore.document('users/{userId}').onCreate(async (_snapshot, context) => {
+    const user = await admin.auth().getUser(context.params.userId).catch(() => null);
+    if (!user || user.customClaims?.app_role) return;
+    await setAppRole(user, 'user');
+});
+
+// Accounts created before the claims existed, and new ones whose token was
+// issued before syncSupabaseClaims ran, ask for their claims here; the client
+// then refreshes its ID token
+export const ensureSupabaseClaims = functions.https.onCall(async (_data: unknown, context: functions.https.CallableContext) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Sign in first.');
+    }
+    const user = await admin.auth().getUser(context.auth.uid);
+    const appRole = user.customClaims?.app_role;
+    if (appRole) return { appRole };
+    await setAppRole(user, 'user');
+    return { appRole: 'user' };
+});
+
+// One-off migration, started by an admin: gives every account without claims the 'user' role
+export const backfillSupabaseClaims = functions.runWith({ timeoutSeconds: 540 }).https.onCall(async (_data: unknown, context: functions.https.CallableContext) => {
+    if (context.auth?.token.app_role !== 'admin') {
+        throw new functions.https.HttpsError('permission-denied', 'Only admins can backfill claims.');
+    }
+    let updated = 0;
+    let pageToken: string | undefined;
+    do {
+        const page = await admin.auth().listUsers(1000, pageToken);
+        for (const user of page.users.filter(item => !item.customClaims?.app_role)) {
+            await setAppRole(user, 'user');
+            updated++;
+        }
+        pageToken = page.pageToken;
+    } while (pageToken);
+    return { updated };
+});
+
+export const setUserRole = functions.https.onCall(async (data: { uid?: unknown; role?: unknown }, context: functions.https.CallableContext) => {
+    if (context.auth?.token.app_role !== 'admin') {
+        throw new functions.https.HttpsError('permission-denied', 'Only admins can change roles.');
+    }
+    const { uid, role } = data;
+    if (typeof uid !== 'string' || !uid || typeof role !== 'string' || !APP_ROLES.includes(role)) {
+        throw new functions.https.HttpsError('invalid-argument', 'A user id and one of the roles user, teacher or admin are required.');
+    }
+    const user = await admin.auth().getUser(uid).catch(() => null);
+    if (!user) {
+        throw new functions.https.HttpsError('not-found', 'User not found.');
+    }
+
+    await setAppRole(user, role);
+    // The Firestore rules and the app's menus read the role from the user document
+    await db.collection('users').doc(uid).set({ role }, { merge: true });
+    return { role };
+});
+
+// --- Class rosters ---
+// Class rosters live in Firestore, but Supabase decides which students'
+// lesson_mistakes a teacher may read. Every student who joins or leaves is
+// mirrored into the class_students table with the service role key.
+const supabaseRest = async <T = unknown>(path: string, init: RequestInit): Promise<T | null> => {
+    const config = functions.config().supabase || {};
+    if (!config.url || !config.service_key) throw new Error('Supabase is not configured.');
+    const response = await fetch(`${config.url}/rest/v1/${path}`, {
+        ...init,
+        headers: {
+            apikey: config.service_key,
+            Authorization: `Bearer ${config.service_key}`,
+            'Content-Type': 'application/json',
+        },
+    });
+    if (!response.ok) throw new Error(`Supabase request failed (${response.status}): ${await response.text()}`);
+    const text = await response.text();
+    return text ? JSON.parse(text) as T : null;
+};
+
+// Students only join through here: the join code is checked on the server,
+// which then writes classes/{classId}/students/{uid}. Clients can remove a
+// student from a class but never add one.
+export const joinClass = functions.https.onCall(async (data: { code?: unknown }, context: functions.https.CallableContext) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Bu işlemi yapmak için giriş yapmalısınız.');
+    }
+
+    const uid = context.auth.uid;
+    const code = typeof data.code === 'string' ? data.code.trim().toUpperCase() : '';
+    const classId = code ? (await db.collection('classJoinCodes').doc(code).get()).data()?.classId : null;
+    const classDoc = typeof classId === 'string' ? await db.collection('classes').doc(classId).get() : null;
+    if (!classDoc?.exists) {
+        throw new functions.https.HttpsError('not-found', 'Bu katılma koduna ait bir sınıf bulunamadı.');
+    }
+    if (classDoc.data()?.teacherId === uid) {
+        throw new functions.https.HttpsError('failed-precondition', 'Kendi sınıfına öğrenci olarak katılamazsın.');
+    }
+
+    const user = (await db.collection('users').doc(uid).get()).data() || {};
+    await db.batch()
+        .update(classDoc.ref, { studentIds: admin.firestore.FieldValue.arrayUnion(uid) })
+        .set(classDoc.ref.collection('students').doc(uid), {
+            name: user.name || 'Öğrenci',
+            joinedAt: admin.firestore.FieldValue.serverTimestamp(),
+        })
+        .commit();
+    return { classId: classDoc.id };
+});
+
+// Mirrors one roster entry into class_students. Only the student documents
+// count, never the studentIds array that the teacher can edit.
+export const syncClassRoster = functions.firestore.document('classes/{classId}/students/{studentId}').onWrite(async (change, context) => {
+    const { classId, studentId } = context.params;
+    const row = `class_students?class_id=eq.${encodeURIComponent(classId)}&student_id=eq.${encodeURIComponent(studentId)}`;
+    if (change.before.exists && change.after.exists) return;
+
+    // Deleting first keeps a retried create from failing on the primary key
+    await supabaseRest(row, { method: 'DELETE' });
+    if (!change.after.exists) return;
+    const classroom = (await db.collection('classes').doc(classId).get()).data();
+    if (!classroom) return;
+    await supabaseRest('class_students', {
+        method: 'POST',
+        body: JSON.stringify({ class_id: classId, teacher_id: classroom.teacherId, student_id: studentId }),
+    });
+});
+
+export const removeClassRoster = functions.firestore.document('classes/{classId}').onDelete(async (_snapshot, context) => {
+    await supabaseRest(`class_students?class_id=eq.${encodeURIComponent(context.params.classId)}`, { method: 'DELETE' });
+});
+
+// --- PDF summaries ---
+
+const MAX_PDF_BYTES = 20 * 1024 * 1024;
+// Long notes are summarized chunk by chunk and the partial summaries merged,
+// which keeps every request comfortably inside the model's input limit.
+const PDF_CHUNK_SIZE = 12000;
+// Text past this many chunks is left out, which bounds the model requests per summary
+const MAX_PDF_CHUNKS = 8;
+const PDF_CHUNK_CONCURRENCY = 3;
+
+// Splits text on paragraph boundaries into chunks of at most `size` characters.
+const chunkText = (text: string, size = PDF_CHUNK_SIZE): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+    for (const paragraph of text.split(/\n\s*\n/)) {
+        if (current && current.length + paragraph.length + 2 > size) {
+            chunks.push(current);
+            current = '';
+        }
+        if (paragraph.length > size) {
+            for (let i = 0; i < paragraph.length; i += size) {
+                chunks.push(paragraph.slice(i, i + size));
+            }
+            continue;
+        }
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    if (current.trim()) chunks.push(current);
+    return chunks;
+};
+
+const escapeHtml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The summary is model output and therefore untrusted: raw HTML is shown as
+// text, links keep only web and mail addresses and images become their alt text
+const summaryMarked = new Marked({
+    renderer: {
+        html: (html: string) => escapeHtml(html),
+        link: (href: string, _title: string | null | undefined, text: string) =>
+            /^(https?:|mailto:)/i.test(href) ? `<a href="${escapeHtml(href)}">${text}</a>` : text,
+        image: (_href: string, _title: string | null, text: string) => text,
+    },
+});
+
+const renderSummaryHtml = async (title: string, markdown: string) => `<!DOCTYPE html>
+<html lang="tr">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: 'Helvetica Neue', Arial, sans-serif; color: #1f2937; line-height: 1.6; margin: 0; padding: 40px 48px; font-size: 13px; }
+  header { border-bottom: 3px solid #6A0DAD; padding-bottom: 12px; margin-bottom: 24px; }
+  header h1 { color: #6A0DAD; margin: 0; font-size: 24px; }
+  header p { color: #6b7280; margin: 4px 0 0; font-size: 11px; }
+  h1, h2, h3 { color: #4c1d95; page-break-after: avoid; }
+  h2 { font-size: 18px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 28px; }
+  h3 { font-size: 15px; }
+  ul, ol { padding-left: 22px; }
+  li { margin: 4px 0; }
+  code { background: #f3f4f6; padding: 1px 4px; border-radius: 4px; font-size: 12px; }
+  pre { background: #f3f4f6; padding: 12px; border-radius: 6px; overflow-x: auto; }
+  blockquote { border-left: 4px solid #c084fc; background: #faf5ff; margin: 12px 0; padding: 8px 16px; }
+  table { border-collapse: collapse; width: 100%; margin: 12px 0; }
+  th, td { border: 1px solid #d1d5db; padding: 6px 8px; text-align: left; }
+  th { background: #f3e8ff; }
+</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(title)}</h1>
+    <p>NeutralEdu • AI Özet • ${new Date().toLocaleDateString('tr-TR')}</p>
+  </header>
+  <main>${await summaryMarked.parse(markdown)}</main>
+</body>
+</html>`;
+
+export const generatePdfSummary = functions.runWith({ timeoutSeconds: 300, memory: "2GB" }).https.onCall(async (data: { filePath?: unknown; title?: unknown; instructions?: unknown }, context: functions.https.CallableContext) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Bu işlemi yapmak için giriş yapmalısınız.');
+    }
+    if (!llm) {
+        throw new functions.https.HttpsError('failed-precondition', 'AI servisi yapılandırılamadı.');
+    }
+    const provider = llm;
+
+    const uid = context.auth.uid;
+    const { filePath, title, instructions } = data;
+    // Kullanıcı yalnızca kendi klasörüne yüklediği dosyayı özetletebilir
+    if (typeof filePath !== 'string' || !filePath.startsWith(`pdf-uploads/${uid}/`)) {
+        throw new functions.https.HttpsError('invalid-argument', 'Geçersiz dosya yolu.');
+    }
+    const summaryTitle = typeof title === 'string' && title.trim() ? title.trim() : 'PDF Özeti';
+
+    let browser: puppeteer.Browser | null = null;
+    try {
+        const bucket = storage.bucket();
+        const sourceFile = bucket.file(filePath);
+        const [metadata] = await sourceFile.getMetadata();
+        if (metadata.contentType !== 'application/pdf') {
+            throw new functions.https.HttpsError('invalid-argument', 'Yalnızca PDF dosyaları özetlenebilir.');
+        }
+        if (Number(metadata.size) > MAX_PDF_BYTES) {
+            throw new functions.https.HttpsError('invalid-argument', 'PDF dosyası en fazla 20MB olabilir.');
+        }
+
+        const [buffer] = await sourceFile.download();
+        const parsed = await pdfParse(buffer);
+        const text = parsed.text.replace(/[ \t]+\n/g, '\n').trim();
+        if (!text) {
+            throw new functions.https.HttpsError('failed-precondition', 'PDF içinde okunabilir metin bulunamadı. Taranmış bir belge olabilir.');
+        }
+
+        const focus = typeof instructions === 'string' && instructions.trim()
+            ? `Öğrencinin isteği: "${instructions.trim().slice(0, 500)}".`
+            : '';
+        const chunks = chunkText(text).slice(0, MAX_PDF_CHUNKS);
+        await consumeAiQuota(context.auth.token, 'pdfSummary');
+
+        let source = chunks[0];
+        if (chunks.length > 1) {
+            // Parçaları birkaç istekte paralel özetle, ardından tek bir özette birleştir
+            const partials = await mapWithConcurrency(chunks, PDF_CHUNK_CONCURRENCY, async (chunk, index) => {
+                const result = await provider.generate({
+                    task: 'pdfChunkSummary',
+                    parts: [`Aşağıdaki metin uzun bir ders notunun ${index + 1}/${chunks.length}. bölümüdür. Önemli kavramları, tanımları, formülleri ve örnekleri kaybetmeden maddeler halinde özetle. Sadece Türkçe Markdown döndür.\n\n---METİN---\n${chunk}`],
+                });
+                return result.text;
+            });
+            source = partials.join('\n\n');
+        }
+
+        const result = await provider.generate({
+            task: 'pdfSummary',
+            parts: [`Aşağıdaki ders notlarından bir öğrencinin sınava çalışırken kullanabileceği düzenli bir özet hazırla. ${focus}
+Başlıklar (##, ###), maddeler, kalın yazılmış anahtar kavramlar ve gerekiyorsa tablolar kullan. En sonda "## Akılda Kalması Gerekenler" başlığı altında kısa bir tekrar listesi ver.
+Yanıtı sadece Türkçe Markdown olarak ver, başka hiçbir açıklama ekleme.
+
+---NOTLAR---
+${source}`],
+        });
+        const summaryText = result.text.replace(/^```(?:markdown)?\s*/, '').replace(/```\s*$/, '').trim();
+
+        browser = await puppeteer.launch({ args: ['--no-sandbox'] });
+        const page = await browser.newPage();
+        // The page only renders the summary: no scripts and no network requests
+        await page.setJavaScriptEnabled(false);
+        await page.setRequestInterception(true);
+        page.on('request', request => {
+            if (request.url().startsWith('data:')) request.continue();
+            else request.abort();
+        });
+        await page.setContent(await renderSummaryHtml(summaryTitle, summaryText), { waitUntil: 'load' });
+        const pdfBuffer = await page.pdf({
+            format: 'A4',
+            printBackground: true,
+            margin: { top: '16mm', bottom: '16mm', left: '0', right: '0' },
+        });
+
+        const summaryRef = db.collection('pdfSummaries').doc();
+        const summaryPdfPath = `pdf-summaries/${uid}/${summaryRef.id}.pdf`;
+        const summaryFile = bucket.file(summaryPdfPath);
+        await summaryFile.save(Buffer.from(pdfBuffer), { metadata: { contentType: 'application/pdf' } });
+
+        const record = {
+            title: summaryTitle,
+            originalPdfUrl: await getDownloadURL(sourceFile),
+            originalPdfPath: filePath,
+            summaryPdfUrl: await getDownloadURL(summaryFile),
+            summaryPdfPath,
+            summaryText,
+            pageCount: parsed.numpages,
+            userId: uid,
+        };
+        await summaryRef.set({ ...record, createdAt: admin.firestore.FieldValue.serverTimestamp() });
+
+        return { id: summaryRef.id, ...record, createdAt: new Date().toISOString() };
+    } catch (error) {
+        if (error instanceof functions.https.HttpsError) throw error;
+        logger.error("Error in generatePdfSummary:", error);
+        throw new functions.https.HttpsError('internal', 'PDF özeti oluşturulurken bir hata oluştu.', error instanceof Error ? error.message : undefined);
+    } finally {
+        if (browser) await browser.close();
+    }
+});
+
+
+// --- XP ledger ---
+// Every XP change goes through grantXp: it owns the formulas, writes one
+// xpEvents document per award and keeps xp, level and streak on the user doc.
+// Event ids are deterministic, so retrying the same award is a no-op.
+// Clients only ask for daily, solved-question and lesson-question XP through
+// awardXp; quiz and achievement XP are granted where the server checks them
+// (submitQuizAttempt, syncAchievements).
+
+type XpSource = 'daily_login' | 'question_solved' | 'quiz_completed' | 'lesson_question' | 'achievement';
+
+const AWARDABLE_XP_SOURCES: XpSource[] = ['daily_login', 'question_solved', 'lesson_question'];
+const XP_PER_LEVEL = 200;
+const XP_TIME_ZONE = 'Europe/Istanbul';
+const STREAK_BONUS_PER_DAY = 5;
+const MAX_STREAK_BONUS = 50;
+const QUESTION_SOLVED_XP = 15;
+const MAX_QUESTION_STREAK_BONUS = 20;
+const QUIZ_XP_PER_CORRECT = 5;
+const QUIZ_PERFECT_BONUS = 10;
+const LESSON_QUESTION_XP = 15;
+
+type AchievementMetric =
+    | 'longestStreak' | 'questionsSolved' | 'lessonsCompleted' | 'quizzesCompleted'
+    | 'bestQuizScore' | 'perfectQuizzes' | 'coachesCreated' | 'coachMessages';
+
+// Mirrors ACHIEVEMENTS (src/lib/achievements.ts)
+const ACHIEVEMENTS: Record<string, { metric: AchievementMetric; threshold: number; xp: number }> = {
+    'streak-3': { metric: 'longestStreak', threshold: 3, xp: 20 },
+    'streak-7': { metric: 'longestStreak', threshold: 7, xp: 50 },
+    'streak-30': { metric: 'longestStreak', threshold: 30, xp: 200 },
+    'questions-1': { metric: 'questionsSolved', threshold: 1, xp: 10 },
+    'questions-10': { metric: 'questionsSolved', threshold: 10, xp: 40 },
+    'questions-50': { metric: 'questionsSolved', threshold: 50, xp: 150 },
+    'lessons-1': { metric: 'lessonsCompleted', threshold: 1, xp: 0 },
+    'lessons-10': { metric: 'lessonsCompleted', threshold: 10, xp: 0 },
+    'quizzes-1': { metric: 'quizzesCompleted', threshold: 1, xp: 10 },
+    'quizzes-10': { metric: 'quizzesCompleted', threshold: 10, xp: 60 },
+    'quiz-score-80': { metric: 'bestQuizScore', threshold: 80, xp: 30 },
+    'perfect-1': { metric: 'perfectQuizzes', threshold: 1, xp: 50 },
+    'perfect-5': { metric: 'perfectQuizzes', threshold: 5, xp: 150 },
+    'coach-1': { metric: 'coachesCreated', threshold: 1, xp: 0 },
+    'coach-messages-10': { metric: 'coachMessages', threshold: 10, xp: 20 },
+    'coach-messages-100': { metric: 'coachMessages', threshold: 100, xp: 100 },
+};
+
+const levelForXp = (xp: number) => Math.floor(xp / XP_PER_LEVEL) + 1;
+
+// Calendar day in Turkey, so streaks roll over at local midnight
+const dayKey = (date: Date) => date.toLocaleDateString('en-CA', { timeZone: XP_TIME_ZONE });
+
+interface XpAwardResult {
+    awarded: number;
+    xp: number;
+    level: number;
+    streak: number;
+    leveledUp: boolean;
+}
+
+// Computes the reward inside the award transaction; it may read more
+// documents and add writes of its own
+type XpAmount = (user: admin.firestore.DocumentData, transaction: admin.firestore.Transaction) =>
+    Promise<{ amount: number; userUpdate?: Record<string, unknown> }>;
+
+const grantXp = (uid: string, source: XpSource, refId: string, subject: string | null, getAmount: XpAmount) => {
+    const userRef = db.collection('users').doc(uid);
+    const eventRef = db.collection('xpEvents').doc(`${uid}_${source}_${refId}`);
+
+    return db.runTransaction<XpAwardResult>(async (transaction) => {
+        const [userDoc, eventDoc] = await Promise.all([transaction.get(userRef), transaction.get(eventRef)]);
+        if (!userDoc.exists) {
+            throw new functions.https.HttpsError('not-found', 'Kullanıcı bulunamadı.');
+        }
+
+        const user = userDoc.data() || {};
+        const previousXp: number = user.xp || 0;
+        const previousLevel: number = user.level || levelForXp(previousXp);
+        if (eventDoc.exists) {
+            return { awarded: 0, xp: previousXp, level: previousLevel, streak: user.streak || 0, leveledUp: false };
+        }
+
+        const { amount, userUpdate = {} } = await getAmount(user, transaction);
+        const xp = previousXp + amount;
+        const level = levelForXp(xp);
+        transaction.update(userRef, { ...userUpdate, xp, level });
+        transaction.set(eventRef, {
+            userId: uid,
+            source,
+            refId,
+            amount,
+            subject,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        const streak = typeof userUpdate.streak === 'number' ? userUpdate.streak : (user.streak || 0);
+        return { awarded: amount, xp, level, streak, leveledUp: level > previousLevel };
+    });
+};
+
+const toXpHttpsError = (error: unknown) => {
+    if (error instanceof functions.https.HttpsError) return error;
+    logger.error("XP award failed:", error);
+    return new functions.https.HttpsError('internal', 'XP kaydedilemedi.');
+};
+
+const XP_REF_ID_PATTERN = /^[\w-]{1,200}$/;
+
+interface LessonRow {
+    subject: string;
+    interactive_questions: { id: string; correctAnswer: string }[];
+}
+
+export const awardXp = functions.https.onCall(async (data: { source?: unknown; refId?: unknown; questionId?: unknown; answer?: unknown }, context: functions.https.CallableContext) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Bu işlemi yapmak için giriş yapmalısınız.');
+    }
+
+    const uid = context.auth.uid;
+    const source = data.source as XpSource;
+    if (!AWARDABLE_XP_SOURCES.includes(source)) {
+        throw new functions.https.HttpsError('invalid-argument', 'Geçersiz XP kaynağı.');
+    }
+
+    const now = new Date();
+    const today = dayKey(now);
+    const refId = source === 'daily_login' ? today : data.refId;
+    if (typeof refId !== 'string' || !XP_REF_ID_PATTERN.test(refId)) {
+        throw new functions.https.HttpsError('invalid-argument', 'Geçersiz kayıt kimliği.');
+    }
+
+    try {
+        if (source === 'daily_login') {
+            return await grantXp(uid, source, refId, null, async (user) => {
+                const lastLogin: Date | null = user.lastLogin?.toDate?.() ?? null;
+                const yesterday = dayKey(new Date(now.getTime() - 24 * 60 * 60 * 1000));
+                const streak = lastLogin && dayKey(lastLogin) === yesterday ? (user.streak || 0) + 1 : 1;
+                return {
+                    amount: Math.min(streak * STREAK_BONUS_PER_DAY, MAX_STREAK_BONUS),
+                    userUpdate: { streak, lastLogin: admin.firestore.FieldValue.serverTimestamp() },
+                };
+            });
+        }
+
+        if (source === 'question_solved') {
+            const questionDoc = await db.collection('solvedQuestions').doc(refId).get();
+            if (!questionDoc.exists || questionDoc.data()?.userId !== uid) {
+                throw new functions.https.HttpsError('not-found', 'Çözülen soru bulunamadı.');
+            }
+            // Archive entries are written by the client, so a day pays for at
+            // most as many of them as the solution endpoint answered that day
+            const usageRef = db.collection('aiUsage').doc(`${uid}_${today}`);
+            return await grantXp(uid, source, refId, questionDoc.data()?.subject ?? null, async (user, transaction) => {
+                const usage = (await transaction.get(usageRef)).data() || {};
+                const rewarded: number = usage.solvedQuestionsRewarded || 0;
+                if (rewarded >= (usage.byEndpoint?.solution || 0)) {
+                    throw new functions.https.HttpsError('resource-exhausted', 'Bugün çözdüğün sorular için XP zaten verildi.');
+                }
+                transaction.set(usageRef, { solvedQuestionsRewarded: admin.firestore.FieldValue.increment(1) }, { merge: true });
+                return { amount: QUESTION_SOLVED_XP + Math.min((user.streak || 0) * 2, MAX_QUESTION_STREAK_BONUS) };
+            });
+        }
+
+        // lesson_question: refId is the lesson, checked against Supabase
+        const questionId = data.questionId;
+        if (typeof questionId !== 'string' || !questionId || questionId.length > 200) {
+            throw new functions.https.HttpsError('invalid-argument', 'Geçersiz soru kimliği.');
+        }
+        const [lesson] = await supabaseRest<LessonRow[]>(
+            `lessons?id=eq.${encodeURIComponent(refId)}&status=eq.approved&select=subject,interactive_questions`,
+            { method: 'GET' },
+        ) || [];
+        const question = lesson?.interactive_questions?.find(item => item.id === questionId);
+        if (!lesson || !question) {
+            throw new functions.https.HttpsError('not-found', 'Ders sorusu bulunamadı.');
+        }
+        if (data.answer !== question.correctAnswer) {
+            throw new functions.https.HttpsError('failed-precondition', 'Yanlış cevaplar XP kazandırmaz.');
+        }
+        const eventRefId = `${refId}_${questionId}`.replace(/[^\w-]/g, '_');
+        return await grantXp(uid, source, eventRefId, lesson.subject, async () => ({ amount: LESSON_QUESTION_XP }));
+    } catch (error) {
+        throw toXpHttpsError(error);
+    }
+});
+
+
+// --- Quizzes ---
+// The aiGateway quiz endpoint stores generated quizzes itself: quizzes/{id}
+// holds the questions and quizKeys/{id} the answer keys, which no client can
+// read. submitQuizAttempt grades against the keys, stores the attempt and
+// returns the keys for review. Quiz XP is paid for the first attempt only.
+
+interface QuizQuestionDoc {
+    id: string;
+    type: 'multiple-choice' | 'matching' | 'open-ended';
+    correctAnswer: string | string[];
+}
+
+interface QuizKey {
+    correctAnswer: string | string[];
+    explanation: string;
+}
+
+interface GeneratedQuizQuestion {
+    type: QuizQuestionDoc['type'];
+    text: string;
+    options?: string[];
+    matchOptions?: string[];
+    correctAnswer: string | string[];
+    explanation?: string;
+}
+
+type QuizAnswerValue = string | string[] | undefined;
+
+// Time allowed per question, in seconds
+const QUIZ_SECONDS_PER_QUESTION: Record<string, number> = {
+    easy: 60,
+    medium: 90,
+    hard: 120,
+};
+
+const saveGeneratedQuiz = async (uid: string, request: AiGatewayRequest, generated: GeneratedQuizQuestion[]) => {
+    const quizRef = db.collection('quizzes').doc();
+    const difficulty = String(request.difficulty) in QUIZ_SECONDS_PER_QUESTION ? String(request.difficulty) : 'medium';
+    const keys: Record<string, QuizKey> = {};
+    const questions = generated.map(({ correctAnswer, explanation, ...question }, index) => {
+        const id = `q${index + 1}`;
+        // A single accepted open-ended answer becomes a list
+        keys[id] = {
+            correctAnswer: question.type === 'open-ended' && !Array.isArray(correctAnswer) ? [correctAnswer] : correctAnswer,
+            explanation: explanation || '',
+        };
+        return { ...Object.fromEntries(Object.entries(question).filter(([, value]) => value !== undefined)), id };
+    });
+    const quiz = {
+        topic: optionalText(request.topic, 500),
+        subject: optionalText(request.subject, 200),
+        difficulty,
+        questions,
+        timeLimitSeconds: QUIZ_SECONDS_PER_QUESTION[difficulty] * questions.length,
+        userId: uid,
+        ...(typeof request.lessonId === 'string' && request.lessonId ? { lessonId: request.lessonId.slice(0, 100) } : {}),
+    };
+
+    await db.batch()
+        .set(quizRef, { ...quiz, createdAt: admin.firestore.FieldValue.serverTimestamp() })
+        .set(db.collection('quizKeys').doc(quizRef.id), { userId: uid, answers: keys })
+        .commit();
+    return { ...quiz, id: quizRef.id, createdAt: new Date().toISOString() };
+};
+
+const normalizeQuizAnswer = (value: string) =>
+    value
+        .toLocaleLowerCase('tr-TR')
+        .replace(/[.,;:!?'"()]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const isQuizAnswerCorrect = (question: QuizQuestionDoc, answer: QuizAnswerValue) => {
+    if (answer === undefined) return false;
+    switch (question.type) {
+        case 'multiple-choice':
+            return answer === question.correctAnswer;
+        case 'matching': {
+            const expected = Array.isArray(question.correctAnswer) ? question.correctAnswer : [];
+            return Array.isArray(answer)
+                && answer.length === expected.length
+                && expected.every((item, index) => answer[index] === item);
+        }
+        case 'open-ended': {
+            if (typeof answer !== 'string' || !answer.trim()) return false;
+            const accepted = Array.isArray(question.correctAnswer) ? question.correctAnswer : [question.correctAnswer];
+            return accepted.some(item => normalizeQuizAnswer(item) === normalizeQuizAnswer(answer));
+        }
+        default:
+            return false;
+    }
+};
+
+const gradeQuizAttempt = (questions: QuizQuestionDoc[], answers: Record<string, QuizAnswerValue>) => {
+    const results: Record<string, boolean> = {};
+    questions.forEach(question => {
+        results[question.id] = isQuizAnswerCorrect(question, answers[question.id]);
+    });
+    const correctCount = Object.values(results).filter(Boolean).length;
+    const score = questions.length === 0 ? 0 : Math.round((correctCount / questions.length) * 100);
+    return { results, correctCount, score };
+};
+
+// Keeps only answers to the quiz's own questions, as strings or string lists
+const toQuizAnswers = (value: unknown, questionIds: string[]) => {
+    const answers: Record<string, string | string[]> = {};
+    if (!value || typeof value !== 'object') return answers;
+    questionIds.forEach(id => {
+        const answer = (value as Record<string, unknown>)[id];
+        if (typeof answer === 'string') {
+            answers[id] = answer.slice(0, 1000);
+        } else if (Array.isArray(answer)) {
+            answers[id] = answer.slice(0, 20).map(item => (typeof item === 'string' ? item.slice(0, 1000) : ''));
+        }
+    });
+    return answers;
+};
+
+// A student may take a quiz someone else generated when one of their classes has it assigned
+const isAssignedQuiz = async (uid: string, quizId: string) => {
+    const assignments = await db.collectionGroup('assignments').where('targetId', '==', quizId).get();
+    const classIds = [...new Set(assignments.docs.filter(doc => doc.data().type === 'quiz').map(doc => doc.data().classId as string))];
+    const classes = await Promise.all(classIds.map(classId => db.collection('classes').doc(classId).get()));
+    return classes.some(classDoc => (classDoc.data()?.studentIds || []).includes(uid));
+};
+
+export const submitQuizAttempt = functions.https.onCall(async (data: { quizId?: unknown; answers?: unknown; durationSeconds?: unknown }, context: functions.https.CallableContext) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Bu işlemi yapmak için giriş yapmalısınız.');
+    }
+
+    const uid = context.auth.uid;
+    const quizId = data.quizId;
+    if (typeof quizId !== 'string' || !XP_REF_ID_PATTERN.test(quizId)) {
+        throw new functions.https.HttpsError('invalid-argument', 'Geçersiz test kimliği.');
+    }
+
+    const [quizDoc, keyDoc] = await Promise.all([
+        db.collection('quizzes').doc(quizId).get(),
+        db.collection('quizKeys').doc(quizId).get(),
+    ]);
+    const quiz = quizDoc.data();
+    if (!quiz || !keyDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Test bulunamadı.');
+    }
+    if (quiz.userId !== uid && !(await isAssignedQuiz(uid, quizId))) {
+        throw new functions.https.HttpsError('permission-denied', 'Bu testi çözemezsin.');
+    }
+
+    const keys: Record<string, QuizKey> = keyDoc.data()?.answers || {};
+    const questions: QuizQuestionDoc[] = (quiz.questions || []).map((question: QuizQuestionDoc) => ({
+        ...question,
+        correctAnswer: keys[question.id]?.correctAnswer ?? '',
+    }));
+    const answers = toQuizAnswers(data.answers, questions.map(question => question.id));
+    const grade = gradeQuizAttempt(questions, answers);
+
+    let award: XpAwardResult | null = null;
+    try {
+        award = await grantXp(uid, 'quiz_completed', quizId, quiz.subject ?? null, async () => ({
+            amount: grade.correctCount * QUIZ_XP_PER_CORRECT + (grade.score === 100 ? QUIZ_PERFECT_BONUS : 0),
+        }));
+    } catch (error) {
+        // The attempt still counts when the reward fails
+        logger.error("Quiz XP award failed:", error);
+    }
+
+    const attemptRef = db.collection('quizAttempts').doc();
+    const attempt = {
+        quizId,
+        userId: uid,
+        topic: quiz.topic,
+        answers,
+        ...grade,
+        totalQuestions: questions.length,
+        durationSeconds: Math.max(0, Math.round(Number(data.durationSeconds) || 0)),
+        xpEarned: award?.awarded ?? 0,
+    };
+    await attemptRef.set({ ...attempt, completedAt: admin.firestore.FieldValue.serverTimestamp() });
+
+    return { attempt: { ...attempt, id: attemptRef.id, completedAt: new Date().toISOString() }, keys, award };
+});
+
+
+// --- Achievements ---
+// Stats are counted from records the client cannot forge (XP events, quiz
+// attempts, streaks, AI usage logs); users.stats and users.achievements are
+// written only here. lessonsCompleted and coachesCreated still count
+// client-written lessonProgress and coaches documents, so the achievements
+// built on them are badges only and pay no XP.
+
+const countWhere = async (query: admin.firestore.Query) => (await query.count().get()).data().count;
+
+const getAchievementStats = async (uid: string, user: admin.firestore.DocumentData): Promise<Record<AchievementMetric, number>> => {
+    const attempts = db.collection('quizAttempts').where('userId', '==', uid);
+    const [questionsSolved, quizzesCompleted, perfectQuizzes, bestAttempt, lessonsCompleted, coachesCreated, coachMessages] = await Promise.all([
+        countWhere(db.collection('xpEvents').where('userId', '==', uid).where('source', '==', 'question_solved')),
+        countWhere(attempts),
+        countWhere(attempts.where('score', '==', 100)),
+        attempts.orderBy('score', 'desc').limit(1).get(),
+        countWhere(db.collection('lessonProgress').where('userId', '==', uid).where('completed', '==', true)),
+        countWhere(db.collection('coaches').where('userId', '==', uid)),
+        // Answered chat requests rather than the client-written message documents
+        countWhere(db.collection('aiUsageLogs').where('userId', '==', uid).where('endpoint', '==', 'chat').where('status', '==', 'ok')),
+    ]);
+
+    return {
+        longestStreak: Math.max(user.stats?.longestStreak || 0, user.streak || 0),
+        questionsSolved,
+        quizzesCompleted,
+        perfectQuizzes,
+        bestQuizScore: bestAttempt.docs[0]?.data().score || 0,
+        lessonsCompleted,
+        coachesCreated,
+        coachMessages,
+    };
+};
+
+// Recounts the caller's stats, unlocks newly met achievements and pays their XP
+export const syncAchievements = functions.https.onCall(async (_data: unknown, context: functions.https.CallableContext) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Bu işlemi yapmak için giriş yapmalısınız.');
+    }
+
+    const uid = context.auth.uid;
+    const userRef = db.collection('users').doc(uid);
+    try {
+        const userDoc = await userRef.get();
+        if (!userDoc.exists) {
+            throw new functions.https.HttpsError('not-found', 'Kullanıcı bulunamadı.');
+        }
+        const user = userDoc.data() || {};
+        const stats = await getAchievementStats(uid, user);
+        const unlocked = Object.entries(ACHIEVEMENTS)
+            .filter(([id, achievement]) => !user.achievements?.[id] && stats[achievement.metric] >= achievement.threshold)
+            .map(([id]) => id);
+
+        // XP is paid before the achievement is marked, so a failed grant is retried
+        // on the next sync; grantXp's event ids keep a repeated grant from paying twice
+        for (const id of unlocked.filter(id => ACHIEVEMENTS[id].xp > 0)) {
+            await grantXp(uid, 'achievement', id, null, async () => ({ amount: ACHIEVEMENTS[id].xp }));
+        }
+
+        const update: Record<string, unknown> = { stats };
+        unlocked.forEach(id => {
+            update[`achievements.${id}`] = admin.firestore.FieldValue.serverTimestamp();
+        });
+        await userRef.update(update);
+        return { unlocked };
+    } catch (error) {
+        throw toXpHttpsError(error);
+    }
+});
+
+
+// --- Leaderboards ---
+// Boards are precomputed from xpEvents into leaderboards/{boardId}/entries/{uid},
+// so clients page through a sorted board instead of reading every user.
+// Board ids: `${window}_${subject}`, e.g. "weekly-2026-10-12_matematik",
+// "monthly-2026-10_all", "alltime_all". Keep in sync with src/lib/leaderboard.ts.
+
+const LEADERBOARD_SUBJECTS = ['Matematik', 'Fizik', 'Kimya', 'Biyoloji', 'Türkçe', 'Edebiyat', 'Tarih', 'Coğrafya', 'Felsefe'];
+
+const subjectSlug = (subject: string) =>
+    subject
+        .toLocaleLowerCase('tr-TR')
+        .replace(/ç/g, 'c').replace(/ğ/g, 'g').replace(/ı/g, 'i').replace(/ö/g, 'o').replace(/ş/g, 's').replace(/ü/g, 'u')
+        .replace(/[^a-z0-9]+/g, '-');
+
+// Window keys for the Turkish calendar week (starting Monday) and month of `date`
+const leaderboardWindows = (date: Date) => {
+    const day = dayKey(date);
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    const monday = new Date(`${day}T00:00:00Z`);
+    monday.setUTCDate(monday.getUTCDate() - ((weekday + 6) % 7));
+    return [`weekly-${monday.toISOString().slice(0, 10)}`, `monthly-${day.slice(0, 7)}`];
+};
+
+const leaderboardEntry = (boardId: string, uid: string) =>
+    db.collection('leaderboards').doc(boardId).collection('entries').doc(uid);
+
+export const aggregateXpEvent = functions.firestore.document('xpEvents/{eventId}').onCreate(async (snapshot) => {
+    const event = snapshot.data();
+    if (!event.amount) return;
+
+    const uid: string = event.userId;
+    const createdAt: Date = event.createdAt?.toDate?.() ?? new Date();
+    const subject = LEADERBOARD_SUBJECTS.includes(event.subject) ? subjectSlug(event.subject) : null;
+    const windows = leaderboardWindows(createdAt);
+    const incrementBoards = [
+        ...windows.map(window => `${window}_all`),
+        ...(subject ? [...windows, 'alltime'].map(window => `${window}_${subject}`) : []),
+    ];
+
+    await db.runTransaction(async (transaction) => {
+        const userRef = db.collection('users').doc(uid);
+        const [eventDoc, userDoc] = await Promise.all([transaction.get(snapshot.ref), transaction.get(userRef)]);
+        // Tetikleyiciler birden fazla çalışabilir; olay yalnızca bir kez sayılır
+        if (eventDoc.data()?.aggregated) return;
+
+        const user = userDoc.data() || {};
+        const profile = {
+            userId: uid,
+            name: user.name || 'Anonim',
+            level: user.level || 1,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        };
+
+        // Tüm zamanlar tablosu ledger öncesi XP'yi de kapsasın diye toplam XP'yi yazar
+        transaction.set(leaderboardEntry('alltime_all', uid), { ...profile, xp: user.xp || 0 }, { merge: true });
+        incrementBoards.forEach(boardId => {
+            transaction.set(leaderboardEntry(boardId, uid), {
+                ...profile,
+                xp: admin.firestore.FieldValue.increment(event.amount),
+            }, { merge: true });
+        });
+        transaction.update(snapshot.ref, { aggregated: true });
+    });
+});
+
+// One-off backfill of the all-time board from user documents, for admins.
+export const rebuildLeaderboard = functions.runWith({ timeoutSeconds: 300 }).https.onCall(async (_data: unknown, context: functions.https.CallableContext) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Bu işlemi yapmak için giriş yapmalısınız.');
+    }
+    const caller = await db.collection('users').doc(context.auth.uid).get();
+    if (caller.data()?.role !== 'admin') {
+        throw new functions.https.HttpsError('permission-denied', 'Bu işlem yalnızca yöneticiler içindir.');
+    }
+
+    const users = await db.collection('users').get();
+    const writer = db.bulkWriter();
+    users.docs.forEach(userDoc => {
+        const user = userDoc.data();
+        writer.set(leaderboardEntry('alltime_all', userDoc.id), {
+            userId: userDoc.id,
+            name: user.name || 'Anonim',
+            level: user.level || 1,
+            xp: user.xp || 0,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }, { merge: true });
+    });
+    await writer.close();
+    return { count: users.size };
+});
+
+
+// --- Coach chat ---
+// Chat turns live in coaches/{coachId}/messages. Once more than
+// CHAT_CONTEXT_MESSAGES turns are newer than the coach's summary, all but the
+// last CHAT_KEEP_RECENT are folded into coaches.summary, so the client can
+// send the summary plus a bounded window instead of the whole thread.
+
+const CHAT_CONTEXT_MESSAGES = 40;
+const CHAT_KEEP_RECENT = 20;
+
+export const summarizeCoachChat = functions.firestore.document('coaches/{coachId}/messages/{messageId}').onCreate(async (snapshot, context) => {
+    // Özet yalnızca koçun cevabıyla biten turlardan sonra çıkarılır
+    if (snapshot.data().role !== 'model' || !llm) return;
+
+    const coachRef = db.collection('coaches').doc(context.params.coachId);
+    const coach = (await coachRef.get()).data();
+    if (!coach) return;
+
+    let pending: admin.firestore.Query = coachRef.collection('messages');
+    if (coach.summarizedUntil) pending = pending.where('createdAt', '>', coach.summarizedUntil);
+    const messages = (await pending.orderBy('createdAt').get()).docs;
+    if (messages.length <= CHAT_CONTEXT_MESSAGES) return;
+
+    const toSummarize = messages.slice(0, messages.length - CHAT_KEEP_RECENT);
+    const transcript = toSummarize
+        .map(messageDoc => `${messageDoc.data().role === 'user' ? 'Öğrenci' : 'Koç'}: ${String(messageDoc.data().content).slice(0, 2000)}`)
+        .join('\n');
+    const prompt = `Aşağıda bir öğrenci ile çalışma koçu arasındaki sohbetin eski bir bölümü var.
+${coach.summary ? `Daha önceki konuşmaların özeti:\n${coach.summary}\n\n` : ''}Bunları birleştirerek koçun ileride hatırlaması gerekenleri içeren tek bir özet yaz: öğrencinin hedefleri, zorlandığı konular, verilen sözler ve planlar, önemli kişisel bilgiler.
+En fazla 200 kelime, madde işaretleriyle ve Türkçe yaz.
+
+Sohbet:
+${transcript}`;
+
+    const result = await llm.generate({ task: 'chatSummary', parts: [prompt] });
+    const summarizedUntil = toSummarize[toSummarize.length - 1].data().createdAt;
+
+    await db.runTransaction(async (transaction) => {
+        const latest = (await transaction.get(coachRef)).data();
+        if (!latest) return;
+        // Aynı anda çalışan başka bir tetikleyici özeti ilerlettiyse onunki kalır
+        const unchanged = coach.summarizedUntil
+            ? latest.summarizedUntil?.isEqual(coach.summarizedUntil)
+            : !latest.summarizedUntil;
+        if (!unchanged) return;
+        transaction.update(coachRef, {
+            summary: result.text.trim(),
+            summarizedUntil,
+            summaryUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+    });
+});
+
+// --- Coach check-ins ---
+// Every hour the job looks for coaches whose preferredStudyTime starts now
+// (Istanbul time) and writes the day's check-ins to coachMessages. Which types
+// a coach sends follows the interactions picked in the coach wizard; the
+// student can mute or snooze each type in coachCheckInSettings/{userId}.
+// Message ids are {coachId}_{day}_{type}, so a retried run sends nothing twice.
+
+type CoachMessageType = 'morning-checkin' | 'task-reminder' | 'motivation' | 'reflection' | 'achievement';
+
+const STUDY_TIME_HOURS: Record<string, number> = {
+    morning: 8,
+    afternoon: 13,
+    evening: 18,
+    night: 21,
+};
+// Coaches created before the study time was asked are given the evening by
+// backfillCoachStudyTimes; new and upgraded coaches always carry one
+const DEFAULT_STUDY_TIME = 'evening';
+
+const INTERACTION_MESSAGE_TYPES: Record<string, CoachMessageType> = {
+    morning_check: 'morning-checkin',
+    task_lists: 'task-reminder',
+    thought_questions: 'reflection',
+    motivational_quotes: 'motivation',
+    study_tips: 'motivation',
+    progress_tracking: 'achievement',
+};
+
+// The daily check-in always goes out; the others take turns, one per day
+const ROTATING_MESSAGE_TYPES: CoachMessageType[] = ['task-reminder', 'motivation', 'reflection', 'achievement'];
+
+const CHECK_IN_INSTRUCTIONS: Record<CoachMessageType, string> = {
+    'morning-checkin': 'Güne başlarken öğrencinin nasıl hissettiğini sor ve bugünkü çalışması için tek bir net hedef öner.',
+    'task-reminder': 'Bugün yapması gereken çalışmaları kısa bir yapılacaklar listesi halinde hatırlat.',
+    'motivation': 'Sınava kalan süreyi de düşünerek kısa ve samimi bir motivasyon mesajı yaz.',
+    'reflection': 'Son çalıştıklarını pekiştirmesi için üzerinde düşünmesini isteyeceğin tek bir soru sor.',
+    'achievement': 'Serisini ve XP durumunu kullanarak ilerlemesini takdir et ve bir sonraki küçük hedefi öner.',
+};
+
+const dueCheckInTypes = (interactions: string[], day: string) => {
+    const enabled = new Set(interactions.map(interaction => INTERACTION_MESSAGE_TYPES[interaction]).filter(Boolean));
+    const rotating = ROTATING_MESSAGE_TYPES.filter(type => enabled.has(type));
+    const dayIndex = Math.floor(Date.parse(day) / 86400000);
+    return [
+        ...(enabled.has('morning-checkin') ? ['morning-checkin' as const] : []),
+        ...(rotating.length ? [rotating[dayIndex % rotating.length]] : []),
+    ];
+};
+
+// Coaches whose check-ins are written at the same time
+const CHECK_IN_CONCURRENCY = 5;
+
+// Writes the day's due check-ins of one coach, skipping the ones already sent
+const sendCheckIns = async (provider: LlmProvider, coachDoc: admin.firestore.QueryDocumentSnapshot, day: string, now: Date) => {
+    const coach = coachDoc.data();
+    // Eski sihirbazla kaydedilmiş ve henüz yükseltilmemiş koçlar eski alanları taşır
+    const types = dueCheckInTypes(coach.dailyInteraction || coach.interactions || [], day);
+    if (!coach.userId || types.length === 0) return;
+
+    const [settingsDoc, userDoc] = await Promise.all([
+        db.collection('coachCheckInSettings').doc(coach.userId).get(),
+        db.collection('users').doc(coach.userId).get(),
+    ]);
+    const settings = settingsDoc.data() || {};
+    const user = userDoc.data() || {};
+    const allowed = types.filter(type =>
+        !(settings.mutedTypes || []).includes(type)
+        && !(settings.snoozedUntil?.[type]?.toDate?.() > now));
+
+    for (const type of allowed) {
+        const messageRef = db.collection('coachMessages').doc(`${coachDoc.id}_${day}_${type}`);
+        if ((await messageRef.get()).exists) continue;
+        try {
+            const examDate = coach.examTargetDate || coach.targetDate;
+            const prompt = `Sen ${coach.name || coach.coachName || 'AI Koç'} adında bir öğrenci koçusun.
+Öğrenci ${coach.examType || 'sınav'} sınavına hazırlanıyor${examDate ? `, sınav tarihi ${examDate}` : ''}.
+Odak dersler: ${(coach.subjectFocus || coach.subjects || []).join(', ') || 'belirtilmedi'}. İletişim tonun: ${coach.tone || (coach.communicationTone || []).join(', ') || 'samimi'}.${coach.weeklyGoals?.length ? `\nBu haftaki hedefler: ${coach.weeklyGoals.join('; ')}.` : ''}
+Öğrencinin durumu: ${user.streak || 0} günlük seri, ${user.xp || 0} XP, seviye ${user.level || 1}.
+
+${CHECK_IN_INSTRUCTIONS[type]}
+Mesaj en fazla 3 cümle olsun, öğrenciye doğrudan hitap et ve Türkçe yaz.`;
+            const result = await provider.generate({ task: 'coachCheckIn', parts: [prompt] });
+            await messageRef.create({
+                coachId: coachDoc.id,
+                userId: coach.userId,
+                type,
+                content: result.text.trim(),
+                timestamp: admin.firestore.FieldValue.serverTimestamp(),
+                isRead: false,
+            });
+        } catch (error) {
+            // Bir koçun hatası diğer öğrencilerin mesajlarını engellemesin
+            logger.error(`Check-in ${type} for coach ${coachDoc.id} failed:`, error);
+        }
+    }
+};
+
+// One-off migration: coaches without a study time cannot be found by the
+// check-in query, so they are given the default once
+export const backfillCoachStudyTimes = functions.runWith({ timeoutSeconds: 540 }).https.onCall(async (_data: unknown, context: functions.https.CallableContext) => {
+    if (context.auth?.token.app_role !== 'admin') {
+        throw new functions.https.HttpsError('permission-denied', 'Bu işlemi yalnızca yöneticiler yapabilir.');
+    }
+    const snapshot = await db.collection('coaches').select('preferredStudyTime').get();
+    const missing = snapshot.docs.filter(coachDoc => !coachDoc.data().preferredStudyTime);
+    for (let i = 0; i < missing.length; i += 500) {
+        const batch = db.batch();
+        missing.slice(i, i + 500).forEach(coachDoc => batch.update(coachDoc.ref, { preferredStudyTime: DEFAULT_STUDY_TIME }));
+        await batch.commit();
+    }
+    return { updated: missing.length };
+});
+
+export const sendCoachCheckIns = functions.runWith({ timeoutSeconds: 540 }).pubsub
+    .schedule('0 * * * *')
+    .timeZone(XP_TIME_ZONE)
+    .onRun(async () => {
+        if (!llm) return;
+        const provider = llm;
+        const now = new Date();
+        const hour = Number(now.toLocaleString('en-US', { timeZone: XP_TIME_ZONE, hour: 'numeric', hourCycle: 'h23' }));
+        const studyTime = Object.keys(STUDY_TIME_HOURS).find(key => STUDY_TIME_HOURS[key] === hour);
+        if (!studyTime) return;
+
+        const day = dayKey(now);
+        const coaches = (await db.collection('coaches').where('preferredStudyTime', '==', studyTime).get()).docs;
+        await mapWithConcurrency(coaches, CHECK_IN_CONCURRENCY, coachDoc => sendCheckIns(provider, coachDoc, day, now));
+    });
+
+// --- AI gateway ---
+// The only way the web app reaches the language model. onCall verifies the
+// caller's Firebase ID token; the gateway then enforces the daily quota, maps
+// the endpoint to an LLM task, builds the prompt and logs usage to aiUsageLogs.
+// Daily counters live in aiUsage/{uid}_{day}.
+
+type AiEndpoint = 'chat' | 'explanation' | 'image' | 'questions' | 'solution' | 'quiz' | 'flashcards' | 'coachProfile' | 'coachAttachment';
+
+// AI requests served by their own callables, outside the gateway; they share its quota
+type AiCallable = 'lessonContent' | 'interactiveQuestions' | 'pdfSummary';
+
+type AiGatewayRequest = Record<string, unknown>;
+
+const AI_ENDPOINTS: AiEndpoint[] = ['chat', 'explanation', 'image', 'questions', 'solution', 'quiz', 'flashcards', 'coachProfile', 'coachAttachment'];
+
+// Endpoints with a schema answer with validated `data` instead of `text`
+const AI_TASKS: Record<AiEndpoint, { task: LlmTask; schema?: Schema }> = {
+    chat: { task: 'chat' },
+    explanation: { task: 'explanation' },
+    image: { task: 'imageAnalysis' },
+    questions: { task: 'contentQuestions', schema: INTERACTIVE_QUESTION_SET_SCHEMA },
+    solution: { task: 'solution', schema: SOLUTION_SCHEMA },
+    quiz: { task: 'quiz', schema: QUIZ_SCHEMA },
+    flashcards: { task: 'flashcards', schema: FLASHCARD_SET_SCHEMA },
+    coachProfile: { task: 'coachProfile', schema: COACH_PROFILE_SCHEMA },
+    coachAttachment: { task: 'chatAttachment', schema: SOLUTION_SCHEMA },
+};
+
+// Requests per day by app_role; a numeric users.aiDailyQuota overrides it per user
+const AI_DAILY_QUOTA: Record<string, number> = {
+    user: 100,
+    teacher: 300,
+    admin: 1000,
+};
+
+// Image requests are heavier, so they use more of the quota
+const AI_ENDPOINT_COST: Record<AiEndpoint | AiCallable, number> = {
+    chat: 1,
+    explanation: 1,
+    image: 3,
+    questions: 2,
+    solution: 3,
+    quiz: 2,
+    flashcards: 2,
+    coachProfile: 2,
+    coachAttachment: 3,
+    lessonContent: 3,
+    interactiveQuestions: 2,
+    pdfSummary: 5,
+};
+
+const MAX_PROMPT_LENGTH = 30000;
+// Base64 of a ~5MB image; callable payloads are capped at 10MB
+const MAX_IMAGE_BASE64_LENGTH = 7 * 1024 * 1024;
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+// Chat attachments may also be PDF pages, which the model reads natively
+const ATTACHMENT_MIME_TYPES = [...IMAGE_MIME_TYPES, 'application/pdf'];
+const QUIZ_QUESTION_TYPES = ['multiple-choice', 'matching', 'open-ended'] as const;
+type QuizQuestionType = typeof QUIZ_QUESTION_TYPES[number];
+
+const QUIZ_DIFFICULTY_LABELS: Record<string, string> = {
+    easy: 'Kolay',
+    medium: 'Orta',
+    hard: 'Zor',
+};
+
+const QUIZ_TYPE_DESCRIPTIONS: Record<QuizQuestionType, string> = {
+    'multiple-choice': `"multiple-choice": "options" 4 seçenek içerir, "correctAnswer" seçeneklerden biriyle birebir aynı metindir.`,
+    'matching': `"matching": "options" sol sütundaki 3-5 öğedir, "matchOptions" sağ sütundaki eşleri (aynı sayıda), "correctAnswer" her sol öğenin sağdaki eşini sırayla içeren bir dizidir.`,
+    'open-ended': `"open-ended": "options" yoktur, "correctAnswer" kabul edilebilecek kısa cevapların dizisidir (örn. ["12", "on iki"]).`,
+};
+
+const requireText = (value: unknown, field: string, maxLength = MAX_PROMPT_LENGTH) => {
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new functions.https.HttpsError('invalid-argument', `'${field}' alanı gerekli.`);
+    }
+    if (value.length > maxLength) {
+        throw new functions.https.HttpsError('invalid-argument', `'${field}' alanı çok uzun.`);
+    }
+    return value;
+};
+
+const optionalText = (value: unknown, maxLength = MAX_PROMPT_LENGTH) =>
+    typeof value === 'string' ? value.slice(0, maxLength) : '';
+
+const textList = (value: unknown) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string').map(item => item.slice(0, 200)) : [];
+
+const requireImage = (data: AiGatewayRequest, mimeTypes = IMAGE_MIME_TYPES): LlmPart => {
+    const mimeType = requireText(data.mimeType, 'mimeType', 50);
+    if (!mimeTypes.includes(mimeType)) {
+        throw new functions.https.HttpsError('invalid-argument', 'Desteklenmeyen dosya türü.');
+    }
+    return { inlineData: { data: requireText(data.imageBase64, 'imageBase64', MAX_IMAGE_BASE64_LENGTH), mimeType } };
+};
+
+// Shared by every task that answers with SOLUTION_SCHEMA
+const SOLUTION_JSON_FORMAT = `Yanıtı yalnızca şu alanlara sahip bir JSON nesnesi olarak ver:
+{
+  "problemText": "Görselden okunan soru metninin kısa özeti",
+  "subject": "Ders adı (örn. Matematik, Fizik, Kimya)",
+  "difficulty": "Kolay" | "Orta" | "Zor",
+  "steps": ["Çözümün her adımı ayrı bir öğe"],
+  "finalAnswer": "Sonuç ve varsa doğru şık"
+}
+Tüm metinler Türkçe olmalı. Çözüm adımlarının en altına 'Sonuç = ...' şeklinde bir ibare ekle.`;
+
+const buildAiRequest = (endpoint: AiEndpoint, data: AiGatewayRequest): LlmPart[] => {
+    switch (endpoint) {
+        case 'chat':
+            return [requireText(data.prompt, 'prompt')];
+        case 'image':
+            return [requireText(data.prompt, 'prompt'), requireImage(data)];
+        case 'solution':
+            return [`Sen görseldeki akademik soruları çözen uzman bir öğretmensin. Görseldeki soruyu analiz et ve çöz.
+${SOLUTION_JSON_FORMAT}`, requireImage(data)];
+        case 'coachAttachment':
+            // The prompt carries the coach's identity and the recent chat; the file comes last
+            return [`${requireText(data.prompt, 'prompt')}
+
+Öğrenci bu mesajla birlikte bir dosya (soru fotoğrafı, ders notu ya da PDF sayfası) gönderdi.
+Dosyada bir soru varsa adım adım çöz. Not ya da konu anlatımıysa "problemText" alanında içeriği özetle,
+"steps" alanında öğrencinin mesajına adım adım cevap ver ve "finalAnswer" alanına akılda kalması gereken sonucu yaz.
+Koç kimliğini ve iletişim tonunu koru; isteğe bağlı olarak "explanation" ve "tips" alanlarını da ekleyebilirsin.
+${SOLUTION_JSON_FORMAT}`, requireImage(data, ATTACHMENT_MIME_TYPES)];
+        case 'explanation': {
+            const options = textList(data.options);
+            return [`
+        Öğrenci şu soruyu yanlış cevapladı:
+
+        Soru: ${requireText(data.question, 'question', 5000)}
+        Seçenekler: ${options.join(', ')}
+        Doğru Cevap: ${requireText(data.correctAnswer, 'correctAnswer', 1000)}
+        Öğrencinin Cevabı: ${requireText(data.userAnswer, 'userAnswer', 1000)}
+
+        Lütfen öğrenciye şunları açıkla:
+        1. Neden bu hatayı yaptığını
+        2. Doğru cevabın nasıl bulunacağını
+        3. Benzer sorularda dikkat etmesi gereken noktaları
+
+        Kısa, anlaşılır ve motive edici bir şekilde yaz. Türkçe olarak yanıtla.
+        `];
+        }
+        case 'questions':
+            return [`
+        Aşağıdaki ders içeriğinden 3 adet çoktan seçmeli soru oluştur:
+
+        Ders İçeriği: ${requireText(data.content, 'content')}
+        Konu: ${requireText(data.subject, 'subject', 200)}
+
+        Yanıtı yalnızca şu yapıdaki nesnelerden oluşan bir JSON dizisi olarak ver:
+        {
+          "timestamp": 60,
+          "question": "Soru metni",
+          "options": ["A) Seçenek 1", "B) Seçenek 2", "C) Seçenek 3", "D) Seçenek 4"],
+          "correctAnswer": "A) Seçenek 1"
+        }
+
+        "correctAnswer" seçeneklerden biriyle birebir aynı olmalı. Timestamp'leri 30, 120, 300 saniye olarak ayarla.
+        `];
+        case 'quiz': {
+            const subject = requireText(data.subject, 'subject', 200);
+            const types = textList(data.types).filter((type): type is QuizQuestionType => (QUIZ_QUESTION_TYPES as readonly string[]).includes(type));
+            const questionCount = Math.min(Math.max(Math.round(Number(data.questionCount) || 10), 1), 30);
+            const lessonContent = optionalText(data.lessonContent);
+            if (types.length === 0) {
+                throw new functions.https.HttpsError('invalid-argument', 'En az bir soru tipi seçilmeli.');
+            }
+            return [`
+  Sen deneyimli bir ${subject} öğretmenisin. "${requireText(data.topic, 'topic', 500)}" konusunda ${QUIZ_DIFFICULTY_LABELS[String(data.difficulty)] ?? 'Orta'} zorlukta ${questionCount} soruluk bir test hazırla.
+  ${lessonContent ? `Soruları yalnızca aşağıdaki ders içeriğine dayandır:\n---\n${lessonContent}\n---` : ''}
+
+  Kullanılacak soru tipleri: ${types.join(', ')}. Tipleri sorular arasında dengeli dağıt.
+  ${types.map(type => `- ${QUIZ_TYPE_DESCRIPTIONS[type]}`).join('\n  ')}
+
+  Cevabı SADECE aşağıdaki yapıda bir JSON dizisi olarak ver, başka hiçbir metin ekleme:
+  [
+    {
+      "type": "multiple-choice" | "matching" | "open-ended",
+      "text": "Soru metni",
+      "options": ["..."],
+      "matchOptions": ["..."],
+      "correctAnswer": "..." | ["..."],
+      "explanation": "Doğru cevabın kısa açıklaması"
+    }
+  ]
+  Tüm metinler Türkçe olmalı.
+  `];
+        }
+        case 'flashcards': {
+            const cardCount = Math.min(Math.max(Math.round(Number(data.cardCount) || 10), 1), 30);
+            return [`
+    Aşağıdaki ders içeriğinden ${cardCount} adet öğrenme kartı (flashcard) oluştur.
+    Her kartın ön yüzü kısa bir soru ya da kavram, arka yüzü ise net ve kısa bir cevap olsun.
+
+    Ders: ${requireText(data.title, 'title', 500)} (${requireText(data.subject, 'subject', 200)})
+    İçerik:
+    ---
+    ${requireText(data.content, 'content')}
+    ---
+
+    Yanıtı yalnızca şu yapıdaki nesnelerden oluşan bir JSON dizisi olarak ver:
+    [{ "front": "Ön yüz", "back": "Arka yüz" }]
+    Tüm metinler Türkçe olmalı.
+    `];
+        }
+        case 'coachProfile': {
+            const examType = requireText(data.examType, 'examType', 20);
+            return [`
+    Sen bir Türk eğitim uzmanısın ve ${examType} sınavına hazırlanan öğrenciler için kişiselleştirilmiş AI çalışma koçu oluşturuyorsun.
+
+    Öğrenci Profili:
+    - Sınav Türü: ${examType}
+    - Hedef Tarih: ${optionalText(data.examTargetDate, 50)}
+    - Odak Dersler: ${textList(data.subjectFocus).join(', ')}
+    - Zayıf Dersler: ${textList(data.weakSubjects).join(', ')}
+    - Günlük Çalışma Saati: ${Number(data.studyHoursPerDay) || ''} saat
+    - Tercih Edilen Çalışma Zamanı: ${optionalText(data.preferredStudyTime, 50)}
+    - İstenen Koç Tarzı: ${optionalText(data.style, 200)}
+    - İletişim Tonu: ${optionalText(data.tone, 200)}
+    - Öğrencinin Koçtan Beklentisi: ${optionalText(data.personalityNotes, 500)}
+    - Günlük Etkileşim: ${textList(data.dailyInteraction).join(', ')}
+    - Koç İsmi: ${optionalText(data.name, 100) || 'AI Koçum'}
+
+    Lütfen aşağıdaki JSON formatında bir AI koç profili oluştur:
+
+    {
+      "name": "Koç ismi",
+      "style": "Koç tarzı açıklaması",
+      "description": "Koçun detaylı tanımı ve nasıl yardım edeceği",
+      "dailyRoutine": ["Günlük rutin maddeleri"],
+      "subjectFocus": ["Odak dersler"],
+      "tone": "İletişim tonu",
+      "examTargetDate": "Hedef tarih",
+      "personalityTraits": {
+        "strictness": 1-10 arası sayı,
+        "humor": 1-10 arası sayı,
+        "supportiveness": 1-10 arası sayı,
+        "detailLevel": 1-10 arası sayı
+      },
+      "motivationalMessages": ["Motivasyon mesajları"],
+      "studyTips": ["Çalışma ipuçları"],
+      "weeklyGoals": ["Haftalık hedefler"]
+    }
+
+    Koç, Türk eğitim sistemi ve ${examType} sınavı hakkında uzman bilgiye sahip olmalı.
+    Kişilik özellikleri seçilen tarza uygun olmalı.
+    Mesajlar ve ipuçları Türkçe olmalı ve yaş grubuna uygun olmalı.
+    `];
+        }
+    }
+};
+
+// Takes the cost of this request from today's quota, or refuses it. The tier
+// follows the verified app_role claim, not the client-written users.role.
+const consumeAiQuota = async (caller: admin.auth.DecodedIdToken, endpoint: AiEndpoint | AiCallable) => {
+    const uid = caller.uid;
+    const role: string = APP_ROLES.includes(caller.app_role) ? caller.app_role : 'user';
+    const userRef = db.collection('users').doc(uid);
+    const usageRef = db.collection('aiUsage').doc(`${uid}_${dayKey(new Date())}`);
+    const cost = AI_ENDPOINT_COST[endpoint];
+
+    return db.runTransaction(async (transaction) => {
+        const [userDoc, usageDoc] = await Promise.all([transaction.get(userRef), transaction.get(usageRef)]);
+        const user = userDoc.data() || {};
+        const limit: number = typeof user.aiDailyQuota === 'number' ? user.aiDailyQuota : (AI_DAILY_QUOTA[role] ?? AI_DAILY_QUOTA.user);
+        const used: number = usageDoc.data()?.used || 0;
+
+        if (used + cost > limit) {
+            throw new functions.https.HttpsError('resource-exhausted', 'Günlük yapay zeka kullanım hakkın doldu. Yarın tekrar deneyebilirsin.');
+        }
+
+        transaction.set(usageRef, {
+            userId: uid,
+            day: dayKey(new Date()),
+            used: admin.firestore.FieldValue.increment(cost),
+            // A nested map: set() with merge does not read dots as field paths
+            byEndpoint: { [endpoint]: admin.firestore.FieldValue.increment(1) },
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }, { merge: true });
+        return { role, remaining: limit - used - cost };
+    });
+};
+
+// Shared by both gateways: validates the request, takes its quota and
+// returns a usage logger bound to it
+const startAiRequest = async (caller: admin.auth.DecodedIdToken, data: AiGatewayRequest, endpoints: AiEndpoint[]) => {
+    const uid = caller.uid;
+    if (!llm) {
+        throw new functions.https.HttpsError('failed-precondition', 'AI servisi yapılandırılamadı.');
+    }
+    const provider = llm;
+
+    const endpoint = data.endpoint as AiEndpoint;
+    if (!endpoints.includes(endpoint)) {
+        throw new functions.https.HttpsError('invalid-argument', 'Geçersiz AI uç noktası.');
+    }
+
+    const parts = buildAiRequest(endpoint, data);
+    const { role, remaining } = await consumeAiQuota(caller, endpoint);
+    const startedAt = Date.now();
+
+    const logUsage = (status: 'ok' | 'error' | 'cancelled', result?: LlmResult) =>
+        db.collection('aiUsageLogs').add({
+            userId: uid,
+            role,
+            endpoint,
+            provider: provider.name,
+            model: result?.model ?? null,
+            status,
+            durationMs: Date.now() - startedAt,
+            inputTokens: result?.usage.inputTokens ?? null,
+            outputTokens: result?.usage.outputTokens ?? null,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        }).catch(error => logger.error("AI usage log failed:", error));
+
+    return { provider, endpoint, parts, remaining, logUsage };
+};
+
+const toGatewayError = (error: unknown) => {
+    if (error instanceof functions.https.HttpsError) return error;
+    if (error instanceof StructuredOutputError) return toStructuredHttpsError(error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('429') || message.includes('quota')) {
+        return new functions.https.HttpsError('resource-exhausted', 'AI servisi şu anda yoğun. Lütfen birkaç dakika sonra tekrar deneyin.');
+    }
+    return new functions.https.HttpsError('internal', 'AI yanıtı oluşturulamadı.');
+};
+
+export const aiGateway = functions.https.onCall(async (data: AiGatewayRequest, context: functions.https.CallableContext) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Bu işlemi yapmak için giriş yapmalısınız.');
+    }
+
+    const { provider, endpoint, parts, remaining, logUsage } = await startAiRequest(context.auth.token, data, AI_ENDPOINTS);
+    const { task, schema } = AI_TASKS[endpoint];
+    try {
+        if (schema) {
+            const { data: output, result } = await generateStructured<unknown>(provider, { task, parts }, schema);
+            await logUsage('ok', result);
+            // Quizzes are stored here so that their answer keys never reach the client
+            const saved = endpoint === 'quiz'
+                ? await saveGeneratedQuiz(context.auth.uid, data, output as GeneratedQuizQuestion[])
+                : output;
+            return { data: saved, model: result.model, remaining };
+        }
+        const result = await provider.generate({ task, parts });
+        await logUsage('ok', result);
+        return { text: result.text, model: result.model, remaining };
+    } catch (error) {
+        await logUsage('error');
+        logger.error(`AI gateway ${endpoint} failed:`, error);
+        throw toGatewayError(error);
+    }
+});
+
+// Prose endpoints can also be streamed. Callables cannot stream, so this is a
+// plain HTTPS function: the client sends its ID token as a Bearer header and
+// reads newline-delimited JSON events until `done` or `error`. Closing the
+// connection stops generation and logs the request as cancelled.
+const AI_STREAM_ENDPOINTS: AiEndpoint[] = ['chat'];
+
+type AiStreamEvent =
+    | { type: 'delta'; text: string }
+    | { type: 'done'; model: string; remaining: number }
+    | { type: 'error'; error: ReturnType<functions.https.HttpsError['toJSON']> };
+
+export const aiGatewayStream = functions.https.onRequest((req, res) => corsHandler(req, res, async () => {
+    let request: Awaited<ReturnType<typeof startAiRequest>>;
+    try {
+        if (req.method !== 'POST') {
+            throw new functions.https.HttpsError('invalid-argument', 'Yalnızca POST istekleri kabul edilir.');
+        }
+        const idToken = (req.headers.authorization || '').match(/^Bearer (.+)$/)?.[1];
+        const decoded = idToken ? await admin.auth().verifyIdToken(idToken).catch(() => null) : null;
+        if (!decoded) {
+            throw new functions.https.HttpsError('unauthenticated', 'Bu işlemi yapmak için giriş yapmalısınız.');
+        }
+        request = await startAiRequest(decoded, req.body || {}, AI_STREAM_ENDPOINTS);
+    } catch (error) {
+        const httpsError = toGatewayError(error);
+        res.status(httpsError.httpErrorCode.status).json({ error: httpsError.toJSON() });
+        return;
+    }
+
+    const { provider, endpoint, parts, remaining, logUsage } = request;
+    let cancelled = false;
+    res.on('close', () => {
+        if (!res.writableEnded) cancelled = true;
+    });
+    const send = (event: AiStreamEvent) => {
+        if (!cancelled) res.write(`${JSON.stringify(event)}\n`);
+    };
+
+    res.status(200).set({ 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+    try {
+        const result = await provider.generateStream(
+            { task: AI_TASKS[endpoint].task, parts },
+            text => send({ type: 'delta', text }),
+            () => cancelled,
+        );
+        await logUsage(cancelled ? 'cancelled' : 'ok', result);
+        send({ type: 'done', model: result.model, remaining });
+    } catch (error) {
+        await logUsage('error');
+        logger.error(`AI gateway stream ${endpoint} failed:`, error);
+        send({ type: 'error', error: toGatewayError(error).toJSON() });
+    }
+    res.end();
+}));
@@ -0,0 +1,229 @@
+import * as functions from "firebase-functions";
+import * as logger from "firebase-functions/logger";
+import { GenerativeModel, GoogleGenerativeAI } from "@google/generative-ai";
+
+// Provider-neutral access to the language model. Callers describe a task and
+// its parts; the configured provider decides how to run it. Select one with
+// `firebase functions:config:set llm.provider=mock` or LLM_PROVIDER=mock in
+// the emulator, which runs every AI feature offline with canned answers.
+
+// Every model name used by the backend. Tasks pick a tier, never a name.
+export const LLM_MODELS = {
+    fast: 'gemini-1.5-flash',
+    vision: 'gemini-1.5-flash',
+    reasoning: 'gemini-2.5-flash',
+} as const;
+
+export type LlmTier = keyof typeof LLM_MODELS;
+
+export type LlmTask =
+    | 'chat'
+    | 'explanation'
+    | 'imageAnalysis'
+    | 'solution'
+    | 'contentQuestions'
+    | 'interactiveQuestions'
+    | 'quiz'
+    | 'flashcards'
+    | 'coachProfile'
+    | 'chatSummary'
+    | 'chatAttachment'
+    | 'coachCheckIn'
+    | 'lessonContent'
+    | 'pdfChunkSummary'
+    | 'pdfSummary';
+
+export interface LlmImagePart {
+    inlineData: { data: string; mimeType: string };
+}
+
+export type LlmPart = string | LlmImagePart;
+
+export interface LlmRequest {
+    task: LlmTask;
+    parts: LlmPart[];
+    tier?: LlmTier;
+    // Ask the model for a JSON document instead of prose
+    json?: boolean;
+}
+
+export interface LlmUsage {
+    inputTokens: number | null;
+    outputTokens: number | null;
+}
+
+export interface LlmResult {
+    text: string;
+    model: string;
+    usage: LlmUsage;
+}
+
+export interface LlmProvider {
+    readonly name: string;
+    generate(request: LlmRequest): Promise<LlmResult>;
+    // Yields text deltas; the returned result holds the full text. Generation
+    // stops early, keeping the text so far, once isCancelled returns true.
+    generateStream(request: LlmRequest, onDelta: (delta: string) => void, isCancelled?: () => boolean): Promise<LlmResult>;
+}
+
+const modelFor = (request: LlmRequest) =>
+    LLM_MODELS[request.tier ?? (request.parts.some(part => typeof part !== 'string') ? 'vision' : 'fast')];
+
+// Gemini answers 429 under load; back off 1s, 2s before giving up
+const withRetry = async <T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : '';
+            if (!message.includes('429') || attempt >= maxRetries - 1) throw error;
+            await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
+        }
+    }
+};
+
+class GeminiProvider implements LlmProvider {
+    readonly name = 'gemini';
+    private client: GoogleGenerativeAI;
+
+    constructor(apiKey: string) {
+        this.client = new GoogleGenerativeAI(apiKey);
+    }
+
+    private model(request: LlmRequest): GenerativeModel {
+        return this.client.getGenerativeModel({
+            model: modelFor(request),
+            ...(request.json ? { generationConfig: { responseMimeType: 'application/json' } } : {}),
+        });
+    }
+
+    async generate(request: LlmRequest): Promise<LlmResult> {
+        const result = await withRetry(() => this.model(request).generateContent(request.parts));
+        const usage = result.response.usageMetadata;
+        return {
+            text: result.response.text(),
+            model: modelFor(request),
+            usage: { inputTokens: usage?.promptTokenCount ?? null, outputTokens: usage?.candidatesTokenCount ?? null },
+        };
+    }
+
+    async generateStream(request: LlmRequest, onDelta: (delta: string) => void, isCancelled?: () => boolean): Promise<LlmResult> {
+        const result = await withRetry(() => this.model(request).generateContentStream(request.parts));
+        let text = '';
+        for await (const chunk of result.stream) {
+            if (isCancelled?.()) {
+                // The SDK has no abort; usage is only known for completed responses
+                return { text, model: modelFor(request), usage: { inputTokens: null, outputTokens: null } };
+            }
+            const delta = chunk.text();
+            text += delta;
+            if (delta) onDelta(delta);
+        }
+        const usage = (await result.response).usageMetadata;
+        return {
+            text,
+            model: modelFor(request),
+            usage: { inputTokens: usage?.promptTokenCount ?? null, outputTokens: usage?.candidatesTokenCount ?? null },
+        };
+    }
+}
+
+// Canned answers that match what each task's caller expects to parse
+const MOCK_RESPONSES: Record<LlmTask, string> = {
+    chat: 'Bu, çevrimdışı deneme sağlayıcısından gelen örnek bir yanıttır. Konuyu adım adım birlikte çalışabiliriz: önce temel kavramları tekrar et, sonra birkaç örnek soru çöz.',
+    explanation: 'Seçtiğin cevap sorudaki koşulu karşılamıyor. Doğru cevaba ulaşmak için verilenleri tek tek yazıp hangi bilginin istendiğini belirle. Benzer sorularda seçenekleri elemeden önce soru kökünü dikkatlice oku. 💪',
+    imageAnalysis: 'Görselde bir denklem sorusu var. Önce bilinmeyeni yalnız bırak, sonra iki tarafı katsayıya böl.',
+    solution: JSON.stringify({
+        problemText: '2x + 3 = 11 denklemini çözünüz.',
+        subject: 'Matematik',
+        difficulty: 'Kolay',
+        steps: ['Her iki taraftan 3 çıkar: 2x = 8', 'Her iki tarafı 2\'ye böl: x = 4'],
+        finalAnswer: 'x = 4',
+    }),
+    contentQuestions: JSON.stringify([
+        { id: 'mock-q1', timestamp: 30, question: 'Ders içeriğinde ilk anlatılan kavram hangisidir?', options: ['A) Tanım', 'B) Örnek', 'C) Özet', 'D) Soru'], correctAnswer: 'A) Tanım' },
+        { id: 'mock-q2', timestamp: 120, question: 'Anlatılan yöntemin ilk adımı nedir?', options: ['A) Sonucu yazmak', 'B) Verilenleri belirlemek', 'C) Grafik çizmek', 'D) Tahmin etmek'], correctAnswer: 'B) Verilenleri belirlemek' },
+        { id: 'mock-q3', timestamp: 300, question: 'Konunun pekiştirilmesi için önerilen çalışma hangisidir?', options: ['A) Ezber', 'B) Tekrar okuma', 'C) Soru çözümü', 'D) Hiçbiri'], correctAnswer: 'C) Soru çözümü' },
+    ]),
+    interactiveQuestions: JSON.stringify([
+        { timestamp: 30, question: 'Videonun başında hangi konu tanıtıldı?', options: ['Giriş', 'Örnek', 'Özet', 'Test'], correctAnswer: 'Giriş' },
+        { timestamp: 120, question: 'Anlatılan yöntemin ilk adımı nedir?', options: ['Verilenleri yazmak', 'Sonucu tahmin etmek', 'Grafik çizmek', 'Şıkları elemek'], correctAnswer: 'Verilenleri yazmak' },
+        { timestamp: 240, question: 'Videonun sonunda hangi öneri verildi?', options: ['Bol soru çözmek', 'Konuyu atlamak', 'Sadece okumak', 'Hiçbiri'], correctAnswer: 'Bol soru çözmek' },
+    ]),
+    quiz: JSON.stringify([
+        { type: 'multiple-choice', text: '12 sayısının yarısı kaçtır?', options: ['4', '6', '8', '10'], correctAnswer: '6', explanation: '12 / 2 = 6' },
+        { type: 'matching', text: 'Kavramları tanımlarıyla eşleştir.', options: ['Toplama', 'Çarpma'], matchOptions: ['Tekrarlı toplama', 'Sayıları birleştirme'], correctAnswer: ['Sayıları birleştirme', 'Tekrarlı toplama'], explanation: 'Çarpma tekrarlı toplamadır.' },
+        { type: 'open-ended', text: '3 x 4 işleminin sonucu kaçtır?', correctAnswer: ['12', 'on iki'], explanation: '3 kere 4, 12 eder.' },
+    ]),
+    flashcards: JSON.stringify([
+        { front: 'Fotosentez nedir?', back: 'Bitkilerin ışık enerjisiyle karbondioksit ve sudan besin üretmesi.' },
+        { front: 'Fotosentez hangi organelde gerçekleşir?', back: 'Kloroplastta.' },
+    ]),
+    coachProfile: JSON.stringify({
+        name: 'AI Koçum',
+        style: 'Destekleyici ve planlı',
+        description: 'Sınav hazırlığında her gün yanında olan, çalışmalarını planlayan bir koç.',
+        dailyRoutine: ['Sabah kısa bir hedef belirleme', 'Öğleden sonra konu çalışması', 'Akşam günün değerlendirmesi'],
+        subjectFocus: ['Matematik'],
+        tone: 'Cesaretlendirici',
+        examTargetDate: '',
+        personalityTraits: { strictness: 5, humor: 5, supportiveness: 8, detailLevel: 6 },
+        motivationalMessages: ['Her gün küçük bir adım, sınav günü büyük bir fark yaratır!'],
+        studyTips: ['Pomodoro tekniğiyle 25 dakikalık bloklar halinde çalış.'],
+        weeklyGoals: ['Zayıf derslerinden en az 100 soru çöz.'],
+    }),
+    chatAttachment: JSON.stringify({
+        problemText: 'Fotoğraftaki soru: 3x - 5 = 10 denklemini çözünüz.',
+        subject: 'Matematik',
+        difficulty: 'Kolay',
+        steps: ['Her iki tarafa 5 ekle: 3x = 15', 'Her iki tarafı 3\'e böl: x = 5', 'Sonuç = 5'],
+        finalAnswer: 'x = 5',
+        tips: ['Denklemde bilinmeyeni yalnız bırakmak için ters işlemleri kullan.'],
+    }),
+    chatSummary: '- Öğrenci sınava hazırlanıyor ve düzenli bir çalışma planı istiyor.\n- Zorlandığı konular üzerinde birlikte çalışılıyor.\n- Koç her gün kısa hedefler belirlemeyi önerdi.',
+    coachCheckIn: 'Günaydın! Bugün için küçük ama net bir hedef koyalım: zayıf olduğun konudan 20 soru çöz ve yanlışlarını not al. Akşam nasıl geçtiğini bana yazmayı unutma! 💪',
+    lessonContent: '## Giriş\n\nBu ders içeriği çevrimdışı deneme sağlayıcısı tarafından üretildi.\n\n### Temel Kavramlar\n\n- **Tanım:** Konunun ana fikri\n- **Örnek:** Kavramın uygulaması\n\n## Özet\n\nKonuyu örnek sorularla pekiştir.',
+    pdfChunkSummary: '- **Ana kavram:** Bölümde anlatılan temel fikir\n- **Tanım:** Önemli terimlerin açıklaması\n- **Örnek:** Kavramı gösteren kısa bir uygulama',
+    pdfSummary: '## Genel Bakış\n\nBu özet çevrimdışı deneme sağlayıcısı tarafından üretildi.\n\n### Önemli Kavramlar\n\n- **Kavram 1:** Kısa açıklama\n- **Kavram 2:** Kısa açıklama\n\n## Akılda Kalması Gerekenler\n\n- Tanımları tekrar et\n- Örnek soruları çöz',
+};
+
+// Deterministic, offline stand-in for local development and tests
+class MockProvider implements LlmProvider {
+    readonly name = 'mock';
+
+    async generate(request: LlmRequest): Promise<LlmResult> {
+        const text = MOCK_RESPONSES[request.task];
+        return { text, model: `mock:${modelFor(request)}`, usage: { inputTokens: 0, outputTokens: 0 } };
+    }
+
+    async generateStream(request: LlmRequest, onDelta: (delta: string) => void, isCancelled?: () => boolean): Promise<LlmResult> {
+        const result = await this.generate(request);
+        // Kelime kelime akıt ki istemcideki akış arayüzü de denenebilsin
+        let text = '';
+        for (const delta of result.text.split(/(\s+)/).filter(Boolean)) {
+            if (isCancelled?.()) break;
+            await new Promise(resolve => setTimeout(resolve, 20));
+            text += delta;
+            onDelta(delta);
+        }
+        return { ...result, text };
+    }
+}
+
+const createLlmProvider = (): LlmProvider | null => {
+    const config = functions.config();
+    const providerName = process.env.LLM_PROVIDER || config.llm?.provider || 'gemini';
+    if (providerName === 'mock') {
+        logger.info("Using the mock LLM provider.");
+        return new MockProvider();
+    }
+    const apiKey = config.gemini?.key;
+    if (!apiKey) {
+        logger.error("GEMINI_API_KEY environment variable not set. Functions will not work.");
+        return null;
+    }
+    return new GeminiProvider(apiKey);
+};
+
+// Null when no provider is configured; callers answer with failed-precondition
+export const llm = createLlmProvider();
@@ -0,0 +1,267 @@
+import * as logger from "firebase-functions/logger";
+import { LlmProvider, LlmRequest, LlmResult } from "./llm";
+
+// Structured output: every task that expects JSON declares a schema here.
+// Responses are parsed and validated; on failure the model gets exactly one
+// repair prompt listing the problems, and a second failure surfaces as a
+// StructuredOutputError instead of made-up data.
+
+export type Schema =
+    | { type: 'string'; enum?: readonly string[]; minLength?: number }
+    | { type: 'number'; minimum?: number; maximum?: number }
+    | { type: 'array'; items: Schema; minItems?: number; maxItems?: number }
+    | {
+        type: 'object';
+        properties: Record<string, Schema>;
+        required: readonly string[];
+        // Cross-field rule, e.g. the correct answer must be one of the options
+        check?: (value: Record<string, unknown>) => string | null;
+    }
+    | { anyOf: readonly Schema[] };
+
+export type StructuredErrorCode = 'invalid_json' | 'schema_mismatch';
+
+export class StructuredOutputError extends Error {
+    constructor(
+        readonly code: StructuredErrorCode,
+        readonly issues: string[],
+    ) {
+        super(code === 'invalid_json' ? 'AI response was not valid JSON.' : 'AI response did not match the schema.');
+        this.name = 'StructuredOutputError';
+    }
+}
+
+// Returns a list of problems; empty when the value matches
+export const validateSchema = (schema: Schema, value: unknown, path = '$'): string[] => {
+    if ('anyOf' in schema) {
+        const attempts = schema.anyOf.map(option => validateSchema(option, value, path));
+        return attempts.some(issues => issues.length === 0) ? [] : attempts.reduce((a, b) => (a.length <= b.length ? a : b));
+    }
+
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') return [`${path}: metin olmalı`];
+            if (schema.minLength !== undefined && value.trim().length < schema.minLength) return [`${path}: boş olmamalı`];
+            if (schema.enum && !schema.enum.includes(value)) return [`${path}: şunlardan biri olmalı: ${schema.enum.join(', ')}`];
+            return [];
+        case 'number':
+            if (typeof value !== 'number' || Number.isNaN(value)) return [`${path}: sayı olmalı`];
+            if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: en az ${schema.minimum} olmalı`];
+            if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: en fazla ${schema.maximum} olmalı`];
+            return [];
+        case 'array': {
+            if (!Array.isArray(value)) return [`${path}: dizi olmalı`];
+            const issues: string[] = [];
+            if (schema.minItems !== undefined && value.length < schema.minItems) issues.push(`${path}: en az ${schema.minItems} öğe olmalı`);
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) issues.push(`${path}: en fazla ${schema.maxItems} öğe olmalı`);
+            value.forEach((item, index) => issues.push(...validateSchema(schema.items, item, `${path}[${index}]`)));
+            return issues;
+        }
+        case 'object': {
+            if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path}: nesne olmalı`];
+            const record = value as Record<string, unknown>;
+            const issues: string[] = [];
+            schema.required.forEach(key => {
+                if (record[key] === undefined || record[key] === null) issues.push(`${path}.${key}: zorunlu alan eksik`);
+            });
+            Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+                if (record[key] !== undefined && record[key] !== null) {
+                    issues.push(...validateSchema(propertySchema, record[key], `${path}.${key}`));
+                }
+            });
+            const checkIssue = issues.length === 0 && schema.check ? schema.check(record) : null;
+            return checkIssue ? [...issues, `${path}: ${checkIssue}`] : issues;
+        }
+    }
+};
+
+// JSON Schema-like description for the repair prompt; check functions are dropped
+const describeSchema = (schema: Schema) => JSON.stringify(schema, null, 2);
+
+// Models sometimes wrap JSON in Markdown fences despite JSON mode
+const parseJson = (text: string): unknown => {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+    return JSON.parse(fenced ? fenced[1].trim() : trimmed);
+};
+
+const check = (text: string, schema: Schema): { data?: unknown; error?: StructuredOutputError } => {
+    let data: unknown;
+    try {
+        data = parseJson(text);
+    } catch (error) {
+        return { error: new StructuredOutputError('invalid_json', [error instanceof Error ? error.message : 'JSON parse error']) };
+    }
+    const issues = validateSchema(schema, data);
+    return issues.length ? { error: new StructuredOutputError('schema_mismatch', issues.slice(0, 20)) } : { data };
+};
+
+export const generateStructured = async <T>(
+    provider: LlmProvider,
+    request: Omit<LlmRequest, 'json'>,
+    schema: Schema,
+): Promise<{ data: T; result: LlmResult; repaired: boolean }> => {
+    const first = await provider.generate({ ...request, json: true });
+    const firstCheck = check(first.text, schema);
+    if (!firstCheck.error) return { data: firstCheck.data as T, result: first, repaired: false };
+
+    logger.warn(`Structured output for ${request.task} failed, asking for a repair.`, { issues: firstCheck.error.issues });
+    const repairPrompt = `Önceki yanıtın beklenen JSON biçimine uymadı.
+Sorunlar:
+${firstCheck.error.issues.map(issue => `- ${issue}`).join('\n')}
+
+Beklenen şema:
+${describeSchema(schema)}
+
+Önceki yanıtın:
+${first.text}
+
+Aynı görevi yeniden yap ve YALNIZCA bu şemaya uyan geçerli JSON döndür. Açıklama veya Markdown ekleme.`;
+
+    const second = await provider.generate({ ...request, parts: [...request.parts, repairPrompt], json: true });
+    const secondCheck = check(second.text, schema);
+    const result: LlmResult = {
+        ...second,
+        usage: {
+            inputTokens: (first.usage.inputTokens ?? 0) + (second.usage.inputTokens ?? 0),
+            outputTokens: (first.usage.outputTokens ?? 0) + (second.usage.outputTokens ?? 0),
+        },
+    };
+    if (secondCheck.error) {
+        logger.error(`Structured output for ${request.task} failed after repair.`, { issues: secondCheck.error.issues });
+        throw secondCheck.error;
+    }
+    return { data: secondCheck.data as T, result, repaired: true };
+};
+
+// --- Task schemas ---
+
+const nonEmptyText = { type: 'string', minLength: 1 } as const;
+
+const optionsIncludeAnswer = (value: Record<string, unknown>) =>
+    (value.options as string[]).includes(value.correctAnswer as string) ? null : 'correctAnswer seçeneklerden biriyle birebir aynı olmalı';
+
+// Step-by-step solution of a photographed question
+export const SOLUTION_SCHEMA: Schema = {
+    type: 'object',
+    properties: {
+        problemText: nonEmptyText,
+        subject: nonEmptyText,
+        difficulty: { type: 'string', enum: ['Kolay', 'Orta', 'Zor'] },
+        steps: { type: 'array', items: nonEmptyText, minItems: 1 },
+        finalAnswer: nonEmptyText,
+        explanation: { type: 'string' },
+        tips: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['problemText', 'subject', 'difficulty', 'steps', 'finalAnswer'],
+};
+
+// Questions shown at timestamps while a lesson video plays
+export const INTERACTIVE_QUESTION_SET_SCHEMA: Schema = {
+    type: 'array',
+    minItems: 1,
+    maxItems: 10,
+    items: {
+        type: 'object',
+        properties: {
+            timestamp: { type: 'number', minimum: 0 },
+            question: nonEmptyText,
+            options: { type: 'array', items: nonEmptyText, minItems: 2, maxItems: 6 },
+            correctAnswer: nonEmptyText,
+        },
+        required: ['timestamp', 'question', 'options', 'correctAnswer'],
+        check: optionsIncludeAnswer,
+    },
+};
+
+// Study cards generated from a lesson's content
+export const FLASHCARD_SET_SCHEMA: Schema = {
+    type: 'array',
+    minItems: 1,
+    maxItems: 30,
+    items: {
+        type: 'object',
+        properties: {
+            front: nonEmptyText,
+            back: nonEmptyText,
+        },
+        required: ['front', 'back'],
+    },
+};
+
+const traitScore = { type: 'number', minimum: 1, maximum: 10 } as const;
+
+// Profile of a generated AI study coach
+export const COACH_PROFILE_SCHEMA: Schema = {
+    type: 'object',
+    properties: {
+        name: nonEmptyText,
+        style: nonEmptyText,
+        description: nonEmptyText,
+        dailyRoutine: { type: 'array', items: nonEmptyText },
+        subjectFocus: { type: 'array', items: nonEmptyText },
+        tone: nonEmptyText,
+        examTargetDate: { type: 'string' },
+        personalityTraits: {
+            type: 'object',
+            properties: { strictness: traitScore, humor: traitScore, supportiveness: traitScore, detailLevel: traitScore },
+            required: ['strictness', 'humor', 'supportiveness', 'detailLevel'],
+        },
+        motivationalMessages: { type: 'array', items: nonEmptyText },
+        studyTips: { type: 'array', items: nonEmptyText },
+        weeklyGoals: { type: 'array', items: nonEmptyText },
+    },
+    required: ['name', 'style', 'description', 'personalityTraits', 'motivationalMessages', 'studyTips', 'weeklyGoals'],
+};
+
+// Questions of a generated quiz; the shape depends on the question type
+export const QUIZ_SCHEMA: Schema = {
+    type: 'array',
+    minItems: 1,
+    maxItems: 30,
+    items: {
+        anyOf: [
+            {
+                type: 'object',
+                properties: {
+                    type: { type: 'string', enum: ['multiple-choice'] },
+                    text: nonEmptyText,
+                    options: { type: 'array', items: nonEmptyText, minItems: 2 },
+                    correctAnswer: nonEmptyText,
+                    explanation: { type: 'string' },
+                },
+                required: ['type', 'text', 'options', 'correctAnswer'],
+                check: optionsIncludeAnswer,
+            },
+            {
+                type: 'object',
+                properties: {
+                    type: { type: 'string', enum: ['matching'] },
+                    text: nonEmptyText,
+                    options: { type: 'array', items: nonEmptyText, minItems: 2 },
+                    matchOptions: { type: 'array', items: nonEmptyText, minItems: 2 },
+                    correctAnswer: { type: 'array', items: nonEmptyText },
+                    explanation: { type: 'string' },
+                },
+                required: ['type', 'text', 'options', 'matchOptions', 'correctAnswer'],
+                check: (value) => {
+                    const options = value.options as string[];
+                    const answers = value.correctAnswer as string[];
+                    const matches = value.matchOptions as string[];
+                    if (answers.length !== options.length) return 'correctAnswer her sol öğe için bir eş içermeli';
+                    return answers.every(answer => matches.includes(answer)) ? null : 'correctAnswer yalnızca matchOptions öğelerinden oluşmalı';
+                },
+            },
+            {
+                type: 'object',
+                properties: {
+                    type: { type: 'string', enum: ['open-ended'] },
+                    text: nonEmptyText,
+                    correctAnswer: { anyOf: [{ type: 'array', items: nonEmptyText, minItems: 1 }, nonEmptyText] },
+                    explanation: { type: 'string' },
+                },
+                required: ['type', 'text', 'correctAnswer'],
+            },
+        ],
+    },
+};
@@ -19,14 +19,21 @@ import ProfilePage from './pages/ProfilePage';
 import TopicExplainerPage from './pages/TopicExplainerPage';
 import CoachListPage from './pages/CoachListPage';
 import LeaderboardPage from './pages/LeaderboardPage';
-
-// Placeholder for upcoming features
-const ComingSoon = ({ title }: { title: string }) => (
-  <div className="p-8 text-center">
-    <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{title}</h1>
-    <p className="text-lg text-gray-500 mt-2">Bu özellik yakında sizlerle olacak!</p>
-  </div>
-);
+import QuizPage from './pages/QuizPage';
+import QuizTakePage from './pages/QuizTakePage';
+import FlashcardsPage from './pages/FlashcardsPage';
+import FlashcardDeckPage from './pages/FlashcardDeckPage';
+import FlashcardReviewPage from './pages/FlashcardReviewPage';
+import StudyPlanPage from './pages/StudyPlanPage';
+import SolvedQuestionsPage from './pages/SolvedQuestionsPage';
+import SolvedQuestionDetailPage from './pages/SolvedQuestionDetailPage';
+import PdfSummariesPage from './pages/PdfSummariesPage';
+import PdfSummaryDetailPage from './pages/PdfSummaryDetailPage';
+import TeacherPage from './pages/TeacherPage';
+import ClassDetailPage from './pages/ClassDetailPage';
+import TeacherLessonsPage from './pages/TeacherLessonsPage';
+import MyClassesPage from './pages/MyClassesPage';
+import CoachInboxPage from './pages/CoachInboxPage';
 
 // Wraps all routes that require authentication.
 // Redirects to /login if not authenticated.
@@ -63,6 +70,17 @@ const AdminRoute = ({ children }: { children: React.ReactNode }) => {
   return userData?.role === 'admin' ? <>{children}</> : <Navigate to="/dashboard" replace />;
 };
 
+// Wraps routes that are only for teachers (admins may use them too).
+const TeacherRoute = ({ children }: { children: React.ReactNode }) => {
+  const { userData, loading } = useAuth();
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center"><LoadingSpinner size="lg" /></div>;
+  }
+
+  return userData?.role === 'teacher' || userData?.role === 'admin' ? <>{children}</> : <Navigate to="/dashboard" replace />;
+};
+
 function App() {
   return (
     <ThemeProvider>
@@ -89,16 +107,29 @@ function App() {
               <Route path="/dashboard" element={<ProtectedRoute><Layout /></ProtectedRoute>}>
                 <Route index element={<Home />} />
                 <Route path="question-solver" element={<ProtectedRoute><QuestionSolver /></ProtectedRoute>} />
+                <Route path="solved-questions" element={<ProtectedRoute><SolvedQuestionsPage /></ProtectedRoute>} />
+                <Route path="solved-questions/:questionId" element={<ProtectedRoute><SolvedQuestionDetailPage /></ProtectedRoute>} />
                 <Route path="coach-generator" element={<ProtectedRoute><CoachGenerator /></ProtectedRoute>} />
                 <Route path="chat/:coachId" element={<ChatPage />} />
                 <Route path="lessons" element={<ProtectedRoute><LessonsPage /></ProtectedRoute>} />
                 <Route path="lessons/:lessonId" element={<ProtectedRoute><LessonDetailPage /></ProtectedRoute>} />
                 <Route path="topic-explainer" element={<ProtectedRoute><TopicExplainerPage /></ProtectedRoute>} />
+                <Route path="pdf-summaries" element={<ProtectedRoute><PdfSummariesPage /></ProtectedRoute>} />
+                <Route path="pdf-summaries/:summaryId" element={<ProtectedRoute><PdfSummaryDetailPage /></ProtectedRoute>} />
                 <Route path="profile" element={<ProtectedRoute><ProfilePage /></ProtectedRoute>} />
                 <Route path="leaderboard" element={<LeaderboardPage />} />
-                <Route path="quiz" element={<ComingSoon title="Test Çöz" />} />
-                <Route path="flashcards" element={<ComingSoon title="Kartlar" />} />
+                <Route path="quiz" element={<ProtectedRoute><QuizPage /></ProtectedRoute>} />
+                <Route path="quiz/:quizId" element={<ProtectedRoute><QuizTakePage /></ProtectedRoute>} />
+                <Route path="flashcards" element={<ProtectedRoute><FlashcardsPage /></ProtectedRoute>} />
+                <Route path="flashcards/review" element={<ProtectedRoute><FlashcardReviewPage /></ProtectedRoute>} />
+                <Route path="flashcards/:deckId" element={<ProtectedRoute><FlashcardDeckPage /></ProtectedRoute>} />
+                <Route path="study-plan" element={<ProtectedRoute><StudyPlanPage /></ProtectedRoute>} />
                 <Route path="coaches" element={<ProtectedRoute><CoachListPage /></ProtectedRoute>} />
+                <Route path="inbox" element={<ProtectedRoute><CoachInboxPage /></ProtectedRoute>} />
+                <Route path="classes" element={<ProtectedRoute><MyClassesPage /></ProtectedRoute>} />
+                <Route path="teacher" element={<TeacherRoute><TeacherPage /></TeacherRoute>} />
+                <Route path="teacher/classes/:classId" element={<TeacherRoute><ClassDetailPage /></TeacherRoute>} />
+                <Route path="teacher/lessons" element={<TeacherRoute><TeacherLessonsPage /></TeacherRoute>} />
                 <Route path="admin" element={<AdminRoute><AdminPage /></AdminRoute>} />
               </Route>
               
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { ACHIEVEMENTS, getMetricValue } from '../../lib/achievements';
+import { AchievementStats } from '../../types';
+
+interface AchievementGalleryProps {
+  stats: AchievementStats;
+  unlocked: Record<string, Date>;
+}
+
+const AchievementGallery: React.FC<AchievementGalleryProps> = ({ stats, unlocked }) => {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+      {ACHIEVEMENTS.map(achievement => {
+        const unlockedAt = unlocked[achievement.id];
+        const { metric, threshold } = achievement.condition;
+        const current = Math.min(getMetricValue(stats, metric), threshold);
+
+        return (
+          <div
+            key={achievement.id}
+            className={`rounded-xl p-4 border text-center transition-colors ${
+              unlockedAt
+                ? 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-300 dark:border-yellow-700'
+                : 'bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700'
+            }`}
+          >
+            <div className={`text-4xl mb-2 ${unlockedAt ? '' : 'grayscale opacity-40'}`}>{achievement.icon}</div>
+            <h3 className="font-semibold text-gray-900 dark:text-white flex items-center justify-center gap-1">
+              {!unlockedAt && <Lock className="w-3 h-3 text-gray-400" />}
+              {achievement.title}
+            </h3>
+            <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{achievement.description}</p>
+            {unlockedAt ? (
+              <p className="text-xs text-yellow-700 dark:text-yellow-400 mt-3">
+                {unlockedAt.toLocaleDateString('tr-TR')}
+                {achievement.xpReward > 0 && ` • +${achievement.xpReward} XP`}
+              </p>
+            ) : (
+              <div className="mt-3">
+                <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500" style={{ width: `${(current / threshold) * 100}%` }} />
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{current}/{threshold}</p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AchievementGallery;
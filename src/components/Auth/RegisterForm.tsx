@@ -126,7 +126,6 @@ const RegisterForm: React.FC = () => {
                 <option value="">Rol seçin</option>
                 <option value="student">Öğrenci</option>
                 <option value="teacher">Öğretmen</option>
-                <option value="admin">Yönetici</option>
               </select>
               {errors.role && (
                 <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.role.message}</p>
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Brain, Trash2, X, BookX, Camera, Star, Flame, CalendarCheck } from 'lucide-react';
+import { CoachMemory } from '../../types';
+import { MEMORY_WINDOW_DAYS } from '../../lib/coachMemory';
+
+interface CoachMemoryPanelProps {
+  memories: CoachMemory[];
+  onForget: (memory: CoachMemory) => void;
+  onForgetAll: () => void;
+  onClose: () => void;
+}
+
+const kindIcons: Record<CoachMemory['kind'], React.ElementType> = {
+  mistakes: BookX,
+  solvedQuestions: Camera,
+  xp: Star,
+  streak: Flame,
+  studyPlan: CalendarCheck,
+};
+
+const CoachMemoryPanel: React.FC<CoachMemoryPanelProps> = ({ memories, onForget, onForgetAll, onClose }) => (
+  <aside className="w-full sm:w-96 h-full flex flex-col bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700">
+    <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+      <h2 className="flex items-center font-bold text-gray-900 dark:text-white">
+        <Brain className="w-5 h-5 mr-2 text-indigo-500" /> Koçun Hafızası
+      </h2>
+      <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
+        <X size={18} />
+      </button>
+    </div>
+    <p className="px-4 pt-3 text-xs text-gray-500 dark:text-gray-400">
+      Koçun son {MEMORY_WINDOW_DAYS} gündeki çalışmalarından bunları hatırlıyor. Sildiğin bilgiler bir daha kullanılmaz.
+    </p>
+    <div className="flex-1 overflow-y-auto p-4 space-y-3">
+      {memories.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">Koçun şu an hatırladığı bir şey yok.</p>
+      ) : memories.map(memory => {
+        const Icon = kindIcons[memory.kind];
+        return (
+          <div key={memory.id} className="flex items-start gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+            <Icon className="w-4 h-4 mt-0.5 text-indigo-500 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-gray-800 dark:text-gray-200">{memory.text}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{memory.occurredAt.toLocaleDateString('tr-TR')}</p>
+            </div>
+            <button onClick={() => onForget(memory)} title="Unut" className="p-1 text-gray-400 hover:text-red-500">
+              <Trash2 size={16} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+    {memories.length > 0 && (
+      <div className="p-4 border-t border-gray-200 dark:border-gray-700">
+        <button onClick={onForgetAll} className="w-full py-2 text-sm font-medium text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg">
+          Tümünü unut
+        </button>
+      </div>
+    )}
+  </aside>
+);
+
+export default CoachMemoryPanel;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { ClipboardList, Loader, Target, Lightbulb, X } from 'lucide-react';
+import { AICoach } from '../../types';
+
+interface CoachProfilePanelProps {
+  coach: AICoach;
+  // The old wizard's coach is still being given a generated profile
+  isUpgrading: boolean;
+  onClose: () => void;
+}
+
+const sections: { key: 'dailyRoutine' | 'weeklyGoals' | 'studyTips'; title: string; icon: React.ElementType }[] = [
+  { key: 'dailyRoutine', title: 'Günlük Rutin', icon: ClipboardList },
+  { key: 'weeklyGoals', title: 'Haftalık Hedefler', icon: Target },
+  { key: 'studyTips', title: 'Çalışma İpuçları', icon: Lightbulb },
+];
+
+const CoachProfilePanel: React.FC<CoachProfilePanelProps> = ({ coach, isUpgrading, onClose }) => (
+  <aside className="w-full sm:w-96 h-full flex flex-col bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700">
+    <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+      <h2 className="flex items-center font-bold text-gray-900 dark:text-white">
+        <ClipboardList className="w-5 h-5 mr-2 text-indigo-500" /> Çalışma Planın
+      </h2>
+      <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
+        <X size={18} />
+      </button>
+    </div>
+    <div className="flex-1 overflow-y-auto p-4 space-y-6">
+      {coach.description && <p className="text-sm text-gray-600 dark:text-gray-300">{coach.description}</p>}
+      {isUpgrading ? (
+        <p className="flex items-center justify-center text-sm text-gray-500 dark:text-gray-400 py-8">
+          <Loader size={16} className="animate-spin mr-2" /> Koçun senin için plan hazırlıyor...
+        </p>
+      ) : sections.map(({ key, title, icon: Icon }) => coach[key].length > 0 && (
+        <section key={key}>
+          <h3 className="flex items-center text-sm font-semibold text-gray-900 dark:text-white mb-2">
+            <Icon className="w-4 h-4 mr-2 text-indigo-500" /> {title}
+          </h3>
+          <ul className="space-y-2">
+            {coach[key].map(item => (
+              <li key={item} className="text-sm text-gray-700 dark:text-gray-300 p-2 rounded-lg bg-gray-50 dark:bg-gray-700/50">{item}</li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  </aside>
+);
+
+export default CoachProfilePanel;
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import { AlertTriangle, Info, Lightbulb } from 'lucide-react';
+import 'katex/dist/katex.min.css';
+// Registers \ce{...} and \pu{...} for chemistry, e.g. $\ce{2H2 + O2 -> 2H2O}$
+import 'katex/contrib/mhchem';
+import { CALLOUT_TYPES, CalloutType, rehypeLessonBlocks } from '../../lib/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  // Renders without paragraphs, for one-line texts like solution steps
+  inline?: boolean;
+  className?: string;
+  // Renders a {{soru:id}} marker; markers are dropped when not given
+  renderQuestion?: (questionId: string) => React.ReactNode;
+}
+
+// Models often write \( \) and \[ \]; remark-math only understands $ and $$
+const normalizeMath = (text: string) =>
+  text
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math: string) => `\n$$\n${math.trim()}\n$$\n`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math: string) => `$${math.trim()}$`);
+
+const calloutStyles: Record<CalloutType, { icon: React.ElementType; className: string }> = {
+  note: { icon: Info, className: 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300' },
+  tip: { icon: Lightbulb, className: 'border-green-500 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300' },
+  warning: { icon: AlertTriangle, className: 'border-yellow-500 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-300' },
+};
+
+const baseComponents: Components = {
+  a: ({ href, title, children }) => <a href={href} title={title} target="_blank" rel="noopener noreferrer">{children}</a>,
+  img: ({ src, alt, title }) => <img src={src} alt={alt ?? ''} title={title} loading="lazy" className="rounded-lg max-w-full h-auto" />,
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+  blockquote: ({ node, children }) => {
+    const type = node?.properties.dataCallout as CalloutType | undefined;
+    if (!type || !calloutStyles[type]) return <blockquote>{children}</blockquote>;
+    const { icon: Icon, className } = calloutStyles[type];
+    return (
+      <div className={`not-prose my-4 border-l-4 rounded-r-lg p-4 ${className}`}>
+        <p className="flex items-center font-semibold mb-1">
+          <Icon className="w-4 h-4 mr-2" /> {CALLOUT_TYPES[type].label}
+        </p>
+        <div className="prose prose-sm dark:prose-invert max-w-none">{children}</div>
+      </div>
+    );
+  },
+};
+
+// Renders lesson and AI text: Markdown with tables, math and chemistry.
+// Raw HTML is never rendered and the tree is sanitized before KaTeX runs,
+// so content from the model or other users cannot inject markup.
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, inline = false, className = '', renderQuestion }) => {
+  const components = useMemo<Components>(() => ({
+    ...baseComponents,
+    div: ({ node, children, className: divClassName }) => {
+      const questionId = node?.properties.dataQuestionId;
+      if (typeof questionId !== 'string') return <div className={divClassName}>{children}</div>;
+      return renderQuestion ? <div className="not-prose my-4">{renderQuestion(questionId)}</div> : null;
+    },
+  }), [renderQuestion]);
+
+  const markdown = (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[rehypeSanitize, rehypeLessonBlocks, rehypeKatex]}
+      components={components}
+      disallowedElements={inline ? ['p'] : undefined}
+      unwrapDisallowed
+    >
+      {normalizeMath(content)}
+    </ReactMarkdown>
+  );
+
+  return inline
+    ? <span className={className}>{markdown}</span>
+    : <div className={`prose dark:prose-invert max-w-none prose-pre:overflow-x-auto ${className}`}>{markdown}</div>;
+};
+
+export default MarkdownContent;
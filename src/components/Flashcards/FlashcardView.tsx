@@ -0,0 +1,31 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Flashcard } from '../../types';
+
+interface FlashcardViewProps {
+  card: Flashcard;
+  flipped: boolean;
+  onFlip: () => void;
+}
+
+const FlashcardView: React.FC<FlashcardViewProps> = ({ card, flipped, onFlip }) => (
+  <div className="w-full h-80 cursor-pointer [perspective:1000px]" onClick={onFlip}>
+    <motion.div
+      className="relative w-full h-full [transform-style:preserve-3d]"
+      animate={{ rotateY: flipped ? 180 : 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      <div className="absolute inset-0 [backface-visibility:hidden] bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 p-8 flex flex-col items-center justify-center text-center">
+        <span className="text-xs uppercase tracking-wide text-indigo-500 mb-4">Soru</span>
+        <p className="text-xl text-gray-900 dark:text-white whitespace-pre-line overflow-y-auto">{card.front}</p>
+        <span className="absolute bottom-4 text-xs text-gray-400">Cevabı görmek için tıkla</span>
+      </div>
+      <div className="absolute inset-0 [backface-visibility:hidden] [transform:rotateY(180deg)] bg-indigo-50 dark:bg-indigo-900/30 rounded-2xl shadow-lg border border-indigo-200 dark:border-indigo-800 p-8 flex flex-col items-center justify-center text-center">
+        <span className="text-xs uppercase tracking-wide text-indigo-500 mb-4">Cevap</span>
+        <p className="text-lg text-gray-900 dark:text-white whitespace-pre-line overflow-y-auto">{card.back}</p>
+      </div>
+    </motion.div>
+  </div>
+);
+
+export default FlashcardView;
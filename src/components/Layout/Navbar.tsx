@@ -1,7 +1,10 @@
-import React from 'react';
-import { Menu, Sun, Moon } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Menu, Sun, Moon, Bell } from 'lucide-react';
 import UserProfileDropdown from './UserProfileDropdown';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { coachInboxService } from '../../lib/coachInbox';
 
 interface NavbarProps {
     toggleSidebar: () => void;
@@ -9,6 +12,13 @@ interface NavbarProps {
 
 const Navbar: React.FC<NavbarProps> = ({ toggleSidebar }) => {
     const { isDark, toggleTheme } = useTheme();
+    const { currentUser } = useAuth();
+    const [unreadCount, setUnreadCount] = useState(0);
+
+    useEffect(() => {
+        if (!currentUser) return;
+        return coachInboxService.subscribeToUnreadCount(currentUser.uid, setUnreadCount);
+    }, [currentUser]);
 
     return (
         <header className="sticky top-0 z-30 flex h-16 items-center justify-between gap-4 border-b bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm px-4 md:px-6">
@@ -21,6 +31,20 @@ const Navbar: React.FC<NavbarProps> = ({ toggleSidebar }) => {
             </button>
             
             <div className="flex items-center gap-4">
+                <Link
+                    to="/dashboard/inbox"
+                    className="relative p-2 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                    aria-label="Koç Mesajları"
+                    title="Koç Mesajları"
+                >
+                    <Bell className="h-5 w-5" />
+                    {unreadCount > 0 && (
+                        <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full bg-red-500 text-white text-xs font-bold">
+                            {unreadCount > 9 ? '9+' : unreadCount}
+                        </span>
+                    )}
+                </Link>
+
                 <button
                     onClick={toggleTheme}
                     className="p-2 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
@@ -3,7 +3,7 @@ import { useLocation, Link } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
-    LayoutDashboard, BookOpen, MessageSquare, BrainCircuit, Shield, ChevronLeft, ChevronRight, Trophy
+    LayoutDashboard, BookOpen, MessageSquare, BrainCircuit, Shield, ChevronLeft, ChevronRight, Trophy, ClipboardList, Layers, CalendarDays, FileText, Users, GraduationCap
 } from 'lucide-react';
 import logo from '/logo.jpg';
 
@@ -31,8 +31,17 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, setIsOpen }) => {
         { name: 'Dersler', path: '/dashboard/lessons', icon: BookOpen },
         { name: 'AI Koç', path: '/dashboard/coaches', icon: MessageSquare },
         { name: 'Soru Çöz', path: '/dashboard/question-solver', icon: BrainCircuit },
+        { name: 'Test Çöz', path: '/dashboard/quiz', icon: ClipboardList },
+        { name: 'Kartlar', path: '/dashboard/flashcards', icon: Layers },
+        { name: 'Çalışma Planı', path: '/dashboard/study-plan', icon: CalendarDays },
+        { name: 'PDF Özetle', path: '/dashboard/pdf-summaries', icon: FileText },
         { name: 'Skor Tablosu', path: '/dashboard/leaderboard', icon: Trophy },
+        { name: 'Sınıflarım', path: '/dashboard/classes', icon: Users },
     ];
+
+    const teacherNav = userData?.role === 'teacher' || userData?.role === 'admin' ? [
+        { name: 'Öğretmen Paneli', path: '/dashboard/teacher', icon: GraduationCap },
+    ] : [];
     
     const adminNav = userData?.role === 'admin' ? [
         { name: 'Admin Panel', path: '/dashboard/admin', icon: Shield },
@@ -64,7 +73,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, setIsOpen }) => {
             
             <div className="flex-1 overflow-y-auto overflow-x-hidden">
                 <nav className="flex flex-col gap-2 px-4 py-4">
-                    {[...navLinks, ...adminNav].map((item) => {
+                    {[...navLinks, ...teacherNav, ...adminNav].map((item) => {
                         const isActive = pathname === item.path || (item.path !== '/dashboard' && pathname.startsWith(item.path));
                         return (
                             <Link to={item.path} key={item.name} title={isOpen ? undefined : item.name}
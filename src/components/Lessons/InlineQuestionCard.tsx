@@ -0,0 +1,55 @@
+import React from 'react';
+import { CheckCircle, HelpCircle } from 'lucide-react';
+import { InteractiveQuestion } from '../../lib/supabase';
+
+interface InlineQuestionCardProps {
+  // Undefined when the marker points to a deleted question
+  question?: InteractiveQuestion;
+  answered?: boolean;
+  // Opens the answer dialog; without it the card is a read-only preview
+  onOpen?: () => void;
+}
+
+// An interactive question placed in the lesson text with {{soru:id}}
+const InlineQuestionCard: React.FC<InlineQuestionCardProps> = ({ question, answered = false, onOpen }) => {
+  if (!question) {
+    return (
+      <div className="p-4 rounded-lg border border-dashed border-red-300 text-sm text-red-600 dark:text-red-400">
+        Bu soru artık derste yok.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 rounded-xl border border-indigo-200 dark:border-indigo-800 bg-indigo-50 dark:bg-indigo-900/20">
+      <p className="flex items-center text-sm font-semibold text-indigo-700 dark:text-indigo-300 mb-2">
+        <HelpCircle className="w-4 h-4 mr-2" /> Soru
+      </p>
+      <p className="text-gray-900 dark:text-white mb-3">{question.question}</p>
+      {onOpen ? (
+        answered ? (
+          <p className="flex items-center text-sm font-medium text-green-600 dark:text-green-400">
+            <CheckCircle className="w-4 h-4 mr-2" /> Cevapladın
+          </p>
+        ) : (
+          <button onClick={onOpen} className="px-4 py-2 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">
+            Soruyu Cevapla
+          </button>
+        )
+      ) : (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+          {question.options.map(option => (
+            <li
+              key={option}
+              className={`px-3 py-2 rounded-lg bg-white dark:bg-gray-800 ${option === question.correctAnswer ? 'ring-2 ring-green-500' : ''}`}
+            >
+              {option}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default InlineQuestionCard;
@@ -0,0 +1,319 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AlertTriangle, Bold, Code, Columns, Eye, FlaskConical, Heading2, Heading3, HelpCircle, Image as ImageIcon,
+  Info, Italic, Lightbulb, List, ListOrdered, Loader, PenLine, Sigma,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { InteractiveQuestion, lessonService } from '../../lib/supabase';
+import { calloutMarkdown, CalloutType, CALLOUT_TYPES, questionMarker } from '../../lib/markdown';
+import { lessonDraftStore, LessonDraft } from '../../lib/lessonDrafts';
+import MarkdownContent from '../Common/MarkdownContent';
+import InlineQuestionCard from './InlineQuestionCard';
+
+interface LessonEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // The content as last saved; autosave keeps a local draft while they differ
+  savedValue: string;
+  // Local autosave slot, e.g. the lesson id
+  draftKey: string;
+  // Folder in the lesson-files bucket for pasted and dropped images; images are disabled without it
+  uploadPath?: string;
+  // Questions that can be placed in the text
+  questions?: InteractiveQuestion[];
+}
+
+type ViewMode = 'write' | 'split' | 'preview';
+
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+const AUTOSAVE_DELAY = 1000;
+
+const formulaTemplates = [
+  { label: 'Satır içi formül', snippet: '$x^2 + y^2 = z^2$' },
+  { label: 'Blok formül', snippet: '\n$$\nF = m \\cdot a\n$$\n' },
+  { label: 'Kesir', snippet: '$\\frac{a}{b}$' },
+  { label: 'Karekök', snippet: '$\\sqrt{x}$' },
+  { label: 'Toplam', snippet: '$\\sum_{i=1}^{n} i$' },
+  { label: 'İntegral', snippet: '$\\int_{a}^{b} f(x)\\,dx$' },
+  { label: 'Limit', snippet: '$\\lim_{x \\to 0} \\frac{\\sin x}{x}$' },
+];
+
+const chemistryTemplates = [
+  { label: 'Molekül', snippet: '$\\ce{H2SO4}$' },
+  { label: 'Tepkime', snippet: '$\\ce{2H2 + O2 -> 2H2O}$' },
+  { label: 'Denge tepkimesi', snippet: '$\\ce{N2 + 3H2 <=> 2NH3}$' },
+  { label: 'İyon', snippet: '$\\ce{SO4^2-}$' },
+];
+
+const calloutIcons: Record<CalloutType, React.ElementType> = { note: Info, tip: Lightbulb, warning: AlertTriangle };
+
+const toolButtonClass = 'p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40';
+
+// Markdown editor for lesson content with live preview, image upload,
+// formula and callout insertion, inline questions and local autosave
+const LessonEditor: React.FC<LessonEditorProps> = ({ value, onChange, savedValue, draftKey, uploadPath, questions = [] }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Uploads finish after later keystrokes; placeholders are replaced in the latest text
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  const savedValueRef = useRef(savedValue);
+  savedValueRef.current = savedValue;
+  const [viewMode, setViewMode] = useState<ViewMode>('split');
+  const [openMenu, setOpenMenu] = useState<'formula' | 'chemistry' | 'question' | null>(null);
+  const [uploadCount, setUploadCount] = useState(0);
+  const [restorableDraft, setRestorableDraft] = useState<LessonDraft | null>(null);
+  const [lastAutosave, setLastAutosave] = useState<number | null>(null);
+
+  // Offer a draft left over from an earlier session; checked once per lesson,
+  // not after every save
+  useEffect(() => {
+    const draft = lessonDraftStore.load(draftKey);
+    setRestorableDraft(draft && draft.content !== savedValueRef.current ? draft : null);
+    setLastAutosave(null);
+  }, [draftKey]);
+
+  useEffect(() => {
+    if (restorableDraft) return;
+    const timer = setTimeout(() => {
+      if (value === savedValue) {
+        lessonDraftStore.clear(draftKey);
+        setLastAutosave(null);
+      } else {
+        lessonDraftStore.save(draftKey, value);
+        setLastAutosave(Date.now());
+      }
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [value, savedValue, draftKey, restorableDraft]);
+
+  const restoreDraft = () => {
+    if (!restorableDraft) return;
+    onChange(restorableDraft.content);
+    setRestorableDraft(null);
+  };
+
+  const discardDraft = () => {
+    lessonDraftStore.clear(draftKey);
+    setRestorableDraft(null);
+  };
+
+  // Wraps the selection in before/after, or inserts placeholder between them
+  const insert = useCallback((before: string, after = '', placeholder = '') => {
+    const textarea = textareaRef.current;
+    const current = valueRef.current;
+    const start = textarea?.selectionStart ?? current.length;
+    const end = textarea?.selectionEnd ?? current.length;
+    const selected = current.slice(start, end) || placeholder;
+    onChange(current.slice(0, start) + before + selected + after + current.slice(end));
+    setOpenMenu(null);
+    requestAnimationFrame(() => {
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(start + before.length, start + before.length + selected.length);
+    });
+  }, [onChange]);
+
+  // Block elements go on their own lines
+  const insertBlock = (block: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? valueRef.current.length;
+    const needsBreak = start > 0 && valueRef.current[start - 1] !== '\n';
+    insert(`${needsBreak ? '\n\n' : ''}${block}\n\n`);
+  };
+
+  const prefixLines = (prefix: string | ((index: number) => string), placeholder: string) => {
+    const textarea = textareaRef.current;
+    const current = valueRef.current;
+    const start = textarea?.selectionStart ?? current.length;
+    const end = textarea?.selectionEnd ?? current.length;
+    const lineStart = current.lastIndexOf('\n', start - 1) + 1;
+    const lines = (current.slice(lineStart, end) || placeholder).split('\n');
+    const prefixed = lines.map((line, index) => (typeof prefix === 'string' ? prefix : prefix(index)) + line).join('\n');
+    onChange(current.slice(0, lineStart) + prefixed + current.slice(end));
+    requestAnimationFrame(() => textarea?.focus());
+  };
+
+  const uploadImages = async (files: File[]) => {
+    if (!uploadPath) return;
+    const images = files.filter(file => file.type.startsWith('image/'));
+    for (const file of images) {
+      if (file.size > MAX_IMAGE_SIZE) {
+        toast.error(`${file.name} 10MB'dan büyük.`);
+        continue;
+      }
+      const placeholder = `![Yükleniyor: ${file.name}]()`;
+      insert(placeholder);
+      setUploadCount(count => count + 1);
+      try {
+        const url = await lessonService.uploadFile(file, `${uploadPath}/${Date.now()}_${file.name.replace(/[^\w.-]/g, '_')}`);
+        onChange(valueRef.current.replace(placeholder, `![${file.name}](${url})`));
+      } catch (error) {
+        console.error('Image upload failed:', error);
+        onChange(valueRef.current.replace(placeholder, ''));
+        toast.error(`${file.name} yüklenemedi.`);
+      } finally {
+        setUploadCount(count => count - 1);
+      }
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (!uploadPath || !files.some(file => file.type.startsWith('image/'))) return;
+    e.preventDefault();
+    uploadImages(files);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.dataTransfer.files);
+    if (!uploadPath || files.length === 0) return;
+    e.preventDefault();
+    // Inserted at the cursor, like a paste
+    textareaRef.current?.focus();
+    uploadImages(files);
+  };
+
+  const renderQuestion = useCallback((questionId: string) => (
+    <InlineQuestionCard question={questions.find(q => q.id === questionId)} />
+  ), [questions]);
+
+  const menu = (items: { label: string; snippet: string }[]) => (
+    <div className="absolute z-10 mt-1 w-56 rounded-lg shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 py-1">
+      {items.map(item => (
+        <button
+          key={item.label}
+          type="button"
+          onClick={() => (item.snippet.startsWith('\n') ? insertBlock(item.snippet.trim()) : insert(item.snippet))}
+          className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          {item.label}
+          <span className="block font-mono text-xs text-gray-400 truncate">{item.snippet.trim()}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="border border-gray-300 dark:border-gray-600 rounded-lg overflow-hidden">
+      {restorableDraft && (
+        <div className="flex flex-wrap items-center gap-3 px-3 py-2 bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-300">
+          <span>Kaydedilmemiş bir taslağın var ({new Date(restorableDraft.savedAt).toLocaleString('tr-TR')}).</span>
+          <button type="button" onClick={restoreDraft} className="font-semibold underline">Geri Yükle</button>
+          <button type="button" onClick={discardDraft} className="underline">Yoksay</button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1 bg-gray-100 dark:bg-gray-800 border-b border-gray-300 dark:border-gray-600">
+        <button type="button" title="Başlık" onClick={() => prefixLines('## ', 'Başlık')} className={toolButtonClass}><Heading2 size={16} /></button>
+        <button type="button" title="Alt başlık" onClick={() => prefixLines('### ', 'Alt başlık')} className={toolButtonClass}><Heading3 size={16} /></button>
+        <button type="button" title="Kalın" onClick={() => insert('**', '**', 'kalın metin')} className={toolButtonClass}><Bold size={16} /></button>
+        <button type="button" title="İtalik" onClick={() => insert('*', '*', 'italik metin')} className={toolButtonClass}><Italic size={16} /></button>
+        <button type="button" title="Liste" onClick={() => prefixLines('- ', 'Madde')} className={toolButtonClass}><List size={16} /></button>
+        <button type="button" title="Numaralı liste" onClick={() => prefixLines(index => `${index + 1}. `, 'Madde')} className={toolButtonClass}><ListOrdered size={16} /></button>
+        <button type="button" title="Kod bloğu" onClick={() => insert('\n```\n', '\n```\n', 'kod')} className={toolButtonClass}><Code size={16} /></button>
+
+        <span className="w-px h-5 bg-gray-300 dark:bg-gray-600 mx-1" />
+
+        <div className="relative">
+          <button type="button" title="Formül" onClick={() => setOpenMenu(openMenu === 'formula' ? null : 'formula')} className={toolButtonClass}><Sigma size={16} /></button>
+          {openMenu === 'formula' && menu(formulaTemplates)}
+        </div>
+        <div className="relative">
+          <button type="button" title="Kimya" onClick={() => setOpenMenu(openMenu === 'chemistry' ? null : 'chemistry')} className={toolButtonClass}><FlaskConical size={16} /></button>
+          {openMenu === 'chemistry' && menu(chemistryTemplates)}
+        </div>
+        {(Object.keys(CALLOUT_TYPES) as CalloutType[]).map(type => {
+          const Icon = calloutIcons[type];
+          return (
+            <button key={type} type="button" title={CALLOUT_TYPES[type].label} onClick={() => insertBlock(calloutMarkdown(type, CALLOUT_TYPES[type].label))} className={toolButtonClass}>
+              <Icon size={16} />
+            </button>
+          );
+        })}
+        <label title={uploadPath ? 'Görsel ekle' : 'Görsel yükleme bu editörde kapalı'} className={`${toolButtonClass} ${uploadPath ? 'cursor-pointer' : 'opacity-40 cursor-not-allowed'}`}>
+          <ImageIcon size={16} />
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            disabled={!uploadPath}
+            onChange={(e) => {
+              uploadImages(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <div className="relative">
+          <button
+            type="button"
+            title={questions.length ? 'Soru yerleştir' : 'Önce derse interaktif soru ekleyin'}
+            disabled={questions.length === 0}
+            onClick={() => setOpenMenu(openMenu === 'question' ? null : 'question')}
+            className={toolButtonClass}
+          >
+            <HelpCircle size={16} />
+          </button>
+          {openMenu === 'question' && (
+            <div className="absolute z-10 mt-1 w-72 rounded-lg shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 py-1">
+              {questions.map(question => (
+                <button
+                  key={question.id}
+                  type="button"
+                  onClick={() => insertBlock(questionMarker(question.id))}
+                  className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 truncate"
+                >
+                  {question.question}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="ml-auto flex items-center gap-1">
+          {uploadCount > 0 && <Loader size={16} className="animate-spin text-gray-400 mr-2" />}
+          {lastAutosave && (
+            <span className="text-xs text-gray-500 dark:text-gray-400 mr-2">
+              Taslak bu cihaza kaydedildi • {new Date(lastAutosave).toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}
+            </span>
+          )}
+          {([['write', PenLine, 'Yaz'], ['split', Columns, 'Yan yana'], ['preview', Eye, 'Önizleme']] as const).map(([mode, Icon, label]) => (
+            <button
+              key={mode}
+              type="button"
+              title={label}
+              onClick={() => setViewMode(mode)}
+              className={`${toolButtonClass} ${viewMode === mode ? 'bg-white dark:bg-gray-700 text-indigo-600 dark:text-indigo-400 shadow-sm' : ''}`}
+            >
+              <Icon size={16} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`grid ${viewMode === 'split' ? 'grid-cols-1 lg:grid-cols-2' : 'grid-cols-1'} h-[28rem]`}>
+        {viewMode !== 'preview' && (
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onPaste={handlePaste}
+            onDrop={handleDrop}
+            placeholder={uploadPath ? 'Markdown ile yaz. Görselleri yapıştırabilir veya sürükleyip bırakabilirsin.' : 'Markdown ile yaz.'}
+            className="w-full h-full p-4 font-mono text-sm resize-none bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none"
+          />
+        )}
+        {viewMode !== 'write' && (
+          <div className="h-full overflow-y-auto p-4 bg-white dark:bg-gray-800 border-t lg:border-t-0 lg:border-l border-gray-200 dark:border-gray-700">
+            {value.trim()
+              ? <MarkdownContent content={value} renderQuestion={renderQuestion} />
+              : <p className="text-sm text-gray-400">Önizleme burada görünecek.</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LessonEditor;
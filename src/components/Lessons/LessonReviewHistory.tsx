@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, History, Loader } from 'lucide-react';
+import { lessonService, LessonReview } from '../../lib/supabase';
+import LessonStatusBadge from './LessonStatusBadge';
+
+interface LessonReviewHistoryProps {
+  lessonId: string;
+  // Bumped by the parent after a transition so the list reloads
+  refreshKey?: number;
+}
+
+const LessonReviewHistory: React.FC<LessonReviewHistoryProps> = ({ lessonId, refreshKey }) => {
+  const [reviews, setReviews] = useState<LessonReview[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    lessonService.getReviewHistory(lessonId)
+      .then(setReviews)
+      .catch(error => console.error('Error fetching review history:', error))
+      .finally(() => setLoading(false));
+  }, [lessonId, refreshKey]);
+
+  return (
+    <section>
+      <h3 className="flex items-center text-sm font-semibold text-gray-900 dark:text-white mb-2">
+        <History className="w-4 h-4 mr-2 text-indigo-500" /> İnceleme Geçmişi
+      </h3>
+      {loading ? (
+        <p className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+          <Loader size={14} className="animate-spin mr-2" /> Yükleniyor...
+        </p>
+      ) : reviews.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Bu ders henüz incelemeye gönderilmedi.</p>
+      ) : (
+        <ol className="space-y-2">
+          {reviews.map(review => (
+            <li key={review.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <LessonStatusBadge status={review.from_status} />
+                <ArrowRight className="w-3 h-3" />
+                <LessonStatusBadge status={review.to_status} />
+                <span className="ml-auto">
+                  {review.actor_name || 'Bilinmeyen kullanıcı'} • {new Date(review.created_at).toLocaleString('tr-TR')}
+                </span>
+              </div>
+              {review.comment && <p className="text-sm text-gray-700 dark:text-gray-300 mt-2 whitespace-pre-wrap">{review.comment}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+export default LessonReviewHistory;
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bot, GitCompare, History, Loader, RotateCcw, User, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { lessonService, Lesson, LessonRevision, RevisionSource } from '../../lib/supabase';
+import { diffLines, DiffRow } from '../../lib/diff';
+
+interface LessonRevisionsProps {
+  lessonId: string;
+  // Changes after every save so the list reloads
+  refreshKey?: string;
+  onRestore: (lesson: Lesson) => void;
+}
+
+const sourceLabels: Record<RevisionSource, { label: string; icon: React.ElementType; className: string }> = {
+  human: { label: 'Elle yazıldı', icon: User, className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300' },
+  ai: { label: 'AI üretti', icon: Bot, className: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300' },
+  rollback: { label: 'Geri alındı', icon: RotateCcw, className: 'bg-gray-100 text-gray-800 dark:bg-gray-600 dark:text-gray-200' },
+};
+
+const rowClasses: Record<DiffRow['kind'], [string, string]> = {
+  same: ['', ''],
+  changed: ['bg-red-50 dark:bg-red-900/20', 'bg-green-50 dark:bg-green-900/20'],
+  removed: ['bg-red-50 dark:bg-red-900/20', 'bg-gray-50 dark:bg-gray-800'],
+  added: ['bg-gray-50 dark:bg-gray-800', 'bg-green-50 dark:bg-green-900/20'],
+};
+
+// Changes outside the Markdown content, listed above the diff
+const otherChanges = (from: LessonRevision, to: LessonRevision) => {
+  const changes: string[] = [];
+  if (from.title !== to.title) changes.push(`Başlık: "${from.title}" → "${to.title}"`);
+  if (from.subject !== to.subject || from.grade_level !== to.grade_level) {
+    changes.push(`Ders: ${from.subject} • ${from.grade_level} → ${to.subject} • ${to.grade_level}`);
+  }
+  if (from.video_url !== to.video_url) changes.push('Video değişti');
+  if (from.cover_image_url !== to.cover_image_url) changes.push('Kapak fotoğrafı değişti');
+  if (JSON.stringify(from.attachments) !== JSON.stringify(to.attachments)) {
+    changes.push(`Ekler: ${from.attachments.length} → ${to.attachments.length} dosya`);
+  }
+  if (JSON.stringify(from.interactive_questions) !== JSON.stringify(to.interactive_questions)) {
+    changes.push(`İnteraktif sorular: ${from.interactive_questions.length} → ${to.interactive_questions.length} soru`);
+  }
+  return changes;
+};
+
+const RevisionDiff: React.FC<{ from: LessonRevision; to: LessonRevision; onClose: () => void }> = ({ from, to, onClose }) => {
+  const rows = useMemo(() => diffLines(from.content, to.content), [from, to]);
+  const changes = otherChanges(from, to);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="flex items-center text-lg font-semibold text-gray-900 dark:text-white">
+            <GitCompare className="w-5 h-5 mr-2 text-indigo-500" /> Sürüm {from.revision_number} ↔ Sürüm {to.revision_number}
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"><X className="w-5 h-5" /></button>
+        </div>
+        {changes.length > 0 && (
+          <ul className="px-4 pt-3 text-sm text-gray-600 dark:text-gray-300 list-disc list-inside">
+            {changes.map(change => <li key={change}>{change}</li>)}
+          </ul>
+        )}
+        <div className="p-4 overflow-auto">
+          <table className="w-full table-fixed font-mono text-xs">
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index}>
+                  <td className="w-10 pr-2 text-right text-gray-400 align-top select-none">{row.left?.number}</td>
+                  <td className={`px-2 whitespace-pre-wrap break-words align-top text-gray-800 dark:text-gray-200 ${rowClasses[row.kind][0]}`}>{row.left?.text}</td>
+                  <td className="w-10 pr-2 text-right text-gray-400 align-top select-none">{row.right?.number}</td>
+                  <td className={`px-2 whitespace-pre-wrap break-words align-top text-gray-800 dark:text-gray-200 ${rowClasses[row.kind][1]}`}>{row.right?.text}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const LessonRevisions: React.FC<LessonRevisionsProps> = ({ lessonId, refreshKey, onRestore }) => {
+  const [revisions, setRevisions] = useState<LessonRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Ids of the two revisions to compare, older one first
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    lessonService.getRevisions(lessonId)
+      .then(list => {
+        setRevisions(list);
+        // Compare the last two saves unless the admin picks others
+        setSelected(list.length >= 2 ? [list[1].id, list[0].id] : []);
+      })
+      .catch(error => {
+        console.error('Error fetching revisions:', error);
+        toast.error('Sürüm geçmişi yüklenemedi.');
+      })
+      .finally(() => setLoading(false));
+  }, [lessonId, refreshKey]);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id].slice(-2);
+      const number = (revisionId: string) => revisions.find(r => r.id === revisionId)?.revision_number ?? 0;
+      return next.sort((a, b) => number(a) - number(b));
+    });
+  };
+
+  const handleRestore = async (revision: LessonRevision) => {
+    if (!window.confirm(`Ders, ${revision.revision_number}. sürümdeki haline döndürülsün mü? Mevcut hali geçmişte kalır.`)) return;
+    setRestoringId(revision.id);
+    try {
+      onRestore(await lessonService.restoreRevision(revision.id));
+      toast.success(`Sürüm ${revision.revision_number} geri yüklendi.`);
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Sürüm geri yüklenemedi.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const compared = selected.map(id => revisions.find(r => r.id === id)).filter((r): r is LessonRevision => !!r);
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="flex items-center text-lg font-semibold text-gray-900 dark:text-gray-200">
+          <History className="w-5 h-5 mr-2" /> Sürüm Geçmişi
+        </h4>
+        <button
+          onClick={() => setIsComparing(true)}
+          disabled={compared.length !== 2}
+          className="flex items-center text-sm font-medium px-3 py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white"
+        >
+          <GitCompare className="w-4 h-4 mr-1" /> Karşılaştır
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">Karşılaştırmak için iki sürüm seç.</p>
+      {loading ? (
+        <p className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+          <Loader size={14} className="animate-spin mr-2" /> Yükleniyor...
+        </p>
+      ) : (
+        <ul className="space-y-2 max-h-72 overflow-y-auto">
+          {revisions.map((revision, index) => {
+            const source = sourceLabels[revision.source];
+            return (
+              <li key={revision.id} className="flex items-center gap-3 p-3 rounded-lg bg-white dark:bg-gray-700/50">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(revision.id)}
+                  onChange={() => toggleSelected(revision.id)}
+                  className="h-4 w-4 text-indigo-600 rounded"
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                    Sürüm {revision.revision_number}
+                    {index === 0 && <span className="text-xs text-green-600 dark:text-green-400">(güncel)</span>}
+                    <span className={`inline-flex items-center px-2 text-xs leading-5 font-semibold rounded-full ${source.className}`}>
+                      <source.icon className="w-3 h-3 mr-1" /> {source.label}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {revision.author_name || 'Bilinmeyen kullanıcı'} • {new Date(revision.created_at).toLocaleString('tr-TR')}
+                  </p>
+                </div>
+                {index > 0 && (
+                  <button
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoringId !== null}
+                    className="flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 disabled:opacity-50"
+                  >
+                    {restoringId === revision.id ? <Loader className="w-4 h-4 animate-spin" /> : <><RotateCcw className="w-4 h-4 mr-1" /> Geri Yükle</>}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {isComparing && compared.length === 2 && (
+        <RevisionDiff from={compared[0]} to={compared[1]} onClose={() => setIsComparing(false)} />
+      )}
+    </section>
+  );
+};
+
+export default LessonRevisions;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { LESSON_STATUS_LABELS, LessonStatus } from '../../lib/supabase';
+
+const statusClasses: Record<LessonStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800 dark:bg-gray-600 dark:text-gray-200',
+  in_review: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  approved: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+const LessonStatusBadge: React.FC<{ status: LessonStatus }> = ({ status }) => (
+  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusClasses[status]}`}>
+    {LESSON_STATUS_LABELS[status]}
+  </span>
+);
+
+export default LessonStatusBadge;
@@ -1,12 +1,5 @@
 import React, { useState } from 'react';
-
-interface InteractiveQuestion {
-  id: string;
-  timestamp: number;
-  question: string;
-  options: string[];
-  correctAnswer: string;
-}
+import { InteractiveQuestion } from '../../lib/supabase';
 
 interface QuestionModalProps {
   question: InteractiveQuestion;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle } from 'lucide-react';
+import { QuestionSolution } from '../../types';
+import MarkdownContent from '../Common/MarkdownContent';
+
+interface SolutionViewProps {
+  solution: QuestionSolution;
+}
+
+const SolutionView: React.FC<SolutionViewProps> = ({ solution }) => (
+  <motion.div
+    initial={{ opacity: 0, y: 20 }}
+    animate={{ opacity: 1, y: 0 }}
+    className="space-y-6"
+  >
+    {/* Problem Info */}
+    <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <div className="flex items-center space-x-2 mb-2">
+        <CheckCircle className="w-5 h-5 text-green-600" />
+        <span className="font-medium text-gray-900 dark:text-white">
+          Tanımlanan Problem
+        </span>
+      </div>
+      <MarkdownContent content={solution.problemText} className="text-gray-700 dark:text-gray-300 mb-2" />
+      <div className="flex space-x-4 text-sm">
+        <span className="px-2 py-1 bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 rounded">
+          {solution.subject}
+        </span>
+        <span className="px-2 py-1 bg-secondary-100 dark:bg-secondary-900/30 text-secondary-700 dark:text-secondary-300 rounded">
+          {solution.difficulty}
+        </span>
+      </div>
+    </div>
+
+    {/* Solution Steps */}
+    <div>
+      <h3 className="font-semibold text-gray-900 dark:text-white mb-3">
+        Çözüm Adımları
+      </h3>
+      <div className="space-y-2">
+        {solution.steps.map((step, index) => (
+          <motion.div
+            key={index}
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: index * 0.1 }}
+            className="flex items-center space-x-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+          >
+            <div className="w-6 h-6 bg-primary-600 text-white rounded-full flex items-center justify-center text-sm font-medium">
+              {index + 1}
+            </div>
+            <MarkdownContent content={step} inline className="text-gray-900 dark:text-white" />
+          </motion.div>
+        ))}
+      </div>
+    </div>
+
+    {/* Explanation */}
+    {solution.explanation && (
+      <div>
+        <h3 className="font-semibold text-gray-900 dark:text-white mb-3">
+          Açıklama
+        </h3>
+        <MarkdownContent content={solution.explanation} className="text-gray-700 dark:text-gray-300 leading-relaxed" />
+      </div>
+    )}
+
+    {/* Tips */}
+    {solution.tips && (
+      <div>
+        <h3 className="font-semibold text-gray-900 dark:text-white mb-3">
+          İpuçları
+        </h3>
+        <ul className="space-y-2">
+          {solution.tips.map((tip, index) => (
+            <li key={index} className="flex items-start space-x-2">
+              <div className="w-2 h-2 bg-accent-500 rounded-full mt-2 flex-shrink-0" />
+              <MarkdownContent content={tip} inline className="text-gray-700 dark:text-gray-300" />
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+  </motion.div>
+);
+
+export default SolutionView;
@@ -0,0 +1,132 @@
+import React, { useMemo } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { Question, QuizAnswer } from '../../types';
+import { formatAnswer } from '../../lib/quiz';
+import MarkdownContent from '../Common/MarkdownContent';
+
+interface QuestionCardProps {
+  question: Question;
+  index: number;
+  answer: QuizAnswer | undefined;
+  onChange: (answer: QuizAnswer) => void;
+  // When set, the card is read-only and shows whether the answer was correct.
+  isCorrect?: boolean;
+}
+
+const typeLabels: Record<Question['type'], string> = {
+  'multiple-choice': 'Çoktan Seçmeli',
+  'matching': 'Eşleştirme',
+  'open-ended': 'Açık Uçlu',
+};
+
+const QuestionCard: React.FC<QuestionCardProps> = ({ question, index, answer, onChange, isCorrect }) => {
+  const reviewing = isCorrect !== undefined;
+
+  // Sağ sütunu alfabetik sırala ki sıra cevabı ele vermesin
+  const sortedMatches = useMemo(
+    () => [...(question.matchOptions || [])].sort((a, b) => a.localeCompare(b, 'tr')),
+    [question.matchOptions]
+  );
+
+  const renderMultipleChoice = () => (
+    <div className="space-y-3">
+      {(question.options || []).map(option => {
+        const selected = answer === option;
+        const isRightOption = reviewing && option === question.correctAnswer;
+        return (
+          <button
+            key={option}
+            type="button"
+            disabled={reviewing}
+            onClick={() => onChange(option)}
+            className={`w-full p-4 text-left rounded-lg border-2 transition-all ${
+              isRightOption
+                ? 'border-green-500 bg-green-50 dark:bg-green-900/30'
+                : selected && reviewing
+                  ? 'border-red-500 bg-red-50 dark:bg-red-900/30'
+                  : selected
+                    ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/50'
+                    : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
+            }`}
+          >
+            <span className="font-medium text-gray-900 dark:text-white">{option}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderMatching = () => {
+    const current = Array.isArray(answer) ? answer : [];
+    const expected = question.correctAnswer as string[];
+    return (
+      <div className="space-y-3">
+        {(question.options || []).map((left, leftIndex) => (
+          <div key={left} className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-center">
+            <span className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-gray-900 dark:text-white">{left}</span>
+            <select
+              value={current[leftIndex] || ''}
+              disabled={reviewing}
+              onChange={(e) => {
+                const next = [...current];
+                next[leftIndex] = e.target.value;
+                onChange(next);
+              }}
+              className={`w-full p-3 border rounded-lg dark:bg-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                reviewing
+                  ? current[leftIndex] === expected[leftIndex] ? 'border-green-500' : 'border-red-500'
+                  : 'dark:border-gray-600'
+              }`}
+            >
+              <option value="">Eşini seç...</option>
+              {sortedMatches.map(right => <option key={right} value={right}>{right}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderOpenEnded = () => (
+    <textarea
+      value={typeof answer === 'string' ? answer : ''}
+      disabled={reviewing}
+      onChange={(e) => onChange(e.target.value)}
+      rows={3}
+      placeholder="Cevabını yaz..."
+      className="w-full p-3 border rounded-lg dark:bg-gray-800 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+    />
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-sm font-medium text-indigo-600 dark:text-indigo-400">
+          Soru {index + 1} • {typeLabels[question.type]}
+        </span>
+        {reviewing && (isCorrect
+          ? <CheckCircle className="w-6 h-6 text-green-500" />
+          : <XCircle className="w-6 h-6 text-red-500" />
+        )}
+      </div>
+      <p className="text-lg text-gray-900 dark:text-white mb-6">{question.text}</p>
+
+      {question.type === 'multiple-choice' && renderMultipleChoice()}
+      {question.type === 'matching' && renderMatching()}
+      {question.type === 'open-ended' && renderOpenEnded()}
+
+      {reviewing && !isCorrect && (
+        <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+          Doğru cevap: <span className="text-green-600 font-medium">{formatAnswer(question, question.correctAnswer)}</span>
+        </p>
+      )}
+      {reviewing && question.explanation && (
+        <div className="mt-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+          <MarkdownContent content={question.explanation} className="prose-sm text-gray-900 dark:text-white" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionCard;
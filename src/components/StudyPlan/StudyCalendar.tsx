@@ -0,0 +1,132 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { BookOpen, BrainCircuit, ClipboardList, Layers, ExternalLink, History } from 'lucide-react';
+import { getTaskLink } from '../../lib/studyPlan';
+import { addDays, isSameDay, startOfDay, startOfWeek } from '../../lib/utils';
+import { StudyTask } from '../../types';
+
+export type CalendarView = 'week' | 'month';
+
+interface StudyCalendarProps {
+  view: CalendarView;
+  // Any day inside the week or month to show
+  anchor: Date;
+  tasks: StudyTask[];
+  onToggleTask: (task: StudyTask) => void;
+  onSelectDay: (date: Date) => void;
+}
+
+const weekDays = ['Pzt', 'Sal', 'Çar', 'Per', 'Cum', 'Cmt', 'Paz'];
+
+const taskIcons: Record<StudyTask['type'], React.ElementType> = {
+  lesson: BookOpen,
+  practice: BrainCircuit,
+  quiz: ClipboardList,
+  flashcards: Layers,
+};
+
+const tasksOn = (tasks: StudyTask[], date: Date) => tasks.filter(task => isSameDay(task.date, date));
+
+const TaskItem: React.FC<{ task: StudyTask; onToggle: () => void }> = ({ task, onToggle }) => {
+  const Icon = taskIcons[task.type];
+  return (
+    <div className={`p-2 rounded-lg border text-sm ${task.completed ? 'bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800' : 'bg-white border-gray-200 dark:bg-gray-800 dark:border-gray-700'}`}>
+      <div className="flex items-start gap-2">
+        <input
+          type="checkbox"
+          checked={task.completed}
+          onChange={onToggle}
+          className="mt-0.5 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <div className="flex-1 min-w-0">
+          <p className={`font-medium text-gray-900 dark:text-white ${task.completed ? 'line-through opacity-60' : ''}`}>{task.title}</p>
+          <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 mt-1">
+            <Icon className="w-3 h-3" />
+            <span>{task.estimatedMinutes} dk</span>
+            {task.originalDate && (
+              <span className="flex items-center gap-1 text-orange-500" title={`İlk planlanan: ${task.originalDate.toLocaleDateString('tr-TR')}`}>
+                <History className="w-3 h-3" /> ertelendi
+              </span>
+            )}
+          </div>
+        </div>
+        <Link to={getTaskLink(task)} className="text-indigo-500 hover:text-indigo-700" title="Göreve git">
+          <ExternalLink className="w-4 h-4" />
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+const StudyCalendar: React.FC<StudyCalendarProps> = ({ view, anchor, tasks, onToggleTask, onSelectDay }) => {
+  const today = startOfDay(new Date());
+
+  if (view === 'week') {
+    const weekStart = startOfWeek(anchor);
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
+        {weekDays.map((name, index) => {
+          const date = addDays(weekStart, index);
+          const dayTasks = tasksOn(tasks, date);
+          const minutes = dayTasks.reduce((sum, task) => sum + task.estimatedMinutes, 0);
+          return (
+            <div key={name} className={`rounded-xl p-3 ${isSameDay(date, today) ? 'bg-indigo-50 dark:bg-indigo-900/30 ring-2 ring-indigo-400' : 'bg-gray-50 dark:bg-gray-900/40'}`}>
+              <div className="flex items-baseline justify-between mb-2">
+                <span className="font-semibold text-gray-900 dark:text-white">{name} {date.getDate()}</span>
+                {minutes > 0 && <span className="text-xs text-gray-500 dark:text-gray-400">{minutes} dk</span>}
+              </div>
+              <div className="space-y-2">
+                {dayTasks.map(task => (
+                  <TaskItem key={task.id} task={task} onToggle={() => onToggleTask(task)} />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const monthStart = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const gridStart = startOfWeek(monthStart);
+  const cellCount = Math.ceil((((monthStart.getDay() + 6) % 7) + new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0).getDate()) / 7) * 7;
+
+  return (
+    <div>
+      <div className="grid grid-cols-7 gap-2 mb-2">
+        {weekDays.map(name => (
+          <span key={name} className="text-center text-xs font-semibold text-gray-500 dark:text-gray-400">{name}</span>
+        ))}
+      </div>
+      <div className="grid grid-cols-7 gap-2">
+        {Array.from({ length: cellCount }, (_, index) => {
+          const date = addDays(gridStart, index);
+          const dayTasks = tasksOn(tasks, date);
+          const done = dayTasks.filter(task => task.completed).length;
+          const inMonth = date.getMonth() === anchor.getMonth();
+          return (
+            <button
+              key={date.getTime()}
+              onClick={() => onSelectDay(date)}
+              className={`h-24 p-2 rounded-lg text-left flex flex-col transition-colors ${
+                isSameDay(date, today) ? 'ring-2 ring-indigo-400' : ''
+              } ${inMonth ? 'bg-white dark:bg-gray-800 hover:bg-indigo-50 dark:hover:bg-gray-700' : 'bg-gray-50 dark:bg-gray-900/40 opacity-50'}`}
+            >
+              <span className="text-sm font-semibold text-gray-900 dark:text-white">{date.getDate()}</span>
+              {dayTasks.length > 0 && (
+                <>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 mt-auto">{done}/{dayTasks.length} görev</span>
+                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 mt-1">
+                    <div className="bg-green-500 h-1.5 rounded-full" style={{ width: `${(done / dayTasks.length) * 100}%` }} />
+                  </div>
+                </>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StudyCalendar;
@@ -1,8 +1,11 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User as FirebaseUser, onAuthStateChanged, signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut, sendPasswordResetEmail } from 'firebase/auth';
-import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
 import { auth, db } from '../lib/firebase';
 import { User } from '../types';
+import { trackActivity } from '../lib/achievements';
+import { xpService } from '../lib/xp';
+import { userRoleService } from '../lib/userRoles';
 import toast from 'react-hot-toast';
 
 interface AuthContextType {
@@ -49,7 +52,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       id: user.uid,
       name: name,
       email: user.email!,
-      role: role as 'user' | 'teacher' | 'admin', // Use the provided role
+      role: role as 'student' | 'teacher', // Admins are promoted by another admin
       xp: 0,
       streak: 0,
       level: 1,
@@ -81,95 +84,26 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       setCurrentUser(user);
       
       if (user) {
+        userRoleService.ensureClaims(user)
+          .catch(error => console.error('Supabase yetkileri alınamadı:', error));
         try {
           const userDoc = await getDoc(doc(db, "users", user.uid));
           if (userDoc.exists()) {
-            const userData = userDoc.data() as User;
-            
-            // localStorage ile bugün bonus verilip verilmediğini kontrol et
-            const todayKey = `streak_bonus_${user.uid}_${new Date().toDateString()}`;
-            const alreadyGivenToday = localStorage.getItem(todayKey);
-
-            if (alreadyGivenToday) {
-              // Bugün zaten bonus verilmiş, hiçbir şey yapma
-              setUserData(userData);
-              setLoading(false);
-              return;
-            }
-
-            // Streak kontrolü ve güncelleme
-            const today = new Date();
-            today.setHours(0, 0, 0, 0); // Bugünün başlangıcı
-            
-            let lastLogin: Date;
-            try {
-              lastLogin = userData.lastLogin instanceof Date 
-                ? userData.lastLogin 
-                : new Date(userData.lastLogin || 0);
-            } catch {
-              lastLogin = new Date(0);
-            }
-            lastLogin.setHours(0, 0, 0, 0); // Son girişin başlangıcı
-            
-            const yesterday = new Date(today);
-            yesterday.setDate(yesterday.getDate() - 1); // Dün
-            
-            let newStreak = userData.streak || 0;
-            let streakBonus = 0;
-            let shouldUpdateStreak = false;
-            
-            // İlk giriş kontrolü (lastLogin yoksa veya çok eskiyse)
-            if (!userData.lastLogin || lastLogin.getTime() === 0) {
-              newStreak = 1;
-              streakBonus = 5;
-              shouldUpdateStreak = true;
-            } else if (today.getTime() === lastLogin.getTime()) {
-              // Bugün zaten giriş yapmış, streak aynı kalır, bonus yok
-              newStreak = userData.streak || 0;
-              streakBonus = 0;
-              shouldUpdateStreak = false;
-            } else if (yesterday.getTime() === lastLogin.getTime()) {
-              // Dün giriş yapmış, streak artır
-              newStreak += 1;
-              streakBonus = Math.min(newStreak * 5, 50); // Her gün 5 XP bonus, max 50
-              shouldUpdateStreak = true;
-            } else {
-              // 1 günden fazla geçmiş veya diğer durumlar, streak sıfırla ve bugün için 1 yap
-              newStreak = 1;
-              streakBonus = 5;
-              shouldUpdateStreak = true;
-            }
-            
-            // Kullanıcı verilerini güncelle
-            const updatedUserData = {
-              ...userData,
-              streak: newStreak,
-              lastLogin: new Date(),
-              xp: userData.xp + streakBonus
-            };
-            
-            // Sadece streak değişmişse veya bonus varsa güncelle
-            if (shouldUpdateStreak || streakBonus > 0) {
-              await updateDoc(doc(db, "users", user.uid), {
-                streak: newStreak,
-                lastLogin: new Date(),
-                xp: userData.xp + streakBonus
-              });
-              
-              // Bugün bonus verildiğini localStorage'a kaydet
-              localStorage.setItem(todayKey, 'true');
-            }
-
-            setUserData(updatedUserData);
-            
-            // Streak bonus bildirimi (sadece gerçek bonus varsa)
-            if (streakBonus > 0) {
-              if (newStreak === 1) {
-                toast.success(`Hoş geldin! Günlük seri başladı! +${streakBonus} XP bonus! 🔥`);
-              } else {
-                toast.success(`${newStreak} günlük seri! +${streakBonus} XP bonus! 🔥`);
-              }
-            }
+            setUserData(userDoc.data() as User);
+
+            // Günlük seri ve bonus sunucuda hesaplanır; aynı gün tekrar çağrılırsa XP verilmez
+            xpService.award('daily_login')
+              .then(result => {
+                setUserData(prev => prev ? { ...prev, xp: result.xp, level: result.level, streak: result.streak } : prev);
+                if (result.awarded <= 0) return;
+                if (result.streak === 1) {
+                  toast.success(`Hoş geldin! Günlük seri başladı! +${result.awarded} XP bonus! 🔥`);
+                } else {
+                  toast.success(`${result.streak} günlük seri! +${result.awarded} XP bonus! 🔥`);
+                }
+                trackActivity();
+              })
+              .catch(error => console.error('Günlük giriş XP hatası:', error));
           }
         } catch (error) {
           console.error("Kullanıcı verisi yüklenirken hata:", error);
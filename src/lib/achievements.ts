@@ -0,0 +1,72 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import toast from 'react-hot-toast';
+import { db, functions } from './firebase';
+import { toDate } from './utils';
+import { Achievement, AchievementMetric, AchievementStats } from '../types';
+
+export interface AchievementProgress {
+  stats: AchievementStats;
+  unlocked: Record<string, Date>;
+}
+
+// Mirrored by ACHIEVEMENTS in functions/src/index.ts, which unlocks them.
+// Lesson and coach badges pay no XP: their counts come from client-written documents
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'streak-3', title: 'Isınma Turu', description: '3 gün üst üste giriş yap', icon: '🔥', xpReward: 20, condition: { metric: 'longestStreak', threshold: 3 } },
+  { id: 'streak-7', title: 'Haftalık Seri', description: '7 gün üst üste giriş yap', icon: '📅', xpReward: 50, condition: { metric: 'longestStreak', threshold: 7 } },
+  { id: 'streak-30', title: 'Durdurulamaz', description: '30 gün üst üste giriş yap', icon: '🌋', xpReward: 200, condition: { metric: 'longestStreak', threshold: 30 } },
+  { id: 'questions-1', title: 'İlk Çözüm', description: 'AI ile ilk sorunu çöz', icon: '🧠', xpReward: 10, condition: { metric: 'questionsSolved', threshold: 1 } },
+  { id: 'questions-10', title: 'Soru Avcısı', description: '10 soru çöz', icon: '🎯', xpReward: 40, condition: { metric: 'questionsSolved', threshold: 10 } },
+  { id: 'questions-50', title: 'Problem Ustası', description: '50 soru çöz', icon: '🏅', xpReward: 150, condition: { metric: 'questionsSolved', threshold: 50 } },
+  { id: 'lessons-1', title: 'İlk Ders', description: 'Bir dersi tamamla', icon: '📘', xpReward: 0, condition: { metric: 'lessonsCompleted', threshold: 1 } },
+  { id: 'lessons-10', title: 'Azimli Öğrenci', description: '10 dersi tamamla', icon: '📚', xpReward: 0, condition: { metric: 'lessonsCompleted', threshold: 10 } },
+  { id: 'quizzes-1', title: 'İlk Test', description: 'İlk testini bitir', icon: '📝', xpReward: 10, condition: { metric: 'quizzesCompleted', threshold: 1 } },
+  { id: 'quizzes-10', title: 'Test Maratoncusu', description: '10 test bitir', icon: '🏃', xpReward: 60, condition: { metric: 'quizzesCompleted', threshold: 10 } },
+  { id: 'quiz-score-80', title: 'Yüksek Not', description: 'Bir testten en az 80 puan al', icon: '⭐', xpReward: 30, condition: { metric: 'bestQuizScore', threshold: 80 } },
+  { id: 'perfect-1', title: 'Kusursuz', description: 'Bir testi hatasız bitir', icon: '💯', xpReward: 50, condition: { metric: 'perfectQuizzes', threshold: 1 } },
+  { id: 'perfect-5', title: 'Mükemmeliyetçi', description: '5 testi hatasız bitir', icon: '👑', xpReward: 150, condition: { metric: 'perfectQuizzes', threshold: 5 } },
+  { id: 'coach-1', title: 'Koçunla Tanış', description: 'İlk AI koçunu oluştur', icon: '🤖', xpReward: 0, condition: { metric: 'coachesCreated', threshold: 1 } },
+  { id: 'coach-messages-10', title: 'Sohbet Başladı', description: 'Koçuna 10 mesaj gönder', icon: '💬', xpReward: 20, condition: { metric: 'coachMessages', threshold: 10 } },
+  { id: 'coach-messages-100', title: 'Koçun Sağ Kolu', description: 'Koçuna 100 mesaj gönder', icon: '🤝', xpReward: 100, condition: { metric: 'coachMessages', threshold: 100 } },
+];
+
+export const getMetricValue = (stats: AchievementStats, metric: AchievementMetric) => stats[metric] ?? 0;
+
+export const isConditionMet = (achievement: Achievement, stats: AchievementStats) =>
+  getMetricValue(stats, achievement.condition.metric) >= achievement.condition.threshold;
+
+const toUnlockedMap = (value: unknown) => Object.fromEntries(
+  Object.entries((value as Record<string, unknown>) || {}).map(([id, date]) => [id, toDate(date)])
+);
+
+export const achievementService = {
+  // Get a user's stats and unlocked achievements
+  async getProgress(userId: string): Promise<AchievementProgress> {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    const data = userDoc.data() || {};
+    return { stats: data.stats || {}, unlocked: toUnlockedMap(data.achievements) };
+  },
+
+  // Let the server recount the user's stats and unlock newly met achievements;
+  // it also grants their XP
+  async sync() {
+    const syncAchievements = httpsCallable<void, { unlocked: string[] }>(functions, 'syncAchievements');
+    const { data } = await syncAchievements();
+    return ACHIEVEMENTS.filter(achievement => data.unlocked.includes(achievement.id));
+  },
+};
+
+export const rewardUnlocked = (achievements: Achievement[]) => {
+  achievements.forEach(achievement => {
+    const reward = achievement.xpReward > 0 ? ` +${achievement.xpReward} XP` : '';
+    toast.success(`${achievement.icon} Yeni rozet: ${achievement.title}!${reward}`, { duration: 5000 });
+  });
+};
+
+// Fire-and-forget sync after tracked activity; failures never block the user flow
+export const trackActivity = () => {
+  achievementService.sync()
+    .then(rewardUnlocked)
+    .catch(error => console.error('Error recording activity:', error));
+};
@@ -0,0 +1,220 @@
+import {
+  addDoc, arrayRemove, collection, deleteDoc, doc, getDoc, getDocs, orderBy, query,
+  serverTimestamp, setDoc, Timestamp, where, writeBatch,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebase';
+import { toDate } from './utils';
+import { LessonMistake } from './supabase';
+import { Assignment, AssignmentSubmission, Classroom, ClassStudent } from '../types';
+
+// Without easily confused characters such as O/0 and I/1
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+
+export interface StudentStats {
+  studentId: string;
+  name: string;
+  completed: number;
+  overdue: number;
+  averageScore: number | null;
+  mistakeCount: number;
+  topMistakeSubject: string | null;
+}
+
+const generateJoinCode = () =>
+  Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[Math.floor(Math.random() * JOIN_CODE_ALPHABET.length)]).join('');
+
+const classRef = (classId: string) => doc(db, 'classes', classId);
+
+const toClassroom = (id: string, data: Record<string, unknown>) => ({
+  ...data,
+  id,
+  studentIds: (data.studentIds as string[]) || [],
+  createdAt: toDate(data.createdAt),
+}) as Classroom;
+
+const toAssignment = (id: string, data: Record<string, unknown>) => ({
+  ...data,
+  id,
+  dueDate: toDate(data.dueDate),
+  createdAt: toDate(data.createdAt),
+}) as Assignment;
+
+const toSubmission = (id: string, data: Record<string, unknown>) => ({
+  ...data,
+  id,
+  completedAt: toDate(data.completedAt),
+}) as AssignmentSubmission;
+
+// Per-student progress on a class's assignments plus their lesson_mistakes history
+export const getStudentStats = (
+  students: ClassStudent[],
+  assignments: Assignment[],
+  submissions: AssignmentSubmission[],
+  mistakes: LessonMistake[],
+  now = new Date()
+): StudentStats[] => students.map(student => {
+  const done = submissions.filter(submission => submission.userId === student.id);
+  const doneIds = new Set(done.map(submission => submission.assignmentId));
+  const scores = done.map(submission => submission.score).filter((score): score is number => typeof score === 'number');
+  const studentMistakes = mistakes.filter(mistake => mistake.user_id === student.id);
+
+  const subjectCounts = new Map<string, number>();
+  studentMistakes.forEach(mistake => {
+    const subject = mistake.question?.subject;
+    if (subject) subjectCounts.set(subject, (subjectCounts.get(subject) || 0) + 1);
+  });
+  const topMistakeSubject = Array.from(subjectCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  return {
+    studentId: student.id,
+    name: student.name,
+    completed: doneIds.size,
+    overdue: assignments.filter(assignment => !doneIds.has(assignment.id) && assignment.dueDate < now).length,
+    averageScore: scores.length ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+    mistakeCount: studentMistakes.length,
+    topMistakeSubject,
+  };
+});
+
+export const classService = {
+  // Create a class together with a unique join code
+  async createClass(teacherId: string, teacherName: string, name: string, description?: string) {
+    let joinCode = generateJoinCode();
+    // Çakışma ihtimali çok düşük ama kod bir sınıfa ait olmalı
+    for (let attempt = 0; attempt < 5 && (await getDoc(doc(db, 'classJoinCodes', joinCode))).exists(); attempt++) {
+      joinCode = generateJoinCode();
+    }
+
+    const newClassRef = doc(collection(db, 'classes'));
+    const batch = writeBatch(db);
+    batch.set(newClassRef, {
+      name,
+      ...(description ? { description } : {}),
+      teacherId,
+      teacherName,
+      joinCode,
+      studentIds: [],
+      createdAt: serverTimestamp(),
+    });
+    batch.set(doc(db, 'classJoinCodes', joinCode), { classId: newClassRef.id, teacherId });
+    await batch.commit();
+    return newClassRef.id;
+  },
+
+  // Get classes taught by a teacher
+  async getTeacherClasses(teacherId: string) {
+    const q = query(collection(db, 'classes'), where('teacherId', '==', teacherId), orderBy('createdAt', 'desc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(classDoc => toClassroom(classDoc.id, classDoc.data()));
+  },
+
+  // Get classes a student has joined
+  async getStudentClasses(userId: string) {
+    const q = query(collection(db, 'classes'), where('studentIds', 'array-contains', userId));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(classDoc => toClassroom(classDoc.id, classDoc.data()));
+  },
+
+  // Get class by ID
+  async getClass(classId: string) {
+    const classDoc = await getDoc(classRef(classId));
+    if (!classDoc.exists()) return null;
+    return toClassroom(classDoc.id, classDoc.data());
+  },
+
+  // Delete a class with its join code, roster, assignments and submissions
+  async deleteClass(classroom: Classroom) {
+    const subcollections = await Promise.all(['students', 'assignments', 'submissions']
+      .map(name => getDocs(collection(db, 'classes', classroom.id, name))));
+    const batch = writeBatch(db);
+    subcollections.forEach(snapshot => snapshot.docs.forEach(item => batch.delete(item.ref)));
+    batch.delete(doc(db, 'classJoinCodes', classroom.joinCode));
+    batch.delete(classRef(classroom.id));
+    await batch.commit();
+  },
+
+  // Join a class with the code shared by the teacher; the server checks the code
+  async joinClass(code: string) {
+    const joinClass = httpsCallable<{ code: string }, { classId: string }>(functions, 'joinClass');
+    const { data } = await joinClass({ code });
+    return data.classId;
+  },
+
+  // Remove a student from a class; used by the teacher or the student leaving
+  async removeStudent(classId: string, studentId: string) {
+    const batch = writeBatch(db);
+    batch.update(classRef(classId), { studentIds: arrayRemove(studentId) });
+    batch.delete(doc(db, 'classes', classId, 'students', studentId));
+    await batch.commit();
+  },
+
+  // Get the roster of a class
+  async getStudents(classId: string) {
+    const snapshot = await getDocs(collection(db, 'classes', classId, 'students'));
+    return snapshot.docs
+      .map(studentDoc => ({ id: studentDoc.id, name: studentDoc.data().name || 'Öğrenci', joinedAt: toDate(studentDoc.data().joinedAt) }) as ClassStudent)
+      .sort((a, b) => a.name.localeCompare(b.name, 'tr'));
+  },
+};
+
+export const assignmentService = {
+  // Assign a lesson or quiz to a class
+  async createAssignment(assignment: Omit<Assignment, 'id' | 'createdAt'>) {
+    const assignmentRef = await addDoc(collection(db, 'classes', assignment.classId, 'assignments'), {
+      ...Object.fromEntries(Object.entries(assignment).filter(([, value]) => value !== undefined)),
+      dueDate: Timestamp.fromDate(assignment.dueDate),
+      createdAt: serverTimestamp(),
+    });
+    return { ...assignment, id: assignmentRef.id, createdAt: new Date() } as Assignment;
+  },
+
+  // Get a class's assignments, soonest due first
+  async getAssignments(classId: string) {
+    const q = query(collection(db, 'classes', classId, 'assignments'), orderBy('dueDate', 'asc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(assignmentDoc => toAssignment(assignmentDoc.id, assignmentDoc.data()));
+  },
+
+  // Delete an assignment
+  async deleteAssignment(classId: string, assignmentId: string) {
+    await deleteDoc(doc(db, 'classes', classId, 'assignments', assignmentId));
+  },
+
+  // Get all submissions in a class (teacher view)
+  async getSubmissions(classId: string) {
+    const snapshot = await getDocs(collection(db, 'classes', classId, 'submissions'));
+    return snapshot.docs.map(submissionDoc => toSubmission(submissionDoc.id, submissionDoc.data()));
+  },
+
+  // Get a student's own submissions in a class
+  async getUserSubmissions(classId: string, userId: string) {
+    const q = query(collection(db, 'classes', classId, 'submissions'), where('userId', '==', userId));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(submissionDoc => toSubmission(submissionDoc.id, submissionDoc.data()));
+  },
+
+  // Mark every assignment of this lesson or quiz as done in the student's classes
+  async recordCompletion(userId: string, type: Assignment['type'], targetId: string, score?: number) {
+    const classes = await classService.getStudentClasses(userId);
+    await Promise.all(classes.map(async (classroom) => {
+      const q = query(
+        collection(db, 'classes', classroom.id, 'assignments'),
+        where('type', '==', type),
+        where('targetId', '==', targetId)
+      );
+      const snapshot = await getDocs(q);
+      await Promise.all(snapshot.docs.map(assignmentDoc => setDoc(
+        doc(db, 'classes', classroom.id, 'submissions', `${assignmentDoc.id}_${userId}`),
+        {
+          assignmentId: assignmentDoc.id,
+          classId: classroom.id,
+          userId,
+          ...(score !== undefined ? { score } : {}),
+          completedAt: serverTimestamp(),
+        }
+      )));
+    }));
+  },
+};
@@ -0,0 +1,178 @@
+import {
+  collection, deleteField, doc, getDocs, limit, onSnapshot, orderBy, query, QueryDocumentSnapshot, serverTimestamp,
+  startAfter, startAt, Timestamp, Unsubscribe, writeBatch,
+} from 'firebase/firestore';
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { db, storage } from './firebase';
+import { toDate } from './utils';
+import { ChatAttachment, CoachChatMessage, QuestionSolution } from '../types';
+
+// Turns sent verbatim with each prompt; older ones reach the model only
+// through the coach's rolling summary (see summarizeCoachChat)
+export const CHAT_CONTEXT_MESSAGES = 40;
+// Messages are loaded newest first, one page at a time while scrolling up.
+// The first page has to cover the whole prompt window.
+export const CHAT_PAGE_SIZE = CHAT_CONTEXT_MESSAGES;
+
+// Attachments go to the model inline, so they stay under the gateway's 5MB limit
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+export const ATTACHMENT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif', 'application/pdf'];
+
+// Coach documents created before the subcollection kept the thread here
+export interface LegacyChatMessage {
+  role: CoachChatMessage['role'];
+  content: string;
+  timestamp: unknown;
+}
+
+// Where the next page of older messages starts
+export interface MessagePage {
+  cursor: QueryDocumentSnapshot | null;
+  hasMore: boolean;
+}
+
+const messagesRef = (coachId: string) => collection(db, 'coaches', coachId, 'messages');
+
+const toChatMessage = (messageDoc: QueryDocumentSnapshot): CoachChatMessage => {
+  // Kendi yazdığımız mesajlar sunucu saatini beklerken tahmini saatle görünür
+  const data = messageDoc.data({ serverTimestamps: 'estimate' });
+  return {
+    id: messageDoc.id,
+    role: data.role,
+    content: data.content,
+    attachment: data.attachment,
+    solution: data.solution,
+    createdAt: toDate(data.createdAt),
+  };
+};
+
+// Builds the prompt from the coach's identity, the summary of older turns and the recent window
+export const buildChatPrompt = (
+  systemPrompt: string,
+  summary: string | undefined,
+  messages: CoachChatMessage[],
+  userMessage: string
+) => {
+  const history = messages
+    .slice(-CHAT_CONTEXT_MESSAGES)
+    .map(msg => `${msg.role === 'user' ? 'Öğrenci' : 'Koç'}: ${msg.content}${msg.attachment ? ` [Ek: ${msg.attachment.name}]` : ''}`)
+    .join('\n');
+  const summaryText = summary ? `\n\nÖnceki konuşmaların özeti:\n${summary}` : '';
+  return `${systemPrompt}${summaryText}\n\nSohbet geçmişi:\n${history}\n\nÖğrenci: ${userMessage}\n\nKoç:`;
+};
+
+// Plain-text form of an attachment answer, kept as the message content for
+// later prompts and the rolling summary
+export const solutionToText = (solution: QuestionSolution) =>
+  [
+    solution.problemText,
+    ...solution.steps.map((step, index) => `${index + 1}. ${step}`),
+    `Sonuç: ${solution.finalAnswer}`,
+  ].join('\n');
+
+export const coachChatService = {
+  // Listen to the newest page and every message after it, returned oldest
+  // first. The live window starts at the oldest message of that first page, so
+  // messages never slide out of it; older pages come from getOlderMessages,
+  // starting at the cursor passed to onWindow.
+  subscribeToMessages(
+    coachId: string,
+    onWindow: (page: MessagePage) => void,
+    callback: (messages: CoachChatMessage[]) => void,
+    onError?: (error: Error) => void
+  ) {
+    let unsubscribe: Unsubscribe | null = null;
+    let cancelled = false;
+    getDocs(query(messagesRef(coachId), orderBy('createdAt', 'desc'), limit(CHAT_PAGE_SIZE)))
+      .then(newest => {
+        if (cancelled) return;
+        const oldest = newest.docs[newest.docs.length - 1] ?? null;
+        onWindow({ cursor: oldest, hasMore: newest.size === CHAT_PAGE_SIZE });
+        const live = oldest
+          ? query(messagesRef(coachId), orderBy('createdAt'), startAt(oldest))
+          : query(messagesRef(coachId), orderBy('createdAt'));
+        unsubscribe = onSnapshot(live, snapshot => callback(snapshot.docs.map(toChatMessage)), onError);
+      })
+      .catch(error => onError?.(error));
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  },
+
+  // Fetch the page of messages before `cursor` once, returned oldest first
+  async getOlderMessages(coachId: string, cursor: QueryDocumentSnapshot) {
+    const snapshot = await getDocs(query(
+      messagesRef(coachId),
+      orderBy('createdAt', 'desc'),
+      startAfter(cursor),
+      limit(CHAT_PAGE_SIZE)
+    ));
+    const page: MessagePage = {
+      cursor: snapshot.docs[snapshot.docs.length - 1] ?? cursor,
+      hasMore: snapshot.size === CHAT_PAGE_SIZE,
+    };
+    return { messages: snapshot.docs.map(toChatMessage).reverse(), page };
+  },
+
+  // Upload a photo or PDF before it is sent with a message
+  async uploadAttachment(userId: string, file: File): Promise<ChatAttachment> {
+    if (!ATTACHMENT_MIME_TYPES.includes(file.type)) {
+      throw new Error('Yalnızca fotoğraf veya PDF gönderebilirsin.');
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error('Dosya en fazla 5MB olabilir.');
+    }
+    const path = `chat-attachments/${userId}/${Date.now()}-${file.name.replace(/[^\w.-]/g, '_')}`;
+    const fileRef = ref(storage, path);
+    await uploadBytes(fileRef, file, { contentType: file.type });
+    return { url: await getDownloadURL(fileRef), path, name: file.name, mimeType: file.type };
+  },
+
+  // Append one message to the thread
+  async addMessage(
+    coachId: string,
+    userId: string,
+    message: Pick<CoachChatMessage, 'role' | 'content'> & { attachment?: ChatAttachment; solution?: QuestionSolution }
+  ) {
+    const batch = writeBatch(db);
+    batch.set(doc(messagesRef(coachId)), {
+      userId,
+      role: message.role,
+      content: message.content,
+      ...(message.attachment ? { attachment: message.attachment } : {}),
+      ...(message.solution ? { solution: message.solution } : {}),
+      createdAt: serverTimestamp(),
+    });
+    batch.update(doc(db, 'coaches', coachId), { lastMessageAt: serverTimestamp() });
+    await batch.commit();
+  },
+
+  // Move a legacy chatHistory array into the messages subcollection
+  async migrateChatHistory(coachId: string, userId: string, history: LegacyChatMessage[]) {
+    // Batches hold 500 writes; the coach update goes into the last one
+    const chunks: LegacyChatMessage[][] = [];
+    for (let i = 0; i < history.length; i += 400) {
+      chunks.push(history.slice(i, i + 400));
+    }
+    for (const [index, chunk] of chunks.entries()) {
+      const batch = writeBatch(db);
+      chunk.forEach((message, offset) => {
+        const position = index * 400 + offset;
+        // Aynı anda yazılmış mesajlar sıralarını korusun
+        const createdAt = new Date(toDate(message.timestamp).getTime() + position);
+        // Sabit kimlikler, iki sekme aynı anda taşısa bile mesajların çoğalmamasını sağlar
+        batch.set(doc(messagesRef(coachId), `legacy-${position}`), {
+          userId,
+          role: message.role,
+          content: message.content,
+          createdAt: Timestamp.fromDate(createdAt),
+        });
+      });
+      if (index === chunks.length - 1) {
+        batch.update(doc(db, 'coaches', coachId), { chatHistory: deleteField() });
+      }
+      await batch.commit();
+    }
+  },
+};
@@ -0,0 +1,84 @@
+import {
+  collection, doc, getDoc, limit, onSnapshot, orderBy, query, serverTimestamp, setDoc, Timestamp, updateDoc, where,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { toDate } from './utils';
+import { CoachCheckInSettings, CoachMessage } from '../types';
+
+// Proactive coach messages are written by the sendCoachCheckIns job; the
+// client only reads them, marks them read and stores the student's opt-outs.
+
+export const COACH_MESSAGE_LABELS: Record<CoachMessage['type'], string> = {
+  'morning-checkin': 'Günlük kontrol',
+  'task-reminder': 'Görev hatırlatması',
+  'motivation': 'Motivasyon',
+  'reflection': 'Düşünce sorusu',
+  'achievement': 'İlerleme',
+};
+
+const INBOX_SIZE = 50;
+
+const fromDoc = (id: string, data: Record<string, unknown>) => ({
+  ...data,
+  id,
+  timestamp: toDate(data.timestamp),
+}) as CoachMessage;
+
+export const coachInboxService = {
+  // Listen to a student's latest coach messages, newest first
+  subscribeToMessages(userId: string, callback: (messages: CoachMessage[]) => void) {
+    const q = query(
+      collection(db, 'coachMessages'),
+      where('userId', '==', userId),
+      orderBy('timestamp', 'desc'),
+      limit(INBOX_SIZE)
+    );
+    return onSnapshot(q, snapshot => {
+      callback(snapshot.docs.map(messageDoc => fromDoc(messageDoc.id, messageDoc.data())));
+    }, error => console.error('Error loading coach messages:', error));
+  },
+
+  // Listen to the number of unread coach messages, for the Navbar badge
+  subscribeToUnreadCount(userId: string, callback: (count: number) => void) {
+    const q = query(collection(db, 'coachMessages'), where('userId', '==', userId), where('isRead', '==', false));
+    return onSnapshot(q, snapshot => callback(snapshot.size), error => console.error('Error loading unread count:', error));
+  },
+
+  // Mark one message as read
+  async markAsRead(messageId: string) {
+    await updateDoc(doc(db, 'coachMessages', messageId), { isRead: true });
+  },
+
+  // Mark several messages as read at once
+  async markAllAsRead(messageIds: string[]) {
+    const batch = writeBatch(db);
+    messageIds.forEach(id => batch.update(doc(db, 'coachMessages', id), { isRead: true }));
+    await batch.commit();
+  },
+
+  // Get a student's mute and snooze choices
+  async getSettings(userId: string): Promise<CoachCheckInSettings> {
+    const settingsDoc = await getDoc(doc(db, 'coachCheckInSettings', userId));
+    const data = settingsDoc.data() || {};
+    const snoozedUntil = Object.fromEntries(
+      Object.entries((data.snoozedUntil as Record<string, unknown>) || {}).map(([type, until]) => [type, toDate(until)])
+    );
+    return { mutedTypes: data.mutedTypes || [], snoozedUntil };
+  },
+
+  // Save a student's mute and snooze choices
+  async saveSettings(userId: string, settings: CoachCheckInSettings) {
+    const snoozedUntil = Object.fromEntries(
+      Object.entries(settings.snoozedUntil)
+        .filter(([, until]) => until && until > new Date())
+        .map(([type, until]) => [type, Timestamp.fromDate(until as Date)])
+    );
+    await setDoc(doc(db, 'coachCheckInSettings', userId), {
+      userId,
+      mutedTypes: settings.mutedTypes,
+      snoozedUntil,
+      updatedAt: serverTimestamp(),
+    });
+  },
+};
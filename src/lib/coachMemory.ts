@@ -0,0 +1,194 @@
+import { collection, doc, getDoc, getDocs, query, serverTimestamp, setDoc, Timestamp, where, writeBatch } from 'firebase/firestore';
+import { db } from './firebase';
+import { mistakeService } from './supabase';
+import { solvedQuestionService } from './solvedQuestions';
+import { studyPlanService } from './studyPlan';
+import { xpService, XP_SOURCE_LABELS } from './xp';
+import { addDays, isSameDay, startOfDay, toDate } from './utils';
+import { CoachMemory } from '../types';
+
+// Coach memory: short facts about the student's last days, derived from
+// lesson mistakes, solved questions, XP events and the study plan. They are
+// stored in coachMemories/{userId}_{key} so the student can review them, and
+// a forgotten memory keeps its id with `forgotten: true` and no text, so the
+// next sync does not bring it back.
+
+export const MEMORY_WINDOW_DAYS = 7;
+
+type MemoryDraft = Pick<CoachMemory, 'kind' | 'text' | 'occurredAt'> & { key: string };
+
+const memoryRef = (userId: string, key: string) => doc(db, 'coachMemories', `${userId}_${key}`);
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const slug = (value: string) =>
+  value.toLocaleLowerCase('tr-TR').replace(/[^a-z0-9ğüşıöç]+/g, '-').replace(/^-|-$/g, '') || 'genel';
+
+const shorten = (text: string, max = 80) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+// Groups items by day and a label, e.g. the subject
+const groupByDay = <T>(items: T[], getDate: (item: T) => Date, getLabel: (item: T) => string) => {
+  const groups = new Map<string, { day: Date; label: string; items: T[] }>();
+  items.forEach(item => {
+    const day = startOfDay(getDate(item));
+    const label = getLabel(item);
+    const key = `${dayKey(day)}_${slug(label)}`;
+    const group = groups.get(key) ?? { day, label, items: [] };
+    group.items.push(item);
+    groups.set(key, group);
+  });
+  return [...groups.entries()];
+};
+
+const collectMemories = async (userId: string, now: Date): Promise<MemoryDraft[]> => {
+  const since = addDays(startOfDay(now), -MEMORY_WINDOW_DAYS);
+  const inWindow = (date: Date) => date >= since && date <= now;
+
+  // Bir kaynak okunamazsa diğerleri yine hatırlansın
+  const [mistakes, solved, xpEvents, plan, userDoc] = await Promise.all([
+    mistakeService.getMistakes(userId).catch(() => []),
+    solvedQuestionService.getSolvedQuestions(userId).catch(() => []),
+    xpService.getEvents(userId, 100).catch(() => []),
+    studyPlanService.getPlan(userId).catch(() => null),
+    getDoc(doc(db, 'users', userId)).catch(() => null),
+  ]);
+  const drafts: MemoryDraft[] = [];
+
+  groupByDay(
+    mistakes.filter(mistake => inWindow(new Date(mistake.created_at))),
+    mistake => new Date(mistake.created_at),
+    mistake => mistake.question.subject || 'Genel'
+  ).forEach(([key, { day, label, items }]) => {
+    const examples = items.slice(0, 2).map(mistake => `"${shorten(mistake.question.question)}"`).join(', ');
+    drafts.push({
+      key: `mistakes_${key}`,
+      kind: 'mistakes',
+      text: `${label} dersinde ${items.length} soruyu yanlış cevapladı. Örnek: ${examples}`,
+      occurredAt: day,
+    });
+  });
+
+  groupByDay(
+    solved.filter(question => inWindow(question.createdAt)),
+    question => question.createdAt,
+    question => question.subject || 'Genel'
+  ).forEach(([key, { day, label, items }]) => {
+    drafts.push({
+      key: `solved_${key}`,
+      kind: 'solvedQuestions',
+      text: `Soru çözücüyle ${items.length} ${label} sorusu çözdü (${[...new Set(items.map(item => item.difficulty))].join(', ')}).`,
+      occurredAt: day,
+    });
+  });
+
+  groupByDay(xpEvents.filter(event => inWindow(event.createdAt)), event => event.createdAt, () => 'xp')
+    .forEach(([key, { day, items }]) => {
+      const total = items.reduce((sum, event) => sum + event.amount, 0);
+      const sources = [...new Set(items.map(event => XP_SOURCE_LABELS[event.source] ?? event.source))].join(', ');
+      drafts.push({ key, kind: 'xp', text: `${total} XP kazandı (${sources}).`, occurredAt: day });
+    });
+
+  const streak = userDoc?.data()?.streak;
+  if (typeof streak === 'number' && streak > 0) {
+    drafts.push({
+      key: `streak_${dayKey(now)}`,
+      kind: 'streak',
+      text: `${streak} gündür aralıksız çalışıyor.`,
+      occurredAt: startOfDay(now),
+    });
+  }
+
+  if (plan) {
+    groupByDay(
+      plan.tasks.filter(task => inWindow(task.date) && !isSameDay(task.date, now)),
+      task => task.date,
+      () => 'plan'
+    ).forEach(([key, { day, items }]) => {
+      const done = items.filter(task => task.completed).length;
+      const missed = items.filter(task => !task.completed).map(task => task.title);
+      drafts.push({
+        key,
+        kind: 'studyPlan',
+        text: `Çalışma planındaki ${items.length} görevden ${done} tanesini tamamladı.`
+          + (missed.length ? ` Yapılmayanlar: ${missed.slice(0, 3).join(', ')}.` : ''),
+        occurredAt: day,
+      });
+    });
+  }
+
+  return drafts;
+};
+
+const formatRelativeDay = (date: Date, now: Date) => {
+  const days = Math.round((startOfDay(now).getTime() - startOfDay(date).getTime()) / 86400000);
+  if (days <= 0) return 'Bugün';
+  if (days === 1) return 'Dün';
+  return `${days} gün önce`;
+};
+
+// Memory lines for the coach prompt, newest first
+export const buildMemoryContext = (memories: CoachMemory[], now: Date = new Date()) =>
+  memories.length === 0
+    ? ''
+    : `Öğrencinin son ${MEMORY_WINDOW_DAYS} gündeki çalışmaları hakkında hatırladıkların. Uygun olduğunda bunlara doğal bir dille değin, örneğin yanlış yaptığı konuları birlikte tekrar etmeyi öner:\n`
+      + memories.map(memory => `- ${formatRelativeDay(memory.occurredAt, now)}: ${memory.text}`).join('\n');
+
+export const coachMemoryService = {
+  // Refresh memories from the student's recent activity
+  async syncMemories(userId: string, now: Date = new Date()) {
+    const [drafts, existing] = await Promise.all([
+      collectMemories(userId, now),
+      getDocs(query(collection(db, 'coachMemories'), where('userId', '==', userId))),
+    ]);
+    const stored = new Map(existing.docs.map(memoryDoc => [memoryDoc.id, memoryDoc.data()]));
+
+    const changed = drafts.filter(draft => {
+      const current = stored.get(`${userId}_${draft.key}`);
+      return !current?.forgotten && current?.text !== draft.text;
+    });
+    await Promise.all(changed.map(draft => setDoc(memoryRef(userId, draft.key), {
+      userId,
+      kind: draft.kind,
+      text: draft.text,
+      occurredAt: Timestamp.fromDate(draft.occurredAt),
+      forgotten: false,
+      updatedAt: serverTimestamp(),
+    })));
+  },
+
+  // Get what the coach remembers from the last days, newest first
+  async getMemories(userId: string, now: Date = new Date()) {
+    const since = addDays(startOfDay(now), -MEMORY_WINDOW_DAYS);
+    const snapshot = await getDocs(query(collection(db, 'coachMemories'), where('userId', '==', userId)));
+    return snapshot.docs
+      .filter(memoryDoc => !memoryDoc.data().forgotten)
+      .map(memoryDoc => {
+        const data = memoryDoc.data();
+        return {
+          id: memoryDoc.id,
+          userId: data.userId,
+          kind: data.kind,
+          text: data.text,
+          occurredAt: toDate(data.occurredAt),
+          updatedAt: toDate(data.updatedAt),
+        } as CoachMemory;
+      })
+      .filter(memory => memory.occurredAt >= since)
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime());
+  },
+
+  // Forget one memory; its text is erased and it is not recreated
+  async forgetMemory(memoryId: string) {
+    await setDoc(doc(db, 'coachMemories', memoryId), { text: '', forgotten: true, updatedAt: serverTimestamp() }, { merge: true });
+  },
+
+  // Forget everything the coach currently remembers
+  async forgetAll(memories: CoachMemory[]) {
+    const batch = writeBatch(db);
+    memories.forEach(memory => {
+      batch.set(doc(db, 'coachMemories', memory.id), { text: '', forgotten: true, updatedAt: serverTimestamp() }, { merge: true });
+    });
+    await batch.commit();
+  },
+};
@@ -0,0 +1,185 @@
+import { addDoc, collection, deleteField, doc, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebase';
+import { AiOutputError, generateCoachProfile, GeneratedCoachProfile } from './gemini';
+import { toDate } from './utils';
+import { AICoach, CoachCreationForm } from '../types';
+
+// Coaches below this version were saved by the old wizard without a generated profile
+export const COACH_PROFILE_VERSION = 2;
+
+// Fields the old wizard wrote; removed once a coach is upgraded
+const LEGACY_FIELDS = ['coachName', 'targetDate', 'subjects', 'communicationTone', 'interactions', 'dailyHours', 'personality'];
+
+// Tone ids of the old wizard mapped to CoachCreationForm tones
+const LEGACY_TONES: Record<string, CoachCreationForm['tone']> = {
+  encouraging: 'encouraging',
+  inspirational: 'motivational',
+  clear: 'no-nonsense',
+  detailed: 'detailed',
+};
+
+const STUDY_TIMES: CoachCreationForm['preferredStudyTime'][] = ['morning', 'afternoon', 'evening', 'night'];
+
+const isTextList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const textList = (value: unknown) => (isTextList(value) ? value.filter(item => item.trim()) : []);
+
+const clampTrait = (value: number) => Math.min(10, Math.max(1, Math.round(value)));
+
+const toPreferences = (dailyInteraction: string[]): AICoach['communicationPreferences'] => ({
+  morningCheckIn: dailyInteraction.includes('morning_check'),
+  taskLists: dailyInteraction.includes('task_lists'),
+  reflectionPrompts: dailyInteraction.includes('thought_questions'),
+  motivationalQuotes: dailyInteraction.includes('motivational_quotes'),
+});
+
+// Checks the generated profile against AICoach and merges it with the student's choices
+export const buildCoachProfile = (
+  userId: string,
+  form: CoachCreationForm,
+  generated: GeneratedCoachProfile
+): Omit<AICoach, 'id' | 'createdAt'> => {
+  const issues: string[] = [];
+  (['name', 'style', 'description', 'tone'] as const).forEach(key => {
+    if (typeof generated[key] !== 'string' || !generated[key].trim()) issues.push(`${key} boş olmamalı`);
+  });
+  (['dailyRoutine', 'motivationalMessages', 'studyTips', 'weeklyGoals'] as const).forEach(key => {
+    if (!isTextList(generated[key])) issues.push(`${key} metin listesi olmalı`);
+  });
+  const traits = generated.personalityTraits;
+  (['strictness', 'humor', 'supportiveness', 'detailLevel'] as const).forEach(key => {
+    if (typeof traits?.[key] !== 'number' || Number.isNaN(traits[key])) issues.push(`personalityTraits.${key} sayı olmalı`);
+  });
+  if (issues.length) throw new AiOutputError(issues);
+
+  return {
+    userId,
+    // Öğrencinin verdiği isim ve tarih, modelin önerisinden önce gelir
+    name: form.name?.trim() || generated.name,
+    style: generated.style,
+    description: generated.description,
+    dailyRoutine: textList(generated.dailyRoutine),
+    subjectFocus: form.subjectFocus.length ? form.subjectFocus : textList(generated.subjectFocus),
+    tone: generated.tone,
+    examTargetDate: form.examTargetDate || generated.examTargetDate || '',
+    examType: form.examType,
+    preferredStudyTime: form.preferredStudyTime,
+    studyHoursPerDay: form.studyHoursPerDay,
+    weakSubjects: form.weakSubjects,
+    dailyInteraction: form.dailyInteraction,
+    communicationPreferences: toPreferences(form.dailyInteraction),
+    personality: {
+      strictness: clampTrait(traits.strictness),
+      humor: clampTrait(traits.humor),
+      supportiveness: clampTrait(traits.supportiveness),
+      detailLevel: clampTrait(traits.detailLevel),
+    },
+    ...(form.personalityNotes?.trim() ? { personalityNotes: form.personalityNotes.trim() } : {}),
+    motivationalMessages: textList(generated.motivationalMessages),
+    studyTips: textList(generated.studyTips),
+    weeklyGoals: textList(generated.weeklyGoals),
+    isActive: true,
+    profileVersion: COACH_PROFILE_VERSION,
+  };
+};
+
+export const isLegacyCoach = (data: Record<string, unknown>) =>
+  ((data.profileVersion as number) || 1) < COACH_PROFILE_VERSION;
+
+// Rebuilds the wizard answers of a coach saved by the old wizard
+const legacyToForm = (data: Record<string, unknown>): CoachCreationForm => {
+  const tones = textList(data.communicationTone);
+  const preferredStudyTime = STUDY_TIMES.find(time => time === data.preferredStudyTime) ?? 'evening';
+  return {
+    name: (data.coachName as string) || undefined,
+    style: 'friendly',
+    tone: LEGACY_TONES[tones[0]] ?? 'encouraging',
+    personalityNotes: (data.personality as string) || undefined,
+    examType: ((data.examType as string) || 'TYT') as CoachCreationForm['examType'],
+    examTargetDate: (data.targetDate as string) || '',
+    subjectFocus: textList(data.subjects),
+    weakSubjects: [],
+    dailyInteraction: textList(data.interactions),
+    studyHoursPerDay: parseInt(data.dailyHours as string, 10) || 2,
+    preferredStudyTime,
+  };
+};
+
+// Reads a coach document of either version; generated fields stay empty until an upgrade
+export const toAICoach = (id: string, data: Record<string, unknown>): AICoach => {
+  if (!isLegacyCoach(data)) {
+    return { ...data, id, createdAt: toDate(data.createdAt) } as AICoach;
+  }
+  const form = legacyToForm(data);
+  return {
+    id,
+    userId: data.userId as string,
+    name: form.name || 'AI Koç',
+    style: '',
+    description: '',
+    dailyRoutine: [],
+    subjectFocus: form.subjectFocus,
+    tone: textList(data.communicationTone).join(', '),
+    examTargetDate: form.examTargetDate,
+    examType: form.examType,
+    preferredStudyTime: form.preferredStudyTime,
+    studyHoursPerDay: form.studyHoursPerDay,
+    weakSubjects: [],
+    dailyInteraction: form.dailyInteraction,
+    communicationPreferences: toPreferences(form.dailyInteraction),
+    personality: { strictness: 5, humor: 5, supportiveness: 5, detailLevel: 5 },
+    personalityNotes: form.personalityNotes,
+    motivationalMessages: [],
+    studyTips: [],
+    weeklyGoals: [],
+    summary: data.summary as string | undefined,
+    createdAt: toDate(data.createdAt),
+    isActive: true,
+    profileVersion: 1,
+  };
+};
+
+// The coach's identity and plan, prepended to every chat prompt
+export const buildCoachSystemPrompt = (coach: AICoach) => {
+  const lines = [
+    `Sen, ${coach.name} adında bir kişisel öğrenci koçusun.${coach.description ? ` ${coach.description}` : ''}`,
+    `Öğrencinin hedefi ${coach.examType} sınavını${coach.examTargetDate ? ` ${coach.examTargetDate} tarihinde` : ''} başarmak.`,
+    `Odak dersler: ${coach.subjectFocus.join(', ') || 'belirtilmedi'}.${coach.weakSubjects.length ? ` Zorlandığı dersler: ${coach.weakSubjects.join(', ')}.` : ''}`,
+    `Günde yaklaşık ${coach.studyHoursPerDay} saat çalışıyor.`,
+    `Tarzın: ${coach.style || 'samimi'}. İletişim tonun: ${coach.tone || 'cesaretlendirici'}.`,
+    `Kişilik puanların (1-10): disiplin ${coach.personality.strictness}, mizah ${coach.personality.humor}, destek ${coach.personality.supportiveness}, detay ${coach.personality.detailLevel}.`,
+  ];
+  if (coach.personalityNotes) lines.push(`Öğrencinin senden beklentisi: ${coach.personalityNotes}`);
+  if (coach.dailyRoutine.length) lines.push(`Öğrenciyle birlikte belirlediğiniz günlük rutin: ${coach.dailyRoutine.join('; ')}.`);
+  if (coach.weeklyGoals.length) lines.push(`Bu haftanın hedefleri: ${coach.weeklyGoals.join('; ')}.`);
+  lines.push('Kısa, net ve samimi cevaplar ver. Kullanıcının sorularına bu kimlikle cevap ver.');
+  return lines.join('\n');
+};
+
+export const coachService = {
+  // Generate a coach profile from the wizard answers and save it
+  async createCoach(userId: string, form: CoachCreationForm) {
+    const profile = buildCoachProfile(userId, form, await generateCoachProfile(form));
+    const coachRef = await addDoc(collection(db, 'coaches'), { ...profile, createdAt: serverTimestamp() });
+    return { ...profile, id: coachRef.id, createdAt: new Date() } as AICoach;
+  },
+
+  // Give a coach from the old wizard a generated profile; chat history and summary stay
+  async upgradeCoach(coachId: string, data: Record<string, unknown>) {
+    const form = legacyToForm(data);
+    const profile = buildCoachProfile(data.userId as string, form, await generateCoachProfile(form));
+    await updateDoc(doc(db, 'coaches', coachId), {
+      ...profile,
+      ...Object.fromEntries(LEGACY_FIELDS.map(field => [field, deleteField()])),
+    });
+  },
+
+  // Admins only: give coaches saved without a study time the default, so check-ins reach them
+  async backfillStudyTimes() {
+    const backfillCoachStudyTimes = httpsCallable<void, { updated: number }>(functions, 'backfillCoachStudyTimes');
+    const { data } = await backfillCoachStudyTimes();
+    return data.updated;
+  },
+};
@@ -0,0 +1,316 @@
+// Generated by `npm run supabase:types` from supabase/migrations. Do not edit by hand.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      class_students: {
+        Row: {
+          class_id: string
+          student_id: string
+          teacher_id: string
+        }
+        Insert: {
+          class_id: string
+          student_id: string
+          teacher_id: string
+        }
+        Update: {
+          class_id?: string
+          student_id?: string
+          teacher_id?: string
+        }
+        Relationships: []
+      }
+      lesson_mistakes: {
+        Row: {
+          ai_explanation: string
+          correct_answer: string
+          created_at: string
+          id: string
+          lesson_id: string | null
+          question: Json
+          user_answer: string
+          user_id: string
+        }
+        Insert: {
+          ai_explanation?: string
+          correct_answer: string
+          created_at?: string
+          id?: string
+          lesson_id?: string | null
+          question: Json
+          user_answer: string
+          user_id: string
+        }
+        Update: {
+          ai_explanation?: string
+          correct_answer?: string
+          created_at?: string
+          id?: string
+          lesson_id?: string | null
+          question?: Json
+          user_answer?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_mistakes_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_reviews: {
+        Row: {
+          actor_id: string
+          actor_name: string | null
+          comment: string | null
+          created_at: string
+          from_status: string
+          id: string
+          lesson_id: string
+          to_status: string
+        }
+        Insert: {
+          actor_id: string
+          actor_name?: string | null
+          comment?: string | null
+          created_at?: string
+          from_status: string
+          id?: string
+          lesson_id: string
+          to_status: string
+        }
+        Update: {
+          actor_id?: string
+          actor_name?: string | null
+          comment?: string | null
+          created_at?: string
+          from_status?: string
+          id?: string
+          lesson_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_reviews_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_revisions: {
+        Row: {
+          attachments: Json
+          author_id: string | null
+          author_name: string | null
+          content: string
+          cover_image_url: string | null
+          created_at: string
+          grade_level: string
+          id: string
+          interactive_questions: Json
+          lesson_id: string
+          restored_from: string | null
+          revision_number: number
+          source: string
+          subject: string
+          title: string
+          video_url: string | null
+        }
+        Insert: {
+          attachments: Json
+          author_id?: string | null
+          author_name?: string | null
+          content: string
+          cover_image_url?: string | null
+          created_at?: string
+          edit_source?: string
+          grade_level: string
+          id?: string
+          interactive_questions: Json
+          lesson_id: string
+          restored_from?: string | null
+          revision_number: number
+          source: string
+          subject: string
+          title: string
+          video_url?: string | null
+        }
+        Update: {
+          attachments?: Json
+          author_id?: string | null
+          author_name?: string | null
+          content?: string
+          cover_image_url?: string | null
+          created_at?: string
+          grade_level?: string
+          id?: string
+          interactive_questions?: Json
+          lesson_id?: string
+          restored_from?: string | null
+          revision_number?: number
+          source?: string
+          subject?: string
+          title?: string
+          video_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_revisions_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lesson_revisions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "lesson_revisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lessons: {
+        Row: {
+          attachments: Json
+          author_id: string | null
+          content: string
+          cover_image_url: string | null
+          created_at: string
+          edit_source: string
+          grade_level: string
+          id: string
+          interactive_questions: Json
+          lock_video_seek: boolean
+          status: string
+          subject: string
+          title: string
+          updated_at: string
+          video_url: string | null
+        }
+        Insert: {
+          attachments?: Json
+          author_id?: string | null
+          content?: string
+          cover_image_url?: string | null
+          created_at?: string
+          grade_level: string
+          id?: string
+          interactive_questions?: Json
+          lock_video_seek?: boolean
+          status?: string
+          subject: string
+          title: string
+          updated_at?: string
+          video_url?: string | null
+        }
+        Update: {
+          attachments?: Json
+          author_id?: string | null
+          content?: string
+          cover_image_url?: string | null
+          created_at?: string
+          edit_source?: string
+          grade_level?: string
+          id?: string
+          interactive_questions?: Json
+          lock_video_seek?: boolean
+          status?: string
+          subject?: string
+          title?: string
+          updated_at?: string
+          video_url?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      app_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      guard_lesson_status: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      record_lesson_revision: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      restore_lesson_revision: {
+        Args: {
+          p_revision_id: string
+        }
+        Returns: {
+          attachments: Json
+          author_id: string | null
+          content: string
+          cover_image_url: string | null
+          created_at: string
+          edit_source: string
+          grade_level: string
+          id: string
+          interactive_questions: Json
+          lock_video_seek: boolean
+          status: string
+          subject: string
+          title: string
+          updated_at: string
+          video_url: string | null
+        }
+      }
+      set_updated_at: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      transition_lesson_status: {
+        Args: {
+          p_comment?: string
+          p_lesson_id: string
+          p_to_status: string
+        }
+        Returns: {
+          actor_id: string
+          actor_name: string | null
+          comment: string | null
+          created_at: string
+          from_status: string
+          id: string
+          lesson_id: string
+          to_status: string
+        }
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
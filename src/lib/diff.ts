@@ -0,0 +1,85 @@
+// Line diff for comparing two versions of a text side by side.
+
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+// One row of a side-by-side view; a missing side is blank in that column
+export interface DiffRow {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+type Op = { type: 'same' | 'removed' | 'added'; left?: number; right?: number };
+
+// Longest common subsequence over the lines between the common prefix and suffix
+const diffOps = (a: string[], b: string[]): Op[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  // lengths[i][j]: LCS length of a[start + i..endA) and b[start + j..endB)
+  const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = a[start + i] === b[start + j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  for (let k = 0; k < start; k++) ops.push({ type: 'same', left: k, right: k });
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      ops.push({ type: 'same', left: start + i++, right: start + j++ });
+    } else if (j < cols && (i === rows || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      ops.push({ type: 'added', right: start + j++ });
+    } else {
+      ops.push({ type: 'removed', left: start + i++ });
+    }
+  }
+  for (let k = 0; k < a.length - endA; k++) ops.push({ type: 'same', left: endA + k, right: endB + k });
+  return ops;
+};
+
+// Removed and added lines next to each other are paired into 'changed' rows
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const line = (lines: string[], index: number): DiffLine => ({ number: index + 1, text: lines[index] });
+
+  const result: DiffRow[] = [];
+  const ops = diffOps(a, b);
+  for (let k = 0; k < ops.length;) {
+    if (ops[k].type === 'same') {
+      result.push({ kind: 'same', left: line(a, ops[k].left!), right: line(b, ops[k].right!) });
+      k++;
+      continue;
+    }
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (k < ops.length && ops[k].type !== 'same') {
+      if (ops[k].type === 'removed') removed.push(ops[k].left!);
+      else added.push(ops[k].right!);
+      k++;
+    }
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = n < removed.length ? line(a, removed[n]) : undefined;
+      const right = n < added.length ? line(b, added[n]) : undefined;
+      result.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+  return result;
+};
@@ -0,0 +1,242 @@
+import { addDoc, collection, deleteDoc, doc, getDocs, query, serverTimestamp, updateDoc, where, writeBatch } from 'firebase/firestore';
+import { db } from './firebase';
+import { generateFlashcards } from './gemini';
+import { lessonService, mistakeService } from './supabase';
+import { toDate } from './utils';
+import { Flashcard, FlashcardDeck } from '../types';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+type NewFlashcard = Pick<Flashcard, 'front' | 'back' | 'tags'> & { sourceId?: string };
+
+// SM-2 answer quality for each grading button (0-5 scale).
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 2,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const EASY_BONUS = 1.3;
+const HARD_FACTOR = 1.2;
+// "Tekrar" denen kart aynı oturumda 10 dakika sonra yeniden sorulur
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduleResult {
+  difficulty: number;
+  interval: number;
+  repetitions: number;
+  nextReview: Date;
+}
+
+// SM-2 scheduling. Failed cards restart their repetition count and come back
+// after a short relearn delay; passed cards grow their interval by the ease
+// factor, with "hard" growing slower and "easy" faster than "good".
+export const scheduleReview = (
+  card: Pick<Flashcard, 'difficulty' | 'interval' | 'repetitions'>,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ScheduleResult => {
+  const quality = GRADE_QUALITY[grade];
+  const ease = Math.max(
+    MIN_EASE,
+    card.difficulty + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (grade === 'again') {
+    return {
+      difficulty: ease,
+      interval: 0,
+      repetitions: 0,
+      nextReview: new Date(now.getTime() + RELEARN_DELAY_MS),
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  let interval: number;
+  if (repetitions === 1) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (repetitions === 2) {
+    interval = grade === 'hard' ? 3 : 6;
+  } else if (grade === 'hard') {
+    interval = Math.max(card.interval + 1, Math.round(card.interval * HARD_FACTOR));
+  } else {
+    interval = Math.round(card.interval * ease * (grade === 'easy' ? EASY_BONUS : 1));
+  }
+
+  return {
+    difficulty: ease,
+    interval,
+    repetitions,
+    nextReview: new Date(now.getTime() + interval * DAY_MS),
+  };
+};
+
+// Short label for the interval a grade would produce, shown on the buttons.
+export const formatInterval = (result: ScheduleResult) => {
+  if (result.interval === 0) return '10 dk';
+  if (result.interval < 30) return `${result.interval} gün`;
+  if (result.interval < 365) return `${Math.round(result.interval / 30)} ay`;
+  return `${(result.interval / 365).toFixed(1)} yıl`;
+};
+
+export const isDue = (card: Flashcard, now: Date = new Date()) =>
+  card.nextReview.getTime() <= now.getTime();
+
+const fromDoc = (id: string, data: Record<string, unknown>) => ({
+  ...data,
+  id,
+  nextReview: toDate(data.nextReview),
+  lastReviewed: data.lastReviewed ? toDate(data.lastReviewed) : undefined,
+  createdAt: toDate(data.createdAt),
+}) as Flashcard;
+
+export const flashcardService = {
+  // Get all decks of a user
+  async getDecks(userId: string) {
+    const snapshot = await getDocs(query(collection(db, 'flashcardDecks'), where('userId', '==', userId)));
+    return snapshot.docs
+      .map(deckDoc => ({ ...deckDoc.data(), id: deckDoc.id, createdAt: toDate(deckDoc.data().createdAt) }) as FlashcardDeck)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  },
+
+  // Create new deck
+  async createDeck(deck: Omit<FlashcardDeck, 'id' | 'createdAt'>) {
+    const payload = Object.fromEntries(Object.entries(deck).filter(([, value]) => value !== undefined));
+    const deckRef = await addDoc(collection(db, 'flashcardDecks'), { ...payload, createdAt: serverTimestamp() });
+    return { ...deck, id: deckRef.id, createdAt: new Date() } as FlashcardDeck;
+  },
+
+  // Delete a deck together with its cards
+  async deleteDeck(userId: string, deckId: string) {
+    const cards = await this.getCards(userId, deckId);
+    const batch = writeBatch(db);
+    cards.forEach(card => batch.delete(doc(db, 'flashcards', card.id)));
+    batch.delete(doc(db, 'flashcardDecks', deckId));
+    await batch.commit();
+  },
+
+  // Get a user's cards, optionally limited to one deck
+  async getCards(userId: string, deckId?: string) {
+    const constraints = [where('userId', '==', userId)];
+    if (deckId) constraints.push(where('deckId', '==', deckId));
+    const snapshot = await getDocs(query(collection(db, 'flashcards'), ...constraints));
+    return snapshot.docs.map(cardDoc => fromDoc(cardDoc.id, cardDoc.data()));
+  },
+
+  // Cards whose review time has come, most overdue first
+  async getDueCards(userId: string, deckId?: string) {
+    const now = new Date();
+    const cards = await this.getCards(userId, deckId);
+    return cards
+      .filter(card => isDue(card, now))
+      .sort((a, b) => a.nextReview.getTime() - b.nextReview.getTime());
+  },
+
+  // Add cards to a deck; new cards are due immediately
+  async addCards(userId: string, deckId: string, cards: NewFlashcard[]) {
+    const batch = writeBatch(db);
+    const now = new Date();
+    const created: Flashcard[] = cards.map(card => {
+      const cardRef = doc(collection(db, 'flashcards'));
+      const data = {
+        ...card,
+        deckId,
+        userId,
+        difficulty: INITIAL_EASE,
+        interval: 0,
+        repetitions: 0,
+        nextReview: now,
+      };
+      const payload = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+      batch.set(cardRef, { ...payload, createdAt: serverTimestamp() });
+      return { ...data, id: cardRef.id, createdAt: now };
+    });
+    await batch.commit();
+    return created;
+  },
+
+  // Edit the text or tags of a card
+  async updateCard(cardId: string, updates: Partial<Pick<Flashcard, 'front' | 'back' | 'tags'>>) {
+    await updateDoc(doc(db, 'flashcards', cardId), updates);
+  },
+
+  // Delete card
+  async deleteCard(cardId: string) {
+    await deleteDoc(doc(db, 'flashcards', cardId));
+  },
+
+  // Apply a grade and persist the new schedule
+  async reviewCard(card: Flashcard, grade: ReviewGrade) {
+    const now = new Date();
+    const schedule = scheduleReview(card, grade, now);
+    await updateDoc(doc(db, 'flashcards', card.id), { ...schedule, lastReviewed: now });
+    return { ...card, ...schedule, lastReviewed: now } as Flashcard;
+  },
+
+  // Generate a deck from a lesson's content. Re-running for the same lesson
+  // adds cards to the existing deck instead of creating a new one.
+  async generateFromLesson(userId: string, lessonId: string, cardCount = 10) {
+    const lesson = await lessonService.getLessonById(lessonId);
+
+    // The server validates the cards against the flashcards schema
+    const generated = await generateFlashcards({
+      title: lesson.title,
+      subject: lesson.subject,
+      content: lesson.content,
+      cardCount,
+    });
+    const cards: NewFlashcard[] = generated.map(({ front, back }) => ({ front, back, tags: [lesson.subject], sourceId: lesson.id }));
+
+    const decks = await this.getDecks(userId);
+    const deck = decks.find(d => d.source === 'lesson' && d.lessonId === lesson.id)
+      ?? await this.createDeck({
+        userId,
+        name: lesson.title,
+        description: `${lesson.subject} • ${lesson.grade_level}`,
+        source: 'lesson',
+        lessonId: lesson.id,
+      });
+
+    const created = await this.addCards(userId, deck.id, cards);
+    return { deck, created };
+  },
+
+  // Turn saved lesson_mistakes rows into cards. Each mistake becomes one card
+  // and is only ever added once.
+  async generateFromMistakes(userId: string) {
+    const mistakes = await mistakeService.getMistakes(userId);
+
+    const decks = await this.getDecks(userId);
+    const deck = decks.find(d => d.source === 'mistakes')
+      ?? await this.createDeck({
+        userId,
+        name: 'Hatalarım',
+        description: 'Yanlış cevapladığın sorulardan oluşturulan kartlar',
+        source: 'mistakes',
+      });
+
+    const existing = await this.getCards(userId, deck.id);
+    const seen = new Set(existing.map(card => card.sourceId));
+
+    const cards: NewFlashcard[] = mistakes
+      .filter(mistake => !seen.has(mistake.id))
+      .map(mistake => {
+        const { question } = mistake;
+        const options = question.options?.length ? `\n\n${question.options.join('\n')}` : '';
+        const explanation = mistake.ai_explanation ? `\n\n${mistake.ai_explanation}` : '';
+        return {
+          front: `${question.question}${options}`,
+          back: `${mistake.correct_answer}${explanation}`,
+          tags: question.subject ? [question.subject] : [],
+          sourceId: mistake.id,
+        };
+      });
+
+    const created = cards.length > 0 ? await this.addCards(userId, deck.id, cards) : [];
+    return { deck, created };
+  },
+};
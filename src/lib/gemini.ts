@@ -1,127 +1,219 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY || '');
-
-// Rate limiting için basit bir queue sistemi
-let requestQueue: Array<() => Promise<any>> = [];
-let isProcessing = false;
-const RATE_LIMIT_DELAY = 1000; // 1 saniye
-
-const processQueue = async () => {
-  if (isProcessing || requestQueue.length === 0) return;
-  
-  isProcessing = true;
-  
-  while (requestQueue.length > 0) {
-    const request = requestQueue.shift();
-    if (request) {
-      try {
-        await request();
-        // Rate limit için bekle
-        await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY));
-      } catch (error) {
-        console.error('Queue request failed:', error);
-      }
-    }
-  }
-  
-  isProcessing = false;
+import { FirebaseError } from 'firebase/app';
+import { FunctionsError, httpsCallable } from 'firebase/functions';
+import { auth, functions } from './firebase';
+import { AICoach, CoachCreationForm, Question, QuestionSolution, Quiz } from '../types';
+
+// Every AI request goes through the aiGateway callable; the Gemini key,
+// quotas, model choice and usage logs all live on the server.
+
+export type AiEndpoint = 'chat' | 'explanation' | 'image' | 'questions' | 'solution' | 'quiz' | 'flashcards' | 'coachProfile' | 'coachAttachment';
+
+export interface QuizRequest {
+  topic: string;
+  subject: string;
+  difficulty: Quiz['difficulty'];
+  questionCount: number;
+  types: Question['type'][];
+  lessonContent?: string;
+  lessonId?: string;
+}
+
+// The quiz endpoint saves the quiz and returns it without its answer keys
+export type SavedQuiz = Omit<Quiz, 'createdAt'> & { createdAt: string };
+
+// Interactive lesson questions as the model returns them, before ids are assigned
+export interface GeneratedInteractiveQuestion {
+  timestamp: number;
+  question: string;
+  options: string[];
+  correctAnswer: string;
+}
+
+export interface FlashcardRequest {
+  title: string;
+  subject: string;
+  content: string;
+  cardCount: number;
+}
+
+export interface GeneratedFlashcard {
+  front: string;
+  back: string;
+}
+
+export interface GeneratedCoachProfile
+  extends Pick<AICoach, 'name' | 'style' | 'description' | 'dailyRoutine' | 'subjectFocus' | 'tone' | 'examTargetDate'> {
+  personalityTraits: AICoach['personality'];
+  motivationalMessages: string[];
+  studyTips: string[];
+  weeklyGoals: string[];
+}
+
+interface AiEndpointPayloads {
+  chat: { prompt: string };
+  explanation: { question: string; options: string[]; correctAnswer: string; userAnswer: string };
+  image: { prompt: string; imageBase64: string; mimeType: string };
+  questions: { content: string; subject: string };
+  solution: { imageBase64: string; mimeType: string };
+  quiz: QuizRequest;
+  flashcards: FlashcardRequest;
+  coachProfile: CoachCreationForm;
+  // imageBase64 may also hold a PDF; mimeType tells them apart
+  coachAttachment: { prompt: string; imageBase64: string; mimeType: string };
+}
+
+// Structured endpoints answer with `data` validated against a schema on the server
+interface AiEndpointData {
+  questions: GeneratedInteractiveQuestion[];
+  solution: QuestionSolution;
+  quiz: SavedQuiz;
+  flashcards: GeneratedFlashcard[];
+  coachProfile: GeneratedCoachProfile;
+  coachAttachment: QuestionSolution;
+}
+
+type AiEndpointResult<E extends AiEndpoint> = E extends keyof AiEndpointData ? { data: AiEndpointData[E] } : { text: string };
+
+export type AiGatewayResponse<E extends AiEndpoint = AiEndpoint> = AiEndpointResult<E> & {
+  model: string;
+  // Quota left for today after this request
+  remaining: number;
 };
 
-const addToQueue = (request: () => Promise<any>) => {
-  requestQueue.push(request);
-  processQueue();
+// The model's answer did not match the expected schema, even after one repair attempt
+export class AiOutputError extends Error {
+  constructor(readonly issues: string[]) {
+    super('AI beklenen biçimde bir yanıt üretemedi. Lütfen tekrar deneyin.');
+    this.name = 'AiOutputError';
+  }
+}
+
+const toAiOutputError = (error: unknown) => {
+  if (!(error instanceof FirebaseError)) return null;
+  const details = (error as FunctionsError).details as { reason?: string; issues?: string[] } | undefined;
+  return details?.reason === 'invalid_ai_output' ? new AiOutputError(details.issues ?? []) : null;
 };
 
-// Retry mekanizması
-const retryWithBackoff = async (fn: () => Promise<any>, maxRetries = 3) => {
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      if (error.message?.includes('429') && i < maxRetries - 1) {
-        const delay = Math.pow(2, i) * 1000; // Exponential backoff: 1s, 2s, 4s
-        console.log(`Rate limited, retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        continue;
-      }
-      throw error;
-    }
+const callGateway = async <E extends AiEndpoint>(endpoint: E, payload: AiEndpointPayloads[E]) => {
+  const aiGateway = httpsCallable<AiEndpointPayloads[E] & { endpoint: E }, AiGatewayResponse<E>>(functions, 'aiGateway');
+  try {
+    const { data } = await aiGateway({ ...payload, endpoint });
+    return data;
+  } catch (error) {
+    throw toAiOutputError(error) ?? error;
   }
 };
 
-// Offline fallback responses
-const getOfflineResponse = (type: 'chat' | 'question' | 'explanation' | 'image') => {
+const isQuotaError = (error: unknown) =>
+  error instanceof FirebaseError && error.code === 'functions/resource-exhausted';
+
+// Shown instead of an answer when the daily quota or the API limit is reached
+const getOfflineResponse = (type: AiEndpoint, error: unknown) => {
+  const reason = error instanceof Error && error.message ? error.message : 'Şu anda API kullanım limitimiz dolmuş durumda.';
   switch (type) {
     case 'chat':
-      return "Merhaba! Şu anda API kullanım limitimiz dolmuş durumda. Lütfen birkaç dakika bekleyip tekrar deneyin. Bu süre zarfında size yardımcı olabileceğim başka konular hakkında sorular sorabilirsiniz.";
-    case 'question':
-      return "Bu konu hakkında temel sorular oluşturmak için API'ye ihtiyacım var. Şu anda kullanım limitimiz dolmuş durumda. Lütfen daha sonra tekrar deneyin.";
-    case 'explanation':
-      return "Bu soru hakkında detaylı açıklama yapmak için API'ye ihtiyacım var. Şu anda kullanım limitimiz dolmuş durumda. Lütfen daha sonra tekrar deneyin.";
+      return `Merhaba! ${reason} Bu süre zarfında size yardımcı olabileceğim başka konular hakkında sorular sorabilirsiniz.`;
     case 'image':
-      return "Bu resmi analiz etmek için API'ye ihtiyacım var. Şu anda kullanım limitimiz dolmuş durumda. Lütfen daha sonra tekrar deneyin.";
+      return `Bu resmi şu anda analiz edemiyorum. ${reason}`;
+    case 'explanation':
+      return `Bu soru hakkında şu anda detaylı açıklama yapamıyorum. ${reason}`;
     default:
-      return "Şu anda API kullanım limitimiz dolmuş durumda. Lütfen birkaç dakika bekleyip tekrar deneyin.";
+      return reason;
   }
 };
 
 export const generateText = async (prompt: string): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    addToQueue(async () => {
-      try {
-        const result = await retryWithBackoff(async () => {
-          const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-          const result = await model.generateContent(prompt);
-          const response = await result.response;
-          return response.text();
-        });
-        resolve(result);
-      } catch (error: any) {
-        console.error('Error generating text with Gemini:', error);
-        
-        // Rate limit hatası durumunda offline fallback
-        if (error.message?.includes('429') || error.message?.includes('quota')) {
-          resolve(getOfflineResponse('chat'));
-        } else {
-          reject(error);
+  try {
+    return (await callGateway('chat', { prompt })).text;
+  } catch (error) {
+    console.error('Error generating text:', error);
+    if (isQuotaError(error)) return getOfflineResponse('chat', error);
+    throw error;
+  }
+};
+
+// Streamed answers come from the aiGatewayStream HTTPS function as
+// newline-delimited JSON events; VITE_AI_STREAM_URL points it at the emulator
+const STREAM_URL = import.meta.env.VITE_AI_STREAM_URL
+  || `https://${functions.region}-${functions.app.options.projectId}.cloudfunctions.net/aiGatewayStream`;
+
+interface AiStreamError {
+  status: string;
+  message: string;
+}
+
+type AiStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; model: string; remaining: number }
+  | { type: 'error'; error: AiStreamError };
+
+// Same error a callable would throw, so isQuotaError covers both gateways
+const toFunctionsError = ({ status, message }: AiStreamError) =>
+  new FirebaseError(`functions/${status.toLowerCase().replace(/_/g, '-')}`, message);
+
+// Calls onDelta as text arrives. Aborting the signal stops generation on the
+// server and resolves with the text received so far.
+export const streamText = async (
+  prompt: string,
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  let text = '';
+  try {
+    const idToken = await auth.currentUser?.getIdToken();
+    const response = await fetch(STREAM_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+      },
+      body: JSON.stringify({ endpoint: 'chat', prompt }),
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null);
+      throw toFunctionsError(body?.error ?? { status: 'INTERNAL', message: 'AI yanıtı oluşturulamadı.' });
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines.filter(Boolean)) {
+        const event = JSON.parse(line) as AiStreamEvent;
+        if (event.type === 'error') throw toFunctionsError(event.error);
+        if (event.type === 'delta') {
+          text += event.text;
+          onDelta(event.text);
         }
       }
-    });
-  });
+    }
+    return text;
+  } catch (error) {
+    if (signal?.aborted) return text;
+    console.error('Error streaming text:', error);
+    if (isQuotaError(error) && !text) {
+      const offline = getOfflineResponse('chat', error);
+      onDelta(offline);
+      return offline;
+    }
+    throw error;
+  }
 };
 
 export const analyzeImage = async (prompt: string, imageBase64: string, mimeType: string): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    addToQueue(async () => {
-      try {
-        const result = await retryWithBackoff(async () => {
-          const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-          
-          const imagePart = {
-            inlineData: {
-              data: imageBase64,
-              mimeType: mimeType,
-            },
-          };
-
-          const result = await model.generateContent([prompt, imagePart]);
-          const response = await result.response;
-          return response.text();
-        });
-        resolve(result);
-      } catch (error: any) {
-        console.error('Error analyzing image with Gemini:', error);
-        
-        // Rate limit hatası durumunda offline fallback
-        if (error.message?.includes('429') || error.message?.includes('quota')) {
-          resolve(getOfflineResponse('image'));
-        } else {
-          reject(error);
-        }
-      }
-    });
-  });
+  try {
+    return (await callGateway('image', { prompt, imageBase64, mimeType })).text;
+  } catch (error) {
+    console.error('Error analyzing image:', error);
+    if (isQuotaError(error)) return getOfflineResponse('image', error);
+    throw error;
+  }
 };
 
 export const generateAIExplanation = async (
@@ -130,114 +222,33 @@ export const generateAIExplanation = async (
   correctAnswer: string,
   userAnswer: string
 ): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    addToQueue(async () => {
-      try {
-        const prompt = `
-        Öğrenci şu soruyu yanlış cevapladı:
-        
-        Soru: ${question}
-        Seçenekler: ${options.join(', ')}
-        Doğru Cevap: ${correctAnswer}
-        Öğrencinin Cevabı: ${userAnswer}
-        
-        Lütfen öğrenciye şunları açıkla:
-        1. Neden bu hatayı yaptığını
-        2. Doğru cevabın nasıl bulunacağını
-        3. Benzer sorularda dikkat etmesi gereken noktaları
-        
-        Kısa, anlaşılır ve motive edici bir şekilde yaz. Türkçe olarak yanıtla.
-        `;
-
-        const result = await retryWithBackoff(async () => {
-          const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-          const result = await model.generateContent(prompt);
-          const response = await result.response;
-          return response.text();
-        });
-        resolve(result);
-      } catch (error: any) {
-        console.error('Error generating AI explanation:', error);
-        
-        // Rate limit hatası durumunda offline fallback
-        if (error.message?.includes('429') || error.message?.includes('quota')) {
-          resolve(getOfflineResponse('explanation'));
-        } else {
-          // Fallback explanation
-          resolve(`Bu soruda ${userAnswer} cevabını verdin, ancak doğru cevap ${correctAnswer}. 
+  try {
+    return (await callGateway('explanation', { question, options, correctAnswer, userAnswer })).text;
+  } catch (error) {
+    console.error('Error generating AI explanation:', error);
+    if (isQuotaError(error)) return getOfflineResponse('explanation', error);
+    // Fallback explanation
+    return `Bu soruda ${userAnswer} cevabını verdin, ancak doğru cevap ${correctAnswer}. 
           Bu tür sorularda dikkat etmen gereken nokta, soruyu dikkatli okumak ve tüm seçenekleri değerlendirmektir. 
-          Bir dahaki sefere daha dikkatli ol! 💪`);
-        }
-      }
-    });
-  });
+          Bir dahaki sefere daha dikkatli ol! 💪`;
+  }
 };
 
-export const generateQuestionFromContent = async (content: string, subject: string): Promise<any> => {
-  return new Promise((resolve, reject) => {
-    addToQueue(async () => {
-      try {
-        const prompt = `
-        Aşağıdaki ders içeriğinden 3 adet çoktan seçmeli soru oluştur:
-        
-        Ders İçeriği: ${content}
-        Konu: ${subject}
-        
-        Her soru için şu formatı kullan:
-        {
-          "id": "unique-id",
-          "timestamp": 60,
-          "question": "Soru metni",
-          "options": ["A) Seçenek 1", "B) Seçenek 2", "C) Seçenek 3", "D) Seçenek 4"],
-          "correctAnswer": "A) Seçenek 1"
-        }
-        
-        Timestamp'ler 30, 120, 300 saniye olarak ayarla.
-        JSON formatında döndür.
-        `;
-
-        const result = await retryWithBackoff(async () => {
-          const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-          const result = await model.generateContent(prompt);
-          const response = await result.response;
-          return response.text();
-        });
-        
-        const text = result;
-        
-        // JSON parse etmeye çalış
-        try {
-          resolve(JSON.parse(text));
-        } catch {
-          // JSON parse edilemezse, basit sorular oluştur
-          resolve([
-            {
-              id: "q1",
-              timestamp: 30,
-              question: "Bu konu hakkında ne öğrendin?",
-              options: ["A) Temel kavramlar", "B) Detaylı analiz", "C) Pratik uygulama", "D) Hepsi"],
-              correctAnswer: "D) Hepsi"
-            },
-            {
-              id: "q2", 
-              timestamp: 120,
-              question: "Hangi yöntem daha etkili?",
-              options: ["A) Geleneksel yöntem", "B) Modern yaklaşım", "C) Hibrit yöntem", "D) Deneme yanılma"],
-              correctAnswer: "C) Hibrit yöntem"
-            },
-            {
-              id: "q3",
-              timestamp: 300,
-              question: "Bu bilgiyi nasıl uygularsın?",
-              options: ["A) Ezberleyerek", "B) Anlayarak", "C) Pratik yaparak", "D) B ve C"],
-              correctAnswer: "D) B ve C"
-            }
-          ]);
-        }
-      } catch (error) {
-        console.error('Error generating questions:', error);
-        reject(error);
-      }
-    });
-  });
-}; 
\ No newline at end of file
+export const generateQuestionFromContent = async (content: string, subject: string): Promise<GeneratedInteractiveQuestion[]> =>
+  (await callGateway('questions', { content, subject })).data;
+
+export const solveQuestionFromImage = async (imageBase64: string, mimeType: string): Promise<QuestionSolution> =>
+  (await callGateway('solution', { imageBase64, mimeType })).data;
+
+export const generateQuiz = async (request: QuizRequest): Promise<SavedQuiz> =>
+  (await callGateway('quiz', request)).data;
+
+export const generateFlashcards = async (request: FlashcardRequest): Promise<GeneratedFlashcard[]> =>
+  (await callGateway('flashcards', request)).data;
+
+// The coach answers a chat message that came with a photo or PDF, in the QuestionSolver format
+export const answerChatAttachment = async (prompt: string, fileBase64: string, mimeType: string): Promise<QuestionSolution> =>
+  (await callGateway('coachAttachment', { prompt, imageBase64: fileBase64, mimeType })).data;
+
+export const generateCoachProfile = async (form: CoachCreationForm): Promise<GeneratedCoachProfile> =>
+  (await callGateway('coachProfile', form)).data;
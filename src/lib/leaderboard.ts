@@ -0,0 +1,115 @@
+import {
+  arrayRemove, arrayUnion, collection, doc, getCountFromServer, getDoc, getDocs, limit as limitTo,
+  orderBy, query, QueryDocumentSnapshot, startAfter, updateDoc, where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { LeaderboardEntry } from '../types';
+
+export type LeaderboardWindow = 'weekly' | 'monthly' | 'alltime';
+
+export const LEADERBOARD_PAGE_SIZE = 20;
+
+// Subjects with their own boards; the server ignores XP from any other subject
+export const LEADERBOARD_SUBJECTS = ['Matematik', 'Fizik', 'Kimya', 'Biyoloji', 'Türkçe', 'Edebiyat', 'Tarih', 'Coğrafya', 'Felsefe'];
+
+// Firestore 'in' filters accept at most 30 values
+const IN_QUERY_LIMIT = 30;
+
+const subjectSlug = (subject: string) =>
+  subject
+    .toLocaleLowerCase('tr-TR')
+    .replace(/ç/g, 'c').replace(/ğ/g, 'g').replace(/ı/g, 'i').replace(/ö/g, 'o').replace(/ş/g, 's').replace(/ü/g, 'u')
+    .replace(/[^a-z0-9]+/g, '-');
+
+// Boards roll over on the Turkish calendar, matching the aggregation function
+const istanbulDay = (date: Date) => date.toLocaleDateString('en-CA', { timeZone: 'Europe/Istanbul' });
+
+export const getBoardId = (timeWindow: LeaderboardWindow, subject: string | null, now = new Date()) => {
+  const day = istanbulDay(now);
+  let windowKey = 'alltime';
+  if (timeWindow === 'monthly') {
+    windowKey = `monthly-${day.slice(0, 7)}`;
+  } else if (timeWindow === 'weekly') {
+    const monday = new Date(`${day}T00:00:00Z`);
+    monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+    windowKey = `weekly-${monday.toISOString().slice(0, 10)}`;
+  }
+  return `${windowKey}_${subject ? subjectSlug(subject) : 'all'}`;
+};
+
+const entriesRef = (boardId: string) => collection(db, 'leaderboards', boardId, 'entries');
+
+const toEntry = (data: Record<string, unknown>, rank: number): LeaderboardEntry => ({
+  userId: String(data.userId),
+  name: typeof data.name === 'string' ? data.name : 'Anonim',
+  xp: Number(data.xp) || 0,
+  level: Number(data.level) || 1,
+  rank,
+});
+
+export const leaderboardService = {
+  // Get one page of a board; pass the returned cursor to load the next page
+  async getPage(boardId: string, cursor?: QueryDocumentSnapshot, rankOffset = 0) {
+    const q = query(
+      entriesRef(boardId),
+      orderBy('xp', 'desc'),
+      ...(cursor ? [startAfter(cursor)] : []),
+      limitTo(LEADERBOARD_PAGE_SIZE)
+    );
+    const snapshot = await getDocs(q);
+    return {
+      entries: snapshot.docs.map((entryDoc, index) => toEntry(entryDoc.data(), rankOffset + index + 1)),
+      cursor: snapshot.docs[snapshot.docs.length - 1],
+      hasMore: snapshot.docs.length === LEADERBOARD_PAGE_SIZE,
+    };
+  },
+
+  // Get a user's row with their rank on the whole board
+  async getUserEntry(boardId: string, userId: string) {
+    const entryDoc = await getDoc(doc(entriesRef(boardId), userId));
+    if (!entryDoc.exists()) return null;
+    const xp = Number(entryDoc.data().xp) || 0;
+    const ahead = await getCountFromServer(query(entriesRef(boardId), where('xp', '>', xp)));
+    return toEntry(entryDoc.data(), ahead.data().count + 1);
+  },
+
+  // Rank a fixed group of users, e.g. friends or a class, on a board
+  async getScopedBoard(boardId: string, userIds: string[]) {
+    const ids = Array.from(new Set(userIds));
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += IN_QUERY_LIMIT) {
+      chunks.push(ids.slice(i, i + IN_QUERY_LIMIT));
+    }
+    const snapshots = await Promise.all(chunks.map(chunk => getDocs(query(entriesRef(boardId), where('userId', 'in', chunk)))));
+    return snapshots
+      .flatMap(snapshot => snapshot.docs.map(entryDoc => entryDoc.data()))
+      .sort((a, b) => (Number(b.xp) || 0) - (Number(a.xp) || 0))
+      .map((data, index) => toEntry(data, index + 1));
+  },
+
+  // Get the ids a user added as friends
+  async getFriendIds(userId: string) {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    return (userDoc.data()?.friendIds as string[] | undefined) ?? [];
+  },
+
+  // Add a friend by their friend code (their user id); returns the friend's name
+  async addFriend(userId: string, friendCode: string) {
+    const friendId = friendCode.trim();
+    if (!friendId || friendId === userId) {
+      throw new Error('Geçerli bir arkadaş kodu girin.');
+    }
+    // Diğer kullanıcı belgeleri okunamadığı için kod tüm zamanlar tablosunda aranır
+    const entryDoc = await getDoc(doc(entriesRef(getBoardId('alltime', null)), friendId));
+    if (!entryDoc.exists()) {
+      throw new Error('Bu koda sahip bir öğrenci bulunamadı.');
+    }
+    await updateDoc(doc(db, 'users', userId), { friendIds: arrayUnion(friendId) });
+    return String(entryDoc.data().name || 'Anonim');
+  },
+
+  // Remove a friend from the user's list
+  async removeFriend(userId: string, friendId: string) {
+    await updateDoc(doc(db, 'users', userId), { friendIds: arrayRemove(friendId) });
+  },
+};
@@ -0,0 +1,38 @@
+// Unsaved lesson content kept in this browser while an author types, so a
+// closed tab or a failed save does not lose work. Saving to Supabase still
+// happens explicitly; every save there becomes a revision.
+
+const KEY_PREFIX = 'lessonDraft:';
+
+export interface LessonDraft {
+  content: string;
+  savedAt: number;
+}
+
+export const lessonDraftStore = {
+  // Read the draft saved under a key, if any
+  load(key: string): LessonDraft | null {
+    try {
+      const raw = localStorage.getItem(KEY_PREFIX + key);
+      const draft = raw ? JSON.parse(raw) : null;
+      return draft && typeof draft.content === 'string' ? draft : null;
+    } catch {
+      return null;
+    }
+  },
+
+  // Save the current content
+  save(key: string, content: string) {
+    try {
+      localStorage.setItem(KEY_PREFIX + key, JSON.stringify({ content, savedAt: Date.now() }));
+    } catch (error) {
+      // Storage can be full or disabled; autosave is best effort
+      console.warn('Lesson draft could not be saved:', error);
+    }
+  },
+
+  // Drop the draft once its content is saved or discarded
+  clear(key: string) {
+    localStorage.removeItem(KEY_PREFIX + key);
+  },
+};
@@ -0,0 +1,132 @@
+import {
+  collection, doc, getDoc, getDocs, increment, orderBy, query, runTransaction, serverTimestamp,
+  where, writeBatch,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { toDate } from './utils';
+import { LessonProgress, WatchedSegment } from '../types';
+
+// Share of the video that has to be watched before a lesson counts as finished
+export const COMPLETION_WATCH_RATIO = 0.9;
+// With interactive questions, the video is worth 70% and the questions 30%
+const VIDEO_WEIGHT = 0.7;
+
+export interface LessonProgressUpdate {
+  watchedSegments: WatchedSegment[];
+  duration: number;
+  lastPosition: number;
+  answeredQuestionIds: string[];
+  // Seconds spent on the page since the previous save
+  timeSpentDelta: number;
+  percent: number;
+}
+
+const progressRef = (userId: string, lessonId: string) => doc(db, 'lessonProgress', `${userId}_${lessonId}`);
+
+const toLessonProgress = (data: Record<string, unknown>) => ({
+  ...data,
+  watchedSegments: (data.watchedSegments as WatchedSegment[]) || [],
+  answeredQuestionIds: (data.answeredQuestionIds as string[]) || [],
+  percent: (data.percent as number) || 0,
+  completed: Boolean(data.completed),
+  completedAt: data.completedAt ? toDate(data.completedAt) : undefined,
+  updatedAt: toDate(data.updatedAt),
+}) as LessonProgress;
+
+// Sorts and joins overlapping or touching segments
+export const mergeSegments = (segments: WatchedSegment[]) => {
+  const sorted = segments
+    .filter(segment => segment.end > segment.start)
+    .sort((a, b) => a.start - b.start);
+  return sorted.reduce<WatchedSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && segment.start <= last.end + 1) {
+      last.end = Math.max(last.end, segment.end);
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+};
+
+export const getWatchedSeconds = (segments: WatchedSegment[]) =>
+  mergeSegments(segments).reduce((sum, segment) => sum + segment.end - segment.start, 0);
+
+export const getWatchedRatio = (segments: WatchedSegment[], duration: number) =>
+  duration > 0 ? Math.min(getWatchedSeconds(segments) / duration, 1) : 0;
+
+// Overall lesson progress, 0-100
+export const getLessonPercent = (
+  progress: Pick<LessonProgress, 'watchedSegments' | 'duration' | 'answeredQuestionIds' | 'completed'>,
+  questionCount: number
+) => {
+  if (progress.completed) return 100;
+  const watched = getWatchedRatio(progress.watchedSegments, progress.duration);
+  if (questionCount === 0) return Math.round(watched * 100);
+  const answered = Math.min(progress.answeredQuestionIds.length / questionCount, 1);
+  return Math.round((watched * VIDEO_WEIGHT + answered * (1 - VIDEO_WEIGHT)) * 100);
+};
+
+// Most of the video watched and every interactive question answered
+export const isLessonFinished = (
+  progress: Pick<LessonProgress, 'watchedSegments' | 'duration' | 'answeredQuestionIds'>,
+  questionIds: string[]
+) =>
+  getWatchedRatio(progress.watchedSegments, progress.duration) >= COMPLETION_WATCH_RATIO
+  && questionIds.every(id => progress.answeredQuestionIds.includes(id));
+
+export const lessonProgressService = {
+  // Get a student's progress on one lesson
+  async getProgress(userId: string, lessonId: string) {
+    const progressDoc = await getDoc(progressRef(userId, lessonId));
+    return progressDoc.exists() ? toLessonProgress(progressDoc.data()) : null;
+  },
+
+  // Get all lesson progress of a student, most recently watched first
+  async getUserProgress(userId: string) {
+    const q = query(collection(db, 'lessonProgress'), where('userId', '==', userId), orderBy('updatedAt', 'desc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(progressDoc => toLessonProgress(progressDoc.data()));
+  },
+
+  // Save watched segments, resume position and answers; mirrors the percent to users.progress
+  async saveProgress(userId: string, lessonId: string, update: LessonProgressUpdate) {
+    const batch = writeBatch(db);
+    batch.set(progressRef(userId, lessonId), {
+      userId,
+      lessonId,
+      watchedSegments: mergeSegments(update.watchedSegments),
+      duration: update.duration,
+      lastPosition: update.lastPosition,
+      answeredQuestionIds: update.answeredQuestionIds,
+      timeSpentSeconds: increment(Math.round(update.timeSpentDelta)),
+      percent: update.percent,
+      updatedAt: serverTimestamp(),
+    }, { merge: true });
+    // Tamamlanan dersin %100'ü kısmi ilerlemeyle ezilmesin
+    if (update.percent < 100) {
+      batch.update(doc(db, 'users', userId), { [`progress.${lessonId}`]: update.percent });
+    }
+    await batch.commit();
+  },
+
+  // Mark a lesson complete; returns false when it already was
+  async markCompleted(userId: string, lessonId: string) {
+    const userRef = doc(db, 'users', userId);
+    return runTransaction(db, async (transaction) => {
+      const userDoc = await transaction.get(userRef);
+      if ((userDoc.data()?.progress?.[lessonId] ?? 0) >= 100) return false;
+
+      transaction.update(userRef, { [`progress.${lessonId}`]: 100 });
+      transaction.set(progressRef(userId, lessonId), {
+        userId,
+        lessonId,
+        percent: 100,
+        completed: true,
+        completedAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+      return true;
+    });
+  },
+};
@@ -0,0 +1,66 @@
+import type { Element, ElementContent, Root } from 'hast';
+
+// Lesson-specific Markdown on top of GFM and math:
+//
+//   > [!NOTE]                     a callout block ("Önemli Not", "İpucu", "Dikkat")
+//   > Text of the callout
+//
+//   {{soru:q-123}}                an interactive question placed in the text
+//
+// rehypeLessonBlocks runs after sanitizing and marks these nodes with
+// data-callout / data-question-id for MarkdownContent to render.
+
+export type CalloutType = 'note' | 'tip' | 'warning';
+
+export const CALLOUT_TYPES: Record<CalloutType, { marker: string; label: string }> = {
+  note: { marker: 'NOTE', label: 'Önemli Not' },
+  tip: { marker: 'TIP', label: 'İpucu' },
+  warning: { marker: 'WARNING', label: 'Dikkat' },
+};
+
+export const calloutMarkdown = (type: CalloutType, text: string) =>
+  `> [!${CALLOUT_TYPES[type].marker}]\n${text.split('\n').map(line => `> ${line}`).join('\n')}`;
+
+export const questionMarker = (questionId: string) => `{{soru:${questionId}}}`;
+
+const CALLOUT_PATTERN = /^\[!(NOTE|TIP|WARNING)\]\s*/;
+const QUESTION_PATTERN = /^\{\{soru:([\w-]+)\}\}$/;
+
+const isElement = (node: ElementContent | undefined, tagName: string): node is Element =>
+  node?.type === 'element' && node.tagName === tagName;
+
+const markCallout = (blockquote: Element) => {
+  const paragraph = blockquote.children.find((child): child is Element => child.type === 'element');
+  const first = paragraph?.children[0];
+  if (!isElement(paragraph, 'p') || first?.type !== 'text') return;
+  const match = first.value.match(CALLOUT_PATTERN);
+  if (!match) return;
+
+  const type = (Object.keys(CALLOUT_TYPES) as CalloutType[]).find(key => CALLOUT_TYPES[key].marker === match[1]);
+  blockquote.properties = { ...blockquote.properties, dataCallout: type };
+  first.value = first.value.slice(match[0].length);
+  if (!first.value) paragraph.children.shift();
+  if (paragraph.children.length === 0) blockquote.children = blockquote.children.filter(child => child !== paragraph);
+};
+
+// A paragraph holding only a question marker becomes an empty placeholder
+const toQuestion = (node: ElementContent): ElementContent => {
+  if (!isElement(node, 'p') || node.children.length !== 1 || node.children[0].type !== 'text') return node;
+  const match = node.children[0].value.trim().match(QUESTION_PATTERN);
+  return match
+    ? { type: 'element', tagName: 'div', properties: { dataQuestionId: match[1] }, children: [] }
+    : node;
+};
+
+const visit = (parent: Root | Element) => {
+  parent.children = parent.children.map(child => (child.type === 'element' ? toQuestion(child) : child)) as typeof parent.children;
+  parent.children.forEach(child => {
+    if (child.type !== 'element') return;
+    if (child.tagName === 'blockquote') markCallout(child);
+    visit(child);
+  });
+};
+
+export const rehypeLessonBlocks = () => (tree: Root) => {
+  visit(tree);
+};
@@ -0,0 +1,69 @@
+import { collection, deleteDoc, doc, getDoc, getDocs, orderBy, query, where } from 'firebase/firestore';
+import { deleteObject, ref, uploadBytes } from 'firebase/storage';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions, storage } from './firebase';
+import { toDate } from './utils';
+import { PDFSummary } from '../types';
+
+export const MAX_PDF_SIZE = 20 * 1024 * 1024;
+
+interface SummarizeRequest {
+  filePath: string;
+  title: string;
+  instructions?: string;
+}
+
+type SummarizeResponse = Omit<PDFSummary, 'createdAt'> & { createdAt: string };
+
+const fromDoc = (id: string, data: Record<string, unknown>) => ({
+  ...data,
+  id,
+  createdAt: toDate(data.createdAt),
+}) as PDFSummary;
+
+export const pdfSummaryService = {
+  // Upload a PDF and let the server extract, summarize and render it
+  async summarizePdf(userId: string, file: File, title: string, instructions?: string) {
+    if (file.type !== 'application/pdf') {
+      throw new Error('Lütfen bir PDF dosyası seçin.');
+    }
+    if (file.size > MAX_PDF_SIZE) {
+      throw new Error('PDF dosyası en fazla 20MB olabilir.');
+    }
+
+    const filePath = `pdf-uploads/${userId}/${Date.now()}-${file.name.replace(/[^\w.-]/g, '_')}`;
+    await uploadBytes(ref(storage, filePath), file, { contentType: 'application/pdf' });
+
+    // Uzun belgeler parça parça özetlendiği için varsayılan 70 saniye yetmeyebilir
+    const summarize = httpsCallable<SummarizeRequest, SummarizeResponse>(functions, 'generatePdfSummary', { timeout: 300000 });
+    const { data } = await summarize({ filePath, title, instructions });
+    return { ...data, createdAt: new Date(data.createdAt) } as PDFSummary;
+  },
+
+  // Get a user's summaries, newest first
+  async getSummaries(userId: string) {
+    const q = query(
+      collection(db, 'pdfSummaries'),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc')
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(summaryDoc => fromDoc(summaryDoc.id, summaryDoc.data()));
+  },
+
+  // Get summary by ID
+  async getSummary(id: string) {
+    const summaryDoc = await getDoc(doc(db, 'pdfSummaries', id));
+    if (!summaryDoc.exists()) return null;
+    return fromDoc(summaryDoc.id, summaryDoc.data());
+  },
+
+  // Delete the record together with the uploaded and generated files
+  async deleteSummary(summary: PDFSummary) {
+    await deleteDoc(doc(db, 'pdfSummaries', summary.id));
+    await Promise.all([summary.originalPdfPath, summary.summaryPdfPath]
+      .filter(Boolean)
+      .map(path => deleteObject(ref(storage, path))
+        .catch(error => console.error('Error deleting summary file:', error))));
+  },
+};
@@ -0,0 +1,130 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, where, limit as limitTo } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebase';
+import { generateQuiz } from './gemini';
+import { mistakeService } from './supabase';
+import { XpAwardResult } from './xp';
+import { toDate } from './utils';
+import { Question, Quiz, QuizAnswer, QuizAttempt } from '../types';
+
+export type QuizDifficulty = Quiz['difficulty'];
+
+export interface QuizGenerationOptions {
+  topic: string;
+  subject: string;
+  difficulty: QuizDifficulty;
+  questionCount: number;
+  types: Question['type'][];
+  lessonContent?: string;
+  lessonId?: string;
+}
+
+// The server stores generated quizzes without their answer keys and grades
+// attempts itself; the keys only come back with a graded attempt.
+interface QuizAnswerKey {
+  correctAnswer: string | string[];
+  explanation: string;
+}
+
+interface SubmitQuizAttemptResponse {
+  attempt: Omit<QuizAttempt, 'completedAt'> & { completedAt: string };
+  keys: Record<string, QuizAnswerKey>;
+  award: XpAwardResult | null;
+}
+
+// Human readable form of an answer, used in the mistake history.
+export const formatAnswer = (question: Question, answer: QuizAnswer | undefined): string => {
+  if (answer === undefined || answer === '') return '(boş)';
+  if (question.type === 'matching' && Array.isArray(answer)) {
+    return (question.options || []).map((item, index) => `${item} → ${answer[index] || '?'}`).join(', ');
+  }
+  return Array.isArray(answer) ? answer.join(' / ') : answer;
+};
+
+export const quizService = {
+  // Generate a quiz; the server saves it and returns it without answer keys
+  async createQuiz(options: QuizGenerationOptions) {
+    const quiz = await generateQuiz(options);
+    return { ...quiz, createdAt: new Date(quiz.createdAt) } as Quiz;
+  },
+
+  // Get quiz by ID
+  async getQuizById(id: string) {
+    const quizDoc = await getDoc(doc(db, 'quizzes', id));
+    if (!quizDoc.exists()) return null;
+    const data = quizDoc.data();
+    return { ...data, id: quizDoc.id, createdAt: toDate(data.createdAt) } as Quiz;
+  },
+
+  // Get the quizzes a user generated, newest first
+  async getUserQuizzes(userId: string, max = 20) {
+    const q = query(
+      collection(db, 'quizzes'),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc'),
+      limitTo(max)
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(quizDoc => {
+      const data = quizDoc.data();
+      return { ...data, id: quizDoc.id, createdAt: toDate(data.createdAt) } as Quiz;
+    });
+  },
+
+  // Get a user's attempts, newest first
+  async getUserAttempts(userId: string, max = 20) {
+    const q = query(
+      collection(db, 'quizAttempts'),
+      where('userId', '==', userId),
+      orderBy('completedAt', 'desc'),
+      limitTo(max)
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(attemptDoc => {
+      const data = attemptDoc.data();
+      return { ...data, id: attemptDoc.id, completedAt: toDate(data.completedAt) } as QuizAttempt;
+    });
+  },
+
+  // The server grades and stores the attempt and awards XP; the quiz comes
+  // back with its answer keys for review, and wrong answers become mistakes
+  async submitAttempt(quiz: Quiz, userId: string, answers: Record<string, QuizAnswer>, durationSeconds: number) {
+    const submitQuizAttempt = httpsCallable<
+      { quizId: string; answers: Record<string, QuizAnswer>; durationSeconds: number },
+      SubmitQuizAttemptResponse
+    >(functions, 'submitQuizAttempt');
+    const { data } = await submitQuizAttempt({ quizId: quiz.id, answers, durationSeconds });
+
+    const attempt: QuizAttempt = { ...data.attempt, completedAt: new Date(data.attempt.completedAt) };
+    const reviewed: Quiz = {
+      ...quiz,
+      questions: quiz.questions.map(question => ({ ...question, ...data.keys[question.id] })),
+    };
+    const leveledUpTo = data.award?.leveledUp ? data.award.level : null;
+
+    // Yanlış cevapları ders hatalarıyla aynı geçmişe yaz
+    const wrongQuestions = reviewed.questions.filter(question => !attempt.results[question.id]);
+    await Promise.all(wrongQuestions.map(question => {
+      const correctAnswer = formatAnswer(question, question.correctAnswer);
+      return mistakeService.recordMistake({
+        user_id: userId,
+        lesson_id: quiz.lessonId ?? null,
+        question: {
+          id: `${quiz.id}-${question.id}`,
+          timestamp: 0,
+          question: question.text,
+          options: question.type === 'multiple-choice' ? question.options || [] : [],
+          correctAnswer,
+          source: 'quiz',
+          quizId: quiz.id,
+          subject: quiz.subject,
+        },
+        user_answer: formatAnswer(question, answers[question.id]),
+        correct_answer: correctAnswer,
+        ai_explanation: question.explanation || '',
+      }).catch(error => console.error('Error recording quiz mistake:', error));
+    }));
+
+    return { attempt, quiz: reviewed, leveledUpTo };
+  },
+};
@@ -0,0 +1,104 @@
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, orderBy, query, serverTimestamp, where } from 'firebase/firestore';
+import { deleteObject, getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { db, storage } from './firebase';
+import { toDate } from './utils';
+import { QuestionSolution, SolvedQuestion } from '../types';
+
+export interface SolvedQuestionFilters {
+  subject: string;
+  difficulty: string;
+  search: string;
+}
+
+// Lowercases with Turkish rules and strips punctuation so "Türev" matches "TÜREV,".
+const normalizeText = (value: string) =>
+  value
+    .toLocaleLowerCase('tr-TR')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const searchableText = (question: SolvedQuestion) =>
+  normalizeText([
+    question.solvedText,
+    question.subject,
+    question.difficulty,
+    question.finalAnswer,
+    ...question.solutionSteps,
+  ].join(' '));
+
+// Firestore has no full-text search, so the archive is filtered on the
+// client. Every word of the query has to appear somewhere in the question,
+// its steps or its answer.
+export const filterSolvedQuestions = (questions: SolvedQuestion[], filters: SolvedQuestionFilters) => {
+  const terms = normalizeText(filters.search).split(' ').filter(Boolean);
+  return questions.filter(question => {
+    if (filters.subject !== 'all' && question.subject !== filters.subject) return false;
+    if (filters.difficulty !== 'all' && question.difficulty !== filters.difficulty) return false;
+    if (terms.length === 0) return true;
+    const text = searchableText(question);
+    return terms.every(term => text.includes(term));
+  });
+};
+
+const fromDoc = (id: string, data: Record<string, unknown>) => ({
+  ...data,
+  id,
+  solutionSteps: (data.solutionSteps as string[] | undefined) || [],
+  finalAnswer: (data.finalAnswer as string | undefined) || '',
+  createdAt: toDate(data.createdAt),
+}) as SolvedQuestion;
+
+export const solvedQuestionService = {
+  // Upload the question image and store the solution in the archive
+  async saveSolvedQuestion(userId: string, image: File, solution: QuestionSolution) {
+    const imagePath = `solved-questions/${userId}/${Date.now()}-${image.name.replace(/[^\w.-]/g, '_')}`;
+    const imageRef = ref(storage, imagePath);
+    await uploadBytes(imageRef, image, { contentType: image.type });
+    const imageUrl = await getDownloadURL(imageRef);
+
+    const record: Omit<SolvedQuestion, 'id' | 'createdAt'> = {
+      imageUrl,
+      imagePath,
+      solvedText: solution.problemText || '',
+      solutionSteps: Array.isArray(solution.steps) ? solution.steps.map(String) : [],
+      finalAnswer: solution.finalAnswer || '',
+      subject: solution.subject || 'Diğer',
+      difficulty: solution.difficulty || 'Orta',
+      solvedBy: 'ai',
+      userId,
+    };
+    const questionRef = await addDoc(collection(db, 'solvedQuestions'), {
+      ...record,
+      createdAt: serverTimestamp(),
+    });
+    return { ...record, id: questionRef.id, createdAt: new Date() } as SolvedQuestion;
+  },
+
+  // Get a user's archive, newest first
+  async getSolvedQuestions(userId: string) {
+    const q = query(
+      collection(db, 'solvedQuestions'),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc')
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(questionDoc => fromDoc(questionDoc.id, questionDoc.data()));
+  },
+
+  // Get solved question by ID
+  async getSolvedQuestion(id: string) {
+    const questionDoc = await getDoc(doc(db, 'solvedQuestions', id));
+    if (!questionDoc.exists()) return null;
+    return fromDoc(questionDoc.id, questionDoc.data());
+  },
+
+  // Delete the record and its image
+  async deleteSolvedQuestion(question: SolvedQuestion) {
+    await deleteDoc(doc(db, 'solvedQuestions', question.id));
+    if (question.imagePath) {
+      await deleteObject(ref(storage, question.imagePath))
+        .catch(error => console.error('Error deleting question image:', error));
+    }
+  },
+};
@@ -0,0 +1,283 @@
+import { collection, deleteDoc, doc, getDoc, getDocs, query, serverTimestamp, setDoc, updateDoc, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { Lesson } from './supabase';
+import { addDays, parseDateInput, startOfDay, toDate } from './utils';
+import { StudyPlan, StudyTask } from '../types';
+
+export interface StudyPlanInput {
+  examType: string;
+  examDate: Date;
+  weeklyHours: number;
+  subjects: string[];
+  lessons?: Lesson[];
+}
+
+// Defaults taken from the user's most recent coach.
+export interface CoachPlanDefaults {
+  examType: string;
+  examDate: Date | null;
+  weeklyHours: number;
+  subjects: string[];
+}
+
+export const TASK_MINUTES: Record<StudyTask['type'], number> = {
+  lesson: 40,
+  practice: 30,
+  quiz: 20,
+  flashcards: 15,
+};
+
+// Koç sihirbazındaki ders grupları ile ders kayıtlarındaki branşları eşler
+const SUBJECT_GROUPS: Record<string, string[]> = {
+  'Fen Bilimleri': ['Fen Bilimleri', 'Fizik', 'Kimya', 'Biyoloji'],
+  'Sosyal Bilimler': ['Sosyal Bilimler', 'Tarih', 'Coğrafya', 'Felsefe'],
+  'Türkçe': ['Türkçe', 'Edebiyat'],
+};
+
+// Each subject cycles through learning, practising and testing.
+const SUBJECT_CYCLE: StudyTask['type'][] = ['lesson', 'practice', 'quiz'];
+
+// Plans further out than this are cut off; the student can regenerate later.
+const MAX_PLAN_DAYS = 180;
+// Missed tasks may push a day this far over its normal load before spilling
+// over to the next day.
+const REBALANCE_OVERLOAD = 1.25;
+
+export const getDailyMinutes = (weeklyHours: number) => Math.round((weeklyHours * 60) / 7);
+
+const matchesSubject = (lesson: Lesson, subject: string) =>
+  (SUBJECT_GROUPS[subject] || [subject]).includes(lesson.subject);
+
+const taskTitle = (type: StudyTask['type'], subject: string, lesson?: Lesson) => {
+  switch (type) {
+    case 'lesson':
+      return lesson ? lesson.title : `${subject} konu çalışması`;
+    case 'practice':
+      return `${subject} soru çözümü`;
+    case 'quiz':
+      return `${subject} mini test`;
+    case 'flashcards':
+      return 'Kart tekrarı';
+  }
+};
+
+// Builds a day-by-day schedule from today until the day before the exam.
+// Every day starts with a short flashcard review when there is time for it;
+// the remaining minutes rotate through the subjects. Unused minutes carry
+// over, so small weekly budgets still produce a task every few days.
+export const generateStudyTasks = (input: StudyPlanInput, now: Date = new Date()): StudyTask[] => {
+  const { examDate, weeklyHours, subjects, lessons = [] } = input;
+  const start = startOfDay(now);
+  const examDay = startOfDay(examDate);
+  const dayCount = Math.min(Math.round((examDay.getTime() - start.getTime()) / 86400000), MAX_PLAN_DAYS);
+
+  if (dayCount <= 0) {
+    throw new Error('Sınav tarihi bugünden sonra olmalı.');
+  }
+  if (subjects.length === 0) {
+    throw new Error('En az bir ders seçmelisiniz.');
+  }
+
+  const dailyMinutes = getDailyMinutes(weeklyHours);
+  const lessonQueues = new Map(subjects.map(subject => [
+    subject,
+    lessons
+      .filter(lesson => matchesSubject(lesson, subject))
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()),
+  ]));
+  const cyclePosition = new Map(subjects.map(subject => [subject, 0]));
+
+  const tasks: StudyTask[] = [];
+  const addTask = (type: StudyTask['type'], subject: string, date: Date, lesson?: Lesson) => {
+    tasks.push({
+      id: `task-${tasks.length + 1}`,
+      title: taskTitle(type, subject, lesson),
+      subject,
+      type,
+      completed: false,
+      date,
+      estimatedMinutes: TASK_MINUTES[type],
+      lessonId: lesson?.id,
+    });
+  };
+
+  let budget = 0;
+  let subjectIndex = 0;
+  for (let day = 0; day < dayCount; day++) {
+    const date = addDays(start, day);
+    budget += dailyMinutes;
+
+    if (dailyMinutes >= 45) {
+      addTask('flashcards', 'Genel', date);
+      budget -= TASK_MINUTES.flashcards;
+    }
+
+    while (budget >= TASK_MINUTES.quiz) {
+      const subject = subjects[subjectIndex % subjects.length];
+      const position = cyclePosition.get(subject) || 0;
+      let type = SUBJECT_CYCLE[position % SUBJECT_CYCLE.length];
+      // Gün sonunda kalan süre yetmiyorsa kısa bir test yap
+      if (TASK_MINUTES[type] > budget) type = 'quiz';
+
+      const lesson = type === 'lesson' ? lessonQueues.get(subject)?.shift() : undefined;
+      addTask(type, subject, date, lesson);
+      budget -= TASK_MINUTES[type];
+      cyclePosition.set(subject, position + 1);
+      subjectIndex++;
+    }
+  }
+
+  return tasks;
+};
+
+// Moves unfinished tasks from past days onto the upcoming days with the
+// lightest load, keeping the date they were first planned for.
+export const rebalanceTasks = (tasks: StudyTask[], weeklyHours: number, examDate: Date, now: Date = new Date()) => {
+  const today = startOfDay(now);
+  const missed = tasks
+    .filter(task => !task.completed && task.date.getTime() < today.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (missed.length === 0) return { tasks, moved: 0 };
+
+  const lastDay = Math.max(addDays(startOfDay(examDate), -1).getTime(), today.getTime());
+  const capacity = Math.max(getDailyMinutes(weeklyHours), TASK_MINUTES.lesson) * REBALANCE_OVERLOAD;
+
+  const load = new Map<number, number>();
+  tasks
+    .filter(task => task.date.getTime() >= today.getTime())
+    .forEach(task => {
+      const key = startOfDay(task.date).getTime();
+      load.set(key, (load.get(key) || 0) + task.estimatedMinutes);
+    });
+
+  const newDates = new Map<string, Date>();
+  missed.forEach(task => {
+    let target: Date | null = null;
+    let lightest = today;
+    for (let date = today; date.getTime() <= lastDay; date = addDays(date, 1)) {
+      const dayLoad = load.get(date.getTime()) || 0;
+      if (dayLoad + task.estimatedMinutes <= capacity) {
+        target = date;
+        break;
+      }
+      if (dayLoad < (load.get(lightest.getTime()) || 0)) lightest = date;
+    }
+    const date = target || lightest;
+    load.set(date.getTime(), (load.get(date.getTime()) || 0) + task.estimatedMinutes);
+    newDates.set(task.id, date);
+  });
+
+  return {
+    tasks: tasks.map(task => {
+      const date = newDates.get(task.id);
+      return date ? { ...task, date, originalDate: task.originalDate || task.date } : task;
+    }),
+    moved: missed.length,
+  };
+};
+
+// Where a task sends the student when they open it.
+export const getTaskLink = (task: StudyTask) => {
+  switch (task.type) {
+    case 'lesson':
+      return task.lessonId ? `/dashboard/lessons/${task.lessonId}` : '/dashboard/lessons';
+    case 'quiz':
+      return `/dashboard/quiz?${new URLSearchParams({ subject: task.subject, topic: task.subject })}`;
+    case 'flashcards':
+      return '/dashboard/flashcards/review';
+    case 'practice':
+      return '/dashboard/question-solver';
+  }
+};
+
+// Firestore rejects undefined fields, so optional ones are dropped.
+const serializeTask = (task: StudyTask) =>
+  Object.fromEntries(Object.entries(task).filter(([, value]) => value !== undefined));
+
+const taskFromData = (data: Record<string, unknown>) => ({
+  ...data,
+  date: toDate(data.date),
+  originalDate: data.originalDate ? toDate(data.originalDate) : undefined,
+}) as StudyTask;
+
+// "5+ Saat" gibi koç formundaki değerleri saate çevirir
+const parseDailyHours = (value: unknown) => {
+  const hours = parseInt(String(value ?? ''), 10);
+  return Number.isNaN(hours) ? 2 : hours;
+};
+
+export const studyPlanService = {
+  // Each user has a single active plan stored under their uid
+  async getPlan(userId: string) {
+    const planDoc = await getDoc(doc(db, 'studyPlans', userId));
+    if (!planDoc.exists()) return null;
+    const data = planDoc.data();
+    return {
+      ...data,
+      id: planDoc.id,
+      examDate: toDate(data.examDate),
+      createdAt: toDate(data.createdAt),
+      rebalancedAt: data.rebalancedAt ? toDate(data.rebalancedAt) : undefined,
+      tasks: (data.tasks || []).map(taskFromData),
+    } as StudyPlan;
+  },
+
+  // Generate and store a new plan, replacing the previous one
+  async createPlan(userId: string, input: StudyPlanInput) {
+    const tasks = generateStudyTasks(input);
+    const plan: StudyPlan = {
+      id: userId,
+      userId,
+      examType: input.examType,
+      examDate: input.examDate,
+      subjects: input.subjects,
+      weeklyHours: input.weeklyHours,
+      tasks,
+      createdAt: new Date(),
+    };
+    await setDoc(doc(db, 'studyPlans', userId), {
+      userId,
+      examType: plan.examType,
+      examDate: plan.examDate,
+      subjects: plan.subjects,
+      weeklyHours: plan.weeklyHours,
+      tasks: tasks.map(serializeTask),
+      createdAt: serverTimestamp(),
+    });
+    return plan;
+  },
+
+  // Persist task changes (completion, rescheduling)
+  async saveTasks(userId: string, tasks: StudyTask[]) {
+    await updateDoc(doc(db, 'studyPlans', userId), { tasks: tasks.map(serializeTask) });
+  },
+
+  // Move missed tasks forward; saves only when something changed
+  async rebalancePlan(plan: StudyPlan) {
+    const { tasks, moved } = rebalanceTasks(plan.tasks, plan.weeklyHours, plan.examDate);
+    if (moved === 0) return { plan, moved };
+    const rebalancedAt = new Date();
+    await updateDoc(doc(db, 'studyPlans', plan.userId), { tasks: tasks.map(serializeTask), rebalancedAt });
+    return { plan: { ...plan, tasks, rebalancedAt }, moved };
+  },
+
+  // Delete plan
+  async deletePlan(userId: string) {
+    await deleteDoc(doc(db, 'studyPlans', userId));
+  },
+
+  // Pre-fill the planner from the newest coach the user created
+  async getCoachDefaults(userId: string): Promise<CoachPlanDefaults | null> {
+    const snapshot = await getDocs(query(collection(db, 'coaches'), where('userId', '==', userId)));
+    if (snapshot.empty) return null;
+    const coach = snapshot.docs
+      .map(coachDoc => coachDoc.data())
+      .sort((a, b) => toDate(b.createdAt).getTime() - toDate(a.createdAt).getTime())[0];
+    return {
+      examType: coach.examType || '',
+      examDate: coach.targetDate ? parseDateInput(coach.targetDate) : null,
+      weeklyHours: parseDailyHours(coach.dailyHours) * 7,
+      subjects: Array.isArray(coach.subjects) ? coach.subjects : [],
+    };
+  },
+};
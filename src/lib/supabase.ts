@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import { auth } from './firebase'
+import { Database, Json, Tables, TablesInsert, TablesUpdate } from './database.types'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -6,9 +8,38 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 console.log('Supabase URL:', supabaseUrl);
 console.log('Supabase Key exists:', !!supabaseAnonKey);
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+// Requests carry the Firebase ID token, so row-level security sees the
+// Firebase uid and role claims (see supabase/migrations). Signed-out
+// visitors fall back to the anon key.
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+  accessToken: async () => (await auth.currentUser?.getIdToken()) ?? null,
+})
 
-// Database types for lessons only
+export interface LessonAttachment {
+  name: string
+  url: string
+}
+
+// A question that pauses the lesson video at `timestamp` seconds
+export interface InteractiveQuestion {
+  id: string
+  timestamp: number
+  question: string
+  options: string[]
+  correctAnswer: string
+}
+
+// draft -> in_review -> approved/rejected; students only see approved lessons
+export type LessonStatus = 'draft' | 'in_review' | 'approved' | 'rejected'
+
+export const LESSON_STATUS_LABELS: Record<LessonStatus, string> = {
+  draft: 'Taslak',
+  in_review: 'İncelemede',
+  approved: 'Onaylandı',
+  rejected: 'Reddedildi',
+}
+
+// A row of the lessons table with its JSON columns typed
 export interface Lesson {
   id: string
   title: string
@@ -16,13 +47,125 @@ export interface Lesson {
   subject: string
   grade_level: string
   cover_image_url?: string
+  // A YouTube link or an uploaded video in the lesson-files bucket
   video_url?: string
-  attachments?: any[]
-  interactive_questions?: any[]
+  attachments: LessonAttachment[]
+  interactive_questions: InteractiveQuestion[]
+  // Students cannot seek past a video question they have not answered
+  lock_video_seek: boolean
+  // Changed only through lessonService.transitionLesson
+  status: LessonStatus
+  // Firebase uid of the teacher or admin who wrote the lesson; null for
+  // lessons published before the review workflow
+  author_id: string | null
   created_at: string
   updated_at: string
 }
 
+export type LessonInput = Omit<Lesson, 'id' | 'status' | 'author_id' | 'created_at' | 'updated_at'>
+
+// One status change of a lesson, written by transition_lesson_status()
+export interface LessonReview {
+  id: string
+  lesson_id: string
+  actor_id: string
+  actor_name: string | null
+  from_status: LessonStatus
+  to_status: LessonStatus
+  comment: string | null
+  created_at: string
+}
+
+// Where the content of a lesson revision came from
+export type RevisionSource = 'human' | 'ai' | 'rollback'
+
+// An immutable snapshot of a lesson, recorded by the database on every save
+export interface LessonRevision {
+  id: string
+  lesson_id: string
+  revision_number: number
+  title: string
+  content: string
+  subject: string
+  grade_level: string
+  cover_image_url: string | null
+  video_url: string | null
+  attachments: LessonAttachment[]
+  interactive_questions: InteractiveQuestion[]
+  source: RevisionSource
+  // The revision a rollback copied
+  restored_from: string | null
+  author_id: string | null
+  author_name: string | null
+  created_at: string
+}
+
+// A wrong answer saved to the lesson_mistakes table. Video questions and quiz
+// questions share this table; quiz rows carry `source: 'quiz'` and the quiz id
+// inside the question payload and may have no lesson_id.
+export interface MistakeQuestion {
+  id: string
+  timestamp: number
+  question: string
+  options: string[]
+  correctAnswer: string
+  source?: 'lesson' | 'quiz'
+  quizId?: string
+  subject?: string
+}
+
+export interface LessonMistake {
+  id: string
+  user_id: string
+  lesson_id: string | null
+  question: MistakeQuestion
+  user_answer: string
+  correct_answer: string
+  ai_explanation: string
+  created_at: string
+}
+
+const jsonList = <T>(value: Json): T[] => (Array.isArray(value) ? value as unknown as T[] : [])
+
+const toLesson = (row: Tables<'lessons'>): Lesson => ({
+  ...row,
+  status: row.status as LessonStatus,
+  cover_image_url: row.cover_image_url ?? undefined,
+  video_url: row.video_url ?? undefined,
+  attachments: jsonList<LessonAttachment>(row.attachments),
+  interactive_questions: jsonList<InteractiveQuestion>(row.interactive_questions),
+})
+
+// Undefined optional fields become null so an update can clear them
+const toLessonRow = (lesson: Partial<LessonInput>): TablesUpdate<'lessons'> => {
+  const { attachments, interactive_questions, cover_image_url, video_url, ...rest } = lesson
+  return {
+    ...rest,
+    ...(attachments ? { attachments: attachments as unknown as Json } : {}),
+    ...(interactive_questions ? { interactive_questions: interactive_questions as unknown as Json } : {}),
+    ...('cover_image_url' in lesson ? { cover_image_url: cover_image_url ?? null } : {}),
+    ...('video_url' in lesson ? { video_url: video_url ?? null } : {}),
+  }
+}
+
+const toReview = (row: Tables<'lesson_reviews'>): LessonReview => ({
+  ...row,
+  from_status: row.from_status as LessonStatus,
+  to_status: row.to_status as LessonStatus,
+})
+
+const toRevision = (row: Tables<'lesson_revisions'>): LessonRevision => ({
+  ...row,
+  source: row.source as RevisionSource,
+  attachments: jsonList<LessonAttachment>(row.attachments),
+  interactive_questions: jsonList<InteractiveQuestion>(row.interactive_questions),
+})
+
+const toMistake = (row: Tables<'lesson_mistakes'>): LessonMistake => ({
+  ...row,
+  question: row.question as unknown as MistakeQuestion,
+})
+
 // Lesson service functions
 export const lessonService = {
   // Test bucket access
@@ -45,7 +188,8 @@ export const lessonService = {
     }
   },
 
-  // Get all lessons
+  // Get every lesson the signed-in user may see; for admins this includes
+  // drafts and lessons in review
   async getAllLessons() {
     console.log('Calling getAllLessons...');
     const { data, error } = await supabase
@@ -59,7 +203,31 @@ export const lessonService = {
       console.error('Supabase error:', error);
       throw error;
     }
-    return data as Lesson[]
+    return data.map(toLesson)
+  },
+
+  // Get the approved lessons students study from
+  async getPublishedLessons() {
+    const { data, error } = await supabase
+      .from('lessons')
+      .select('*')
+      .eq('status', 'approved')
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data.map(toLesson)
+  },
+
+  // Get the lessons a teacher or admin wrote, in any status
+  async getAuthorLessons(authorId: string) {
+    const { data, error } = await supabase
+      .from('lessons')
+      .select('*')
+      .eq('author_id', authorId)
+      .order('updated_at', { ascending: false })
+
+    if (error) throw error
+    return data.map(toLesson)
   },
 
   // Get lesson by ID
@@ -71,35 +239,36 @@ export const lessonService = {
       .single()
     
     if (error) throw error
-    return data as Lesson
+    return toLesson(data)
   },
 
-  // Create new lesson
-  async createLesson(lesson: Omit<Lesson, 'id' | 'created_at' | 'updated_at'>) {
+  // Create new lesson as a draft of the given author; `source` is recorded
+  // on the first revision
+  async createLesson(lesson: LessonInput, authorId: string, source: Exclude<RevisionSource, 'rollback'> = 'human') {
     console.log('Creating lesson:', lesson);
     const { data, error } = await supabase
       .from('lessons')
-      .insert(lesson)
+      .insert({ ...toLessonRow(lesson), author_id: authorId, status: 'draft', edit_source: source } as TablesInsert<'lessons'>)
       .select()
       .single()
     
     console.log('Create lesson response:', { data, error });
     
     if (error) throw error
-    return data as Lesson
+    return toLesson(data)
   },
 
-  // Update lesson
-  async updateLesson(id: string, updates: Partial<Lesson>) {
+  // Update lesson; the database records every save as a revision
+  async updateLesson(id: string, updates: Partial<LessonInput>, source: Exclude<RevisionSource, 'rollback'> = 'human') {
     const { data, error } = await supabase
       .from('lessons')
-      .update(updates)
+      .update({ ...toLessonRow(updates), edit_source: source })
       .eq('id', id)
       .select()
       .single()
     
     if (error) throw error
-    return data as Lesson
+    return toLesson(data)
   },
 
   // Delete lesson
@@ -112,6 +281,51 @@ export const lessonService = {
     if (error) throw error
   },
 
+  // Move a lesson to another status; the database checks who may do it and
+  // records the change in the review history
+  async transitionLesson(id: string, toStatus: LessonStatus, comment?: string) {
+    const { data, error } = await supabase.rpc('transition_lesson_status', {
+      p_lesson_id: id,
+      p_to_status: toStatus,
+      ...(comment?.trim() ? { p_comment: comment.trim() } : {}),
+    })
+
+    if (error) throw error
+    return toReview(data)
+  },
+
+  // Get the status changes of a lesson, oldest first
+  async getReviewHistory(lessonId: string) {
+    const { data, error } = await supabase
+      .from('lesson_reviews')
+      .select('*')
+      .eq('lesson_id', lessonId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return (data || []).map(toReview)
+  },
+
+  // Get the revisions of a lesson, newest first
+  async getRevisions(lessonId: string) {
+    const { data, error } = await supabase
+      .from('lesson_revisions')
+      .select('*')
+      .eq('lesson_id', lessonId)
+      .order('revision_number', { ascending: false })
+
+    if (error) throw error
+    return (data || []).map(toRevision)
+  },
+
+  // Copy a revision back onto its lesson; this is saved as a new revision
+  async restoreRevision(revisionId: string) {
+    const { data, error } = await supabase.rpc('restore_lesson_revision', { p_revision_id: revisionId })
+
+    if (error) throw error
+    return toLesson(data)
+  },
+
   // Upload file to Supabase Storage
   async uploadFile(file: File, path: string) {
     console.log('Uploading file:', { name: file.name, size: file.size, path });
@@ -147,4 +361,50 @@ export const lessonService = {
     
     if (error) throw error
   }
-} 
\ No newline at end of file
+}
+
+// Mistake history service
+export const mistakeService = {
+  // Record a wrong answer
+  async recordMistake(mistake: Omit<LessonMistake, 'id' | 'created_at'>) {
+    const { data, error } = await supabase
+      .from('lesson_mistakes')
+      .insert({ ...mistake, question: mistake.question as unknown as Json })
+      .select()
+      .single()
+
+    if (error) throw error
+    return toMistake(data)
+  },
+
+  // Get a user's mistakes, optionally limited to one lesson
+  async getMistakes(userId: string, lessonId?: string) {
+    let query = supabase
+      .from('lesson_mistakes')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (lessonId) {
+      query = query.eq('lesson_id', lessonId)
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false })
+
+    if (error) throw error
+    return (data || []).map(toMistake)
+  },
+
+  // Get the mistakes of several users, e.g. the students of a class
+  async getMistakesForUsers(userIds: string[]) {
+    if (userIds.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('lesson_mistakes')
+      .select('*')
+      .in('user_id', userIds)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return (data || []).map(toMistake)
+  }
+}
@@ -0,0 +1,38 @@
+import { User as FirebaseUser } from 'firebase/auth';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+
+// Roles an admin can grant. Students register as 'student' or 'user'; both are 'user' here.
+export type AppRole = 'user' | 'teacher' | 'admin';
+
+export const APP_ROLE_LABELS: Record<AppRole, string> = {
+  user: 'Öğrenci',
+  teacher: 'Öğretmen',
+  admin: 'Yönetici',
+};
+
+export const toAppRole = (role: string): AppRole => (role === 'teacher' || role === 'admin' ? role : 'user');
+
+export const userRoleService = {
+  // Roles are granted on the server, which also sets the app_role claim Supabase trusts
+  async setRole(userId: string, role: AppRole) {
+    const setUserRole = httpsCallable<{ uid: string; role: AppRole }, { role: AppRole }>(functions, 'setUserRole');
+    await setUserRole({ uid: userId, role });
+  },
+
+  // Supabase needs the app_role claim in the ID token. Accounts that do not
+  // have it yet get it from the server, then the token is refreshed.
+  async ensureClaims(user: FirebaseUser) {
+    const { claims } = await user.getIdTokenResult();
+    if (claims.app_role) return;
+    await httpsCallable(functions, 'ensureSupabaseClaims')();
+    await user.getIdToken(true);
+  },
+
+  // Give every account created before the claims existed the 'user' role
+  async backfillClaims() {
+    const backfillSupabaseClaims = httpsCallable<void, { updated: number }>(functions, 'backfillSupabaseClaims');
+    const { data } = await backfillSupabaseClaims();
+    return data.updated;
+  },
+};
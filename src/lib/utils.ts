@@ -0,0 +1,44 @@
+// Firestore returns Timestamps, older documents store plain Dates or ISO
+// strings. This accepts all three.
+export const toDate = (value: unknown): Date => {
+  if (value && typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return value ? new Date(value as string) : new Date();
+};
+
+export const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const isSameDay = (a: Date, b: Date) =>
+  startOfDay(a).getTime() === startOfDay(b).getTime();
+
+// Date inputs give "YYYY-MM-DD"; new Date() would read that as UTC midnight.
+export const parseDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Weeks start on Monday.
+export const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+
+// Base64 body of a file, without the data URL prefix
+export const fileToBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// The 11-character video id of a youtube.com or youtu.be link, or null for other URLs
+export const getYouTubeVideoId = (url: string) => {
+  const match = url.match(/^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/);
+  return match && match[2].length === 11 ? match[2] : null;
+};
@@ -0,0 +1,69 @@
+import { collection, getDocs, limit as limitTo, orderBy, query, where } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import toast from 'react-hot-toast';
+import { db, functions } from './firebase';
+import { toDate } from './utils';
+import { XpEvent, XpSource } from '../types';
+
+export const XP_PER_LEVEL = 200;
+
+export interface XpAwardResult {
+  awarded: number;
+  xp: number;
+  level: number;
+  streak: number;
+  leveledUp: boolean;
+}
+
+type ClientXpSource = Extract<XpSource, 'daily_login' | 'question_solved' | 'lesson_question'>;
+
+// lesson_question: the refId is the lesson, checked together with this answer
+interface LessonAnswer {
+  questionId: string;
+  answer: string;
+}
+
+export const XP_SOURCE_LABELS: Record<XpSource, string> = {
+  daily_login: 'Günlük giriş',
+  question_solved: 'Soru çözümü',
+  quiz_completed: 'Test',
+  lesson_question: 'Ders sorusu',
+  achievement: 'Rozet',
+};
+
+// XP needed inside the current level, for progress bars
+export const getLevelProgress = (xp: number) => {
+  const current = xp % XP_PER_LEVEL;
+  return { current, needed: XP_PER_LEVEL, percent: Math.round((current / XP_PER_LEVEL) * 100) };
+};
+
+export const xpService = {
+  // Ask the server to grant XP for an event; formulas and limits live there.
+  // Quiz and achievement XP are granted by submitQuizAttempt and syncAchievements.
+  async award(source: ClientXpSource, refId?: string, lessonAnswer?: LessonAnswer) {
+    const awardXp = httpsCallable<{ source: ClientXpSource; refId?: string } & Partial<LessonAnswer>, XpAwardResult>(functions, 'awardXp');
+    const { data } = await awardXp({ source, refId, ...lessonAnswer });
+    return data;
+  },
+
+  // Get a user's latest XP events
+  async getEvents(userId: string, max = 20) {
+    const q = query(
+      collection(db, 'xpEvents'),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc'),
+      limitTo(max)
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(eventDoc => {
+      const data = eventDoc.data();
+      return { ...data, id: eventDoc.id, createdAt: toDate(data.createdAt) } as XpEvent;
+    });
+  },
+};
+
+export const notifyXp = (result: XpAwardResult, message?: string) => {
+  if (result.awarded <= 0) return;
+  const text = message ?? `+${result.awarded} XP kazandınız! 🎉`;
+  toast.success(result.leveledUp ? `${text} Seviye ${result.level}'e yükseldiniz! 🚀` : text);
+};
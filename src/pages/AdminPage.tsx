@@ -1,9 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { lessonService, Lesson as SupabaseLesson } from '../lib/supabase';
+import { lessonService, InteractiveQuestion, Lesson, LessonStatus, LESSON_STATUS_LABELS } from '../lib/supabase';
+import { getYouTubeVideoId } from '../lib/utils';
 import { generateQuestionFromContent } from '../lib/gemini';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
-import { User, Shield, BookOpen, Plus, Trash2, Edit, X, Sparkles, FileText, UploadCloud, Link as LinkIcon, Image as ImageIcon, Play, Clock } from 'lucide-react';
+import MarkdownContent from '../components/Common/MarkdownContent';
+import LessonStatusBadge from '../components/Lessons/LessonStatusBadge';
+import LessonReviewHistory from '../components/Lessons/LessonReviewHistory';
+import LessonRevisions from '../components/Lessons/LessonRevisions';
+import LessonEditor from '../components/Lessons/LessonEditor';
+import { lessonDraftStore } from '../lib/lessonDrafts';
+import { APP_ROLE_LABELS, AppRole, toAppRole, userRoleService } from '../lib/userRoles';
+import { coachService } from '../lib/coaches';
+import { User, Shield, BookOpen, Plus, Trash2, Edit, X, Sparkles, FileText, UploadCloud, Link as LinkIcon, Image as ImageIcon, Play, Clock, ClipboardCheck, Check, Send, Loader } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { collection, getDocs } from 'firebase/firestore';
 import { db } from '../lib/firebase';
@@ -15,28 +24,6 @@ interface UserData {
   role: string;
 }
 
-interface Lesson {
-    id: string;
-    title: string;
-    subject: string;
-    grade_level: string;
-    content: string;
-    cover_image_url?: string;
-    video_url?: string;
-    attachments?: { name: string; url: string; }[];
-    interactive_questions?: InteractiveQuestion[];
-    created_at: string;
-    updated_at: string;
-}
-
-interface InteractiveQuestion {
-  id: string; // To be used as a key in React
-  timestamp: number;
-  question: string;
-  options: string[];
-  correctAnswer: string;
-}
-
 const availableSubjects = [
   'Matematik', 'Fizik', 'Kimya', 'Biyoloji', 
   'Türkçe', 'Edebiyat', 'Tarih', 'Coğrafya', 'Felsefe'
@@ -44,12 +31,17 @@ const availableSubjects = [
 
 const gradeLevels = ['9. Sınıf', '10. Sınıf', '11. Sınıf', '12. Sınıf', 'YKS', 'LGS'];
 
+const statusFilters: LessonStatus[] = ['in_review', 'draft', 'approved', 'rejected'];
+
+// Autosave slot of the AI wizard, whose lesson has no id yet
+const NEW_LESSON_DRAFT_KEY = 'ai-new';
+
 const AdminPage = () => {
   const [activeTab, setActiveTab] = useState('lessons');
   const [users, setUsers] = useState<UserData[]>([]);
   const [lessons, setLessons] = useState<Lesson[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filters, setFilters] = useState({ subject: 'all', gradeLevel: 'all' });
+  const [filters, setFilters] = useState<{ subject: string; gradeLevel: string; status: LessonStatus | 'all' }>({ subject: 'all', gradeLevel: 'all', status: 'all' });
   
   const [aiStep, setAiStep] = useState(1);
   const [generating, setGenerating] = useState(false);
@@ -62,10 +54,18 @@ const AdminPage = () => {
   const [isAiModalOpen, setIsAiModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [currentLesson, setCurrentLesson] = useState<Lesson | null>(null);
+  const [contentDraft, setContentDraft] = useState('');
+  const [isSavingContent, setIsSavingContent] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [videoLinkInput, setVideoLinkInput] = useState('');
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isCoverUploading, setIsCoverUploading] = useState(false);
 
+  const [reviewLesson, setReviewLesson] = useState<Lesson | null>(null);
+  const [reviewComment, setReviewComment] = useState('');
+  const [isTransitioning, setIsTransitioning] = useState(false);
+  const [reviewRefreshKey, setReviewRefreshKey] = useState(0);
+
   const { currentUser } = useAuth();
 
   useEffect(() => {
@@ -107,7 +107,8 @@ const AdminPage = () => {
     return lessons.filter((lesson: Lesson) => {
         const subjectMatch = filters.subject === 'all' || lesson.subject === filters.subject;
         const gradeLevelMatch = filters.gradeLevel === 'all' || lesson.grade_level === filters.gradeLevel;
-        return subjectMatch && gradeLevelMatch;
+        const statusMatch = filters.status === 'all' || lesson.status === filters.status;
+        return subjectMatch && gradeLevelMatch && statusMatch;
     });
   }, [lessons, filters]);
 
@@ -121,9 +122,30 @@ const AdminPage = () => {
 
   const openEditModal = (lesson: Lesson) => {
     setCurrentLesson(lesson);
+    setContentDraft(lesson.content);
     setIsEditModalOpen(true);
   };
 
+  const handleSaveContent = async () => {
+    if (!currentLesson) return;
+    if (!contentDraft.trim()) {
+      toast.error('Ders içeriği boş olamaz.');
+      return;
+    }
+    setIsSavingContent(true);
+    try {
+      const updatedLesson = await lessonService.updateLesson(currentLesson.id, { content: contentDraft });
+      setCurrentLesson(updatedLesson);
+      setLessons(prev => prev.map(l => l.id === updatedLesson.id ? updatedLesson : l));
+      toast.success('Ders içeriği kaydedildi.');
+    } catch (error) {
+      console.error('Save content failed:', error);
+      toast.error('Ders içeriği kaydedilemedi.');
+    } finally {
+      setIsSavingContent(false);
+    }
+  };
+
   const closeEditModal = () => {
     setCurrentLesson(null);
     setIsEditModalOpen(false);
@@ -270,7 +292,7 @@ const AdminPage = () => {
           );
           
           // Timestamp'leri düzenle
-          const questionsWithTimestamps = generatedQuestions.map((q: any, index: number) => ({
+          const questionsWithTimestamps = generatedQuestions.map((q, index) => ({
             ...q,
             timestamp: (index + 1) * 60, // 60, 120, 180 saniye
             id: `q-${Date.now()}-${index}`
@@ -279,7 +301,7 @@ const AdminPage = () => {
           setInteractiveQuestions(questionsWithTimestamps);
           const updatedLesson = await lessonService.updateLesson(currentLesson.id, {
             interactive_questions: questionsWithTimestamps
-          });
+          }, 'ai');
           setCurrentLesson(updatedLesson);
           setLessons(prev => prev.map(l => l.id === currentLesson.id ? updatedLesson : l));
           toast.success("AI ile sorular başarıyla üretildi! Şimdi düzenleyip kaydedebilirsiniz.", { id: toastId });
@@ -371,6 +393,7 @@ Bu derste öğrendiklerimizi özetleyelim.
       toast.error('Lütfen önce AI ile içerik oluşturun.');
       return;
     }
+    if (!currentUser) return;
     const toastId = toast.loading('Ders kaydediliyor...');
     try {
       const newLesson = await lessonService.createLesson({
@@ -379,17 +402,55 @@ Bu derste öğrendiklerimizi özetleyelim.
         grade_level: lessonPrompt.gradeLevel,
         content: generatedContent,
         attachments: [],
-        interactive_questions: []
-      });
+        interactive_questions: [],
+        lock_video_seek: false
+      }, currentUser.uid, 'ai');
       setLessons(prev => [newLesson, ...prev]);
+      lessonDraftStore.clear(NEW_LESSON_DRAFT_KEY);
       resetAiModal();
-      toast.success('Ders başarıyla kaydedildi!', { id: toastId });
+      toast.success('Ders taslak olarak kaydedildi. Yayınlamak için incelemeye gönderin.', { id: toastId });
     } catch (error: any) {
       console.error('Save lesson failed:', error);
       toast.error(`Ders kaydedilemedi: ${error.message}`, { id: toastId });
     }
   };
 
+  const handleRestoreRevision = (lesson: Lesson) => {
+    setCurrentLesson(lesson);
+    setContentDraft(lesson.content);
+    // Unsaved question edits belong to the replaced content
+    setInteractiveQuestions([]);
+    setLessons(prev => prev.map(l => l.id === lesson.id ? lesson : l));
+  };
+
+  const openReviewModal = (lesson: Lesson) => {
+    setReviewLesson(lesson);
+    setReviewComment('');
+  };
+
+  const handleTransition = async (toStatus: LessonStatus) => {
+    if (!reviewLesson) return;
+    if (toStatus === 'rejected' && !reviewComment.trim()) {
+      toast.error('Reddetme nedenini yorum olarak yazın.');
+      return;
+    }
+    setIsTransitioning(true);
+    try {
+      await lessonService.transitionLesson(reviewLesson.id, toStatus, reviewComment);
+      const updatedLesson = { ...reviewLesson, status: toStatus };
+      setReviewLesson(updatedLesson);
+      setLessons(prev => prev.map(l => l.id === updatedLesson.id ? updatedLesson : l));
+      setReviewComment('');
+      setReviewRefreshKey(key => key + 1);
+      toast.success(`Ders durumu: ${LESSON_STATUS_LABELS[toStatus]}`);
+    } catch (error: any) {
+      console.error('Lesson transition failed:', error);
+      toast.error(`Durum değiştirilemedi: ${error.message}`);
+    } finally {
+      setIsTransitioning(false);
+    }
+  };
+
   const handleDeleteLesson = async (id: string) => {
     if (!window.confirm('Bu dersi kalıcı olarak silmek istediğinizden emin misiniz?')) {
       return;
@@ -431,15 +492,48 @@ Bu derste öğrendiklerimizi özetleyelim.
     }
   };
 
+  const handleSaveVideoLink = async () => {
+    if (!currentLesson) return;
+    if (!getYouTubeVideoId(videoLinkInput)) {
+      toast.error('Lütfen geçerli bir YouTube linki girin.');
+      return;
+    }
+    try {
+      const updatedLesson = await lessonService.updateLesson(currentLesson.id, { video_url: videoLinkInput.trim() });
+      setCurrentLesson(updatedLesson);
+      setLessons(prevLessons => prevLessons.map(l => l.id === currentLesson.id ? updatedLesson : l));
+      setVideoLinkInput('');
+      toast.success('YouTube videosu eklendi.');
+    } catch (error) {
+      console.error('Video linki kaydedilemedi:', error);
+      toast.error('Video linki kaydedilemedi.');
+    }
+  };
+
+  const handleToggleSeekLock = async () => {
+    if (!currentLesson) return;
+    try {
+      const updatedLesson = await lessonService.updateLesson(currentLesson.id, { lock_video_seek: !currentLesson.lock_video_seek });
+      setCurrentLesson(updatedLesson);
+      setLessons(prevLessons => prevLessons.map(l => l.id === currentLesson.id ? updatedLesson : l));
+    } catch (error) {
+      console.error('Video ayarı kaydedilemedi:', error);
+      toast.error('Video ayarı kaydedilemedi.');
+    }
+  };
+
   const handleRemoveVideo = async () => {
     if (!currentLesson || !currentLesson.video_url) return;
     if (!window.confirm('Videoyu silmek istediğinizden emin misiniz?')) return;
     const toastId = toast.loading('Video siliniyor...');
     try {
-      // URL'den path'i çıkar
-      const urlParts = currentLesson.video_url.split('/');
-      const path = urlParts.slice(-3).join('/');
-      await lessonService.deleteFile(path);
+      // YouTube linklerinin silinecek bir dosyası yok
+      if (!getYouTubeVideoId(currentLesson.video_url)) {
+        // URL'den path'i çıkar
+        const urlParts = currentLesson.video_url.split('/');
+        const path = urlParts.slice(-3).join('/');
+        await lessonService.deleteFile(path);
+      }
       const updatedLesson = await lessonService.updateLesson(currentLesson.id, {
         video_url: undefined
       });
@@ -453,6 +547,40 @@ Bu derste öğrendiklerimizi özetleyelim.
     }
   };
 
+  const handleRoleChange = async (user: UserData, role: AppRole) => {
+    const toastId = toast.loading('Rol güncelleniyor...');
+    try {
+      await userRoleService.setRole(user.id, role);
+      setUsers(prev => prev.map(u => u.id === user.id ? { ...u, role } : u));
+      toast.success(`${user.name} artık ${APP_ROLE_LABELS[role]}.`, { id: toastId });
+    } catch (error) {
+      console.error('Rol güncellenemedi:', error);
+      toast.error('Rol güncellenemedi.', { id: toastId });
+    }
+  };
+
+  const handleBackfillClaims = async () => {
+    const toastId = toast.loading('Yetkiler eşitleniyor...');
+    try {
+      const updated = await userRoleService.backfillClaims();
+      toast.success(`${updated} kullanıcıya Supabase yetkisi verildi.`, { id: toastId });
+    } catch (error) {
+      console.error('Yetkiler eşitlenemedi:', error);
+      toast.error('Yetkiler eşitlenemedi.', { id: toastId });
+    }
+  };
+
+  const handleBackfillStudyTimes = async () => {
+    const toastId = toast.loading('Koç çalışma saatleri eşitleniyor...');
+    try {
+      const updated = await coachService.backfillStudyTimes();
+      toast.success(`${updated} koça varsayılan çalışma saati verildi.`, { id: toastId });
+    } catch (error) {
+      console.error('Koç çalışma saatleri eşitlenemedi:', error);
+      toast.error('Koç çalışma saatleri eşitlenemedi.', { id: toastId });
+    }
+  };
+
   const renderUsersTable = () => (
     <div className="overflow-x-auto">
       <table className="min-w-full bg-white dark:bg-gray-800 rounded-lg shadow">
@@ -469,9 +597,16 @@ Bu derste öğrendiklerimizi özetleyelim.
               <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">{user.name}</td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{user.email}</td>
               <td className="px-6 py-4 whitespace-nowrap text-sm">
-                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${user.role === 'admin' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800 dark:bg-gray-600 dark:text-gray-200'}`}>
-                  {user.role}
-                </span>
+                <select
+                  value={toAppRole(user.role)}
+                  onChange={(e) => handleRoleChange(user, e.target.value as AppRole)}
+                  disabled={user.id === currentUser?.uid}
+                  className="px-2 py-1 text-xs font-semibold rounded-md border dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                >
+                  {(Object.keys(APP_ROLE_LABELS) as AppRole[]).map(role => (
+                    <option key={role} value={role}>{APP_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
               </td>
             </tr>
           ))}
@@ -480,13 +615,28 @@ Bu derste öğrendiklerimizi özetleyelim.
     </div>
   );
 
+  const renderStatusFilter = () => (
+    <div className="flex flex-wrap gap-2 mb-6">
+      {(['all', ...statusFilters] as const).map(status => (
+        <button
+          key={status}
+          onClick={() => setFilters(prev => ({ ...prev, status }))}
+          className={`px-3 py-1.5 text-sm font-medium rounded-full transition-colors ${filters.status === status ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+        >
+          {status === 'all' ? 'Tümü' : LESSON_STATUS_LABELS[status]} ({status === 'all' ? lessons.length : lessons.filter(l => l.status === status).length})
+        </button>
+      ))}
+    </div>
+  );
+
   const renderLessonsTable = () => (
      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
         {filteredLessons.map(lesson => (
             <div key={lesson.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden flex flex-col">
                 <img src={lesson.cover_image_url || 'https://via.placeholder.com/400x200?text=Ders'} alt={lesson.title} className="w-full h-40 object-cover"/>
                 <div className="p-4 flex-grow">
-                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{lesson.title}</h3>
+                    <LessonStatusBadge status={lesson.status} />
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white mt-2">{lesson.title}</h3>
                     <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{lesson.subject} • {lesson.grade_level}</p>
                 </div>
                 <div className="p-4 bg-gray-50 dark:bg-gray-700/50 flex items-center justify-between">
@@ -494,6 +644,10 @@ Bu derste öğrendiklerimizi özetleyelim.
                         <Edit className="w-4 h-4 mr-1" />
                         Düzenle
                     </button>
+                    <button onClick={() => openReviewModal(lesson)} className="flex items-center text-sm font-medium text-yellow-600 hover:text-yellow-800 dark:text-yellow-400 dark:hover:text-yellow-200">
+                        <ClipboardCheck className="w-4 h-4 mr-1" />
+                        İncele
+                    </button>
                     <button onClick={() => handleDeleteLesson(lesson.id)} className="flex items-center text-sm font-medium text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300">
                          <Trash2 className="w-4 h-4 mr-1" />
                         Sil
@@ -544,19 +698,84 @@ Bu derste öğrendiklerimizi özetleyelim.
                         </button>
                      </div>
                 )}
+                {activeTab === 'users' && (
+                    <div className="flex items-center gap-2">
+                        <button onClick={handleBackfillStudyTimes} className="flex items-center bg-yellow-600 text-white px-4 py-2 rounded-lg hover:bg-yellow-700 font-semibold shadow">
+                            <Clock className="w-5 h-5 mr-2" />
+                            Koç Saatlerini Eşitle
+                        </button>
+                        <button onClick={handleBackfillClaims} className="flex items-center bg-yellow-600 text-white px-4 py-2 rounded-lg hover:bg-yellow-700 font-semibold shadow">
+                            <Shield className="w-5 h-5 mr-2" />
+                            Supabase Yetkilerini Eşitle
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
         
         {loading ? <div className="text-center py-10"><LoadingSpinner size="lg" /></div> : (
           <div>
-            {activeTab === 'users' ? renderUsersTable() : renderLessonsTable()}
+            {activeTab === 'users' ? renderUsersTable() : <>{renderStatusFilter()}{renderLessonsTable()}</>}
           </div>
         )}
       </div>
 
+      {reviewLesson && (
+          <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+                  <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+                      <div>
+                          <h3 className="text-xl font-semibold text-gray-900 dark:text-white">{reviewLesson.title}</h3>
+                          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{reviewLesson.subject} • {reviewLesson.grade_level}</p>
+                      </div>
+                      <button onClick={() => setReviewLesson(null)} className="p-2 rounded-full text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"><X className="w-6 h-6" /></button>
+                  </div>
+                  <div className="p-6 overflow-y-auto space-y-6">
+                      <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                          Durum: <LessonStatusBadge status={reviewLesson.status} />
+                      </div>
+                      <div className="max-h-60 overflow-y-auto p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                          <MarkdownContent content={reviewLesson.content} className="prose-sm" />
+                      </div>
+                      <LessonReviewHistory lessonId={reviewLesson.id} refreshKey={reviewRefreshKey} />
+                      {reviewLesson.status !== 'approved' && (
+                          <div>
+                              <label className="block text-gray-700 dark:text-gray-200 mb-1 font-medium">Yorum</label>
+                              <textarea
+                                  value={reviewComment}
+                                  onChange={e => setReviewComment(e.target.value)}
+                                  rows={3}
+                                  placeholder={reviewLesson.status === 'in_review' ? 'Öğretmene iletilecek geri bildirim (reddederken zorunlu)' : 'İsteğe bağlı not'}
+                                  className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                              />
+                          </div>
+                      )}
+                  </div>
+                  <div className="p-6 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+                      {isTransitioning && <Loader className="w-5 h-5 animate-spin self-center text-gray-400" />}
+                      {(reviewLesson.status === 'draft' || reviewLesson.status === 'rejected') && (
+                          <button onClick={() => handleTransition('in_review')} disabled={isTransitioning} className="flex items-center px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50">
+                              <Send className="w-4 h-4 mr-2" /> İncelemeye Gönder
+                          </button>
+                      )}
+                      {reviewLesson.status === 'in_review' && (
+                          <>
+                              <button onClick={() => handleTransition('rejected')} disabled={isTransitioning} className="flex items-center px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 disabled:opacity-50">
+                                  <X className="w-4 h-4 mr-2" /> Reddet
+                              </button>
+                              <button onClick={() => handleTransition('approved')} disabled={isTransitioning} className="flex items-center px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 disabled:opacity-50">
+                                  <Check className="w-4 h-4 mr-2" /> Onayla ve Yayınla
+                              </button>
+                          </>
+                      )}
+                  </div>
+              </div>
+          </div>
+      )}
+
       {isAiModalOpen && (
           <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
-              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-2xl transform transition-all max-h-[90vh] flex flex-col">
+              <div className={`bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full ${aiStep === 2 ? 'max-w-5xl' : 'max-w-2xl'} transform transition-all max-h-[90vh] flex flex-col`}>
                   <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
                       <h3 className="text-xl font-semibold text-gray-900 dark:text-white">{aiStep === 1 ? 'Yapay Zeka ile Ders Oluştur' : 'Oluşturulan İçeriği Onayla'}</h3>
                       <button onClick={resetAiModal} className="p-2 rounded-full text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"><X className="w-6 h-6" /></button>
@@ -628,13 +847,13 @@ Bu derste öğrendiklerimizi özetleyelim.
                       ) : (
                           <div className="space-y-4">
                               <div className="mt-6 bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
-                                  <label htmlFor="generatedContent" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Oluşturulan İçerik (Düzenleyebilirsiniz)</label>
-                                  <textarea
-                                      id="generatedContent"
-                                      rows={15}
-                                      className="mt-2 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md dark:bg-gray-900 dark:text-gray-200 dark:border-gray-600 focus:ring-indigo-500 focus:border-indigo-500"
+                                  <p className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Oluşturulan İçerik (Düzenleyebilirsiniz)</p>
+                                  <LessonEditor
                                       value={generatedContent}
-                                      onChange={(e) => setGeneratedContent(e.target.value)}
+                                      onChange={setGeneratedContent}
+                                      savedValue=""
+                                      draftKey={NEW_LESSON_DRAFT_KEY}
+                                      uploadPath="lesson_images/drafts"
                                   />
                               </div>
                               <div className="mt-6 flex justify-between">
@@ -652,21 +871,44 @@ Bu derste öğrendiklerimizi özetleyelim.
 
       {isEditModalOpen && currentLesson && (
           <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
-              <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl w-full max-w-2xl transform transition-all max-h-[90vh] flex flex-col">
+              <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl w-full max-w-5xl transform transition-all max-h-[90vh] flex flex-col">
                   <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
                       <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Dersi Düzenle</h3>
                       <button onClick={closeEditModal} className="p-2 rounded-full text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"><X className="w-6 h-6" /></button>
                   </div>
 
                   <div className="p-6 overflow-y-auto space-y-6">
+                      <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
+                          <div className="flex items-center justify-between mb-4">
+                              <h4 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Ders İçeriği</h4>
+                              <button
+                                  onClick={handleSaveContent}
+                                  disabled={isSavingContent || contentDraft === currentLesson.content}
+                                  className="flex items-center px-4 py-2 text-sm font-semibold rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:bg-green-400"
+                              >
+                                  {isSavingContent ? <Loader className="w-4 h-4 animate-spin" /> : 'İçeriği Kaydet'}
+                              </button>
+                          </div>
+                          <LessonEditor
+                              value={contentDraft}
+                              onChange={setContentDraft}
+                              savedValue={currentLesson.content}
+                              draftKey={currentLesson.id}
+                              uploadPath={`lesson_images/${currentLesson.id}`}
+                              questions={currentLesson.interactive_questions}
+                          />
+                      </div>
+
                       <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
                            <h4 className="text-lg font-semibold mb-4 text-gray-900 dark:text-gray-200">Ders Ayarları</h4>
                            
                            <div className="space-y-4">
                                <div>
-                                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Ders Videosu (mp4)</label>
+                                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Ders Videosu (mp4 veya YouTube)</label>
                                    <div className="mt-2 flex items-center gap-4">
-                                       {currentLesson?.video_url ? (
+                                       {currentLesson?.video_url && getYouTubeVideoId(currentLesson.video_url) ? (
+                                           <img src={`https://img.youtube.com/vi/${getYouTubeVideoId(currentLesson.video_url)}/mqdefault.jpg`} alt="YouTube videosu" className="w-48 h-28 object-cover rounded-md shadow" />
+                                       ) : currentLesson?.video_url ? (
                                            <video src={currentLesson.video_url} controls className="w-48 h-28 rounded-md shadow" />
                                        ) : (
                                            <div className="w-48 h-28 bg-gray-200 dark:bg-gray-700 rounded-md flex items-center justify-center">
@@ -692,6 +934,27 @@ Bu derste öğrendiklerimizi özetleyelim.
                                            )}
                                        </div>
                                    </div>
+                                   <div className="mt-3 flex gap-2">
+                                       <input
+                                           type="url"
+                                           value={videoLinkInput}
+                                           onChange={(e) => setVideoLinkInput(e.target.value)}
+                                           placeholder="veya YouTube linki: https://www.youtube.com/watch?v=..."
+                                           className="flex-1 px-3 py-2 text-sm border rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                                       />
+                                       <button onClick={handleSaveVideoLink} disabled={!videoLinkInput.trim()} className="px-4 py-2 text-sm font-medium rounded-md bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white">
+                                           Kaydet
+                                       </button>
+                                   </div>
+                                   <label className="mt-3 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                       <input
+                                           type="checkbox"
+                                           checked={currentLesson.lock_video_seek}
+                                           onChange={handleToggleSeekLock}
+                                           className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                       />
+                                       Cevaplanmamış soruların ilerisine atlanmasın
+                                   </label>
                                </div>
 
                                <div>
@@ -848,6 +1111,10 @@ Bu derste öğrendiklerimizi özetleyelim.
                             </div>
                         )}
                       </div>
+
+                      <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
+                          <LessonRevisions lessonId={currentLesson.id} refreshKey={currentLesson.updated_at} onRestore={handleRestoreRevision} />
+                      </div>
                   </div>
                    <div className="p-6 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-700">
                         <button onClick={closeEditModal} type="button" className="w-full px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700">
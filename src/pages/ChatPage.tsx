@@ -1,41 +1,71 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { db } from '../lib/firebase';
-import { doc, updateDoc, arrayUnion, onSnapshot } from 'firebase/firestore';
-import { Send, Loader, ArrowLeft, Bot, User, Paperclip } from 'lucide-react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { Send, Loader, ArrowLeft, Bot, User, Paperclip, Square, Brain, ClipboardList, FileText, X } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { generateText } from '../lib/gemini';
-
-interface Message {
-    role: 'user' | 'model';
-    content: string;
-    timestamp: Date;
-}
-
-interface Coach {
-    userId: string;
-    coachName: string;
-    examType: string;
-    targetDate: string;
-    subjects: string[];
-    communicationTone: string[];
-    interactions: string[];
-    dailyHours: string;
-    personality: string;
-    chatHistory: Message[];
-}
+import { AiOutputError, answerChatAttachment, streamText } from '../lib/gemini';
+import { trackActivity } from '../lib/achievements';
+import { fileToBase64 } from '../lib/utils';
+import {
+    ATTACHMENT_MIME_TYPES, buildChatPrompt, coachChatService, LegacyChatMessage, MAX_ATTACHMENT_SIZE, MessagePage, solutionToText,
+} from '../lib/coachChat';
+import { buildMemoryContext, coachMemoryService } from '../lib/coachMemory';
+import { buildCoachSystemPrompt, coachService, isLegacyCoach, toAICoach } from '../lib/coaches';
+import CoachMemoryPanel from '../components/Coach/CoachMemoryPanel';
+import CoachProfilePanel from '../components/Coach/CoachProfilePanel';
+import SolutionView from '../components/QuestionSolver/SolutionView';
+import MarkdownContent from '../components/Common/MarkdownContent';
+import { AICoach, ChatAttachment, CoachChatMessage, CoachMemory } from '../types';
+
+const AttachmentPreview: React.FC<{ attachment: ChatAttachment }> = ({ attachment }) => (
+    <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="block mb-2">
+        {attachment.mimeType.startsWith('image/') ? (
+            <img src={attachment.url} alt={attachment.name} className="max-h-48 rounded-lg object-cover" />
+        ) : (
+            <span className="flex items-center gap-2 p-3 rounded-lg bg-black/10 dark:bg-white/10">
+                <FileText size={20} className="flex-shrink-0" />
+                <span className="text-sm truncate">{attachment.name}</span>
+            </span>
+        )}
+    </a>
+);
 
 const ChatPage = () => {
     const { coachId } = useParams<{ coachId: string }>();
     const { currentUser, userData } = useAuth();
     const navigate = useNavigate();
 
-    const [coach, setCoach] = useState<Coach | null>(null);
+    const [coach, setCoach] = useState<AICoach | null>(null);
+    const [isUpgrading, setIsUpgrading] = useState(false);
+    const [showProfile, setShowProfile] = useState(false);
+    // Canlı dinlenen son mesajlar ve kaydırdıkça bir kez çekilen eski sayfalar
+    const [recentMessages, setRecentMessages] = useState<CoachChatMessage[]>([]);
+    const [olderMessages, setOlderMessages] = useState<CoachChatMessage[]>([]);
+    const messages = useMemo(() => [...olderMessages, ...recentMessages], [olderMessages, recentMessages]);
+    const olderPageRef = useRef<MessagePage | null>(null);
+    const [hasMoreMessages, setHasMoreMessages] = useState(false);
+    const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+    const [memories, setMemories] = useState<CoachMemory[]>([]);
+    const [showMemory, setShowMemory] = useState(false);
     const [loading, setLoading] = useState(true);
     const [newMessage, setNewMessage] = useState('');
     const [isSending, setIsSending] = useState(false);
+    const [attachment, setAttachment] = useState<File | null>(null);
+    // Ekli mesajlar akmaz; koçun cevabı tek parça gelir
+    const [isReadingAttachment, setIsReadingAttachment] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    // Koçun o an akmakta olan cevabı; akış yokken null
+    const [streamingReply, setStreamingReply] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const scrollContainerRef = useRef<HTMLElement>(null);
+    // Eski mesajlar yüklenirken kaydırma konumunu korumak için önceki yükseklik
+    const previousScrollHeightRef = useRef<number | null>(null);
+    const lastMessageIdRef = useRef<string | null>(null);
+    const isMigratingRef = useRef(false);
+    const isUpgradingRef = useRef(false);
 
     useEffect(() => {
         if (!coachId || !currentUser) {
@@ -46,7 +76,8 @@ const ChatPage = () => {
         const coachRef = doc(db, 'coaches', coachId);
         const unsubscribe = onSnapshot(coachRef, (docSnap) => {
             if (docSnap.exists()) {
-                const coachData = docSnap.data() as Coach;
+                const data = docSnap.data();
+                const coachData = toAICoach(docSnap.id, data);
 
                 if (coachData.userId !== currentUser.uid) {
                     toast.error("Bu sohbet sayfasına erişim yetkiniz yok.");
@@ -56,6 +87,23 @@ const ChatPage = () => {
                 
                 setCoach(coachData);
                 setLoading(false);
+
+                // Alt koleksiyona taşınmamış eski sohbetler
+                const chatHistory = data.chatHistory as LegacyChatMessage[] | undefined;
+                if (chatHistory?.length && !isMigratingRef.current) {
+                    isMigratingRef.current = true;
+                    coachChatService.migrateChatHistory(coachId, currentUser.uid, chatHistory)
+                        .catch(error => console.error('Sohbet geçmişi taşınamadı:', error));
+                }
+
+                // Eski sihirbazla oluşturulan koç, rutin ve hedeflerini bir kez üretir
+                if (isLegacyCoach(data) && !isUpgradingRef.current) {
+                    isUpgradingRef.current = true;
+                    setIsUpgrading(true);
+                    coachService.upgradeCoach(coachId, data)
+                        .catch(error => console.error('Koç profili güncellenemedi:', error))
+                        .finally(() => setIsUpgrading(false));
+                }
             } else {
                 toast.error("Koç bulunamadı. Lütfen yeni bir tane oluşturun.");
                 navigate('/dashboard/coaches');
@@ -67,60 +115,170 @@ const ChatPage = () => {
     }, [coachId, currentUser, navigate]);
 
     useEffect(() => {
-        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [coach?.chatHistory]);
+        if (!coachId || !currentUser) return;
+        setOlderMessages([]);
+        return coachChatService.subscribeToMessages(coachId, (page) => {
+            olderPageRef.current = page;
+            setHasMoreMessages(page.hasMore);
+        }, setRecentMessages, (error) => {
+            console.error('Mesajlar yüklenemedi:', error);
+        });
+    }, [coachId, currentUser]);
+
+    // Koç, öğrencinin son günlerdeki çalışmalarını hatırlasın
+    useEffect(() => {
+        if (!currentUser) return;
+        const userId = currentUser.uid;
+        coachMemoryService.syncMemories(userId)
+            .catch(error => console.error('Koç hafızası güncellenemedi:', error))
+            .then(() => coachMemoryService.getMemories(userId))
+            .then(setMemories)
+            .catch(error => console.error('Koç hafızası yüklenemedi:', error));
+    }, [currentUser]);
+
+    useLayoutEffect(() => {
+        const container = scrollContainerRef.current;
+        if (container && previousScrollHeightRef.current !== null) {
+            // Üste eklenen eski mesajlar görünen mesajı yerinden oynatmasın
+            container.scrollTop += container.scrollHeight - previousScrollHeightRef.current;
+            previousScrollHeightRef.current = null;
+        }
+        const lastMessageId = messages[messages.length - 1]?.id ?? null;
+        if (lastMessageId !== lastMessageIdRef.current) {
+            lastMessageIdRef.current = lastMessageId;
+            messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+        }
+    }, [messages]);
+
+    useEffect(() => {
+        if (streamingReply !== null) {
+            messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+        }
+    }, [streamingReply]);
+
+    // Sayfadan çıkılınca yarım kalan üretimi durdur
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
 
     const handleSendMessage = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!newMessage.trim() || !coachId || isSending || !coach) return;
+        if ((!newMessage.trim() && !attachment) || !coachId || isSending || !coach) return;
 
         setIsSending(true);
-        const userMessageContent = newMessage;
+        const file = attachment;
+        const userMessageContent = newMessage.trim() || 'Bu dosyayı benimle birlikte inceler misin?';
         setNewMessage('');
+        setAttachment(null);
 
-        const userMessage: Message = {
-            role: 'user',
-            content: userMessageContent,
-            timestamp: new Date(),
-        };
-
-        const coachRef = doc(db, 'coaches', coachId);
-        setCoach(prev => prev ? { ...prev, chatHistory: [...prev.chatHistory, userMessage] } : null);
+        // İstem, gönderilen mesajdan önceki pencereyle kurulur
+        const previousMessages = messages;
         try {
-            await updateDoc(coachRef, { chatHistory: arrayUnion(userMessage) });
+            const uploaded = file ? await coachChatService.uploadAttachment(coach.userId, file) : undefined;
+            await coachChatService.addMessage(coachId, coach.userId, { role: 'user', content: userMessageContent, attachment: uploaded });
+            trackActivity();
 
-            const systemPrompt = `Sen, ${coach.coachName} adında bir kişisel öğrenci koçusun. Kullanıcının hedefi ${coach.examType} sınavını ${coach.targetDate} tarihinde başarmak. Odaklanacağınız dersler: ${coach.subjects.join(', ')}. İletişim tonun şöyle olmalı: ${coach.communicationTone.join(', ')}. Kullanıcıyla şu şekillerde etkileşim kurman bekleniyor: ${coach.interactions.join(', ')}. Kişilik özelliklerin: ${coach.personality}. Kısa, net ve samimi cevaplar ver. Kullanıcının sorularına bu kimlikle cevap ver.`;
-            
-            // Chat history'yi string formatına çevir
-            const chatHistoryText = coach.chatHistory.map(msg => 
-                `${msg.role === 'user' ? 'Öğrenci' : 'Koç'}: ${msg.content}`
-            ).join('\n');
-            
-            const fullPrompt = `${systemPrompt}\n\nSohbet geçmişi:\n${chatHistoryText}\n\nÖğrenci: ${userMessageContent}\n\nKoç:`;
+            const systemPrompt = buildCoachSystemPrompt(coach);
+            const memoryContext = buildMemoryContext(memories);
+            const fullPrompt = buildChatPrompt(memoryContext ? `${systemPrompt}\n\n${memoryContext}` : systemPrompt, coach.summary, previousMessages, userMessageContent);
 
-            const responseText = await generateText(fullPrompt);
+            if (file) {
+                setIsReadingAttachment(true);
+                const solution = await answerChatAttachment(fullPrompt, await fileToBase64(file), file.type);
+                await coachChatService.addMessage(coachId, coach.userId, { role: 'model', content: solutionToText(solution), solution });
+                return;
+            }
+
+            const abortController = new AbortController();
+            abortControllerRef.current = abortController;
+            setStreamingReply('');
+            const responseText = await streamText(
+                fullPrompt,
+                delta => setStreamingReply(prev => (prev ?? '') + delta),
+                abortController.signal
+            );
             
             // Eğer offline fallback mesajı geldiyse kullanıcıya bilgi ver
             if (responseText.includes('API kullanım limitimiz dolmuş')) {
                 toast.success("API kullanım limiti aşıldı. Koç geçici olarak offline modda çalışıyor.");
             }
             
-            const aiMessage: Message = { role: 'model', content: responseText, timestamp: new Date() };
-            await updateDoc(coachRef, { chatHistory: arrayUnion(aiMessage) });
+            // Durdurulan cevabın o ana kadarki kısmı da sohbette kalır
+            if (responseText.trim()) {
+                await coachChatService.addMessage(coachId, coach.userId, { role: 'model', content: responseText });
+            }
         } catch (error: any) {
             console.error("AI cevabı alınırken hata oluştu:", error);
             
-            // Artık generateText fonksiyonu hata fırlatmıyor, bu kısım sadece diğer hatalar için
-            toast.error("Üzgünüm, bir hata oluştu. Lütfen daha sonra tekrar deneyin.");
-            
-            setCoach(prev => prev ? { ...prev, chatHistory: prev.chatHistory.slice(0, -1) } : null);
+            toast.error(error instanceof AiOutputError ? error.message : "Üzgünüm, bir hata oluştu. Lütfen daha sonra tekrar deneyin.");
         } finally {
+            abortControllerRef.current = null;
+            setStreamingReply(null);
+            setIsReadingAttachment(false);
             setIsSending(false);
         }
     };
 
+    // Listenin başına yaklaşınca bir sayfa eski mesajı bir kez çek
+    const handleScroll = async (e: React.UIEvent<HTMLElement>) => {
+        const container = e.currentTarget;
+        const cursor = olderPageRef.current?.cursor;
+        if (!coachId || !cursor || container.scrollTop > 80 || !hasMoreMessages || isLoadingOlder) return;
+        previousScrollHeightRef.current = container.scrollHeight;
+        setIsLoadingOlder(true);
+        try {
+            const older = await coachChatService.getOlderMessages(coachId, cursor);
+            olderPageRef.current = older.page;
+            setHasMoreMessages(older.page.hasMore);
+            setOlderMessages(prev => [...older.messages, ...prev]);
+        } catch (error) {
+            console.error('Eski mesajlar yüklenemedi:', error);
+            previousScrollHeightRef.current = null;
+        } finally {
+            setIsLoadingOlder(false);
+        }
+    };
+
+    const handleForgetMemory = async (memory: CoachMemory) => {
+        try {
+            await coachMemoryService.forgetMemory(memory.id);
+            setMemories(prev => prev.filter(item => item.id !== memory.id));
+        } catch (error) {
+            console.error('Hafıza silinemedi:', error);
+            toast.error('Bilgi silinemedi.');
+        }
+    };
+
+    const handleForgetAllMemories = async () => {
+        if (!window.confirm('Koçun hatırladığı her şey silinsin mi?')) return;
+        try {
+            await coachMemoryService.forgetAll(memories);
+            setMemories([]);
+        } catch (error) {
+            console.error('Hafıza silinemedi:', error);
+            toast.error('Bilgiler silinemedi.');
+        }
+    };
+
+    const handleStopGenerating = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleFileUpload = () => {
-        toast.success('Dosya yükleme özelliği yakında gelecek!', { icon: '🚀' });
+        fileInputRef.current?.click();
+    }
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (!ATTACHMENT_MIME_TYPES.includes(file.type)) {
+            toast.error('Yalnızca fotoğraf veya PDF gönderebilirsin.');
+            return;
+        }
+        if (file.size > MAX_ATTACHMENT_SIZE) {
+            toast.error('Dosya en fazla 5MB olabilir.');
+            return;
+        }
+        setAttachment(file);
     }
 
     if (loading) {
@@ -142,15 +300,42 @@ const ChatPage = () => {
                        <Bot className="text-white"/>
                    </div>
                    <div>
-                       <h1 className="text-xl font-bold">{coach.coachName}</h1>
-                       <p className="text-sm text-gray-500 dark:text-gray-400">Hedef: {coach.examType} - {new Date(coach.targetDate).toLocaleDateString('tr-TR')}</p>
+                       <h1 className="text-xl font-bold">{coach.name}</h1>
+                       <p className="text-sm text-gray-500 dark:text-gray-400">Hedef: {coach.examType}{coach.examTargetDate && ` - ${new Date(coach.examTargetDate).toLocaleDateString('tr-TR')}`}</p>
                    </div>
                 </div>
+                <button onClick={() => { setShowProfile(prev => !prev); setShowMemory(false); }} title="Çalışma planın" className="ml-auto p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-indigo-600 dark:text-indigo-400">
+                    <ClipboardList size={20} />
+                </button>
+                <button onClick={() => { setShowMemory(prev => !prev); setShowProfile(false); }} title="Koçun hafızası" className="flex items-center gap-2 p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-indigo-600 dark:text-indigo-400">
+                    <Brain size={20} />
+                    {memories.length > 0 && <span className="text-sm font-semibold">{memories.length}</span>}
+                </button>
             </header>
 
-            <main className="flex-1 overflow-y-auto p-6 space-y-8">
-                {coach.chatHistory.map((msg, index) => (
-                    <div key={index} className={`flex items-end gap-3 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            {showMemory && (
+                <div className="fixed inset-y-0 right-0 z-30 shadow-2xl">
+                    <CoachMemoryPanel
+                        memories={memories}
+                        onForget={handleForgetMemory}
+                        onForgetAll={handleForgetAllMemories}
+                        onClose={() => setShowMemory(false)}
+                    />
+                </div>
+            )}
+
+            {showProfile && (
+                <div className="fixed inset-y-0 right-0 z-30 shadow-2xl">
+                    <CoachProfilePanel coach={coach} isUpgrading={isUpgrading} onClose={() => setShowProfile(false)} />
+                </div>
+            )}
+
+            <main ref={scrollContainerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-6 space-y-8">
+                {isLoadingOlder && (
+                    <div className="flex justify-center"><Loader size={20} className="animate-spin text-indigo-500" /></div>
+                )}
+                {messages.map((msg) => (
+                    <div key={msg.id} className={`flex items-end gap-3 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                         {msg.role === 'model' && (
                              <div className="w-8 h-8 rounded-full bg-gray-600 flex items-center justify-center flex-shrink-0">
                                 <Bot size={20} className="text-white"/>
@@ -161,7 +346,17 @@ const ChatPage = () => {
                             ? 'bg-indigo-600 text-white rounded-br-none' 
                             : 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-bl-none'
                         }`}>
-                           <p style={{whiteSpace: 'pre-wrap'}}>{msg.content}</p>
+                           {msg.attachment && <AttachmentPreview attachment={msg.attachment} />}
+                           {msg.solution ? (
+                               <div className="min-w-0 sm:min-w-[24rem]">
+                                   <SolutionView solution={msg.solution} />
+                                   <p className="mt-4 font-semibold">Sonuç: <MarkdownContent content={msg.solution.finalAnswer} inline /></p>
+                               </div>
+                           ) : (
+                               msg.role === 'user'
+                                   ? <p style={{whiteSpace: 'pre-wrap'}}>{msg.content}</p>
+                                   : <MarkdownContent content={msg.content} className="prose-sm" />
+                           )}
                         </div>
                          {msg.role === 'user' && (
                              <div className="w-8 h-8 rounded-full bg-gray-300 dark:bg-gray-600 flex items-center justify-center flex-shrink-0 font-bold">
@@ -170,12 +365,44 @@ const ChatPage = () => {
                         )}
                     </div>
                 ))}
+                {streamingReply !== null && (
+                    <div className="flex items-end gap-3 justify-start">
+                        <div className="w-8 h-8 rounded-full bg-gray-600 flex items-center justify-center flex-shrink-0">
+                            <Bot size={20} className="text-white"/>
+                        </div>
+                        <div className="max-w-xl p-4 rounded-2xl bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-bl-none">
+                            {streamingReply
+                                ? <p style={{whiteSpace: 'pre-wrap'}}>{streamingReply}<span className="inline-block w-2 h-4 ml-1 bg-indigo-500 animate-pulse align-middle" /></p>
+                                : <Loader size={20} className="animate-spin text-indigo-500" />}
+                        </div>
+                    </div>
+                )}
+                {isReadingAttachment && (
+                    <div className="flex items-end gap-3 justify-start">
+                        <div className="w-8 h-8 rounded-full bg-gray-600 flex items-center justify-center flex-shrink-0">
+                            <Bot size={20} className="text-white"/>
+                        </div>
+                        <div className="max-w-xl p-4 rounded-2xl bg-white dark:bg-gray-700 text-gray-500 dark:text-gray-300 rounded-bl-none flex items-center gap-2">
+                            <Loader size={20} className="animate-spin text-indigo-500" /> Koçun dosyanı inceliyor...
+                        </div>
+                    </div>
+                )}
                  <div ref={messagesEndRef} />
             </main>
 
             <footer className="bg-white dark:bg-gray-800 p-4 border-t border-gray-200 dark:border-gray-700 sticky bottom-0">
+                {attachment && (
+                    <div className="max-w-4xl mx-auto mb-3 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                        <FileText size={16} className="text-indigo-500 flex-shrink-0" />
+                        <span className="truncate">{attachment.name}</span>
+                        <button type="button" onClick={() => setAttachment(null)} title="Eki kaldır" className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700">
+                            <X size={14} />
+                        </button>
+                    </div>
+                )}
                 <form onSubmit={handleSendMessage} className="flex items-center gap-4 max-w-4xl mx-auto">
-                     <button type="button" onClick={handleFileUpload} className="p-2 text-gray-500 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors rounded-full">
+                     <input ref={fileInputRef} type="file" accept={ATTACHMENT_MIME_TYPES.join(',')} onChange={handleFileChange} className="hidden" />
+                     <button type="button" onClick={handleFileUpload} disabled={isSending} title="Fotoğraf veya PDF ekle" className="p-2 text-gray-500 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors rounded-full">
                         <Paperclip size={24} />
                     </button>
                     <textarea
@@ -192,9 +419,15 @@ const ChatPage = () => {
                         rows={1}
                         disabled={isSending}
                     />
-                    <button type="submit" disabled={isSending || !newMessage.trim()} className="p-3 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition-colors">
-                        {isSending ? <Loader size={20} className="animate-spin" /> : <Send size={20} />}
-                    </button>
+                    {streamingReply !== null ? (
+                        <button type="button" onClick={handleStopGenerating} title="Durdur" className="p-3 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors">
+                            <Square size={20} />
+                        </button>
+                    ) : (
+                        <button type="submit" disabled={isSending || (!newMessage.trim() && !attachment)} className="p-3 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition-colors">
+                            {isSending ? <Loader size={20} className="animate-spin" /> : <Send size={20} />}
+                        </button>
+                    )}
                 </form>
             </footer>
         </div>
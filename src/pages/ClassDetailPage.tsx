@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Copy, Trash2, Plus, BookOpen, ClipboardList, UserMinus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { assignmentService, classService, getStudentStats } from '../lib/classes';
+import { lessonService, mistakeService, Lesson, LessonMistake } from '../lib/supabase';
+import { quizService } from '../lib/quiz';
+import { addDays, parseDateInput, toDateInput } from '../lib/utils';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import { Assignment, AssignmentSubmission, Classroom, ClassStudent, Quiz } from '../types';
+
+const selectClass = 'w-full p-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const ClassDetailPage: React.FC = () => {
+  const { classId } = useParams<{ classId: string }>();
+  const { currentUser } = useAuth();
+  const navigate = useNavigate();
+
+  const [classroom, setClassroom] = useState<Classroom | null>(null);
+  const [students, setStudents] = useState<ClassStudent[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [submissions, setSubmissions] = useState<AssignmentSubmission[]>([]);
+  const [mistakes, setMistakes] = useState<LessonMistake[]>([]);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [assignmentType, setAssignmentType] = useState<Assignment['type']>('lesson');
+  const [targetId, setTargetId] = useState('');
+  const [dueDate, setDueDate] = useState(toDateInput(addDays(new Date(), 7)));
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  useEffect(() => {
+    if (!classId || !currentUser) return;
+    const fetchClass = async () => {
+      try {
+        const data = await classService.getClass(classId);
+        if (!data || data.teacherId !== currentUser.uid) {
+          toast.error('Sınıf bulunamadı.');
+          navigate('/dashboard/teacher');
+          return;
+        }
+        setClassroom(data);
+
+        const [roster, classAssignments, classSubmissions, allLessons, teacherQuizzes] = await Promise.all([
+          classService.getStudents(classId),
+          assignmentService.getAssignments(classId),
+          assignmentService.getSubmissions(classId),
+          lessonService.getPublishedLessons(),
+          quizService.getUserQuizzes(currentUser.uid, 50),
+        ]);
+        setStudents(roster);
+        setAssignments(classAssignments);
+        setSubmissions(classSubmissions);
+        setLessons(allLessons);
+        setQuizzes(teacherQuizzes);
+
+        // Hata istatistikleri yüklenemese de sınıf sayfası açılsın
+        mistakeService.getMistakesForUsers(roster.map(student => student.id))
+          .then(setMistakes)
+          .catch(error => console.error('Error fetching class mistakes:', error));
+      } catch (error) {
+        console.error('Error fetching class:', error);
+        toast.error('Sınıf yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchClass();
+  }, [classId, currentUser, navigate]);
+
+  const studentStats = useMemo(
+    () => getStudentStats(students, assignments, submissions, mistakes),
+    [students, assignments, submissions, mistakes]
+  );
+
+  const copyJoinCode = async () => {
+    if (!classroom) return;
+    try {
+      await navigator.clipboard.writeText(classroom.joinCode);
+      toast.success('Katılma kodu kopyalandı!');
+    } catch {
+      toast.error('Kopyalanamadı.');
+    }
+  };
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!classroom || !currentUser || !targetId) return;
+
+    const lesson = assignmentType === 'lesson' ? lessons.find(item => item.id === targetId) : undefined;
+    const quiz = assignmentType === 'quiz' ? quizzes.find(item => item.id === targetId) : undefined;
+    const due = parseDateInput(dueDate);
+    due.setHours(23, 59, 59);
+
+    setIsAssigning(true);
+    try {
+      const created = await assignmentService.createAssignment({
+        classId: classroom.id,
+        teacherId: currentUser.uid,
+        type: assignmentType,
+        targetId,
+        title: lesson?.title || quiz?.topic || 'Ödev',
+        subject: lesson?.subject || quiz?.subject,
+        dueDate: due,
+      });
+      setAssignments(prev => [...prev, created].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime()));
+      setTargetId('');
+      toast.success('Ödev verildi!');
+    } catch (error) {
+      console.error('Error creating assignment:', error);
+      toast.error('Ödev oluşturulamadı.');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleDeleteAssignment = async (assignment: Assignment) => {
+    if (!window.confirm(`"${assignment.title}" ödevi silinsin mi?`)) return;
+    try {
+      await assignmentService.deleteAssignment(assignment.classId, assignment.id);
+      setAssignments(prev => prev.filter(item => item.id !== assignment.id));
+    } catch (error) {
+      console.error('Error deleting assignment:', error);
+      toast.error('Ödev silinemedi.');
+    }
+  };
+
+  const handleRemoveStudent = async (student: ClassStudent) => {
+    if (!classroom || !window.confirm(`${student.name} sınıftan çıkarılsın mı?`)) return;
+    try {
+      await classService.removeStudent(classroom.id, student.id);
+      setStudents(prev => prev.filter(item => item.id !== student.id));
+    } catch (error) {
+      console.error('Error removing student:', error);
+      toast.error('Öğrenci çıkarılamadı.');
+    }
+  };
+
+  const handleDeleteClass = async () => {
+    if (!classroom || !window.confirm('Bu sınıf, ödevleri ve öğrenci kayıtlarıyla birlikte silinsin mi?')) return;
+    try {
+      await classService.deleteClass(classroom);
+      toast.success('Sınıf silindi.');
+      navigate('/dashboard/teacher');
+    } catch (error) {
+      console.error('Error deleting class:', error);
+      toast.error('Sınıf silinemedi.');
+    }
+  };
+
+  if (loading) {
+    return <div className="flex justify-center items-center py-20"><LoadingSpinner size="lg" /></div>;
+  }
+
+  if (!classroom) return null;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <button onClick={() => navigate('/dashboard/teacher')} className="flex items-center text-indigo-600 dark:text-indigo-400 mb-4 font-medium">
+        <ArrowLeft className="w-4 h-4 mr-2" /> Sınıflarım
+      </button>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{classroom.name}</h1>
+          {classroom.description && <p className="text-sm text-gray-600 dark:text-gray-400">{classroom.description}</p>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={copyJoinCode} className="flex items-center bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 px-4 py-2 rounded-lg text-sm font-semibold">
+            Katılma Kodu: <span className="font-mono ml-2">{classroom.joinCode}</span> <Copy className="w-4 h-4 ml-2" />
+          </button>
+          <button onClick={handleDeleteClass} className="flex items-center text-red-500 px-3 py-2 rounded-lg text-sm font-semibold hover:bg-red-50 dark:hover:bg-red-900/30">
+            <Trash2 className="w-4 h-4 mr-1" /> Sil
+          </button>
+        </div>
+      </div>
+
+      {/* Ödevler */}
+      <section className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 mb-8">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Ödevler</h2>
+        <form onSubmit={handleAssign} className="grid grid-cols-1 md:grid-cols-[auto_1fr_auto_auto] gap-3 mb-6">
+          <select
+            value={assignmentType}
+            onChange={(e) => { setAssignmentType(e.target.value as Assignment['type']); setTargetId(''); }}
+            className={selectClass}
+          >
+            <option value="lesson">Ders</option>
+            <option value="quiz">Test</option>
+          </select>
+          <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={selectClass}>
+            <option value="">{assignmentType === 'lesson' ? 'Ders seç' : 'Oluşturduğun testlerden seç'}</option>
+            {assignmentType === 'lesson'
+              ? lessons.map(lesson => <option key={lesson.id} value={lesson.id}>{lesson.title} ({lesson.subject})</option>)
+              : quizzes.map(quiz => <option key={quiz.id} value={quiz.id}>{quiz.topic} ({quiz.subject})</option>)}
+          </select>
+          <input type="date" value={dueDate} min={toDateInput(new Date())} onChange={(e) => setDueDate(e.target.value)} className={selectClass} />
+          <button
+            type="submit"
+            disabled={isAssigning || !targetId || !dueDate}
+            className="flex items-center justify-center bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 font-semibold"
+          >
+            <Plus className="w-4 h-4 mr-2" /> Ödev Ver
+          </button>
+        </form>
+
+        {assignments.length === 0 ? (
+          <p className="text-center py-6 text-gray-500 dark:text-gray-400">Henüz ödev vermedin.</p>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {assignments.map(assignment => {
+              const completedCount = submissions.filter(submission => submission.assignmentId === assignment.id).length;
+              const isOverdue = assignment.dueDate < new Date();
+              return (
+                <div key={assignment.id} className="flex items-center justify-between py-3 gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    {assignment.type === 'lesson'
+                      ? <BookOpen className="w-5 h-5 text-indigo-500 flex-shrink-0" />
+                      : <ClipboardList className="w-5 h-5 text-green-500 flex-shrink-0" />}
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-white truncate">{assignment.title}</p>
+                      <p className={`text-xs ${isOverdue ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+                        Son gün: {assignment.dueDate.toLocaleDateString('tr-TR')}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className="text-sm text-gray-600 dark:text-gray-300">{completedCount}/{students.length} tamamladı</span>
+                    <button onClick={() => handleDeleteAssignment(assignment)} className="p-2 text-gray-400 hover:text-red-500 rounded-lg" title="Ödevi sil">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      {/* Öğrenciler */}
+      <section className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Öğrenciler ({students.length})</h2>
+        {students.length === 0 ? (
+          <p className="text-center py-6 text-gray-500 dark:text-gray-400">
+            Öğrencilerin <span className="font-mono">{classroom.joinCode}</span> koduyla "Sınıflarım" sayfasından katılabilir.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4">Öğrenci</th>
+                  <th className="py-2 pr-4">Tamamlanan</th>
+                  <th className="py-2 pr-4">Geciken</th>
+                  <th className="py-2 pr-4">Test Ort.</th>
+                  <th className="py-2 pr-4">Hata</th>
+                  <th className="py-2 pr-4">En Çok Hata</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {studentStats.map(stats => (
+                  <tr key={stats.studentId} className="text-gray-900 dark:text-white">
+                    <td className="py-3 pr-4 font-medium">{stats.name}</td>
+                    <td className="py-3 pr-4">{stats.completed}/{assignments.length}</td>
+                    <td className={`py-3 pr-4 ${stats.overdue > 0 ? 'text-red-500 font-semibold' : ''}`}>{stats.overdue}</td>
+                    <td className="py-3 pr-4">{stats.averageScore ?? '-'}</td>
+                    <td className="py-3 pr-4">{stats.mistakeCount}</td>
+                    <td className="py-3 pr-4">{stats.topMistakeSubject ?? '-'}</td>
+                    <td className="py-3 text-right">
+                      <button
+                        onClick={() => {
+                          const student = students.find(item => item.id === stats.studentId);
+                          if (student) handleRemoveStudent(student);
+                        }}
+                        className="p-2 text-gray-400 hover:text-red-500 rounded-lg"
+                        title="Sınıftan çıkar"
+                      >
+                        <UserMinus className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ClassDetailPage;
@@ -5,8 +5,11 @@ import {
     Bot, Save, ArrowLeft, ArrowRight, User, Target, Book, Calendar, Sparkles, BarChart, Mic, Brain, Heart, CheckSquare, Clock, Users, Zap, Wind, Coffee, Award, Smile, Loader, BookCopy, TestTube, Languages, School
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { collection, doc, addDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { trackActivity } from '../lib/achievements';
+import { coachChatService } from '../lib/coachChat';
+import { coachService } from '../lib/coaches';
+import { AiOutputError } from '../lib/gemini';
+import { CoachCreationForm } from '../types';
 
 // Data for the new UI
 const examTypes = [
@@ -18,13 +21,22 @@ const examTypes = [
 
 const lessonOptions = ['Matematik', 'Türkçe', 'Fen Bilimleri', 'Sosyal Bilimler'];
 
-const communicationTones = [
+const communicationTones: { id: CoachCreationForm['tone']; title: string; description: string }[] = [
     { id: 'encouraging', title: 'Cesaretlendirici', description: 'Pozitif pekiştirme odaklı' },
-    { id: 'inspirational', title: 'İlham Verici', description: 'Motive edici konuşmalar yapar' },
-    { id: 'clear', title: 'Net ve Açık', description: 'Doğrudan, gereksiz detaysız' },
+    { id: 'motivational', title: 'İlham Verici', description: 'Motive edici konuşmalar yapar' },
+    { id: 'no-nonsense', title: 'Net ve Açık', description: 'Doğrudan, gereksiz detaysız' },
     { id: 'detailed', title: 'Detaylı', description: 'Kapsamlı açıklamalar sunar' },
 ];
 
+const coachStyles: { id: CoachCreationForm['style']; title: string }[] = [
+    { id: 'friendly', title: 'Arkadaş Canlısı' },
+    { id: 'strict', title: 'Disiplinli' },
+    { id: 'humorous', title: 'Esprili' },
+    { id: 'calm', title: 'Sakin' },
+    { id: 'energetic', title: 'Enerjik' },
+    { id: 'professional', title: 'Profesyonel' },
+];
+
 const interactionOptions = [
     { id: 'morning_check', title: 'Sabah Kontrolü', description: 'Güne başlarken motivasyon' },
     { id: 'task_lists', title: 'Görev Listeleri', description: 'Günlük yapılacaklar' },
@@ -34,7 +46,21 @@ const interactionOptions = [
     { id: 'study_tips', title: 'Çalışma İpuçları', description: 'Teknik öneriler' },
 ];
 
-const dailyHoursOptions = ['1 Saat', '2 Saat', '3 Saat', '4 Saat', '5+ Saat'];
+const dailyHoursOptions = [
+    { hours: 1, title: '1 Saat' },
+    { hours: 2, title: '2 Saat' },
+    { hours: 3, title: '3 Saat' },
+    { hours: 4, title: '4 Saat' },
+    { hours: 5, title: '5+ Saat' },
+];
+
+// Koçun proaktif mesajları bu saatte gönderilir (sendCoachCheckIns)
+const studyTimeOptions: { id: CoachCreationForm['preferredStudyTime']; title: string; description: string }[] = [
+    { id: 'morning', title: 'Sabah', description: '08:00' },
+    { id: 'afternoon', title: 'Öğleden Sonra', description: '13:00' },
+    { id: 'evening', title: 'Akşam', description: '18:00' },
+    { id: 'night', title: 'Gece', description: '21:00' },
+];
 
 const CoachGenerator: React.FC = () => {
     const { currentUser } = useAuth();
@@ -47,12 +73,15 @@ const CoachGenerator: React.FC = () => {
 
     // Form states for the new UI
     const [coachName, setCoachName] = useState('Personal Coach');
-    const [examType, setExamType] = useState('');
+    const [examType, setExamType] = useState<CoachCreationForm['examType'] | ''>('');
     const [targetDate, setTargetDate] = useState('');
     const [subjects, setSubjects] = useState<string[]>([]);
-    const [communicationTone, setCommunicationTone] = useState<string[]>([]);
+    const [weakSubjects, setWeakSubjects] = useState<string[]>([]);
+    const [tone, setTone] = useState<CoachCreationForm['tone']>('encouraging');
+    const [style, setStyle] = useState<CoachCreationForm['style']>('friendly');
     const [interactions, setInteractions] = useState<string[]>([]);
-    const [dailyHours, setDailyHours] = useState('');
+    const [dailyHours, setDailyHours] = useState(2);
+    const [preferredStudyTime, setPreferredStudyTime] = useState<CoachCreationForm['preferredStudyTime']>('evening');
     const [personality, setPersonality] = useState('');
 
     useEffect(() => {
@@ -83,30 +112,31 @@ const CoachGenerator: React.FC = () => {
         toast.loading('AI Koçunuz oluşturuluyor...');
 
         try {
-            const initialMessage = `Merhaba! Ben ${coachName}. ${examType} sınavına hazırlık sürecinde sana rehberlik edeceğim. Belirttiğin derslere odaklanarak ve seçtiğin iletişim tonunu kullanarak, ${targetDate} tarihindeki sınavına en iyi şekilde hazırlanmanı sağlayacağım. Hadi başlayalım!`;
-            
-            const coachesCollection = collection(db, 'coaches');
-            const newCoachRef = await addDoc(coachesCollection, {
-                userId: currentUser.uid,
-                coachName,
+            const coach = await coachService.createCoach(currentUser.uid, {
+                name: coachName,
                 examType,
-                targetDate,
-                subjects,
-                communicationTone,
-                interactions,
-                dailyHours,
-                personality,
-                createdAt: serverTimestamp(),
-                chatHistory: [{ role: 'model', content: initialMessage, timestamp: new Date() }]
+                examTargetDate: targetDate,
+                subjectFocus: subjects,
+                weakSubjects,
+                tone,
+                style,
+                dailyInteraction: interactions,
+                studyHoursPerDay: dailyHours,
+                preferredStudyTime,
+                personalityNotes: personality,
             });
+            const greeting = coach.motivationalMessages[0] ? ` ${coach.motivationalMessages[0]}` : '';
+            const initialMessage = `Merhaba! Ben ${coach.name}. ${coach.description}${greeting} Hadi başlayalım!`;
+            await coachChatService.addMessage(coach.id, currentUser.uid, { role: 'model', content: initialMessage });
 
             toast.dismiss();
             toast.success("Koçunuz başarıyla oluşturuldu!");
-            navigate(`/dashboard/chat/${newCoachRef.id}`);
+            trackActivity();
+            navigate(`/dashboard/chat/${coach.id}`);
 
         } catch (error) {
             toast.dismiss();
-            toast.error("Koç kaydedilirken bir hata oluştu.");
+            toast.error(error instanceof AiOutputError ? error.message : "Koç kaydedilirken bir hata oluştu.");
             console.error("Error saving coach:", error);
         } finally {
             setIsSaving(false);
@@ -136,7 +166,7 @@ const CoachGenerator: React.FC = () => {
                         <p className="text-gray-400 mb-6">Sınav türünü ve diğer temel bilgileri seçerek başla.</p>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             {examTypes.map((type) => (
-                                <div key={type.id} onClick={() => setExamType(type.id)}
+                                <div key={type.id} onClick={() => setExamType(type.id as CoachCreationForm['examType'])}
                                     className={`p-6 rounded-lg cursor-pointer border-2 transition-all flex items-center gap-4 ${examType === type.id ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 bg-gray-800/60 hover:border-indigo-600'}`}>
                                     <div className="text-indigo-400">{type.icon}</div>
                                     <div>
@@ -186,11 +216,22 @@ const CoachGenerator: React.FC = () => {
                                     ))}
                                 </div>
                             </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-3">Zorlandığın Dersler</label>
+                                <div className="flex flex-wrap gap-4">
+                                    {lessonOptions.map(subject => (
+                                        <label key={subject} className={`flex items-center space-x-2 p-3 rounded-lg cursor-pointer border-2 ${weakSubjects.includes(subject) ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 bg-gray-800/60'}`}>
+                                            <input type="checkbox" checked={weakSubjects.includes(subject)} onChange={() => handleToggle(setWeakSubjects, subject)} className="h-4 w-4 rounded border-gray-500 text-indigo-600 focus:ring-indigo-500 bg-gray-700" />
+                                            <span className="text-gray-200">{subject}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
                             <div>
                                 <label className="block text-sm font-medium text-gray-300 mb-3">İletişim Tonu</label>
                                 <div className="grid grid-cols-2 gap-4">
                                      {communicationTones.map(item => (
-                                         <div key={item.id} onClick={() => handleToggle(setCommunicationTone, item.id)} className={`p-4 rounded-lg cursor-pointer border-2 ${communicationTone.includes(item.id) ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 bg-gray-800/60'}`}>
+                                         <div key={item.id} onClick={() => setTone(item.id)} className={`p-4 rounded-lg cursor-pointer border-2 ${tone === item.id ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 bg-gray-800/60'}`}>
                                              <h4 className="font-semibold text-gray-200">{item.title}</h4>
                                              <p className="text-xs text-gray-400">{item.description}</p>
                                          </div>
@@ -205,6 +246,49 @@ const CoachGenerator: React.FC = () => {
                     <div>
                         <h3 className="text-xl font-bold text-gray-100 mb-6">Kişilik & Onay</h3>
                         <div className="space-y-6">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-3">Koçun Sana Ne Göndersin?</label>
+                                <div className="grid grid-cols-2 gap-4">
+                                    {interactionOptions.map(item => (
+                                        <div key={item.id} onClick={() => handleToggle(setInteractions, item.id)} className={`p-4 rounded-lg cursor-pointer border-2 ${interactions.includes(item.id) ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 bg-gray-800/60'}`}>
+                                            <h4 className="font-semibold text-gray-200">{item.title}</h4>
+                                            <p className="text-xs text-gray-400">{item.description}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-3">Tercih Ettiğin Çalışma Zamanı</label>
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                    {studyTimeOptions.map(item => (
+                                        <div key={item.id} onClick={() => setPreferredStudyTime(item.id)} className={`p-4 rounded-lg cursor-pointer border-2 text-center ${preferredStudyTime === item.id ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 bg-gray-800/60'}`}>
+                                            <h4 className="font-semibold text-gray-200">{item.title}</h4>
+                                            <p className="text-xs text-gray-400">{item.description}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-gray-400 mt-2">Koçun seçtiğin mesajları bu saatte gönderir.</p>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-3">Günlük Çalışma Süren</label>
+                                <div className="flex flex-wrap gap-3">
+                                    {dailyHoursOptions.map(option => (
+                                        <button key={option.hours} type="button" onClick={() => setDailyHours(option.hours)} className={`px-4 py-2 rounded-lg border-2 text-gray-200 ${dailyHours === option.hours ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 bg-gray-800/60'}`}>
+                                            {option.title}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-3">Koç Tarzı</label>
+                                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                                    {coachStyles.map(item => (
+                                        <div key={item.id} onClick={() => setStyle(item.id)} className={`p-4 rounded-lg cursor-pointer border-2 text-center ${style === item.id ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 bg-gray-800/60'}`}>
+                                            <h4 className="font-semibold text-gray-200">{item.title}</h4>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
                             <div>
                                 <label htmlFor="personality" className="block text-sm font-medium text-gray-300 mb-2">
                                     Koçunuzun Kişilik Özellikleri
@@ -221,8 +305,9 @@ const CoachGenerator: React.FC = () => {
                              <div className="p-6 rounded-lg bg-gradient-to-br from-green-500/20 to-cyan-500/20">
                                 <h4 className="font-bold text-white mb-2">Önizleme</h4>
                                 <p className="text-gray-300 text-sm">
-                                    Merhaba! Ben AI Koçun. {examType} sınavına hazırlık sürecinde, seçtiğin derslere odaklanarak ve belirlediğin kişilik özelliklerine göre sana özel bir çalışma programı sunacağım. Birlikte başaracağız!
+                                    Merhaba! Ben {coachName || 'AI Koçun'}. {examType} sınavına hazırlık sürecinde, seçtiğin derslere odaklanarak ve belirlediğin kişilik özelliklerine göre sana özel bir çalışma programı sunacağım. Birlikte başaracağız!
                                 </p>
+                                <p className="text-gray-400 text-xs mt-3">Kaydettiğinde AI; günlük rutinini, haftalık hedeflerini ve çalışma ipuçlarını bu tercihlere göre hazırlar.</p>
                             </div>
                         </div>
                     </div>
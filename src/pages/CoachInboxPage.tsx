@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Inbox, Sun, ListChecks, Sparkles, HelpCircle, Trophy, BellOff, Clock, CheckCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { COACH_MESSAGE_LABELS, coachInboxService } from '../lib/coachInbox';
+import { addDays } from '../lib/utils';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import MarkdownContent from '../components/Common/MarkdownContent';
+import { CoachCheckInSettings, CoachMessage } from '../types';
+
+const typeIcons: Record<CoachMessage['type'], React.ElementType> = {
+  'morning-checkin': Sun,
+  'task-reminder': ListChecks,
+  'motivation': Sparkles,
+  'reflection': HelpCircle,
+  'achievement': Trophy,
+};
+
+const snoozeOptions = [
+  { days: 1, label: '1 gün' },
+  { days: 3, label: '3 gün' },
+  { days: 7, label: '1 hafta' },
+];
+
+const messageTypes = Object.keys(COACH_MESSAGE_LABELS) as CoachMessage['type'][];
+
+const CoachInboxPage: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [messages, setMessages] = useState<CoachMessage[]>([]);
+  const [settings, setSettings] = useState<CoachCheckInSettings>({ mutedTypes: [], snoozedUntil: {} });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    coachInboxService.getSettings(currentUser.uid)
+      .then(setSettings)
+      .catch(error => console.error('Error loading check-in settings:', error));
+    return coachInboxService.subscribeToMessages(currentUser.uid, (latest) => {
+      setMessages(latest);
+      setLoading(false);
+    });
+  }, [currentUser]);
+
+  const unreadIds = messages.filter(message => !message.isRead).map(message => message.id);
+
+  const handleOpen = (message: CoachMessage) => {
+    if (message.isRead) return;
+    coachInboxService.markAsRead(message.id)
+      .catch(error => console.error('Error marking message as read:', error));
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await coachInboxService.markAllAsRead(unreadIds);
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+      toast.error('Mesajlar güncellenemedi.');
+    }
+  };
+
+  const updateSettings = async (next: CoachCheckInSettings) => {
+    if (!currentUser) return;
+    const previous = settings;
+    setSettings(next);
+    try {
+      await coachInboxService.saveSettings(currentUser.uid, next);
+    } catch (error) {
+      console.error('Error saving check-in settings:', error);
+      toast.error('Ayarlar kaydedilemedi.');
+      setSettings(previous);
+    }
+  };
+
+  const toggleMute = (type: CoachMessage['type']) => {
+    const mutedTypes = settings.mutedTypes.includes(type)
+      ? settings.mutedTypes.filter(item => item !== type)
+      : [...settings.mutedTypes, type];
+    updateSettings({ ...settings, mutedTypes });
+  };
+
+  const snooze = (type: CoachMessage['type'], days: number) => {
+    const snoozedUntil = { ...settings.snoozedUntil };
+    if (days > 0) {
+      snoozedUntil[type] = addDays(new Date(), days);
+    } else {
+      delete snoozedUntil[type];
+    }
+    updateSettings({ ...settings, snoozedUntil });
+  };
+
+  const getSnoozedUntil = (type: CoachMessage['type']) => {
+    const until = settings.snoozedUntil[type];
+    return until && until > new Date() ? until : null;
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="text-center mb-8">
+        <div className="inline-block p-3 bg-indigo-100 dark:bg-indigo-900/30 rounded-2xl mb-4">
+          <Inbox className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Koç Mesajları</h1>
+        <p className="text-lg text-gray-600 dark:text-gray-400">
+          Koçların seçtiğin çalışma saatinde sana buradan yazar
+        </p>
+      </div>
+
+      <section className="bg-white dark:bg-gray-800 rounded-2xl shadow p-6 mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Gelen Kutusu</h2>
+          {unreadIds.length > 0 && (
+            <button onClick={handleMarkAllRead} className="flex items-center text-sm text-indigo-600 dark:text-indigo-400 font-medium">
+              <CheckCheck className="w-4 h-4 mr-1" /> Tümünü okundu işaretle
+            </button>
+          )}
+        </div>
+        {loading ? (
+          <div className="text-center py-10"><LoadingSpinner size="lg" /></div>
+        ) : messages.length === 0 ? (
+          <p className="text-center py-10 text-gray-500 dark:text-gray-400">Henüz koçundan mesaj yok.</p>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {messages.map(message => {
+              const Icon = typeIcons[message.type];
+              return (
+                <Link
+                  key={message.id}
+                  to={`/dashboard/chat/${message.coachId}`}
+                  onClick={() => handleOpen(message)}
+                  className={`flex items-start gap-3 py-4 px-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 ${message.isRead ? '' : 'bg-indigo-50/60 dark:bg-indigo-900/20'}`}
+                >
+                  <Icon className="w-5 h-5 mt-0.5 text-indigo-500 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`text-sm ${message.isRead ? 'text-gray-500 dark:text-gray-400' : 'font-semibold text-gray-900 dark:text-white'}`}>
+                        {COACH_MESSAGE_LABELS[message.type]}
+                      </span>
+                      <span className="text-xs text-gray-400">{message.timestamp.toLocaleString('tr-TR', { dateStyle: 'short', timeStyle: 'short' })}</span>
+                    </div>
+                    <MarkdownContent content={message.content} className="prose-sm mt-1 text-gray-700 dark:text-gray-300" />
+                  </div>
+                  {!message.isRead && <span className="w-2 h-2 mt-2 rounded-full bg-indigo-500 flex-shrink-0" />}
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      <section className="bg-white dark:bg-gray-800 rounded-2xl shadow p-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-1">Mesaj Ayarları</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Koçunun hangi mesajları göndereceğini seçtiğin etkileşimler belirler. İstemediklerini susturabilir veya erteleyebilirsin.
+        </p>
+        <div className="divide-y divide-gray-100 dark:divide-gray-700">
+          {messageTypes.map(type => {
+            const Icon = typeIcons[type];
+            const muted = settings.mutedTypes.includes(type);
+            const snoozedUntil = getSnoozedUntil(type);
+            return (
+              <div key={type} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                <div className="flex items-center gap-3">
+                  <Icon className="w-5 h-5 text-indigo-500" />
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">{COACH_MESSAGE_LABELS[type]}</p>
+                    {snoozedUntil && !muted && (
+                      <p className="text-xs text-yellow-600 dark:text-yellow-400">
+                        {snoozedUntil.toLocaleDateString('tr-TR')} tarihine kadar ertelendi
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+                    <Clock className="w-4 h-4 mr-1" />
+                    <select
+                      value=""
+                      onChange={(e) => snooze(type, Number(e.target.value))}
+                      disabled={muted}
+                      className="bg-transparent border rounded-lg px-2 py-1 dark:border-gray-600 disabled:opacity-50"
+                    >
+                      <option value="" disabled>Ertele</option>
+                      {snoozeOptions.map(option => <option key={option.days} value={option.days}>{option.label}</option>)}
+                      {snoozedUntil && <option value={0}>Ertelemeyi kaldır</option>}
+                    </select>
+                  </div>
+                  <button
+                    onClick={() => toggleMute(type)}
+                    className={`flex items-center text-sm px-3 py-1 rounded-lg font-medium ${muted ? 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400' : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'}`}
+                  >
+                    <BellOff className="w-4 h-4 mr-1" /> {muted ? 'Susturuldu' : 'Sustur'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default CoachInboxPage;
@@ -1,23 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { collection, query, where, onSnapshot, doc, deleteDoc, DocumentData } from 'firebase/firestore';
+import { collection, query, where, onSnapshot, doc, deleteDoc } from 'firebase/firestore';
 import { db } from '../lib/firebase';
-import { Bot, Plus, MessageSquare, Trash2, Loader, Calendar, BookOpen } from 'lucide-react';
+import { coachService, isLegacyCoach, toAICoach } from '../lib/coaches';
+import { Bot, Plus, MessageSquare, Trash2, Loader, Calendar, BookOpen, ClipboardList, Target } from 'lucide-react';
 import toast from 'react-hot-toast';
-
-interface Coach extends DocumentData {
-  id: string;
-  coachName: string;
-  examType: string;
-  createdAt: {
-    toDate: () => Date;
-  };
-}
+import { AICoach } from '../types';
 
 const CoachListPage: React.FC = () => {
-  const [coaches, setCoaches] = useState<Coach[]>([]);
+  const [coaches, setCoaches] = useState<AICoach[]>([]);
+  const [upgradingIds, setUpgradingIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
+  // Eski sihirbazla oluşturulan her koç bu oturumda yalnızca bir kez yükseltilir
+  const upgradeQueueRef = useRef<Set<string>>(new Set());
   const { currentUser } = useAuth();
   const navigate = useNavigate();
 
@@ -32,9 +28,20 @@ const CoachListPage: React.FC = () => {
     const q = query(coachesCollection, where('userId', '==', currentUser.uid));
 
     const unsubscribe = onSnapshot(q, (querySnapshot) => {
-      const coachesData = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Coach));
+      const coachesData = querySnapshot.docs.map(doc => toAICoach(doc.id, doc.data()));
       setCoaches(coachesData);
       setLoading(false);
+
+      const legacyDocs = querySnapshot.docs.filter(doc => isLegacyCoach(doc.data()) && !upgradeQueueRef.current.has(doc.id));
+      legacyDocs.forEach(doc => upgradeQueueRef.current.add(doc.id));
+      if (legacyDocs.length > 0) {
+        setUpgradingIds(prev => [...prev, ...legacyDocs.map(doc => doc.id)]);
+        // Sırayla: her yükseltme bir AI isteği harcar
+        legacyDocs.reduce((previous, legacyDoc) => previous
+          .then(() => coachService.upgradeCoach(legacyDoc.id, legacyDoc.data()))
+          .catch(error => console.error(`Koç ${legacyDoc.id} güncellenemedi:`, error))
+          .finally(() => setUpgradingIds(prev => prev.filter(id => id !== legacyDoc.id))), Promise.resolve());
+      }
     }, (error) => {
       console.error("Koçlar getirilirken hata:", error);
       toast.error("Koçlarınızı getirirken bir sorun oluştu.");
@@ -100,12 +107,35 @@ const CoachListPage: React.FC = () => {
               <div>
                 <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2 flex items-center">
                   <Bot size={24} className="mr-3 text-indigo-500"/>
-                  {coach.coachName}
+                  {coach.name}
                 </h3>
+                {coach.description && <p className="text-sm text-gray-600 dark:text-gray-300 mb-3 line-clamp-3">{coach.description}</p>}
                 <div className="text-sm text-gray-500 dark:text-gray-400 space-y-2">
                     <p className="flex items-center"><BookOpen size={16} className="mr-2"/> Sınav: {coach.examType}</p>
-                    <p className="flex items-center"><Calendar size={16} className="mr-2"/> Oluşturulma: {coach.createdAt?.toDate().toLocaleDateString('tr-TR')}</p>
+                    <p className="flex items-center"><Calendar size={16} className="mr-2"/> Oluşturulma: {coach.createdAt.toLocaleDateString('tr-TR')}</p>
                 </div>
+                {upgradingIds.includes(coach.id) ? (
+                  <p className="flex items-center mt-4 text-sm text-indigo-500"><Loader size={14} className="animate-spin mr-2"/> Çalışma planı hazırlanıyor...</p>
+                ) : (
+                  <div className="mt-4 space-y-3">
+                    {coach.dailyRoutine.length > 0 && (
+                      <div>
+                        <p className="flex items-center text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1"><ClipboardList size={14} className="mr-1"/> Günlük Rutin</p>
+                        <ul className="text-sm text-gray-600 dark:text-gray-400 list-disc list-inside space-y-1">
+                          {coach.dailyRoutine.slice(0, 3).map(item => <li key={item} className="truncate">{item}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                    {coach.weeklyGoals.length > 0 && (
+                      <div>
+                        <p className="flex items-center text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1"><Target size={14} className="mr-1"/> Haftalık Hedefler</p>
+                        <ul className="text-sm text-gray-600 dark:text-gray-400 list-disc list-inside space-y-1">
+                          {coach.weeklyGoals.slice(0, 3).map(item => <li key={item} className="truncate">{item}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
               <div className="flex justify-end gap-2 mt-6">
                 <button
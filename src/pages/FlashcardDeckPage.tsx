@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Plus, Trash2, Edit, Save, X, Play } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { flashcardService, isDue } from '../lib/flashcards';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import { Flashcard, FlashcardDeck } from '../types';
+
+const inputClass = 'w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const FlashcardDeckPage: React.FC = () => {
+  const { deckId } = useParams<{ deckId: string }>();
+  const { currentUser } = useAuth();
+  const navigate = useNavigate();
+
+  const [deck, setDeck] = useState<FlashcardDeck | null>(null);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [front, setFront] = useState('');
+  const [back, setBack] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editFront, setEditFront] = useState('');
+  const [editBack, setEditBack] = useState('');
+
+  useEffect(() => {
+    if (!currentUser || !deckId) return;
+    const fetchDeck = async () => {
+      try {
+        const [deckList, cardList] = await Promise.all([
+          flashcardService.getDecks(currentUser.uid),
+          flashcardService.getCards(currentUser.uid, deckId),
+        ]);
+        const current = deckList.find(d => d.id === deckId);
+        if (!current) {
+          toast.error('Deste bulunamadı.');
+          navigate('/dashboard/flashcards');
+          return;
+        }
+        setDeck(current);
+        setCards(cardList.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()));
+      } catch (error) {
+        console.error('Error fetching deck:', error);
+        toast.error('Deste yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchDeck();
+  }, [currentUser, deckId, navigate]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !deckId || !front.trim() || !back.trim()) return;
+    try {
+      const created = await flashcardService.addCards(currentUser.uid, deckId, [
+        { front: front.trim(), back: back.trim(), tags: [] },
+      ]);
+      setCards(prev => [...prev, ...created]);
+      setFront('');
+      setBack('');
+    } catch (error) {
+      console.error('Error adding card:', error);
+      toast.error('Kart eklenemedi.');
+    }
+  };
+
+  const startEdit = (card: Flashcard) => {
+    setEditingId(card.id);
+    setEditFront(card.front);
+    setEditBack(card.back);
+  };
+
+  const handleSave = async () => {
+    if (!editingId || !editFront.trim() || !editBack.trim()) return;
+    try {
+      await flashcardService.updateCard(editingId, { front: editFront.trim(), back: editBack.trim() });
+      setCards(prev => prev.map(card => card.id === editingId ? { ...card, front: editFront.trim(), back: editBack.trim() } : card));
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error updating card:', error);
+      toast.error('Kart güncellenemedi.');
+    }
+  };
+
+  const handleDelete = async (cardId: string) => {
+    if (!window.confirm('Bu kart silinsin mi?')) return;
+    try {
+      await flashcardService.deleteCard(cardId);
+      setCards(prev => prev.filter(card => card.id !== cardId));
+    } catch (error) {
+      console.error('Error deleting card:', error);
+      toast.error('Kart silinemedi.');
+    }
+  };
+
+  if (loading) {
+    return <div className="flex justify-center items-center py-20"><LoadingSpinner size="lg" /></div>;
+  }
+
+  if (!deck) return null;
+
+  const dueCount = cards.filter(card => isDue(card)).length;
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <button onClick={() => navigate('/dashboard/flashcards')} className="flex items-center text-indigo-600 dark:text-indigo-400 mb-4 font-medium">
+        <ArrowLeft className="w-4 h-4 mr-2" /> Destelere Dön
+      </button>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{deck.name}</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {deck.description ? `${deck.description} • ` : ''}{cards.length} kart • {dueCount} tekrar bekliyor
+          </p>
+        </div>
+        <button
+          onClick={() => navigate(`/dashboard/flashcards/review?deck=${deck.id}`)}
+          disabled={dueCount === 0}
+          className="flex items-center justify-center px-5 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-semibold disabled:opacity-50"
+        >
+          <Play className="w-4 h-4 mr-2" /> Tekrar Et
+        </button>
+      </div>
+
+      <form onSubmit={handleAdd} className="bg-white dark:bg-gray-800 rounded-xl shadow p-5 mb-6 grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-start">
+        <textarea value={front} onChange={(e) => setFront(e.target.value)} rows={2} placeholder="Ön yüz" className={inputClass} />
+        <textarea value={back} onChange={(e) => setBack(e.target.value)} rows={2} placeholder="Arka yüz" className={inputClass} />
+        <button type="submit" className="flex items-center justify-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold">
+          <Plus className="w-4 h-4 mr-1" /> Ekle
+        </button>
+      </form>
+
+      {cards.length === 0 ? (
+        <p className="text-center py-10 text-gray-500 dark:text-gray-400">Bu destede henüz kart yok.</p>
+      ) : (
+        <div className="space-y-3">
+          {cards.map(card => (
+            <div key={card.id} className="bg-white dark:bg-gray-800 rounded-xl shadow p-4">
+              {editingId === card.id ? (
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-start">
+                  <textarea value={editFront} onChange={(e) => setEditFront(e.target.value)} rows={2} className={inputClass} />
+                  <textarea value={editBack} onChange={(e) => setEditBack(e.target.value)} rows={2} className={inputClass} />
+                  <div className="flex gap-2">
+                    <button onClick={handleSave} className="p-2 text-green-600 hover:bg-green-50 dark:hover:bg-green-900/30 rounded-lg"><Save className="w-4 h-4" /></button>
+                    <button onClick={() => setEditingId(null)} className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"><X className="w-4 h-4" /></button>
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-start">
+                  <p className="text-gray-900 dark:text-white whitespace-pre-line">{card.front}</p>
+                  <p className="text-gray-600 dark:text-gray-300 whitespace-pre-line">{card.back}</p>
+                  <div className="flex gap-2">
+                    <button onClick={() => startEdit(card)} className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg"><Edit className="w-4 h-4" /></button>
+                    <button onClick={() => handleDelete(card.id)} className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+                  </div>
+                </div>
+              )}
+              <p className="text-xs text-gray-400 mt-2">
+                Sonraki tekrar: {card.nextReview.toLocaleDateString('tr-TR')}
+                {card.repetitions > 0 && ` • ${card.repetitions}. tekrar`}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardDeckPage;
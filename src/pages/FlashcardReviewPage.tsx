@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, CheckCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { flashcardService, formatInterval, scheduleReview, ReviewGrade } from '../lib/flashcards';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import FlashcardView from '../components/Flashcards/FlashcardView';
+import { Flashcard } from '../types';
+
+const gradeButtons: { grade: ReviewGrade; title: string; className: string }[] = [
+  { grade: 'again', title: 'Tekrar', className: 'bg-red-500 hover:bg-red-600' },
+  { grade: 'hard', title: 'Zor', className: 'bg-orange-500 hover:bg-orange-600' },
+  { grade: 'good', title: 'İyi', className: 'bg-green-600 hover:bg-green-700' },
+  { grade: 'easy', title: 'Kolay', className: 'bg-blue-600 hover:bg-blue-700' },
+];
+
+const FlashcardReviewPage: React.FC = () => {
+  const { currentUser } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const deckId = searchParams.get('deck') || undefined;
+
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [flipped, setFlipped] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const fetchDue = async () => {
+      try {
+        setQueue(await flashcardService.getDueCards(currentUser.uid, deckId));
+      } catch (error) {
+        console.error('Error fetching due cards:', error);
+        toast.error('Kartlar yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchDue();
+  }, [currentUser, deckId]);
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    const card = queue[0];
+    if (!card || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const updated = await flashcardService.reviewCard(card, grade);
+      // Bilinmeyen kart oturumun sonuna geri eklenir
+      setQueue(prev => grade === 'again' ? [...prev.slice(1), updated] : prev.slice(1));
+      setReviewedCount(count => count + 1);
+      setFlipped(false);
+    } catch (error) {
+      console.error('Error saving review:', error);
+      toast.error('Tekrar kaydedilemedi.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="flex justify-center items-center py-20"><LoadingSpinner size="lg" /></div>;
+  }
+
+  const card = queue[0];
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={() => navigate(deckId ? `/dashboard/flashcards/${deckId}` : '/dashboard/flashcards')} className="flex items-center text-indigo-600 dark:text-indigo-400 font-medium">
+          <ArrowLeft className="w-4 h-4 mr-2" /> Geri
+        </button>
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {reviewedCount} tekrar edildi • {queue.length} kaldı
+        </span>
+      </div>
+
+      {!card ? (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-10 text-center">
+          <CheckCircle className="w-12 h-12 mx-auto mb-4 text-green-500" />
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Tebrikler!</h2>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">Şimdilik tekrar edilecek kart kalmadı.</p>
+          <button onClick={() => navigate('/dashboard/flashcards')} className="px-5 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-semibold">
+            Destelere Dön
+          </button>
+        </div>
+      ) : (
+        <>
+          <FlashcardView card={card} flipped={flipped} onFlip={() => setFlipped(f => !f)} />
+
+          {flipped ? (
+            <div className="grid grid-cols-4 gap-3 mt-6">
+              {gradeButtons.map(({ grade, title, className }) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  disabled={isSaving}
+                  className={`${className} text-white rounded-lg py-3 font-semibold disabled:opacity-60`}
+                >
+                  <span className="block">{title}</span>
+                  <span className="block text-xs opacity-80">{formatInterval(scheduleReview(card, grade))}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button
+              onClick={() => setFlipped(true)}
+              className="w-full mt-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-semibold"
+            >
+              Cevabı Göster
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardReviewPage;
@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Layers, Plus, Sparkles, Loader, Play, Trash2, BookOpen, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { flashcardService, isDue } from '../lib/flashcards';
+import { lessonService, Lesson } from '../lib/supabase';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import { Flashcard, FlashcardDeck } from '../types';
+
+const FlashcardsPage: React.FC = () => {
+  const { currentUser } = useAuth();
+  const navigate = useNavigate();
+
+  const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [newDeckName, setNewDeckName] = useState('');
+  const [selectedLessonId, setSelectedLessonId] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    if (!currentUser) return;
+    try {
+      const [deckList, cardList] = await Promise.all([
+        flashcardService.getDecks(currentUser.uid),
+        flashcardService.getCards(currentUser.uid),
+      ]);
+      setDecks(deckList);
+      setCards(cardList);
+    } catch (error) {
+      console.error('Error fetching flashcards:', error);
+      toast.error('Kartlar yüklenirken hata oluştu');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    fetchData();
+    lessonService.getPublishedLessons()
+      .then(setLessons)
+      .catch(error => console.error('Error fetching lessons:', error));
+  }, [fetchData]);
+
+  const handleCreateDeck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !newDeckName.trim()) return;
+    try {
+      const deck = await flashcardService.createDeck({ userId: currentUser.uid, name: newDeckName.trim(), source: 'manual' });
+      setNewDeckName('');
+      navigate(`/dashboard/flashcards/${deck.id}`);
+    } catch (error) {
+      console.error('Error creating deck:', error);
+      toast.error('Deste oluşturulamadı.');
+    }
+  };
+
+  const runGeneration = async (generate: () => Promise<{ deck: FlashcardDeck; created: Flashcard[] }>) => {
+    setIsGenerating(true);
+    const toastId = toast.loading('Kartlar hazırlanıyor...');
+    try {
+      const { deck, created } = await generate();
+      if (created.length === 0) {
+        toast('Eklenecek yeni kart bulunamadı.', { id: toastId, icon: 'ℹ️' });
+      } else {
+        toast.success(`"${deck.name}" destesine ${created.length} kart eklendi!`, { id: toastId });
+      }
+      await fetchData();
+    } catch (error) {
+      console.error('Flashcard generation failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Kartlar oluşturulamadı.', { id: toastId });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleGenerateFromLesson = () => {
+    if (!currentUser || !selectedLessonId) {
+      toast.error('Lütfen bir ders seçin.');
+      return;
+    }
+    runGeneration(() => flashcardService.generateFromLesson(currentUser.uid, selectedLessonId));
+  };
+
+  const handleGenerateFromMistakes = () => {
+    if (!currentUser) return;
+    runGeneration(() => flashcardService.generateFromMistakes(currentUser.uid));
+  };
+
+  const handleDeleteDeck = async (deck: FlashcardDeck) => {
+    if (!currentUser || !window.confirm(`"${deck.name}" destesi ve tüm kartları silinsin mi?`)) return;
+    try {
+      await flashcardService.deleteDeck(currentUser.uid, deck.id);
+      toast.success('Deste silindi.');
+      await fetchData();
+    } catch (error) {
+      console.error('Error deleting deck:', error);
+      toast.error('Deste silinemedi.');
+    }
+  };
+
+  const now = new Date();
+  const dueTotal = cards.filter(card => isDue(card, now)).length;
+  const deckStats = (deckId: string) => {
+    const deckCards = cards.filter(card => card.deckId === deckId);
+    return { total: deckCards.length, due: deckCards.filter(card => isDue(card, now)).length };
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="text-center mb-8">
+        <div className="inline-block p-3 bg-indigo-100 dark:bg-indigo-900/30 rounded-2xl mb-4">
+          <Layers className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Kartlar</h1>
+        <p className="text-lg text-gray-600 dark:text-gray-400">
+          Aralıklı tekrar ile öğrendiklerini kalıcı hale getir
+        </p>
+      </div>
+
+      <div className="bg-gradient-to-r from-indigo-600 to-purple-600 rounded-2xl p-6 text-white flex flex-col sm:flex-row items-center justify-between gap-4 mb-8">
+        <div>
+          <p className="text-2xl font-bold">{dueTotal} kart tekrar bekliyor</p>
+          <p className="text-indigo-100">Bugünkü tekrarlarını tamamla, hafızanı taze tut.</p>
+        </div>
+        <button
+          onClick={() => navigate('/dashboard/flashcards/review')}
+          disabled={dueTotal === 0}
+          className="flex items-center bg-white text-indigo-600 px-5 py-2 rounded-lg font-semibold hover:bg-gray-100 disabled:opacity-60"
+        >
+          <Play className="w-4 h-4 mr-2" /> Tekrara Başla
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        <form onSubmit={handleCreateDeck} className="bg-white dark:bg-gray-800 p-5 rounded-xl shadow space-y-3">
+          <h2 className="font-semibold text-gray-900 dark:text-white flex items-center"><Plus className="w-4 h-4 mr-2" /> Yeni Deste</h2>
+          <input
+            type="text"
+            value={newDeckName}
+            onChange={(e) => setNewDeckName(e.target.value)}
+            placeholder="Deste adı"
+            className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-semibold">
+            Oluştur
+          </button>
+        </form>
+
+        <div className="bg-white dark:bg-gray-800 p-5 rounded-xl shadow space-y-3">
+          <h2 className="font-semibold text-gray-900 dark:text-white flex items-center"><BookOpen className="w-4 h-4 mr-2" /> Dersten Oluştur</h2>
+          <select
+            value={selectedLessonId}
+            onChange={(e) => setSelectedLessonId(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="">Ders seç...</option>
+            {lessons.map(lesson => <option key={lesson.id} value={lesson.id}>{lesson.title}</option>)}
+          </select>
+          <button
+            onClick={handleGenerateFromLesson}
+            disabled={isGenerating}
+            className="w-full flex items-center justify-center bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg font-semibold disabled:bg-purple-400"
+          >
+            {isGenerating ? <Loader className="w-4 h-4 animate-spin" /> : <><Sparkles className="w-4 h-4 mr-2" /> AI ile Oluştur</>}
+          </button>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-5 rounded-xl shadow space-y-3">
+          <h2 className="font-semibold text-gray-900 dark:text-white flex items-center"><AlertTriangle className="w-4 h-4 mr-2" /> Hatalarımdan Oluştur</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Derslerde ve testlerde yanlış cevapladığın sorular karta dönüşür.
+          </p>
+          <button
+            onClick={handleGenerateFromMistakes}
+            disabled={isGenerating}
+            className="w-full flex items-center justify-center bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg font-semibold disabled:bg-orange-300"
+          >
+            {isGenerating ? <Loader className="w-4 h-4 animate-spin" /> : 'Kartları Güncelle'}
+          </button>
+        </div>
+      </div>
+
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Destelerim</h2>
+      {loading ? (
+        <div className="text-center py-10"><LoadingSpinner size="lg" /></div>
+      ) : decks.length === 0 ? (
+        <p className="text-center py-10 text-gray-500 dark:text-gray-400">Henüz desten yok.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {decks.map(deck => {
+            const stats = deckStats(deck.id);
+            return (
+              <div key={deck.id} className="bg-white dark:bg-gray-800 rounded-xl shadow p-5 flex items-center justify-between">
+                <button onClick={() => navigate(`/dashboard/flashcards/${deck.id}`)} className="text-left flex-1">
+                  <h3 className="font-semibold text-gray-900 dark:text-white">{deck.name}</h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    {stats.total} kart • <span className={stats.due > 0 ? 'text-orange-500 font-medium' : ''}>{stats.due} tekrar</span>
+                  </p>
+                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => navigate(`/dashboard/flashcards/review?deck=${deck.id}`)}
+                    disabled={stats.due === 0}
+                    className="flex items-center px-3 py-2 bg-indigo-500 hover:bg-indigo-600 text-white font-semibold rounded-lg text-sm disabled:opacity-50"
+                  >
+                    <Play className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteDeck(deck)}
+                    className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardsPage;
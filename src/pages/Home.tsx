@@ -231,8 +231,8 @@ const Home: React.FC = () => {
           {[
             { title: 'Soru Çöz', desc: 'AI ile soru çözümü', path: '/solver', icon: Brain, color: 'primary' },
             { title: 'AI Koç', desc: 'Kişisel çalışma koçu', path: '/coach', icon: Bot, color: 'purple' },
-            { title: 'Test Çöz', desc: 'Konu testleri', path: '/quiz', icon: BookOpen, color: 'secondary' },
-            { title: 'Flashcard', desc: 'Kelime kartları', path: '/flashcards', icon: Star, color: 'accent' },
+            { title: 'Test Çöz', desc: 'Konu testleri', path: '/dashboard/quiz', icon: BookOpen, color: 'secondary' },
+            { title: 'Flashcard', desc: 'Kelime kartları', path: '/dashboard/flashcards', icon: Star, color: 'accent' },
           ].map((action, index) => (
             <motion.div
               key={action.title}
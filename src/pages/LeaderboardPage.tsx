@@ -1,65 +1,137 @@
-import React, { useState, useEffect } from 'react';
-import { collection, getDocs, query, orderBy, limit } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import React, { useState, useEffect, useMemo } from 'react';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import toast from 'react-hot-toast';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
-import { Trophy, Medal, Crown, Star, TrendingUp, Users, Award, Sun, Moon } from 'lucide-react';
+import { Trophy, Medal, Crown, Award, Sun, Moon, UserPlus, Copy, X } from 'lucide-react';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
+import { getBoardId, LEADERBOARD_SUBJECTS, LeaderboardWindow, leaderboardService } from '../lib/leaderboard';
+import { classService } from '../lib/classes';
+import { Classroom, LeaderboardEntry } from '../types';
 
-interface LeaderboardUser {
-  id: string;
-  name: string;
-  xp: number;
-  level: number;
-  rank: number;
-}
+type LeaderboardScope = 'everyone' | 'friends' | `class:${string}`;
+
+const windowOptions: { id: LeaderboardWindow; title: string }[] = [
+  { id: 'weekly', title: 'Bu Hafta' },
+  { id: 'monthly', title: 'Bu Ay' },
+  { id: 'alltime', title: 'Tüm Zamanlar' },
+];
+
+const scopeOptions: { id: LeaderboardScope; title: string }[] = [
+  { id: 'everyone', title: 'Herkes' },
+  { id: 'friends', title: 'Arkadaşlarım' },
+];
+
+const tabClass = (active: boolean) =>
+  `px-4 py-2 text-sm font-medium rounded-md transition-colors ${active ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white shadow' : 'text-gray-600 dark:text-gray-300 hover:bg-white/50 dark:hover:bg-gray-600/50'}`;
 
 const LeaderboardPage: React.FC = () => {
-  const [users, setUsers] = useState<LeaderboardUser[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [currentUserRank, setCurrentUserRank] = useState<number | null>(null);
   const { currentUser, userData } = useAuth();
   const { isDark, toggleTheme } = useTheme();
 
-  console.log('LeaderboardPage yüklendi');
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('weekly');
+  const [subject, setSubject] = useState('all');
+  const [scope, setScope] = useState<LeaderboardScope>('everyone');
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [myEntry, setMyEntry] = useState<LeaderboardEntry | null>(null);
+  const [friendIds, setFriendIds] = useState<string[]>([]);
+  const [friendCode, setFriendCode] = useState('');
+  const [classes, setClasses] = useState<Classroom[]>([]);
+
+  const boardId = useMemo(() => getBoardId(timeWindow, subject === 'all' ? null : subject), [timeWindow, subject]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    leaderboardService.getFriendIds(currentUser.uid)
+      .then(setFriendIds)
+      .catch(error => console.error('Error fetching friends:', error));
+    classService.getStudentClasses(currentUser.uid)
+      .then(setClasses)
+      .catch(error => console.error('Error fetching classes:', error));
+  }, [currentUser]);
 
   useEffect(() => {
     const fetchLeaderboard = async () => {
+      setLoading(true);
       try {
-        console.log('Leaderboard verisi çekiliyor...');
-        const usersRef = collection(db, 'users');
-        const q = query(usersRef, orderBy('xp', 'desc'));
-        const querySnapshot = await getDocs(q);
-        
-        const usersList: LeaderboardUser[] = [];
-        querySnapshot.docs.forEach((doc, index) => {
-          const userData = doc.data();
-          usersList.push({
-            id: doc.id,
-            name: userData.name || 'Anonim',
-            xp: userData.xp || 0,
-            level: userData.level || 1,
-            rank: index + 1
-          });
-        });
-
-        console.log('Çekilen kullanıcı sayısı:', usersList.length);
-        setUsers(usersList);
-        
-        // Kullanıcının sıralamasını bul (sadece giriş yapmış kullanıcılar için)
-        if (currentUser) {
-          const userRank = usersList.find(user => user.id === currentUser.uid);
-          setCurrentUserRank(userRank?.rank || null);
+        const scopedClass = classes.find(classroom => scope === `class:${classroom.id}`);
+        if (scope === 'friends' && currentUser) {
+          setEntries(await leaderboardService.getScopedBoard(boardId, [currentUser.uid, ...friendIds]));
+          setHasMore(false);
+        } else if (scopedClass) {
+          setEntries(await leaderboardService.getScopedBoard(boardId, scopedClass.studentIds));
+          setHasMore(false);
+        } else {
+          const page = await leaderboardService.getPage(boardId);
+          setEntries(page.entries);
+          setCursor(page.cursor);
+          setHasMore(page.hasMore);
         }
+        setMyEntry(currentUser ? await leaderboardService.getUserEntry(boardId, currentUser.uid) : null);
       } catch (error) {
         console.error('Skor tablosu yüklenirken hata:', error);
+        toast.error('Skor tablosu yüklenemedi.');
       } finally {
         setLoading(false);
       }
     };
 
     fetchLeaderboard();
-  }, [currentUser]);
+  }, [boardId, scope, friendIds, classes, currentUser]);
+
+  const handleLoadMore = async () => {
+    if (!cursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await leaderboardService.getPage(boardId, cursor, entries.length);
+      setEntries(prev => [...prev, ...page.entries]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading more entries:', error);
+      toast.error('Daha fazla sonuç yüklenemedi.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleAddFriend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !friendCode.trim()) return;
+    try {
+      const name = await leaderboardService.addFriend(currentUser.uid, friendCode);
+      setFriendIds(prev => Array.from(new Set([...prev, friendCode.trim()])));
+      setFriendCode('');
+      toast.success(`${name} arkadaşlarına eklendi!`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Arkadaş eklenemedi.');
+    }
+  };
+
+  const handleRemoveFriend = async (friendId: string) => {
+    if (!currentUser) return;
+    try {
+      await leaderboardService.removeFriend(currentUser.uid, friendId);
+      setFriendIds(prev => prev.filter(id => id !== friendId));
+    } catch (error) {
+      console.error('Error removing friend:', error);
+      toast.error('Arkadaş çıkarılamadı.');
+    }
+  };
+
+  const copyFriendCode = async () => {
+    if (!currentUser) return;
+    try {
+      await navigator.clipboard.writeText(currentUser.uid);
+      toast.success('Arkadaş kodun kopyalandı!');
+    } catch {
+      toast.error('Kopyalanamadı.');
+    }
+  };
 
   const getRankIcon = (rank: number) => {
     switch (rank) {
@@ -87,14 +159,6 @@ const LeaderboardPage: React.FC = () => {
     }
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
-        <LoadingSpinner />
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -113,7 +177,7 @@ const LeaderboardPage: React.FC = () => {
               En çok XP kazanan öğrenciler
             </p>
           </div>
-          
+
           {/* Tema Değiştirme Butonu */}
           <button
             onClick={toggleTheme}
@@ -129,8 +193,38 @@ const LeaderboardPage: React.FC = () => {
           </button>
         </div>
 
+        {/* Filters */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div className="flex space-x-1 bg-gray-200 dark:bg-gray-700 p-1 rounded-lg w-fit">
+            {windowOptions.map(option => (
+              <button key={option.id} onClick={() => setTimeWindow(option.id)} className={tabClass(timeWindow === option.id)}>
+                {option.title}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-3">
+            <select
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              className="p-2 border rounded-lg dark:bg-gray-800 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="all">Tüm Dersler</option>
+              {LEADERBOARD_SUBJECTS.map(item => <option key={item} value={item}>{item}</option>)}
+            </select>
+            {currentUser && (
+              <div className="flex space-x-1 bg-gray-200 dark:bg-gray-700 p-1 rounded-lg">
+                {[...scopeOptions, ...classes.map(classroom => ({ id: `class:${classroom.id}` as LeaderboardScope, title: classroom.name }))].map(option => (
+                  <button key={option.id} onClick={() => setScope(option.id)} className={tabClass(scope === option.id)}>
+                    {option.title}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Current User Stats */}
-        {currentUserRank && userData && (
+        {myEntry && userData && (
           <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm mb-8 animate-slide-up-fade">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-4">
@@ -142,20 +236,46 @@ const LeaderboardPage: React.FC = () => {
                     {userData.name}
                   </h3>
                   <p className="text-sm text-gray-600 dark:text-gray-400">
-                    Sıralama: #{currentUserRank} • XP: {userData.xp} • Seviye: {userData.level}
+                    XP: {myEntry.xp.toLocaleString()} • Seviye: {userData.level}
                   </p>
                 </div>
               </div>
               <div className="text-right">
                 <div className="text-2xl font-bold text-indigo-600 dark:text-indigo-400">
-                  #{currentUserRank}
+                  #{myEntry.rank}
                 </div>
-                <div className="text-sm text-gray-500">Sıralama</div>
+                <div className="text-sm text-gray-500">Genel Sıralama</div>
               </div>
             </div>
           </div>
         )}
 
+        {/* Friends */}
+        {currentUser && scope === 'friends' && (
+          <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm mb-8 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Arkadaş kodun: <span className="font-mono text-gray-900 dark:text-white">{currentUser.uid}</span>
+              </p>
+              <button onClick={copyFriendCode} className="flex items-center text-sm text-indigo-600 dark:text-indigo-400 font-medium">
+                <Copy className="w-4 h-4 mr-1" /> Kopyala
+              </button>
+            </div>
+            <form onSubmit={handleAddFriend} className="flex gap-2">
+              <input
+                type="text"
+                value={friendCode}
+                onChange={(e) => setFriendCode(e.target.value)}
+                placeholder="Arkadaşının kodunu yapıştır"
+                className="flex-1 px-4 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button type="submit" className="flex items-center bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-semibold">
+                <UserPlus className="w-4 h-4 mr-2" /> Ekle
+              </button>
+            </form>
+          </div>
+        )}
+
         {/* Login Call to Action for non-authenticated users */}
         {!currentUser && (
           <div className="bg-gradient-to-r from-indigo-500 to-purple-600 rounded-2xl p-6 shadow-sm mb-8 text-center animate-slide-up-fade">
@@ -184,89 +304,79 @@ const LeaderboardPage: React.FC = () => {
 
         {/* Leaderboard */}
         <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm overflow-hidden animate-slide-up-fade">
-          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-              Top 100 Öğrenci
-            </h2>
-          </div>
-
-          <div className="divide-y divide-gray-200 dark:divide-gray-700">
-            {users.map((user, index) => (
-              <div
-                key={user.id}
-                className={`p-6 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-300 hover:scale-[1.02] ${
-                  user.id === currentUser?.uid ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''
-                }`}
-                style={{ animationDelay: `${index * 50}ms` }}
-              >
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-4">
-                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${getRankBadge(user.rank)}`}>
-                      {getRankIcon(user.rank)}
-                    </div>
-                    <div>
-                      <h3 className="font-semibold text-gray-900 dark:text-white">
-                        {user.name}
-                        {user.id === currentUser?.uid && (
-                          <span className="ml-2 text-xs bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200 px-2 py-1 rounded-full">
-                            Sen
-                          </span>
-                        )}
-                      </h3>
-                      <p className="text-sm text-gray-600 dark:text-gray-400">
-                        Seviye {user.level}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-lg font-bold text-gray-900 dark:text-white">
-                      {user.xp.toLocaleString()} XP
+          {loading ? (
+            <div className="flex justify-center py-16"><LoadingSpinner /></div>
+          ) : entries.length === 0 ? (
+            <p className="text-center py-16 text-gray-500 dark:text-gray-400">
+              Bu tabloda henüz XP kazanan yok. İlk sen ol!
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {entries.map(entry => (
+                <div
+                  key={entry.userId}
+                  className={`p-6 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+                    entry.userId === currentUser?.uid ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-4">
+                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${getRankBadge(entry.rank)}`}>
+                        {getRankIcon(entry.rank)}
+                      </div>
+                      <div>
+                        <h3 className="font-semibold text-gray-900 dark:text-white">
+                          {entry.name}
+                          {entry.userId === currentUser?.uid && (
+                            <span className="ml-2 text-xs bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200 px-2 py-1 rounded-full">
+                              Sen
+                            </span>
+                          )}
+                        </h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          Seviye {entry.level}
+                        </p>
+                      </div>
                     </div>
-                    <div className="text-sm text-gray-500">
-                      #{user.rank}
+                    <div className="flex items-center gap-4">
+                      <div className="text-right">
+                        <div className="text-lg font-bold text-gray-900 dark:text-white">
+                          {entry.xp.toLocaleString()} XP
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          #{entry.rank}
+                        </div>
+                      </div>
+                      {scope === 'friends' && entry.userId !== currentUser?.uid && (
+                        <button
+                          onClick={() => handleRemoveFriend(entry.userId)}
+                          className="p-2 text-gray-400 hover:text-red-500 rounded-lg"
+                          title="Arkadaşlardan çıkar"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
-              </div>
-            ))}
-          </div>
-        </div>
-
-        {/* Stats */}
-        <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-6 animate-slide-up-fade">
-          <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm text-center hover:shadow-md transition-all duration-300 hover:scale-105">
-            <Users className="w-8 h-8 text-indigo-600 mx-auto mb-2" />
-            <div className="text-2xl font-bold text-gray-900 dark:text-white">
-              {users.length}
-            </div>
-            <div className="text-sm text-gray-600 dark:text-gray-400">
-              Toplam Öğrenci
+              ))}
             </div>
-          </div>
-          
-          <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm text-center hover:shadow-md transition-all duration-300 hover:scale-105">
-            <Star className="w-8 h-8 text-yellow-500 mx-auto mb-2" />
-            <div className="text-2xl font-bold text-gray-900 dark:text-white">
-              {users[0]?.xp.toLocaleString() || 0}
-            </div>
-            <div className="text-sm text-gray-600 dark:text-gray-400">
-              En Yüksek XP
-            </div>
-          </div>
-          
-          <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm text-center hover:shadow-md transition-all duration-300 hover:scale-105">
-            <TrendingUp className="w-8 h-8 text-green-500 mx-auto mb-2" />
-            <div className="text-2xl font-bold text-gray-900 dark:text-white">
-              {Math.round(users.reduce((sum, user) => sum + user.xp, 0) / users.length).toLocaleString()}
-            </div>
-            <div className="text-sm text-gray-600 dark:text-gray-400">
-              Ortalama XP
+          )}
+          {hasMore && !loading && (
+            <div className="p-4 border-t border-gray-200 dark:border-gray-700 text-center">
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="px-5 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white rounded-lg font-semibold"
+              >
+                {loadingMore ? 'Yükleniyor...' : 'Daha Fazla Göster'}
+              </button>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-export default LeaderboardPage; 
\ No newline at end of file
+export default LeaderboardPage;
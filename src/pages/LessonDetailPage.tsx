@@ -1,9 +1,18 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { lessonService, supabase } from '../lib/supabase';
+import { InteractiveQuestion, Lesson, LessonMistake, lessonService, mistakeService } from '../lib/supabase';
 import { generateAIExplanation } from '../lib/gemini';
+import { trackActivity } from '../lib/achievements';
+import { notifyXp, xpService } from '../lib/xp';
+import { assignmentService } from '../lib/classes';
+import { getLessonPercent, getWatchedRatio, isLessonFinished, lessonProgressService, mergeSegments } from '../lib/lessonProgress';
+import { getYouTubeVideoId } from '../lib/utils';
+import { WatchedSegment } from '../types';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
+import MarkdownContent from '../components/Common/MarkdownContent';
+import InlineQuestionCard from '../components/Lessons/InlineQuestionCard';
+import VideoPlayer, { VideoPlayerHandle } from '../components/Lessons/VideoPlayer';
 import { 
   Play, 
   Pause, 
@@ -22,39 +31,6 @@ import {
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
-interface Lesson {
-  id: string;
-  title: string;
-  content: string;
-  subject: string;
-  grade_level: string;
-  cover_image_url?: string;
-  youtube_link?: string;
-  attachments?: any[];
-  interactive_questions?: InteractiveQuestion[];
-  created_at: string;
-  updated_at: string;
-}
-
-interface InteractiveQuestion {
-  id: string;
-  timestamp: number;
-  question: string;
-  options: string[];
-  correctAnswer: string;
-}
-
-interface LessonMistake {
-  id: string;
-  user_id: string;
-  lesson_id: string;
-  question: InteractiveQuestion;
-  user_answer: string;
-  correct_answer: string;
-  ai_explanation: string;
-  created_at: string;
-}
-
 const LessonDetailPage = () => {
   const { lessonId } = useParams<{ lessonId: string }>();
   const navigate = useNavigate();
@@ -72,32 +48,47 @@ const LessonDetailPage = () => {
   const [isVideoPlaying, setIsVideoPlaying] = useState(false);
   const [mistakes, setMistakes] = useState<LessonMistake[]>([]);
   const [showMistakesHistory, setShowMistakesHistory] = useState(false);
-
-  const playerRef = useRef<any>(null);
-  const questionCheckInterval = useRef<NodeJS.Timeout | null>(null);
+  const [isCompleted, setIsCompleted] = useState(false);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [watchedSegments, setWatchedSegments] = useState<WatchedSegment[]>([]);
+  const [answeredQuestionIds, setAnsweredQuestionIds] = useState<string[]>([]);
+  const [timeSpent, setTimeSpent] = useState(0);
+
+  const playerRef = useRef<VideoPlayerHandle>(null);
+  // Saved position to seek to once the player is ready
+  const resumePositionRef = useRef(0);
+  const lastTickRef = useRef<number | null>(null);
+  const unsavedSecondsRef = useRef(0);
+  const progressDirtyRef = useRef(false);
+  const saveProgressRef = useRef<() => void>();
+  const autoCompletedRef = useRef(false);
+  // Whether closing the question dialog should resume the video
+  const resumeAfterQuestionRef = useRef(false);
+  const latestProgress = useRef({ watchedSegments, videoDuration, videoProgress, answeredQuestionIds, isCompleted });
+  latestProgress.current = { watchedSegments, videoDuration, videoProgress, answeredQuestionIds, isCompleted };
 
   useEffect(() => {
     if (lessonId) {
       fetchLesson();
       fetchMistakes();
     }
-  }, [lessonId]);
-
-  useEffect(() => {
-    if (lesson?.interactive_questions && lesson.interactive_questions.length > 0) {
-      startQuestionCheck();
-    }
-    return () => {
-      if (questionCheckInterval.current) {
-        clearInterval(questionCheckInterval.current);
-      }
-    };
-  }, [lesson]);
+  }, [lessonId, userData?.id]);
 
   const fetchLesson = async () => {
     try {
       if (!lessonId) return;
-      const lessonData = await lessonService.getLessonById(lessonId);
+      const [lessonData, savedProgress] = await Promise.all([
+        lessonService.getLessonById(lessonId),
+        userData?.id ? lessonProgressService.getProgress(userData.id, lessonId) : Promise.resolve(null),
+      ]);
+      if (savedProgress) {
+        setWatchedSegments(savedProgress.watchedSegments);
+        setVideoDuration(savedProgress.duration);
+        setAnsweredQuestionIds(savedProgress.answeredQuestionIds);
+        setTimeSpent(savedProgress.timeSpentSeconds || 0);
+        if (savedProgress.completed) setIsCompleted(true);
+        resumePositionRef.current = savedProgress.lastPosition;
+      }
       setLesson(lessonData);
     } catch (error) {
       console.error('Error fetching lesson:', error);
@@ -110,35 +101,96 @@ const LessonDetailPage = () => {
   const fetchMistakes = async () => {
     try {
       if (!lessonId || !userData?.id) return;
-      const { data, error } = await supabase
-        .from('lesson_mistakes')
-        .select('*')
-        .eq('lesson_id', lessonId)
-        .eq('user_id', userData.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setMistakes(data || []);
+      setMistakes(await mistakeService.getMistakes(userData.id, lessonId));
     } catch (error) {
       console.error('Error fetching mistakes:', error);
     }
   };
 
-  const startQuestionCheck = () => {
-    questionCheckInterval.current = setInterval(() => {
-      if (!lesson?.interactive_questions) return;
-      
-      const currentTime = videoProgress;
-      const question = lesson.interactive_questions.find(q => 
-        Math.abs(q.timestamp - currentTime) < 2 // 2 saniye tolerans
-      );
-
-      if (question && !showQuestionModal) {
-        setCurrentQuestion(question);
-        setShowQuestionModal(true);
-        setIsVideoPlaying(false);
-      }
+  // Sayfada geçen süre, yalnızca sekme açıkken sayılır
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') unsavedSecondsRef.current += 1;
     }, 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!lessonId || !userData?.id || !lesson) return;
+    const userId = userData.id;
+    const questionCount = lesson.interactive_questions?.length || 0;
+
+    const save = (force = false) => {
+      const seconds = unsavedSecondsRef.current;
+      if (!progressDirtyRef.current && seconds < (force ? 1 : 60)) return;
+      const latest = latestProgress.current;
+      unsavedSecondsRef.current = 0;
+      progressDirtyRef.current = false;
+      setTimeSpent(prev => prev + seconds);
+      lessonProgressService.saveProgress(userId, lessonId, {
+        watchedSegments: latest.watchedSegments,
+        duration: latest.videoDuration,
+        lastPosition: Math.floor(latest.videoProgress),
+        answeredQuestionIds: latest.answeredQuestionIds,
+        timeSpentDelta: seconds,
+        percent: getLessonPercent({ ...latest, duration: latest.videoDuration, completed: latest.isCompleted }, questionCount),
+      }).catch(error => console.error('Error saving lesson progress:', error));
+    };
+
+    saveProgressRef.current = () => save(true);
+    const timer = setInterval(save, 15000);
+    return () => {
+      clearInterval(timer);
+      save(true);
+    };
+  }, [lessonId, userData?.id, lesson]);
+
+  const handlePlayerReady = (duration: number) => {
+    if (duration > 0) setVideoDuration(duration);
+
+    const resumeAt = resumePositionRef.current;
+    resumePositionRef.current = 0;
+    if (resumeAt > 5 && (!duration || resumeAt < duration - 10)) {
+      playerRef.current?.seekTo(resumeAt);
+      setVideoProgress(resumeAt);
+      toast('Kaldığın yerden devam ediliyor ▶️');
+    }
+  };
+
+  const handlePlayingChange = (playing: boolean) => {
+    setIsVideoPlaying(playing);
+    lastTickRef.current = null;
+    if (!playing) saveProgressRef.current?.();
+  };
+
+  // Oynatma sırasında konumu izle; ileri atlanan kısımlar izlenmiş sayılmaz
+  const handleTimeUpdate = (time: number) => {
+    const last = lastTickRef.current;
+    lastTickRef.current = time;
+    setVideoProgress(time);
+    if (last !== null && time > last && time - last <= 3) {
+      setWatchedSegments(prev => mergeSegments([...prev, { start: last, end: time }]));
+      progressDirtyRef.current = true;
+    }
+  };
+
+  // The player pauses itself before asking and resumes once the dialog closes
+  const handleVideoQuestion = (question: InteractiveQuestion) => {
+    resumeAfterQuestionRef.current = true;
+    setCurrentQuestion(question);
+    setShowQuestionModal(true);
+  };
+
+  const openQuestion = useCallback((question: InteractiveQuestion) => {
+    resumeAfterQuestionRef.current = isVideoPlaying;
+    playerRef.current?.pause();
+    setCurrentQuestion(question);
+    setShowQuestionModal(true);
+  }, [isVideoPlaying]);
+
+  const markQuestionAnswered = (questionId: string) => {
+    setAnsweredQuestionIds(prev => prev.includes(questionId) ? prev : [...prev, questionId]);
+    progressDirtyRef.current = true;
   };
 
   const handleAnswerSubmit = async () => {
@@ -146,6 +198,7 @@ const LessonDetailPage = () => {
 
     setIsAnswering(true);
     const isCorrect = selectedAnswer === currentQuestion.correctAnswer;
+    markQuestionAnswered(currentQuestion.id);
 
     if (!isCorrect) {
       // AI explanation için Gemini API çağrısı
@@ -160,14 +213,15 @@ const LessonDetailPage = () => {
         setShowExplanation(true);
 
         // Yanlış cevabı Supabase'e kaydet
-        await supabase.from('lesson_mistakes').insert({
+        const mistake = await mistakeService.recordMistake({
           user_id: userData.id,
-          lesson_id: lessonId,
-          question: currentQuestion,
+          lesson_id: lessonId ?? null,
+          question: { ...currentQuestion, source: 'lesson' },
           user_answer: selectedAnswer,
           correct_answer: currentQuestion.correctAnswer,
           ai_explanation: explanation
         });
+        setMistakes(prev => [mistake, ...prev]);
 
         // XP kaybı (opsiyonel)
         toast.error('Yanlış cevap! Açıklamayı okuyun.');
@@ -176,23 +230,81 @@ const LessonDetailPage = () => {
         toast.error('AI açıklaması oluşturulamadı');
       }
     } else {
-      // Doğru cevap - XP kazan
-      toast.success('Doğru cevap! +15 XP kazandınız!');
-      // XP güncelleme işlemi burada yapılabilir
+      // Doğru cevap - XP her soru için yalnızca bir kez verilir
+      try {
+        // The server checks the answer against the published lesson
+        const result = await xpService.award('lesson_question', lessonId, { questionId: currentQuestion.id, answer: selectedAnswer });
+        if (result.awarded > 0) {
+          notifyXp(result, `Doğru cevap! +${result.awarded} XP kazandınız!`);
+        } else {
+          toast.success('Doğru cevap!');
+        }
+      } catch (error) {
+        console.error('XP eklenirken hata:', error);
+        toast.success('Doğru cevap!');
+      }
     }
 
     setIsAnswering(false);
   };
 
+  useEffect(() => {
+    if (lessonId && (userData?.progress?.[lessonId] ?? 0) >= 100) {
+      setIsCompleted(true);
+    }
+  }, [lessonId, userData]);
+
+  const handleCompleteLesson = useCallback(async () => {
+    if (!lessonId || !userData?.id || isCompleted) return;
+
+    setIsCompleted(true);
+    try {
+      assignmentService.recordCompletion(userData.id, 'lesson', lessonId)
+        .catch(error => console.error('Error recording assignment completion:', error));
+      // Aynı ders ikinci kez tamamlandı sayılmasın
+      const firstCompletion = await lessonProgressService.markCompleted(userData.id, lessonId);
+      if (!firstCompletion) return;
+
+      toast.success('Dersi tamamladın! 🎉');
+      trackActivity();
+    } catch (error) {
+      console.error('Error completing lesson:', error);
+      setIsCompleted(false);
+      toast.error('Ders tamamlanırken bir hata oluştu.');
+    }
+  }, [lessonId, userData?.id, isCompleted]);
+
+  useEffect(() => {
+    if (!lesson || isCompleted || autoCompletedRef.current || videoDuration === 0) return;
+    const questionIds = (lesson.interactive_questions || []).map(q => q.id);
+    if (isLessonFinished({ watchedSegments, duration: videoDuration, answeredQuestionIds }, questionIds)) {
+      autoCompletedRef.current = true;
+      handleCompleteLesson();
+    }
+  }, [watchedSegments, answeredQuestionIds, videoDuration, lesson, isCompleted, handleCompleteLesson]);
+
   const closeQuestionModal = () => {
     setShowQuestionModal(false);
     setCurrentQuestion(null);
     setSelectedAnswer('');
     setShowExplanation(false);
     setAiExplanation('');
-    setIsVideoPlaying(true);
+    if (resumeAfterQuestionRef.current) playerRef.current?.play();
+    resumeAfterQuestionRef.current = false;
   };
 
+  // Questions placed in the lesson text open the same dialog as video questions
+  const renderInlineQuestion = useCallback((questionId: string) => {
+    const question = lesson?.interactive_questions.find(q => q.id === questionId);
+    return (
+      <InlineQuestionCard
+        question={question}
+        answered={answeredQuestionIds.includes(questionId)}
+        onOpen={() => question && openQuestion(question)}
+      />
+    );
+  }, [lesson, answeredQuestionIds, openQuestion]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
@@ -217,13 +329,11 @@ const LessonDetailPage = () => {
     );
   }
 
-  const getYouTubeVideoId = (url: string) => {
-    const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
-    const match = url.match(regExp);
-    return (match && match[2].length === 11) ? match[2] : null;
-  };
-
-  const videoId = lesson.youtube_link ? getYouTubeVideoId(lesson.youtube_link) : null;
+  const videoId = lesson.video_url ? getYouTubeVideoId(lesson.video_url) : null;
+  const questionCount = lesson.interactive_questions?.length || 0;
+  const watchedPercent = Math.round(getWatchedRatio(watchedSegments, videoDuration) * 100);
+  const lessonPercent = getLessonPercent({ watchedSegments, duration: videoDuration, answeredQuestionIds, completed: isCompleted }, questionCount);
+  const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -253,6 +363,14 @@ const LessonDetailPage = () => {
                 <Target className="w-4 h-4" />
                 <span>Hatalarım ({mistakes.length})</span>
               </button>
+              <button
+                onClick={handleCompleteLesson}
+                disabled={isCompleted}
+                className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:bg-green-100 disabled:text-green-700 dark:disabled:bg-green-900/50 dark:disabled:text-green-300"
+              >
+                <CheckCircle className="w-4 h-4" />
+                <span>{isCompleted ? 'Tamamlandı' : 'Dersi Tamamla'}</span>
+              </button>
             </div>
           </div>
         </div>
@@ -264,15 +382,20 @@ const LessonDetailPage = () => {
           <div className="lg:col-span-2">
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden">
               {videoId ? (
-                <div className="relative aspect-video">
-                  <iframe
-                    src={`https://www.youtube.com/embed/${videoId}?enablejsapi=1&origin=${window.location.origin}`}
-                    title={lesson.title}
-                    className="w-full h-full"
-                    allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                    allowFullScreen
-                  />
-                </div>
+                <VideoPlayer
+                  ref={playerRef}
+                  videoId={videoId}
+                  title={lesson.title}
+                  questions={lesson.interactive_questions}
+                  answeredQuestionIds={answeredQuestionIds}
+                  lockSeek={lesson.lock_video_seek}
+                  onReady={handlePlayerReady}
+                  onTimeUpdate={handleTimeUpdate}
+                  onPlayingChange={handlePlayingChange}
+                  onQuestion={handleVideoQuestion}
+                />
+              ) : lesson.video_url ? (
+                <video src={lesson.video_url} controls className="w-full aspect-video bg-black" />
               ) : (
                 <div className="aspect-video bg-gray-200 dark:bg-gray-700 flex items-center justify-center">
                   <p className="text-gray-500 dark:text-gray-400">Video bulunamadı</p>
@@ -284,17 +407,14 @@ const LessonDetailPage = () => {
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-4">
                     <span className="text-sm text-gray-600 dark:text-gray-400">
-                      {Math.floor(videoProgress / 60)}:{(videoProgress % 60).toFixed(0).padStart(2, '0')}
+                      {formatTime(videoProgress)}{videoDuration > 0 && ` / ${formatTime(videoDuration)}`}
                     </span>
                     <div className="flex items-center space-x-2">
                       {lesson.interactive_questions?.map((q, index) => (
                         <button
                           key={q.id}
-                          onClick={() => {
-                            setCurrentQuestion(q);
-                            setShowQuestionModal(true);
-                          }}
-                          className="w-3 h-3 bg-indigo-500 rounded-full hover:bg-indigo-600 transition-colors"
+                          onClick={() => openQuestion(q)}
+                          className={`w-3 h-3 rounded-full transition-colors ${answeredQuestionIds.includes(q.id) ? 'bg-green-500 hover:bg-green-600' : 'bg-indigo-500 hover:bg-indigo-600'}`}
                           title={`Soru ${index + 1} - ${Math.floor(q.timestamp / 60)}:${(q.timestamp % 60).toFixed(0).padStart(2, '0')}`}
                         />
                       ))}
@@ -312,9 +432,7 @@ const LessonDetailPage = () => {
             {/* Lesson Content */}
             <div className="mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
               <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Ders İçeriği</h2>
-              <div className="prose dark:prose-invert max-w-none">
-                <div dangerouslySetInnerHTML={{ __html: lesson.content.replace(/\n/g, '<br>') }} />
-              </div>
+              <MarkdownContent content={lesson.content} renderQuestion={renderInlineQuestion} />
             </div>
           </div>
 
@@ -324,22 +442,30 @@ const LessonDetailPage = () => {
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">İlerleme</h3>
               <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600 dark:text-gray-400">Genel İlerleme</span>
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">{lessonPercent}%</span>
+                </div>
+                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                  <div
+                    className="bg-green-500 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${lessonPercent}%` }}
+                  />
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-gray-600 dark:text-gray-400">Video İzleme</span>
-                  <span className="text-sm font-medium text-gray-900 dark:text-white">
-                    {Math.round((videoProgress / (lesson.interactive_questions?.[lesson.interactive_questions.length - 1]?.timestamp || 100)) * 100)}%
-                  </span>
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">{watchedPercent}%</span>
                 </div>
                 <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
                   <div 
                     className="bg-indigo-600 h-2 rounded-full transition-all duration-300"
-                    style={{ width: `${Math.min((videoProgress / (lesson.interactive_questions?.[lesson.interactive_questions.length - 1]?.timestamp || 100)) * 100, 100)}%` }}
+                    style={{ width: `${watchedPercent}%` }}
                   />
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-gray-600 dark:text-gray-400">Sorular</span>
                   <span className="text-sm font-medium text-gray-900 dark:text-white">
-                    {mistakes.length} hata
+                    {answeredQuestionIds.filter(id => lesson.interactive_questions?.some(q => q.id === id)).length}/{questionCount} cevaplandı • {mistakes.length} hata
                   </span>
                 </div>
               </div>
@@ -381,7 +507,16 @@ const LessonDetailPage = () => {
                     <span className="text-sm text-gray-600 dark:text-gray-400">Toplam Süre</span>
                   </div>
                   <span className="text-sm font-medium text-gray-900 dark:text-white">
-                    {Math.floor((lesson.interactive_questions?.[lesson.interactive_questions.length - 1]?.timestamp || 0) / 60)} dk
+                    {Math.floor((videoDuration || lesson.interactive_questions?.[lesson.interactive_questions.length - 1]?.timestamp || 0) / 60)} dk
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Clock className="w-4 h-4 text-gray-500" />
+                    <span className="text-sm text-gray-600 dark:text-gray-400">Harcadığın Süre</span>
+                  </div>
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">
+                    {Math.round(timeSpent / 60)} dk
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
@@ -455,7 +590,7 @@ const LessonDetailPage = () => {
                     <span>AI Açıklaması</span>
                   </div>
                   <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
-                    <p className="text-gray-900 dark:text-white">{aiExplanation}</p>
+                    <MarkdownContent content={aiExplanation} className="text-gray-900 dark:text-white" />
                   </div>
                   <div className="flex justify-end">
                     <button
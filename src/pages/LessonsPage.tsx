@@ -1,33 +1,14 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { lessonService } from '../lib/supabase';
+import { Lesson, lessonService } from '../lib/supabase';
+import { lessonProgressService } from '../lib/lessonProgress';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
-import { BookMarked, Search, DownloadCloud, BookCopy, ArrowLeft, Play, Clock, Target } from 'lucide-react';
+import { BookMarked, Search, DownloadCloud, BookCopy, ArrowLeft, Play, Clock, Target, CheckCircle, RotateCcw } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { toast } from 'react-hot-toast';
 import { useAuth } from '../contexts/AuthContext';
 import { Link } from 'react-router-dom';
-
-interface Lesson {
-    id: string;
-    title: string;
-    subject: string;
-    grade_level: string;
-    content: string;
-    created_at: string;
-    cover_image_url?: string;
-    youtube_link?: string;
-    attachments?: { name: string; url: string; }[];
-    interactive_questions?: InteractiveQuestion[];
-}
-
-interface InteractiveQuestion {
-    id: string;
-    timestamp: number;
-    question: string;
-    options: string[];
-    correctAnswer: string;
-}
+import { LessonProgress } from '../types';
 
 // Bu listeler AdminPage'den kopyalandı, idealde ortak bir dosyada olabilir.
 const availableSubjects = [
@@ -59,12 +40,14 @@ const LessonsPage: React.FC = () => {
     const [loading, setLoading] = useState(true);
     const [filters, setFilters] = useState({ subject: 'all', gradeLevel: 'all' });
     const [searchQuery, setSearchQuery] = useState('');
+    const [progressList, setProgressList] = useState<LessonProgress[]>([]);
+    const { currentUser } = useAuth();
 
     useEffect(() => {
         const fetchLessons = async () => {
             setLoading(true);
             try {
-                const lessonsList = await lessonService.getAllLessons();
+                const lessonsList = await lessonService.getPublishedLessons();
                 setLessons(lessonsList);
             } catch (error) {
                 console.error("Dersler alınırken hata:", error);
@@ -75,6 +58,27 @@ const LessonsPage: React.FC = () => {
         fetchLessons();
     }, []);
 
+    useEffect(() => {
+        if (!currentUser) return;
+        lessonProgressService.getUserProgress(currentUser.uid)
+            .then(setProgressList)
+            .catch(error => console.error("Ders ilerlemesi alınırken hata:", error));
+    }, [currentUser]);
+
+    const progressByLesson = useMemo(
+        () => Object.fromEntries(progressList.map(progress => [progress.lessonId, progress])),
+        [progressList]
+    );
+
+    // En son izlenen ve henüz bitmemiş ders
+    const continueLesson = useMemo(() => {
+        const recent = progressList.find(progress => !progress.completed && progress.percent > 0);
+        const lesson = recent && lessons.find(item => item.id === recent.lessonId);
+        return lesson && recent ? { lesson, progress: recent } : null;
+    }, [progressList, lessons]);
+
+    const formatPosition = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
     const filteredLessons = useMemo(() => {
         return lessons
             .filter(lesson => filters.subject === 'all' || lesson.subject === filters.subject)
@@ -123,6 +127,33 @@ const LessonsPage: React.FC = () => {
                     </select>
                 </div>
 
+                {/* Kaldığın yerden devam et */}
+                {continueLesson && (
+                    <Link
+                        to={`/dashboard/lessons/${continueLesson.lesson.id}`}
+                        className="flex items-center gap-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl shadow-md p-5 mb-8 hover:shadow-xl transition-shadow"
+                    >
+                        <div className="p-3 bg-white/20 rounded-full">
+                            <RotateCcw className="w-6 h-6" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm text-indigo-100">Kaldığın yerden devam et</p>
+                            <h3 className="font-bold text-lg truncate">{continueLesson.lesson.title}</h3>
+                            <div className="flex items-center gap-3 mt-2">
+                                <div className="flex-1 bg-white/30 rounded-full h-2">
+                                    <div className="bg-white h-2 rounded-full" style={{ width: `${continueLesson.progress.percent}%` }} />
+                                </div>
+                                <span className="text-sm font-medium">%{continueLesson.progress.percent}</span>
+                            </div>
+                        </div>
+                        {continueLesson.progress.lastPosition > 0 && (
+                            <span className="hidden sm:flex items-center gap-1 text-sm font-medium">
+                                <Play className="w-4 h-4" /> {formatPosition(continueLesson.progress.lastPosition)}
+                            </span>
+                        )}
+                    </Link>
+                )}
+
                 {/* Ders Kartları Grid */}
                 {filteredLessons.length > 0 ? (
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
@@ -135,7 +166,7 @@ const LessonsPage: React.FC = () => {
                                 <div className="relative h-40 w-full overflow-hidden">
                                     {lesson.cover_image_url ? (
                                         <img src={lesson.cover_image_url} alt={lesson.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300" />
-                                    ) : lesson.youtube_link ? (
+                                    ) : lesson.video_url ? (
                                         <div className="w-full h-full bg-gray-200 dark:bg-gray-700 flex items-center justify-center group-hover:bg-gray-300 dark:group-hover:bg-gray-600 transition-colors">
                                             <Play className="w-12 h-12 text-gray-400 dark:text-gray-500 group-hover:text-indigo-500" />
                                         </div>
@@ -145,6 +176,13 @@ const LessonsPage: React.FC = () => {
                                         </div>
                                     )}
                                     
+                                    {progressByLesson[lesson.id]?.completed && (
+                                        <div className="absolute top-2 left-2 bg-green-500 text-white px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1">
+                                            <CheckCircle className="w-3 h-3" />
+                                            Tamamlandı
+                                        </div>
+                                    )}
+
                                     {/* Interactive Questions Badge */}
                                     {lesson.interactive_questions && lesson.interactive_questions.length > 0 && (
                                         <div className="absolute top-2 right-2 bg-indigo-500 text-white px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1">
@@ -172,16 +210,31 @@ const LessonsPage: React.FC = () => {
                                                 }
                                             </span>
                                         </div>
-                                        {lesson.youtube_link && (
+                                        {lesson.video_url && (
                                             <div className="flex items-center gap-1">
                                                 <Play className="w-3 h-3" />
                                                 <span>Video</span>
                                             </div>
                                         )}
                                     </div>
+
+                                    {progressByLesson[lesson.id] && (
+                                        <div className="mt-3">
+                                            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                                                <span>İlerleme</span>
+                                                <span>%{progressByLesson[lesson.id].percent}</span>
+                                            </div>
+                                            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5">
+                                                <div
+                                                    className={`h-1.5 rounded-full ${progressByLesson[lesson.id].completed ? 'bg-green-500' : 'bg-indigo-600'}`}
+                                                    style={{ width: `${progressByLesson[lesson.id].percent}%` }}
+                                                />
+                                            </div>
+                                        </div>
+                                    )}
                                 </div>
                                 <div className="bg-gray-50 dark:bg-gray-700/50 px-5 py-3 text-sm font-medium text-indigo-700 dark:text-indigo-300 mt-auto group-hover:bg-indigo-50 dark:group-hover:bg-indigo-900/50 transition-colors">
-                                    Dersi İzle →
+                                    {progressByLesson[lesson.id] && !progressByLesson[lesson.id].completed ? 'Devam Et →' : 'Dersi İzle →'}
                                 </div>
                             </Link>
                         ))}
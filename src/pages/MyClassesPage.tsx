@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Users, LogIn, BookOpen, ClipboardList, CheckCircle, Clock, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { assignmentService, classService } from '../lib/classes';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import { Assignment, AssignmentSubmission, Classroom } from '../types';
+
+interface ClassWithAssignments {
+  classroom: Classroom;
+  assignments: Assignment[];
+  submissions: AssignmentSubmission[];
+}
+
+const MyClassesPage: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [classes, setClasses] = useState<ClassWithAssignments[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [joinCode, setJoinCode] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+
+  const fetchClasses = useCallback(async () => {
+    if (!currentUser) return;
+    try {
+      const joined = await classService.getStudentClasses(currentUser.uid);
+      setClasses(await Promise.all(joined.map(async (classroom) => {
+        const [assignments, submissions] = await Promise.all([
+          assignmentService.getAssignments(classroom.id),
+          assignmentService.getUserSubmissions(classroom.id, currentUser.uid),
+        ]);
+        return { classroom, assignments, submissions };
+      })));
+    } catch (error) {
+      console.error('Error fetching classes:', error);
+      toast.error('Sınıflar yüklenirken hata oluştu');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    fetchClasses();
+  }, [fetchClasses]);
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !joinCode.trim()) return;
+
+    setIsJoining(true);
+    try {
+      await classService.joinClass(joinCode);
+      setJoinCode('');
+      toast.success('Sınıfa katıldın!');
+      await fetchClasses();
+    } catch (error) {
+      console.error('Error joining class:', error);
+      toast.error(error instanceof Error ? error.message : 'Sınıfa katılınamadı.');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const handleLeave = async (classroom: Classroom) => {
+    if (!currentUser || !window.confirm(`${classroom.name} sınıfından ayrılmak istiyor musun?`)) return;
+    try {
+      await classService.removeStudent(classroom.id, currentUser.uid);
+      setClasses(prev => prev.filter(item => item.classroom.id !== classroom.id));
+    } catch (error) {
+      console.error('Error leaving class:', error);
+      toast.error('Sınıftan ayrılınamadı.');
+    }
+  };
+
+  const getStatus = (assignment: Assignment, submissions: AssignmentSubmission[]) => {
+    const submission = submissions.find(item => item.assignmentId === assignment.id);
+    if (submission) {
+      return { label: submission.score !== undefined ? `Tamamlandı • ${submission.score} puan` : 'Tamamlandı', icon: CheckCircle, className: 'text-green-600 dark:text-green-400' };
+    }
+    if (assignment.dueDate < new Date()) {
+      return { label: 'Gecikti', icon: AlertCircle, className: 'text-red-500' };
+    }
+    return { label: 'Bekliyor', icon: Clock, className: 'text-yellow-600 dark:text-yellow-400' };
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="text-center mb-8">
+        <div className="inline-block p-3 bg-indigo-100 dark:bg-indigo-900/30 rounded-2xl mb-4">
+          <Users className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Sınıflarım</h1>
+        <p className="text-lg text-gray-600 dark:text-gray-400">
+          Öğretmeninin verdiği kodla sınıfa katıl, ödevlerini buradan takip et
+        </p>
+      </div>
+
+      <form onSubmit={handleJoin} className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 mb-8 flex gap-3">
+        <input
+          type="text"
+          value={joinCode}
+          onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+          placeholder="Katılma kodu (örn: K7M2QX)"
+          maxLength={6}
+          className="flex-1 px-4 py-3 border rounded-lg font-mono tracking-widest dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={isJoining || !joinCode.trim()}
+          className="flex items-center bg-indigo-600 text-white px-6 py-3 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 font-bold"
+        >
+          <LogIn className="w-5 h-5 mr-2" /> Katıl
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="text-center py-10"><LoadingSpinner size="lg" /></div>
+      ) : classes.length === 0 ? (
+        <p className="text-center py-10 text-gray-500 dark:text-gray-400">Henüz bir sınıfa katılmadın.</p>
+      ) : (
+        <div className="space-y-6">
+          {classes.map(({ classroom, assignments, submissions }) => (
+            <section key={classroom.id} className="bg-white dark:bg-gray-800 rounded-2xl shadow p-6">
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{classroom.name}</h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Öğretmen: {classroom.teacherName}</p>
+                </div>
+                <button onClick={() => handleLeave(classroom)} className="text-sm text-red-500 font-medium">
+                  Ayrıl
+                </button>
+              </div>
+              {assignments.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Bu sınıfta henüz ödev yok.</p>
+              ) : (
+                <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {assignments.map(assignment => {
+                    const status = getStatus(assignment, submissions);
+                    const link = assignment.type === 'lesson'
+                      ? `/dashboard/lessons/${assignment.targetId}`
+                      : `/dashboard/quiz/${assignment.targetId}`;
+                    return (
+                      <Link key={assignment.id} to={link} className="flex items-center justify-between py-3 gap-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg px-2">
+                        <div className="flex items-center gap-3 min-w-0">
+                          {assignment.type === 'lesson'
+                            ? <BookOpen className="w-5 h-5 text-indigo-500 flex-shrink-0" />
+                            : <ClipboardList className="w-5 h-5 text-green-500 flex-shrink-0" />}
+                          <div className="min-w-0">
+                            <p className="font-medium text-gray-900 dark:text-white truncate">{assignment.title}</p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">Son gün: {assignment.dueDate.toLocaleDateString('tr-TR')}</p>
+                          </div>
+                        </div>
+                        <span className={`flex items-center text-sm font-medium ${status.className}`}>
+                          <status.icon className="w-4 h-4 mr-1" /> {status.label}
+                        </span>
+                      </Link>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyClassesPage;
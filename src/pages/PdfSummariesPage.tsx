@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { FileText, Upload, Sparkles, Loader, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { MAX_PDF_SIZE, pdfSummaryService } from '../lib/pdfSummaries';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import { PDFSummary } from '../types';
+
+const inputClass = 'w-full px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const PdfSummariesPage: React.FC = () => {
+  const { currentUser } = useAuth();
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [summaries, setSummaries] = useState<PDFSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [isSummarizing, setIsSummarizing] = useState(false);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const fetchSummaries = async () => {
+      try {
+        setSummaries(await pdfSummaryService.getSummaries(currentUser.uid));
+      } catch (error) {
+        console.error('Error fetching PDF summaries:', error);
+        toast.error('Özetler yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSummaries();
+  }, [currentUser]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    if (selected.type !== 'application/pdf') {
+      toast.error('Lütfen bir PDF dosyası seçin.');
+      return;
+    }
+    if (selected.size > MAX_PDF_SIZE) {
+      toast.error('PDF dosyası en fazla 20MB olabilir.');
+      return;
+    }
+    setFile(selected);
+    if (!title) setTitle(selected.name.replace(/\.pdf$/i, ''));
+  };
+
+  const clearFile = () => {
+    setFile(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleSummarize = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !file) {
+      toast.error('Önce bir PDF yükleyin.');
+      return;
+    }
+
+    setIsSummarizing(true);
+    const toastId = toast.loading('PDF okunuyor ve özetleniyor... Uzun belgeler birkaç dakika sürebilir.');
+    try {
+      const summary = await pdfSummaryService.summarizePdf(currentUser.uid, file, title.trim() || file.name, instructions.trim() || undefined);
+      toast.success('Özet hazır!', { id: toastId });
+      navigate(`/dashboard/pdf-summaries/${summary.id}`);
+    } catch (error) {
+      console.error('PDF summary failed:', error);
+      toast.error(error instanceof Error ? error.message : 'PDF özetlenemedi.', { id: toastId });
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="text-center mb-8">
+        <div className="inline-block p-3 bg-indigo-100 dark:bg-indigo-900/30 rounded-2xl mb-4">
+          <FileText className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">PDF Özetle</h1>
+        <p className="text-lg text-gray-600 dark:text-gray-400">
+          Ders notlarını yükle, AI senin için düzenli bir özet PDF'i hazırlasın
+        </p>
+      </div>
+
+      <form onSubmit={handleSummarize} className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 mb-8 space-y-4">
+        <input ref={fileInputRef} type="file" accept="application/pdf" onChange={handleFileChange} className="hidden" />
+        {file ? (
+          <div className="flex items-center justify-between p-4 bg-indigo-50 dark:bg-indigo-900/30 rounded-lg">
+            <div className="flex items-center gap-3">
+              <FileText className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+              <div>
+                <p className="font-medium text-gray-900 dark:text-white">{file.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{(file.size / 1024 / 1024).toFixed(1)} MB</p>
+              </div>
+            </div>
+            <button type="button" onClick={clearFile} disabled={isSummarizing} className="p-2 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-lg">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl p-8 text-center hover:border-indigo-400 transition-colors"
+          >
+            <Upload className="w-8 h-8 mx-auto mb-2 text-gray-400" />
+            <p className="font-medium text-gray-900 dark:text-white">PDF dosyanı seç</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">En fazla 20MB</p>
+          </button>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="summaryTitle" className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Başlık</label>
+            <input id="summaryTitle" type="text" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Örn: Hücre Bölünmesi Notlarım" className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="summaryInstructions" className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Odak (isteğe bağlı)</label>
+            <input id="summaryInstructions" type="text" value={instructions} onChange={(e) => setInstructions(e.target.value)} placeholder="Örn: Formüllere ağırlık ver" className={inputClass} />
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSummarizing || !file}
+          className="w-full flex items-center justify-center bg-indigo-600 text-white px-6 py-3 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 transition-colors font-bold"
+        >
+          {isSummarizing ? <><Loader className="animate-spin mr-3" /> Özetleniyor...</> : <><Sparkles className="w-5 h-5 mr-3" /> Özetle</>}
+        </button>
+      </form>
+
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Özetlerim</h2>
+      {loading ? (
+        <div className="text-center py-10"><LoadingSpinner size="lg" /></div>
+      ) : summaries.length === 0 ? (
+        <p className="text-center py-10 text-gray-500 dark:text-gray-400">Henüz özet oluşturmadın.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {summaries.map(summary => (
+            <Link
+              key={summary.id}
+              to={`/dashboard/pdf-summaries/${summary.id}`}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow hover:shadow-lg transition-shadow p-5 flex items-center gap-4"
+            >
+              <div className="p-3 bg-indigo-100 dark:bg-indigo-900/30 rounded-lg">
+                <FileText className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+              </div>
+              <div className="min-w-0">
+                <h3 className="font-semibold text-gray-900 dark:text-white truncate">{summary.title}</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {summary.pageCount} sayfa • {summary.createdAt.toLocaleDateString('tr-TR')}
+                </p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PdfSummariesPage;
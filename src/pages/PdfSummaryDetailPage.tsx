@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Download, FileText, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { pdfSummaryService } from '../lib/pdfSummaries';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import MarkdownContent from '../components/Common/MarkdownContent';
+import { PDFSummary } from '../types';
+
+const PdfSummaryDetailPage: React.FC = () => {
+  const { summaryId } = useParams<{ summaryId: string }>();
+  const navigate = useNavigate();
+  const [summary, setSummary] = useState<PDFSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!summaryId) return;
+    const fetchSummary = async () => {
+      try {
+        const data = await pdfSummaryService.getSummary(summaryId);
+        if (!data) {
+          toast.error('Özet bulunamadı.');
+          navigate('/dashboard/pdf-summaries');
+          return;
+        }
+        setSummary(data);
+      } catch (error) {
+        console.error('Error fetching PDF summary:', error);
+        toast.error('Özet yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSummary();
+  }, [summaryId, navigate]);
+
+  const handleDelete = async () => {
+    if (!summary || !window.confirm('Bu özet ve yüklediğin PDF silinsin mi?')) return;
+    try {
+      await pdfSummaryService.deleteSummary(summary);
+      toast.success('Özet silindi.');
+      navigate('/dashboard/pdf-summaries');
+    } catch (error) {
+      console.error('Error deleting PDF summary:', error);
+      toast.error('Özet silinemedi.');
+    }
+  };
+
+  if (loading) {
+    return <div className="flex justify-center items-center py-20"><LoadingSpinner size="lg" /></div>;
+  }
+
+  if (!summary) return null;
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <button onClick={() => navigate('/dashboard/pdf-summaries')} className="flex items-center text-indigo-600 dark:text-indigo-400 mb-4 font-medium">
+        <ArrowLeft className="w-4 h-4 mr-2" /> Özetlerim
+      </button>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{summary.title}</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {summary.pageCount} sayfa • {summary.createdAt.toLocaleDateString('tr-TR')}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <a
+            href={summary.summaryPdfUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            download
+            className="flex items-center bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-semibold"
+          >
+            <Download className="w-4 h-4 mr-2" /> Özeti İndir
+          </a>
+          <a
+            href={summary.originalPdfUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-4 py-2 rounded-lg text-sm font-semibold"
+          >
+            <FileText className="w-4 h-4 mr-2" /> Orijinal PDF
+          </a>
+          <button onClick={handleDelete} className="flex items-center text-red-500 px-3 py-2 rounded-lg text-sm font-semibold hover:bg-red-50 dark:hover:bg-red-900/30">
+            <Trash2 className="w-4 h-4 mr-1" /> Sil
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 p-8 rounded-2xl shadow-lg">
+        <MarkdownContent content={summary.summaryText} className="prose-lg" />
+      </div>
+    </div>
+  );
+};
+
+export default PdfSummaryDetailPage;
@@ -1,14 +1,102 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import { Award, Flame, Star, Zap } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { ACHIEVEMENTS, AchievementProgress, achievementService, rewardUnlocked } from '../lib/achievements';
+import { getLevelProgress, XP_SOURCE_LABELS, xpService } from '../lib/xp';
+import AchievementGallery from '../components/Achievements/AchievementGallery';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import { XpEvent } from '../types';
 
 const ProfilePage: React.FC = () => {
+    const { currentUser, userData } = useAuth();
+    const [progress, setProgress] = useState<AchievementProgress | null>(null);
+    const [xpEvents, setXpEvents] = useState<XpEvent[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        if (!currentUser) return;
+        const fetchProgress = async () => {
+            try {
+                // Rozet sisteminden önceki aktiviteler de sayılsın
+                rewardUnlocked(await achievementService.sync());
+                const [achievementProgress, events] = await Promise.all([
+                    achievementService.getProgress(currentUser.uid),
+                    xpService.getEvents(currentUser.uid, 10),
+                ]);
+                setProgress(achievementProgress);
+                setXpEvents(events);
+            } catch (error) {
+                console.error('Error fetching achievements:', error);
+                toast.error('Rozetler yüklenirken hata oluştu');
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchProgress();
+    }, [currentUser]);
+
+    const unlockedCount = progress ? Object.keys(progress.unlocked).length : 0;
+    const levelProgress = getLevelProgress(userData?.xp ?? 0);
+    const stats = [
+        { label: 'Seviye', value: userData?.level ?? 1, icon: Star, color: 'text-indigo-500' },
+        { label: 'Toplam XP', value: userData?.xp ?? 0, icon: Zap, color: 'text-yellow-500' },
+        { label: 'Günlük Seri', value: userData?.streak ?? 0, icon: Flame, color: 'text-orange-500' },
+        { label: 'Rozetler', value: `${unlockedCount}/${ACHIEVEMENTS.length}`, icon: Award, color: 'text-green-500' },
+    ];
+
     return (
-        <div>
-            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Profilim</h1>
-            <p className="mt-2 text-gray-600 dark:text-gray-400">
-                Bu sayfa yapım aşamasındadır. Yakında burada profil bilgilerinizi düzenleyebileceksiniz.
-            </p>
+        <div className="max-w-5xl mx-auto">
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg mb-8">
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{userData?.name || 'Profilim'}</h1>
+                <p className="text-gray-600 dark:text-gray-400">{userData?.email}</p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+                    {stats.map(stat => (
+                        <div key={stat.label} className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-4 flex items-center gap-3">
+                            <stat.icon className={`w-6 h-6 ${stat.color}`} />
+                            <div>
+                                <p className="text-xl font-bold text-gray-900 dark:text-white">{stat.value}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+                <div className="mt-6">
+                    <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+                        <span>Seviye {(userData?.level ?? 1) + 1} için</span>
+                        <span>{levelProgress.current}/{levelProgress.needed} XP</span>
+                    </div>
+                    <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                        <div className="h-full bg-indigo-500" style={{ width: `${levelProgress.percent}%` }} />
+                    </div>
+                </div>
+            </div>
+
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Rozetlerim</h2>
+            {loading ? (
+                <div className="text-center py-10"><LoadingSpinner size="lg" /></div>
+            ) : (
+                <AchievementGallery stats={progress?.stats ?? {}} unlocked={progress?.unlocked ?? {}} />
+            )}
+
+            {xpEvents.length > 0 && (
+                <>
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white mt-8 mb-4">Son XP Kazanımları</h2>
+                    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow divide-y divide-gray-100 dark:divide-gray-700">
+                        {xpEvents.map(event => (
+                            <div key={event.id} className="flex items-center justify-between px-5 py-3">
+                                <div>
+                                    <p className="font-medium text-gray-900 dark:text-white">{XP_SOURCE_LABELS[event.source]}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">{event.createdAt.toLocaleString('tr-TR')}</p>
+                                </div>
+                                <span className="font-semibold text-yellow-600 dark:text-yellow-400">+{event.amount} XP</span>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
         </div>
     );
 };
 
-export default ProfilePage; 
\ No newline at end of file
+export default ProfilePage;
\ No newline at end of file
@@ -1,11 +1,15 @@
 import React, { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Camera, Upload, Brain, Loader, CheckCircle, X } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Camera, Upload, Brain, Loader, X, History } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { analyzeImage } from '../lib/gemini';
+import { solveQuestionFromImage } from '../lib/gemini';
 import { useAuth } from '../contexts/AuthContext';
-import { doc, updateDoc, increment, getDoc } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { solvedQuestionService } from '../lib/solvedQuestions';
+import { trackActivity } from '../lib/achievements';
+import { notifyXp, xpService } from '../lib/xp';
+import SolutionView from '../components/QuestionSolver/SolutionView';
+import { QuestionSolution } from '../types';
 
 const QuestionSolver: React.FC = () => {
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
@@ -13,7 +17,7 @@ const QuestionSolver: React.FC = () => {
   const [imageBase64, setImageBase64] = useState<string | null>(null);
   const [mimeType, setMimeType] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [solution, setSolution] = useState<any>(null);
+  const [solution, setSolution] = useState<QuestionSolution | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { currentUser } = useAuth();
 
@@ -41,45 +45,6 @@ const QuestionSolver: React.FC = () => {
     }
   };
 
-  const addXP = async () => {
-    if (!currentUser) return;
-    
-    try {
-      const userRef = doc(db, 'users', currentUser.uid);
-      
-      // Mevcut kullanıcı verilerini al
-      const userDoc = await getDoc(userRef);
-      if (!userDoc.exists()) return;
-      
-      const currentXP = userDoc.data().xp || 0;
-      const currentLevel = userDoc.data().level || 1;
-      const currentStreak = userDoc.data().streak || 0;
-      
-      // Streak bonus hesapla (her streak günü için +2 XP)
-      const streakBonus = Math.min(currentStreak * 2, 20); // Max 20 XP streak bonus
-      const totalXP = 15 + streakBonus;
-      const newXP = currentXP + totalXP;
-      
-      // Yeni seviye hesapla (her 200 XP'de 1 seviye)
-      const newLevel = Math.floor(newXP / 200) + 1;
-      const levelUp = newLevel > currentLevel;
-      
-      // XP ve seviyeyi güncelle
-      await updateDoc(userRef, {
-        xp: newXP,
-        level: newLevel
-      });
-      
-      if (levelUp) {
-        toast.success(`+${totalXP} XP kazandınız! 🎉 Seviye ${currentLevel}'den ${newLevel}'ye yükseldiniz! 🚀`);
-      } else {
-        toast.success(`+${totalXP} XP kazandınız! 🎉 (${streakBonus > 0 ? `+${streakBonus} streak bonus` : ''})`);
-      }
-    } catch (error) {
-      console.error('XP eklenirken hata:', error);
-    }
-  };
-
   const analyzeProblem = async () => {
     if (!imageBase64 || !mimeType) {
       toast.error('Önce bir soru resmi yükleyin');
@@ -91,54 +56,25 @@ const QuestionSolver: React.FC = () => {
     const toastId = toast.loading('Soru analiz ediliyor...');
 
     try {
-      const prompt = `You are an expert in solving academic problems from images. Analyze the following image and solve the problem.
-Provide the solution in a structured JSON format. Do not include any text outside of the JSON object.
-The JSON object must follow this TypeScript interface:
-interface Solution {
-  problemText: string; // A brief description of the problem identified from the image.
-  subject: string; // The academic subject (e.g., "Matematik", "Fizik", "Kimya").
-  difficulty: string; // The estimated difficulty (e.g., "Kolay", "Orta", "Zor").
-  steps: string[]; // An array of strings, where each string is a step in the solution process.
-  finalAnswer: string; // The final answer to the problem.
-}
-Your entire response must be ONLY the JSON object. Do not wrap it in markdown backticks.
-Çözüm adımlarının en altına 'Sonuç = ...' şeklinde bir ibare ekle.`;
-
-      const responseText = await analyzeImage(prompt, imageBase64, mimeType);
+      const solved = await solveQuestionFromImage(imageBase64, mimeType);
+      setSolution(solved);
+      toast.success('Soru başarıyla çözüldü!');
 
-      if (!responseText) {
-        throw new Error("API'den boş yanıt alındı.");
-      }
-      
-      let parsedResponse: any;
-      try {
-        parsedResponse = JSON.parse(responseText);
-      } catch (e) {
-        // If it fails, try to extract from markdown
-        const match = responseText.match(/```json\n([\s\S]*?)\n```/);
-        if (match && match[1]) {
-          parsedResponse = JSON.parse(match[1]);
-        } else {
-          // Fallback: create a mock response for demonstration
-          parsedResponse = {
-            problemText: "Matematik problemi",
-            subject: "Matematik",
-            difficulty: "Orta",
-            steps: [
-              "1. Problemi analiz et",
-              "2. Gerekli formülleri uygula",
-              "3. Hesaplamaları yap",
-              "4. Sonucu kontrol et"
-            ],
-            finalAnswer: "Sonuç = [Hesaplanacak]"
-          };
-        }
+      // Çözümü görseliyle birlikte arşive kaydet; XP arşivlenen soru üzerinden verilir
+      if (currentUser && selectedImage) {
+        const userId = currentUser.uid;
+        solvedQuestionService.saveSolvedQuestion(userId, selectedImage, solved)
+          .then(saved => {
+            xpService.award('question_solved', saved.id)
+              .then(result => notifyXp(result))
+              .catch(error => console.error('XP eklenirken hata:', error))
+              .finally(trackActivity);
+          })
+          .catch(error => {
+            console.error('Error saving solved question:', error);
+            toast.error('Çözüm arşive kaydedilemedi.');
+          });
       }
-      setSolution(parsedResponse);
-      toast.success('Soru başarıyla çözüldü!');
-      
-      // XP kazan
-      await addXP();
     } catch (error: any) {
       // Rate limit hatası için özel mesaj
       if (error.message?.includes('429') || error.message?.includes('quota')) {
@@ -183,6 +119,12 @@ Your entire response must be ONLY the JSON object. Do not wrap it in markdown ba
           <p className="text-lg text-gray-600 dark:text-gray-400">
             Sorunun fotoğrafını çek veya yükle, adım adım çözümü al
           </p>
+          <Link
+            to="/dashboard/solved-questions"
+            className="inline-flex items-center mt-4 text-primary-600 dark:text-primary-400 font-medium hover:underline"
+          >
+            <History className="w-4 h-4 mr-2" /> Çözdüğüm Sorular
+          </Link>
         </motion.div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -302,88 +244,7 @@ Your entire response must be ONLY the JSON object. Do not wrap it in markdown ba
               </div>
             )}
 
-            {solution && (
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="space-y-6"
-              >
-                {/* Problem Info */}
-                <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                  <div className="flex items-center space-x-2 mb-2">
-                    <CheckCircle className="w-5 h-5 text-green-600" />
-                    <span className="font-medium text-gray-900 dark:text-white">
-                      Tanımlanan Problem
-                    </span>
-                  </div>
-                  <p className="text-gray-700 dark:text-gray-300 mb-2">
-                    {solution.problemText}
-                  </p>
-                  <div className="flex space-x-4 text-sm">
-                    <span className="px-2 py-1 bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 rounded">
-                      {solution.subject}
-                    </span>
-                    <span className="px-2 py-1 bg-secondary-100 dark:bg-secondary-900/30 text-secondary-700 dark:text-secondary-300 rounded">
-                      {solution.difficulty}
-                    </span>
-                  </div>
-                </div>
-
-                {/* Solution Steps */}
-                <div>
-                  <h3 className="font-semibold text-gray-900 dark:text-white mb-3">
-                    Çözüm Adımları
-                  </h3>
-                  <div className="space-y-2">
-                    {solution.steps.map((step: string, index: number) => (
-                      <motion.div
-                        key={index}
-                        initial={{ opacity: 0, x: -20 }}
-                        animate={{ opacity: 1, x: 0 }}
-                        transition={{ delay: index * 0.1 }}
-                        className="flex items-center space-x-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
-                      >
-                        <div className="w-6 h-6 bg-primary-600 text-white rounded-full flex items-center justify-center text-sm font-medium">
-                          {index + 1}
-                        </div>
-                        <span className="font-mono text-gray-900 dark:text-white">
-                          {step}
-                        </span>
-                      </motion.div>
-                    ))}
-                  </div>
-                </div>
-
-                {/* Explanation */}
-                {solution.explanation && (
-                  <div>
-                    <h3 className="font-semibold text-gray-900 dark:text-white mb-3">
-                      Açıklama
-                    </h3>
-                    <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
-                      {solution.explanation}
-                    </p>
-                  </div>
-                )}
-
-                {/* Tips */}
-                {solution.tips && (
-                  <div>
-                    <h3 className="font-semibold text-gray-900 dark:text-white mb-3">
-                      İpuçları
-                    </h3>
-                    <ul className="space-y-2">
-                      {solution.tips.map((tip: string, index: number) => (
-                        <li key={index} className="flex items-start space-x-2">
-                          <div className="w-2 h-2 bg-accent-500 rounded-full mt-2 flex-shrink-0" />
-                          <span className="text-gray-700 dark:text-gray-300">{tip}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
-              </motion.div>
-            )}
+            {solution && <SolutionView solution={solution} />}
           </motion.div>
         </div>
       </div>
@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ClipboardList, Sparkles, Loader, Clock, Trophy, Play } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { quizService, QuizDifficulty } from '../lib/quiz';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import { Question, Quiz, QuizAttempt } from '../types';
+
+const availableSubjects = [
+  'Matematik', 'Fizik', 'Kimya', 'Biyoloji',
+  'Türkçe', 'Edebiyat', 'Tarih', 'Coğrafya', 'Felsefe'
+];
+
+const difficultyOptions: { id: QuizDifficulty; title: string }[] = [
+  { id: 'easy', title: 'Kolay' },
+  { id: 'medium', title: 'Orta' },
+  { id: 'hard', title: 'Zor' },
+];
+
+const questionTypeOptions: { id: Question['type']; title: string }[] = [
+  { id: 'multiple-choice', title: 'Çoktan Seçmeli' },
+  { id: 'matching', title: 'Eşleştirme' },
+  { id: 'open-ended', title: 'Açık Uçlu' },
+];
+
+const questionCounts = [5, 10, 15];
+
+const QuizPage: React.FC = () => {
+  const { currentUser } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  // Çalışma planındaki test görevleri konu ve dersi adres üzerinden gönderir
+  const [topic, setTopic] = useState(() => searchParams.get('topic') || '');
+  const [subject, setSubject] = useState(() => {
+    const requested = searchParams.get('subject');
+    return requested && availableSubjects.includes(requested) ? requested : availableSubjects[0];
+  });
+  const [difficulty, setDifficulty] = useState<QuizDifficulty>('medium');
+  const [questionCount, setQuestionCount] = useState(5);
+  const [types, setTypes] = useState<Question['type'][]>(['multiple-choice']);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const fetchHistory = async () => {
+      try {
+        const [quizList, attemptList] = await Promise.all([
+          quizService.getUserQuizzes(currentUser.uid),
+          quizService.getUserAttempts(currentUser.uid),
+        ]);
+        setQuizzes(quizList);
+        setAttempts(attemptList);
+      } catch (error) {
+        console.error('Error fetching quizzes:', error);
+        toast.error('Testler yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchHistory();
+  }, [currentUser]);
+
+  const toggleType = (type: Question['type']) => {
+    setTypes(prev => prev.includes(type)
+      ? (prev.length > 1 ? prev.filter(t => t !== type) : prev)
+      : [...prev, type]);
+  };
+
+  const handleGenerate = async () => {
+    if (!currentUser) return;
+    if (!topic.trim()) {
+      toast.error('Lütfen bir konu girin.');
+      return;
+    }
+
+    setIsGenerating(true);
+    const toastId = toast.loading('AI testini hazırlıyor...');
+    try {
+      const quiz = await quizService.createQuiz({ topic, subject, difficulty, questionCount, types });
+      toast.success('Test hazır!', { id: toastId });
+      navigate(`/dashboard/quiz/${quiz.id}`);
+    } catch (error) {
+      console.error('Quiz generation failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Test oluşturulamadı.', { id: toastId });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const bestScore = (quizId: string) => {
+    const scores = attempts.filter(a => a.quizId === quizId).map(a => a.score);
+    return scores.length > 0 ? Math.max(...scores) : null;
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="text-center mb-8">
+        <div className="inline-block p-3 bg-indigo-100 dark:bg-indigo-900/30 rounded-2xl mb-4">
+          <ClipboardList className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Test Çöz</h1>
+        <p className="text-lg text-gray-600 dark:text-gray-400">
+          İstediğin konuda AI ile test oluştur, süreyle çöz ve XP kazan
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label htmlFor="quizTopic" className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Konu</label>
+            <input
+              id="quizTopic"
+              type="text"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              placeholder="Örn: Türev, Hücre Bölünmesi, Osmanlı Kuruluş Dönemi..."
+              className="w-full px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="quizSubject" className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Ders</label>
+            <select
+              id="quizSubject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              className="w-full px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {availableSubjects.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+          <div>
+            <span className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Zorluk</span>
+            <div className="flex gap-2">
+              {difficultyOptions.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => setDifficulty(option.id)}
+                  className={`flex-1 px-3 py-2 rounded-lg border-2 text-sm font-medium transition-colors ${difficulty === option.id ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300'}`}
+                >
+                  {option.title}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <span className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Soru Sayısı</span>
+            <div className="flex gap-2">
+              {questionCounts.map(count => (
+                <button
+                  key={count}
+                  type="button"
+                  onClick={() => setQuestionCount(count)}
+                  className={`flex-1 px-3 py-2 rounded-lg border-2 text-sm font-medium transition-colors ${questionCount === count ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300'}`}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <span className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Soru Tipleri</span>
+            <div className="flex flex-wrap gap-2">
+              {questionTypeOptions.map(option => (
+                <label key={option.id} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={types.includes(option.id)}
+                    onChange={() => toggleType(option.id)}
+                    className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>{option.title}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="w-full mt-6 flex items-center justify-center bg-indigo-600 text-white px-6 py-3 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 transition-colors font-bold"
+        >
+          {isGenerating ? <><Loader className="animate-spin mr-3" /> Hazırlanıyor...</> : <><Sparkles className="w-5 h-5 mr-3" /> Test Oluştur</>}
+        </button>
+      </div>
+
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Testlerim</h2>
+      {loading ? (
+        <div className="text-center py-10"><LoadingSpinner size="lg" /></div>
+      ) : quizzes.length === 0 ? (
+        <p className="text-center py-10 text-gray-500 dark:text-gray-400">Henüz test oluşturmadın.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {quizzes.map(quiz => {
+            const best = bestScore(quiz.id);
+            return (
+              <div key={quiz.id} className="bg-white dark:bg-gray-800 rounded-xl shadow p-5 flex items-center justify-between">
+                <div>
+                  <h3 className="font-semibold text-gray-900 dark:text-white">{quiz.topic}</h3>
+                  <div className="flex items-center gap-3 text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    <span>{quiz.subject}</span>
+                    <span>•</span>
+                    <span>{quiz.questions.length} soru</span>
+                    <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{Math.round(quiz.timeLimitSeconds / 60)} dk</span>
+                    {best !== null && <span className="flex items-center gap-1 text-yellow-600"><Trophy className="w-3 h-3" />%{best}</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => navigate(`/dashboard/quiz/${quiz.id}`)}
+                  className="flex items-center px-4 py-2 bg-indigo-500 hover:bg-indigo-600 text-white font-semibold rounded-lg text-sm"
+                >
+                  <Play className="w-4 h-4 mr-2" />
+                  {best !== null ? 'Tekrar Çöz' : 'Başla'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizPage;
@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, Clock, Send, RotateCcw, Trophy } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { quizService } from '../lib/quiz';
+import { trackActivity } from '../lib/achievements';
+import { assignmentService } from '../lib/classes';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import QuestionCard from '../components/Quiz/QuestionCard';
+import { Quiz, QuizAnswer, QuizAttempt } from '../types';
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const QuizTakePage: React.FC = () => {
+  const { quizId } = useParams<{ quizId: string }>();
+  const { currentUser } = useAuth();
+  const navigate = useNavigate();
+
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [timeLeft, setTimeLeft] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const startedAt = useRef(Date.now());
+  const timeoutHandled = useRef(false);
+
+  useEffect(() => {
+    if (!quizId) return;
+    const fetchQuiz = async () => {
+      try {
+        const quizData = await quizService.getQuizById(quizId);
+        if (!quizData) {
+          toast.error('Test bulunamadı.');
+          navigate('/dashboard/quiz');
+          return;
+        }
+        setQuiz(quizData);
+        setTimeLeft(quizData.timeLimitSeconds);
+        startedAt.current = Date.now();
+      } catch (error) {
+        console.error('Error fetching quiz:', error);
+        toast.error('Test yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchQuiz();
+  }, [quizId, navigate]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!quiz || !currentUser || isSubmitting || attempt) return;
+
+    setIsSubmitting(true);
+    try {
+      const durationSeconds = Math.round((Date.now() - startedAt.current) / 1000);
+      const { attempt: saved, quiz: reviewed, leveledUpTo } = await quizService.submitAttempt(quiz, currentUser.uid, answers, durationSeconds);
+      setQuiz(reviewed);
+      setAttempt(saved);
+      if (leveledUpTo) {
+        toast.success(`+${saved.xpEarned} XP kazandınız! 🎉 Seviye ${leveledUpTo}'e yükseldiniz! 🚀`);
+      } else if (saved.xpEarned > 0) {
+        toast.success(`+${saved.xpEarned} XP kazandınız! 🎉`);
+      }
+      trackActivity();
+      assignmentService.recordCompletion(currentUser.uid, 'quiz', quiz.id, saved.score)
+        .catch(error => console.error('Error recording assignment completion:', error));
+    } catch (error) {
+      console.error('Error submitting quiz:', error);
+      toast.error('Test gönderilirken bir hata oluştu.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [quiz, currentUser, answers, isSubmitting, attempt]);
+
+  // Geri sayım; süre bitince test otomatik gönderilir
+  useEffect(() => {
+    if (!quiz || attempt) return;
+    if (timeLeft <= 0) {
+      if (!timeoutHandled.current) {
+        timeoutHandled.current = true;
+        toast('Süre doldu! Test gönderiliyor.', { icon: '⏰' });
+        handleSubmit();
+      }
+      return;
+    }
+    const timer = setTimeout(() => setTimeLeft(t => t - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [quiz, attempt, timeLeft, handleSubmit]);
+
+  const restart = () => {
+    if (!quiz) return;
+    setAnswers({});
+    setAttempt(null);
+    setCurrentIndex(0);
+    setTimeLeft(quiz.timeLimitSeconds);
+    startedAt.current = Date.now();
+    timeoutHandled.current = false;
+  };
+
+  if (loading) {
+    return <div className="flex justify-center items-center py-20"><LoadingSpinner size="lg" /></div>;
+  }
+
+  if (!quiz) {
+    return <div className="text-center p-8 text-gray-600 dark:text-gray-400">Test yüklenemedi.</div>;
+  }
+
+  if (attempt) {
+    return (
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="bg-gradient-to-r from-indigo-600 to-purple-600 rounded-2xl p-8 text-white text-center">
+          <Trophy className="w-12 h-12 mx-auto mb-4 text-yellow-300" />
+          <h1 className="text-3xl font-bold mb-2">%{attempt.score}</h1>
+          <p className="text-indigo-100">
+            {attempt.correctCount} / {attempt.totalQuestions} doğru • {formatTime(attempt.durationSeconds)} • +{attempt.xpEarned} XP
+          </p>
+          <div className="flex justify-center gap-4 mt-6">
+            <button onClick={restart} className="flex items-center bg-white text-indigo-600 px-5 py-2 rounded-lg font-semibold hover:bg-gray-100">
+              <RotateCcw className="w-4 h-4 mr-2" /> Tekrar Çöz
+            </button>
+            <button onClick={() => navigate('/dashboard/quiz')} className="border-2 border-white px-5 py-2 rounded-lg font-semibold hover:bg-white/10">
+              Testlere Dön
+            </button>
+          </div>
+        </div>
+        {quiz.questions.map((question, index) => (
+          <QuestionCard
+            key={question.id}
+            question={question}
+            index={index}
+            answer={attempt.answers[question.id]}
+            onChange={() => undefined}
+            isCorrect={attempt.results[question.id]}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  const question = quiz.questions[currentIndex];
+  const answeredCount = quiz.questions.filter(q => answers[q.id] !== undefined && answers[q.id] !== '').length;
+  const isLast = currentIndex === quiz.questions.length - 1;
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{quiz.topic}</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">{quiz.subject} • {answeredCount}/{quiz.questions.length} cevaplandı</p>
+        </div>
+        <div className={`flex items-center gap-2 px-4 py-2 rounded-lg font-mono text-lg ${timeLeft < 60 ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300'}`}>
+          <Clock className="w-5 h-5" />
+          {formatTime(Math.max(timeLeft, 0))}
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-6 flex-wrap">
+        {quiz.questions.map((q, index) => (
+          <button
+            key={q.id}
+            onClick={() => setCurrentIndex(index)}
+            className={`w-9 h-9 rounded-full text-sm font-semibold transition-colors ${
+              index === currentIndex
+                ? 'bg-indigo-600 text-white'
+                : answers[q.id] !== undefined && answers[q.id] !== ''
+                  ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/50 dark:text-indigo-300'
+                  : 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+            }`}
+          >
+            {index + 1}
+          </button>
+        ))}
+      </div>
+
+      <QuestionCard
+        question={question}
+        index={currentIndex}
+        answer={answers[question.id]}
+        onChange={(answer) => setAnswers(prev => ({ ...prev, [question.id]: answer }))}
+      />
+
+      <div className="flex justify-between mt-6">
+        <button
+          onClick={() => setCurrentIndex(i => i - 1)}
+          disabled={currentIndex === 0}
+          className="flex items-center px-5 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg font-semibold disabled:opacity-50"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" /> Önceki
+        </button>
+        {isLast ? (
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="flex items-center px-5 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold disabled:bg-green-400"
+          >
+            {isSubmitting ? <LoadingSpinner size="sm" /> : <><Send className="w-4 h-4 mr-2" /> Testi Bitir</>}
+          </button>
+        ) : (
+          <button
+            onClick={() => setCurrentIndex(i => i + 1)}
+            className="flex items-center px-5 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-semibold"
+          >
+            Sonraki <ArrowRight className="w-4 h-4 ml-2" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizTakePage;
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { solvedQuestionService } from '../lib/solvedQuestions';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import SolutionView from '../components/QuestionSolver/SolutionView';
+import { SolvedQuestion } from '../types';
+
+const SolvedQuestionDetailPage: React.FC = () => {
+  const { questionId } = useParams<{ questionId: string }>();
+  const { currentUser } = useAuth();
+  const navigate = useNavigate();
+  const [question, setQuestion] = useState<SolvedQuestion | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!questionId) return;
+    const fetchQuestion = async () => {
+      try {
+        const data = await solvedQuestionService.getSolvedQuestion(questionId);
+        if (!data) {
+          toast.error('Soru bulunamadı.');
+          navigate('/dashboard/solved-questions');
+          return;
+        }
+        setQuestion(data);
+      } catch (error) {
+        console.error('Error fetching solved question:', error);
+        toast.error('Soru yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchQuestion();
+  }, [questionId, navigate]);
+
+  const handleDelete = async () => {
+    if (!question || !window.confirm('Bu soru arşivden silinsin mi?')) return;
+    try {
+      await solvedQuestionService.deleteSolvedQuestion(question);
+      toast.success('Soru silindi.');
+      navigate('/dashboard/solved-questions');
+    } catch (error) {
+      console.error('Error deleting solved question:', error);
+      toast.error('Soru silinemedi.');
+    }
+  };
+
+  if (loading) {
+    return <div className="flex justify-center items-center py-20"><LoadingSpinner size="lg" /></div>;
+  }
+
+  if (!question) return null;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={() => navigate('/dashboard/solved-questions')} className="flex items-center text-indigo-600 dark:text-indigo-400 font-medium">
+          <ArrowLeft className="w-4 h-4 mr-2" /> Çözdüğüm Sorular
+        </button>
+        {question.userId === currentUser?.uid && (
+          <button onClick={handleDelete} className="flex items-center text-red-500 font-medium">
+            <Trash2 className="w-4 h-4 mr-2" /> Sil
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Soru Resmi</h2>
+          <img
+            src={question.imageUrl}
+            alt={question.solvedText}
+            className="w-full max-h-[32rem] object-contain rounded-lg border border-gray-200 dark:border-gray-600"
+          />
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-3">
+            {question.createdAt.toLocaleString('tr-TR')} tarihinde çözüldü
+          </p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Çözüm</h2>
+          <SolutionView
+            solution={{
+              problemText: question.solvedText,
+              subject: question.subject,
+              difficulty: question.difficulty,
+              steps: question.solutionSteps,
+              finalAnswer: question.finalAnswer,
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SolvedQuestionDetailPage;
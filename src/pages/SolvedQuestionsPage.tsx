@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { History, Search, Brain } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { filterSolvedQuestions, solvedQuestionService, SolvedQuestionFilters } from '../lib/solvedQuestions';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import { SolvedQuestion } from '../types';
+
+const selectClass = 'w-full p-2 border rounded-lg dark:bg-gray-800 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const SolvedQuestionsPage: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [questions, setQuestions] = useState<SolvedQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<SolvedQuestionFilters>({ subject: 'all', difficulty: 'all', search: '' });
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const fetchQuestions = async () => {
+      try {
+        setQuestions(await solvedQuestionService.getSolvedQuestions(currentUser.uid));
+      } catch (error) {
+        console.error('Error fetching solved questions:', error);
+        toast.error('Çözülen sorular yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchQuestions();
+  }, [currentUser]);
+
+  const subjects = useMemo(() => Array.from(new Set(questions.map(q => q.subject))).sort((a, b) => a.localeCompare(b, 'tr')), [questions]);
+  const difficulties = useMemo(() => Array.from(new Set(questions.map(q => q.difficulty))), [questions]);
+  const filteredQuestions = useMemo(() => filterSolvedQuestions(questions, filters), [questions, filters]);
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="text-center mb-8">
+        <div className="inline-block p-3 bg-indigo-100 dark:bg-indigo-900/30 rounded-2xl mb-4">
+          <History className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Çözdüğüm Sorular</h1>
+        <p className="text-lg text-gray-600 dark:text-gray-400">
+          AI ile çözdüğün tüm sorular ve adım adım çözümleri
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-xl shadow mb-8 grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="relative md:col-span-2">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => setFilters(f => ({ ...f, search: e.target.value }))}
+            placeholder="Soru, adım veya cevap içinde ara..."
+            className={`${selectClass} pl-9`}
+          />
+        </div>
+        <select value={filters.subject} onChange={(e) => setFilters(f => ({ ...f, subject: e.target.value }))} className={selectClass}>
+          <option value="all">Tüm Dersler</option>
+          {subjects.map(subject => <option key={subject} value={subject}>{subject}</option>)}
+        </select>
+        <select value={filters.difficulty} onChange={(e) => setFilters(f => ({ ...f, difficulty: e.target.value }))} className={selectClass}>
+          <option value="all">Tüm Zorluklar</option>
+          {difficulties.map(difficulty => <option key={difficulty} value={difficulty}>{difficulty}</option>)}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-10"><LoadingSpinner size="lg" /></div>
+      ) : questions.length === 0 ? (
+        <div className="text-center py-16">
+          <Brain className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400 mb-4">Henüz soru çözmedin.</p>
+          <Link to="/dashboard/question-solver" className="px-5 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-semibold">
+            Soru Çöz
+          </Link>
+        </div>
+      ) : filteredQuestions.length === 0 ? (
+        <p className="text-center py-10 text-gray-500 dark:text-gray-400">Aramana uygun soru bulunamadı.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filteredQuestions.map(question => (
+            <Link
+              key={question.id}
+              to={`/dashboard/solved-questions/${question.id}`}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow hover:shadow-lg transition-shadow overflow-hidden flex flex-col"
+            >
+              <img src={question.imageUrl} alt={question.solvedText} className="w-full h-40 object-cover bg-gray-100 dark:bg-gray-700" />
+              <div className="p-4 flex-1 flex flex-col">
+                <p className="text-gray-900 dark:text-white font-medium line-clamp-2 mb-3">{question.solvedText}</p>
+                <div className="flex items-center justify-between text-xs mt-auto">
+                  <div className="flex gap-2">
+                    <span className="px-2 py-1 bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 rounded">{question.subject}</span>
+                    <span className="px-2 py-1 bg-secondary-100 dark:bg-secondary-900/30 text-secondary-700 dark:text-secondary-300 rounded">{question.difficulty}</span>
+                  </div>
+                  <span className="text-gray-500 dark:text-gray-400">{question.createdAt.toLocaleDateString('tr-TR')}</span>
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SolvedQuestionsPage;
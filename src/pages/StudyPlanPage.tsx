@@ -0,0 +1,303 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, Sparkles, Loader, RefreshCw, Trash2, Target } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { studyPlanService } from '../lib/studyPlan';
+import { lessonService, Lesson } from '../lib/supabase';
+import { addDays, parseDateInput, startOfDay, startOfWeek, toDateInput } from '../lib/utils';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import StudyCalendar, { CalendarView } from '../components/StudyPlan/StudyCalendar';
+import { StudyPlan, StudyTask } from '../types';
+
+const examTypes = ['TYT', 'AYT', 'YDT', 'LGS'];
+const subjectOptions = ['Matematik', 'Türkçe', 'Fen Bilimleri', 'Sosyal Bilimler'];
+
+const inputClass = 'w-full px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const StudyPlanPage: React.FC = () => {
+  const { currentUser } = useAuth();
+
+  const [plan, setPlan] = useState<StudyPlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const [examType, setExamType] = useState('TYT');
+  const [examDate, setExamDate] = useState('');
+  const [weeklyHours, setWeeklyHours] = useState(14);
+  const [subjects, setSubjects] = useState<string[]>([]);
+
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const fetchPlan = async () => {
+      try {
+        const existing = await studyPlanService.getPlan(currentUser.uid);
+        if (existing) {
+          const { plan: rebalanced, moved } = await studyPlanService.rebalancePlan(existing);
+          setPlan(rebalanced);
+          if (moved > 0) {
+            toast(`Kaçırdığın ${moved} görev önümüzdeki günlere taşındı.`, { icon: '📅' });
+          }
+          return;
+        }
+
+        // Planı olmayan kullanıcı için formu koç bilgileriyle doldur
+        setShowForm(true);
+        const defaults = await studyPlanService.getCoachDefaults(currentUser.uid);
+        if (defaults) {
+          if (defaults.examType) setExamType(defaults.examType);
+          if (defaults.examDate) setExamDate(toDateInput(defaults.examDate));
+          setWeeklyHours(defaults.weeklyHours);
+          setSubjects(defaults.subjects);
+        }
+      } catch (error) {
+        console.error('Error fetching study plan:', error);
+        toast.error('Çalışma planı yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchPlan();
+  }, [currentUser]);
+
+  const openForm = () => {
+    if (plan) {
+      setExamType(plan.examType);
+      setExamDate(toDateInput(plan.examDate));
+      setWeeklyHours(plan.weeklyHours);
+      setSubjects(plan.subjects);
+    }
+    setShowForm(true);
+  };
+
+  const toggleSubject = (subject: string) => {
+    setSubjects(prev => prev.includes(subject) ? prev.filter(s => s !== subject) : [...prev, subject]);
+  };
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+    if (!examDate || subjects.length === 0) {
+      toast.error('Lütfen sınav tarihini ve en az bir dersi seçin.');
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      // Dersler yüklenemezse plan genel konu görevleriyle oluşturulur
+      const lessons: Lesson[] = await lessonService.getPublishedLessons().catch(() => []);
+      const created = await studyPlanService.createPlan(currentUser.uid, {
+        examType,
+        examDate: parseDateInput(examDate),
+        weeklyHours,
+        subjects,
+        lessons,
+      });
+      setPlan(created);
+      setShowForm(false);
+      setView('week');
+      setAnchor(startOfDay(new Date()));
+      toast.success('Çalışma planın hazır!');
+    } catch (error) {
+      console.error('Study plan generation failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Plan oluşturulamadı.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleToggleTask = async (task: StudyTask) => {
+    if (!currentUser || !plan) return;
+    const previous = plan.tasks;
+    const tasks = previous.map(t => t.id === task.id ? { ...t, completed: !t.completed } : t);
+    setPlan({ ...plan, tasks });
+    try {
+      await studyPlanService.saveTasks(currentUser.uid, tasks);
+    } catch (error) {
+      console.error('Error updating task:', error);
+      toast.error('Görev güncellenemedi.');
+      setPlan(current => current && { ...current, tasks: previous });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!currentUser || !window.confirm('Çalışma planın silinsin mi?')) return;
+    try {
+      await studyPlanService.deletePlan(currentUser.uid);
+      setPlan(null);
+      openForm();
+    } catch (error) {
+      console.error('Error deleting plan:', error);
+      toast.error('Plan silinemedi.');
+    }
+  };
+
+  const shiftAnchor = (direction: 1 | -1) => {
+    setAnchor(current => view === 'week'
+      ? addDays(current, direction * 7)
+      : new Date(current.getFullYear(), current.getMonth() + direction, 1));
+  };
+
+  if (loading) {
+    return <div className="flex justify-center items-center py-20"><LoadingSpinner size="lg" /></div>;
+  }
+
+  const today = startOfDay(new Date());
+  const weekStart = startOfWeek(today);
+  const weekTasks = plan ? plan.tasks.filter(t => t.date >= weekStart && t.date < addDays(weekStart, 7)) : [];
+  const completedCount = plan ? plan.tasks.filter(t => t.completed).length : 0;
+  const daysLeft = plan ? Math.max(0, Math.round((startOfDay(plan.examDate).getTime() - today.getTime()) / 86400000)) : 0;
+  const periodLabel = view === 'week'
+    ? `${startOfWeek(anchor).toLocaleDateString('tr-TR', { day: 'numeric', month: 'long' })} - ${addDays(startOfWeek(anchor), 6).toLocaleDateString('tr-TR', { day: 'numeric', month: 'long' })}`
+    : anchor.toLocaleDateString('tr-TR', { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="text-center mb-8">
+        <div className="inline-block p-3 bg-indigo-100 dark:bg-indigo-900/30 rounded-2xl mb-4">
+          <CalendarDays className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Çalışma Planı</h1>
+        <p className="text-lg text-gray-600 dark:text-gray-400">
+          Sınavına kadar her gün ne çalışacağını bil
+        </p>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleGenerate} className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 mb-8 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="planExamType" className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Sınav</label>
+              <select id="planExamType" value={examType} onChange={(e) => setExamType(e.target.value)} className={inputClass}>
+                {examTypes.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="planExamDate" className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Sınav Tarihi</label>
+              <input
+                id="planExamDate"
+                type="date"
+                value={examDate}
+                min={toDateInput(addDays(today, 1))}
+                onChange={(e) => setExamDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="planWeeklyHours" className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Haftalık Saat</label>
+              <input
+                id="planWeeklyHours"
+                type="number"
+                min={1}
+                max={70}
+                value={weeklyHours}
+                onChange={(e) => setWeeklyHours(Math.min(70, Math.max(1, Number(e.target.value) || 1)))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Odaklanılacak Dersler</span>
+            <div className="flex flex-wrap gap-2">
+              {Array.from(new Set([...subjectOptions, ...subjects])).map(subject => (
+                <button
+                  key={subject}
+                  type="button"
+                  onClick={() => toggleSubject(subject)}
+                  className={`px-4 py-2 rounded-lg border-2 text-sm font-medium transition-colors ${subjects.includes(subject) ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300'}`}
+                >
+                  {subject}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            {plan && (
+              <button type="button" onClick={() => setShowForm(false)} className="px-6 py-3 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg font-semibold">
+                Vazgeç
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isGenerating}
+              className="flex-1 flex items-center justify-center bg-indigo-600 text-white px-6 py-3 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 transition-colors font-bold"
+            >
+              {isGenerating ? <><Loader className="animate-spin mr-3" /> Hazırlanıyor...</> : <><Sparkles className="w-5 h-5 mr-3" /> {plan ? 'Planı Yeniden Oluştur' : 'Plan Oluştur'}</>}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {plan && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="bg-gradient-to-r from-indigo-600 to-purple-600 rounded-xl p-5 text-white">
+              <div className="flex items-center gap-2 text-indigo-100 text-sm"><Target className="w-4 h-4" /> {plan.examType}</div>
+              <p className="text-3xl font-bold mt-1">{daysLeft} gün</p>
+              <p className="text-indigo-100 text-sm">{plan.examDate.toLocaleDateString('tr-TR')} tarihindeki sınava</p>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow p-5">
+              <p className="text-sm text-gray-500 dark:text-gray-400">Bu hafta</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{weekTasks.filter(t => t.completed).length} / {weekTasks.length}</p>
+              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 mt-2">
+                <div className="bg-green-500 h-2 rounded-full" style={{ width: `${weekTasks.length ? (weekTasks.filter(t => t.completed).length / weekTasks.length) * 100 : 0}%` }} />
+              </div>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow p-5">
+              <p className="text-sm text-gray-500 dark:text-gray-400">Toplam ilerleme</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{completedCount} / {plan.tasks.length}</p>
+              <div className="flex gap-2 mt-2">
+                <button onClick={openForm} className="flex items-center text-sm text-indigo-600 dark:text-indigo-400 font-medium">
+                  <RefreshCw className="w-4 h-4 mr-1" /> Yenile
+                </button>
+                <button onClick={handleDelete} className="flex items-center text-sm text-red-500 font-medium">
+                  <Trash2 className="w-4 h-4 mr-1" /> Sil
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-4 md:p-6">
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-3 mb-4">
+              <div className="flex items-center gap-2">
+                <button onClick={() => shiftAnchor(-1)} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"><ChevronLeft className="w-5 h-5" /></button>
+                <span className="font-semibold text-gray-900 dark:text-white min-w-[12rem] text-center">{periodLabel}</span>
+                <button onClick={() => shiftAnchor(1)} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"><ChevronRight className="w-5 h-5" /></button>
+                <button onClick={() => setAnchor(today)} className="ml-2 px-3 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300">Bugün</button>
+              </div>
+              <div className="flex rounded-lg bg-gray-100 dark:bg-gray-700 p-1">
+                {(['week', 'month'] as CalendarView[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-4 py-1 rounded-md text-sm font-medium ${view === option ? 'bg-white dark:bg-gray-800 text-indigo-600 dark:text-indigo-400 shadow' : 'text-gray-600 dark:text-gray-300'}`}
+                  >
+                    {option === 'week' ? 'Hafta' : 'Ay'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <StudyCalendar
+              view={view}
+              anchor={anchor}
+              tasks={plan.tasks}
+              onToggleTask={handleToggleTask}
+              onSelectDay={(date) => {
+                setAnchor(date);
+                setView('week');
+              }}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StudyPlanPage;
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, BookOpen, Edit, Loader, Plus, Save, Send, Trash2, Undo2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { lessonService, Lesson, LessonStatus, LESSON_STATUS_LABELS } from '../lib/supabase';
+import { getYouTubeVideoId } from '../lib/utils';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import LessonStatusBadge from '../components/Lessons/LessonStatusBadge';
+import LessonReviewHistory from '../components/Lessons/LessonReviewHistory';
+import LessonEditor from '../components/Lessons/LessonEditor';
+import { lessonDraftStore } from '../lib/lessonDrafts';
+
+const availableSubjects = ['Matematik', 'Fizik', 'Kimya', 'Biyoloji', 'Türkçe', 'Edebiyat', 'Tarih', 'Coğrafya', 'Felsefe'];
+
+const gradeLevels = ['9. Sınıf', '10. Sınıf', '11. Sınıf', '12. Sınıf', 'YKS', 'LGS'];
+
+const inputClass = 'w-full px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const emptyDraft = { title: '', subject: availableSubjects[0], gradeLevel: gradeLevels[0], content: '', videoUrl: '' };
+
+// Autosave slot of a lesson that is not saved yet
+const NEW_LESSON_DRAFT_KEY = 'teacher-new';
+
+// Only drafts and rejected lessons are editable; the database enforces the same
+const isEditable = (lesson: Lesson) => lesson.status === 'draft' || lesson.status === 'rejected';
+
+const TeacherLessonsPage: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [loading, setLoading] = useState(true);
+  // null: the form is closed, 'new': a new draft, otherwise the edited lesson
+  const [editing, setEditing] = useState<Lesson | 'new' | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedLesson, setSelectedLesson] = useState<Lesson | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const fetchLessons = async () => {
+      try {
+        setLessons(await lessonService.getAuthorLessons(currentUser.uid));
+      } catch (error) {
+        console.error('Error fetching lessons:', error);
+        toast.error('Dersler yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchLessons();
+  }, [currentUser]);
+
+  const replaceLesson = (lesson: Lesson) => {
+    setLessons(prev => prev.map(l => l.id === lesson.id ? lesson : l));
+    setSelectedLesson(prev => prev?.id === lesson.id ? lesson : prev);
+  };
+
+  const openForm = (lesson?: Lesson) => {
+    setEditing(lesson ?? 'new');
+    setDraft(lesson
+      ? { title: lesson.title, subject: lesson.subject, gradeLevel: lesson.grade_level, content: lesson.content, videoUrl: lesson.video_url ?? '' }
+      : emptyDraft);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !editing) return;
+    if (!draft.title.trim() || !draft.content.trim()) {
+      toast.error('Başlık ve içerik boş olamaz.');
+      return;
+    }
+    if (draft.videoUrl.trim() && !getYouTubeVideoId(draft.videoUrl)) {
+      toast.error('Lütfen geçerli bir YouTube linki girin.');
+      return;
+    }
+
+    const fields = {
+      title: draft.title.trim(),
+      subject: draft.subject,
+      grade_level: draft.gradeLevel,
+      content: draft.content,
+      video_url: draft.videoUrl.trim() || undefined,
+    };
+    setIsSaving(true);
+    try {
+      if (editing === 'new') {
+        const created = await lessonService.createLesson({ ...fields, attachments: [], interactive_questions: [], lock_video_seek: false }, currentUser.uid);
+        setLessons(prev => [created, ...prev]);
+        lessonDraftStore.clear(NEW_LESSON_DRAFT_KEY);
+      } else {
+        replaceLesson(await lessonService.updateLesson(editing.id, fields));
+      }
+      setEditing(null);
+      toast.success('Taslak kaydedildi.');
+    } catch (error) {
+      console.error('Error saving lesson:', error);
+      toast.error('Ders kaydedilemedi.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTransition = async (lesson: Lesson, toStatus: LessonStatus) => {
+    try {
+      await lessonService.transitionLesson(lesson.id, toStatus);
+      replaceLesson({ ...lesson, status: toStatus });
+      setHistoryKey(key => key + 1);
+      toast.success(toStatus === 'in_review' ? 'Ders incelemeye gönderildi.' : `Ders durumu: ${LESSON_STATUS_LABELS[toStatus]}`);
+    } catch (error) {
+      console.error('Lesson transition failed:', error);
+      toast.error('Ders durumu değiştirilemedi.');
+    }
+  };
+
+  const handleDelete = async (lesson: Lesson) => {
+    if (!window.confirm(`'${lesson.title}' taslağını silmek istediğinizden emin misiniz?`)) return;
+    try {
+      await lessonService.deleteLesson(lesson.id);
+      setLessons(prev => prev.filter(l => l.id !== lesson.id));
+      if (selectedLesson?.id === lesson.id) setSelectedLesson(null);
+      toast.success('Taslak silindi.');
+    } catch (error) {
+      console.error('Error deleting lesson:', error);
+      toast.error('Taslak silinemedi.');
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <Link to="/dashboard/teacher" className="inline-flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-indigo-600 mb-4">
+        <ArrowLeft className="w-4 h-4 mr-1" /> Öğretmen Paneli
+      </Link>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Derslerim</h1>
+          <p className="text-gray-600 dark:text-gray-400">Taslak yaz, incelemeye gönder; onaylanan dersler öğrencilere açılır.</p>
+        </div>
+        <button onClick={() => openForm()} className="flex items-center justify-center bg-indigo-600 text-white px-5 py-3 rounded-lg hover:bg-indigo-700 font-bold">
+          <Plus className="w-5 h-5 mr-2" /> Yeni Taslak
+        </button>
+      </div>
+
+      {editing && (
+        <form onSubmit={handleSave} className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 mb-8 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{editing === 'new' ? 'Yeni Taslak' : 'Taslağı Düzenle'}</h2>
+            <button type="button" onClick={() => setEditing(null)} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
+              <X size={18} />
+            </button>
+          </div>
+          {editing !== 'new' && editing.status === 'rejected' && (
+            <p className="text-sm text-red-600 dark:text-red-400">Bu ders reddedildi. Geri bildirime göre düzenleyip yeniden incelemeye gönderebilirsin.</p>
+          )}
+          <input type="text" value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} placeholder="Ders başlığı" className={inputClass} />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <select value={draft.subject} onChange={(e) => setDraft({ ...draft, subject: e.target.value })} className={inputClass}>
+              {availableSubjects.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <select value={draft.gradeLevel} onChange={(e) => setDraft({ ...draft, gradeLevel: e.target.value })} className={inputClass}>
+              {gradeLevels.map(g => <option key={g} value={g}>{g}</option>)}
+            </select>
+          </div>
+          <LessonEditor
+            value={draft.content}
+            onChange={(content) => setDraft(prev => ({ ...prev, content }))}
+            savedValue={editing === 'new' ? '' : editing.content}
+            draftKey={editing === 'new' ? NEW_LESSON_DRAFT_KEY : editing.id}
+            questions={editing === 'new' ? [] : editing.interactive_questions}
+          />
+          <input type="url" value={draft.videoUrl} onChange={(e) => setDraft({ ...draft, videoUrl: e.target.value })} placeholder="YouTube video linki (isteğe bağlı)" className={inputClass} />
+          <button type="submit" disabled={isSaving} className="flex items-center justify-center bg-indigo-600 text-white px-6 py-3 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 font-bold">
+            {isSaving ? <Loader className="w-5 h-5 animate-spin" /> : <><Save className="w-5 h-5 mr-2" /> Taslağı Kaydet</>}
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="text-center py-10"><LoadingSpinner size="lg" /></div>
+      ) : lessons.length === 0 ? (
+        <p className="text-center py-10 text-gray-500 dark:text-gray-400">Henüz ders taslağın yok.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[1fr_24rem] gap-6 items-start">
+          <div className="space-y-4">
+            {lessons.map(lesson => (
+              <div
+                key={lesson.id}
+                onClick={() => setSelectedLesson(lesson)}
+                className={`bg-white dark:bg-gray-800 rounded-xl shadow p-5 cursor-pointer border-2 transition-colors ${selectedLesson?.id === lesson.id ? 'border-indigo-500' : 'border-transparent hover:border-gray-200 dark:hover:border-gray-700'}`}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h3 className="flex items-center font-semibold text-gray-900 dark:text-white truncate">
+                      <BookOpen className="w-4 h-4 mr-2 text-indigo-500 flex-shrink-0" /> {lesson.title}
+                    </h3>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{lesson.subject} • {lesson.grade_level}</p>
+                  </div>
+                  <LessonStatusBadge status={lesson.status} />
+                </div>
+                <div className="flex flex-wrap gap-4 mt-4 text-sm font-medium" onClick={(e) => e.stopPropagation()}>
+                  {isEditable(lesson) && (
+                    <>
+                      <button onClick={() => openForm(lesson)} className="flex items-center text-indigo-600 hover:text-indigo-800 dark:text-indigo-400">
+                        <Edit className="w-4 h-4 mr-1" /> Düzenle
+                      </button>
+                      <button onClick={() => handleTransition(lesson, 'in_review')} className="flex items-center text-green-600 hover:text-green-800 dark:text-green-400">
+                        <Send className="w-4 h-4 mr-1" /> İncelemeye Gönder
+                      </button>
+                      <button onClick={() => handleDelete(lesson)} className="flex items-center text-red-600 hover:text-red-800 dark:text-red-400">
+                        <Trash2 className="w-4 h-4 mr-1" /> Sil
+                      </button>
+                    </>
+                  )}
+                  {lesson.status === 'in_review' && (
+                    <button onClick={() => handleTransition(lesson, 'draft')} className="flex items-center text-gray-600 hover:text-gray-800 dark:text-gray-300">
+                      <Undo2 className="w-4 h-4 mr-1" /> İncelemeden Geri Çek
+                    </button>
+                  )}
+                  {lesson.status === 'approved' && (
+                    <Link to={`/dashboard/lessons/${lesson.id}`} className="flex items-center text-indigo-600 hover:text-indigo-800 dark:text-indigo-400">
+                      <BookOpen className="w-4 h-4 mr-1" /> Yayındaki Dersi Gör
+                    </Link>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          <aside className="bg-white dark:bg-gray-800 rounded-xl shadow p-5 lg:sticky lg:top-4">
+            {selectedLesson ? (
+              <LessonReviewHistory lessonId={selectedLesson.id} refreshKey={historyKey} />
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Yönetici yorumlarını ve durum geçmişini görmek için bir ders seç.</p>
+            )}
+          </aside>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeacherLessonsPage;
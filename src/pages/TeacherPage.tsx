@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { GraduationCap, Plus, Users, Loader, BookOpen } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { classService } from '../lib/classes';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import { Classroom } from '../types';
+
+const inputClass = 'w-full px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const TeacherPage: React.FC = () => {
+  const { currentUser, userData } = useAuth();
+  const [classes, setClasses] = useState<Classroom[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const fetchClasses = async () => {
+      try {
+        setClasses(await classService.getTeacherClasses(currentUser.uid));
+      } catch (error) {
+        console.error('Error fetching classes:', error);
+        toast.error('Sınıflar yüklenirken hata oluştu');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchClasses();
+  }, [currentUser]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !name.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const classId = await classService.createClass(currentUser.uid, userData?.name || 'Öğretmen', name.trim(), description.trim() || undefined);
+      const created = await classService.getClass(classId);
+      if (created) setClasses(prev => [created, ...prev]);
+      setName('');
+      setDescription('');
+      toast.success('Sınıf oluşturuldu!');
+    } catch (error) {
+      console.error('Error creating class:', error);
+      toast.error('Sınıf oluşturulamadı.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="text-center mb-8">
+        <div className="inline-block p-3 bg-indigo-100 dark:bg-indigo-900/30 rounded-2xl mb-4">
+          <GraduationCap className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Öğretmen Paneli</h1>
+        <p className="text-lg text-gray-600 dark:text-gray-400">
+          Sınıflarını oluştur, ödev ver ve öğrencilerinin ilerlemesini takip et
+        </p>
+        <Link
+          to="/dashboard/teacher/lessons"
+          className="inline-flex items-center mt-4 px-4 py-2 rounded-lg bg-white dark:bg-gray-800 shadow text-indigo-600 dark:text-indigo-400 font-semibold hover:shadow-md transition-shadow"
+        >
+          <BookOpen className="w-5 h-5 mr-2" /> Derslerim ve Taslaklarım
+        </Link>
+      </div>
+
+      <form onSubmit={handleCreate} className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 mb-8 grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4">
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Sınıf adı (örn: 11-A Matematik)" className={inputClass} />
+        <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Açıklama (isteğe bağlı)" className={inputClass} />
+        <button
+          type="submit"
+          disabled={isCreating || !name.trim()}
+          className="flex items-center justify-center bg-indigo-600 text-white px-6 py-3 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 transition-colors font-bold"
+        >
+          {isCreating ? <Loader className="w-5 h-5 animate-spin" /> : <><Plus className="w-5 h-5 mr-2" /> Sınıf Oluştur</>}
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="text-center py-10"><LoadingSpinner size="lg" /></div>
+      ) : classes.length === 0 ? (
+        <p className="text-center py-10 text-gray-500 dark:text-gray-400">Henüz sınıf oluşturmadın.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {classes.map(classroom => (
+            <Link
+              key={classroom.id}
+              to={`/dashboard/teacher/classes/${classroom.id}`}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow hover:shadow-lg transition-shadow p-5"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-gray-900 dark:text-white truncate">{classroom.name}</h3>
+                  {classroom.description && <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{classroom.description}</p>}
+                </div>
+                <span className="font-mono text-sm bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 px-2 py-1 rounded">
+                  {classroom.joinCode}
+                </span>
+              </div>
+              <p className="flex items-center text-sm text-gray-600 dark:text-gray-400 mt-4">
+                <Users className="w-4 h-4 mr-2" /> {classroom.studentIds.length} öğrenci
+              </p>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeacherPage;
@@ -1,9 +1,8 @@
-import React, { useState, useRef } from 'react';
-import { BookOpen, Sparkles, BrainCircuit, Download, Loader } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
+import React, { useState, useRef, useEffect } from 'react';
+import { BookOpen, Sparkles, BrainCircuit, Download, Loader, Square } from 'lucide-react';
+import MarkdownContent from '../components/Common/MarkdownContent';
 import { toast } from 'react-hot-toast';
-import { generateText } from '../lib/gemini';
+import { streamText } from '../lib/gemini';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 
@@ -15,6 +14,10 @@ const TopicExplainerPage: React.FC = () => {
     const [generatedContent, setGeneratedContent] = useState('');
     const [isGenerating, setIsGenerating] = useState(false);
     const contentRef = useRef<HTMLDivElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Sayfadan çıkılınca yarım kalan üretimi durdur
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
 
     const handleGenerateContent = async () => {
         if (!topic) {
@@ -23,7 +26,8 @@ const TopicExplainerPage: React.FC = () => {
         }
         setIsGenerating(true);
         setGeneratedContent('');
-        const toastId = toast.loading("Yapay zeka sizin için çalışıyor...");
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
 
         try {
             const systemPrompt = `Bir uzman eğitimci ve içerik üreticisi olarak davran. Görevin, verilen konu ve sınıf seviyesine uygun, kapsamlı ve anlaşılır bir ders içeriği oluşturmak. Çıktın, aşağıdaki yapıya sadık kalarak Markdown formatında olmalıdır:
@@ -64,21 +68,33 @@ const TopicExplainerPage: React.FC = () => {
             const userPrompt = `Konu: ${topic}, Sınıf Seviyesi: ${gradeLevel}`;
             
             const fullPrompt = `${systemPrompt}\n\n${userPrompt}`;
-            const text = await generateText(fullPrompt);
+            const text = await streamText(
+                fullPrompt,
+                delta => setGeneratedContent(prev => prev + delta),
+                abortController.signal
+            );
 
+            // Durdurulduğunda o ana kadar gelen metin ekranda kalır
             setGeneratedContent(text);
-            toast.dismiss(toastId);
-            toast.success("Konu anlatımı başarıyla oluşturuldu!");
+            if (abortController.signal.aborted) {
+                toast("Üretim durduruldu.");
+            } else {
+                toast.success("Konu anlatımı başarıyla oluşturuldu!");
+            }
 
         } catch (error) {
-            toast.dismiss(toastId);
             toast.error("İçerik üretilirken bir hata oluştu.");
             console.error("AI content generation failed:", error);
         } finally {
+            abortControllerRef.current = null;
             setIsGenerating(false);
         }
     };
 
+    const handleStopGenerating = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleGeneratePdf = async () => {
         if (!generatedContent || !contentRef.current) {
             toast.error("PDF oluşturmak için önce içerik üretmelisiniz.");
@@ -155,29 +171,42 @@ const TopicExplainerPage: React.FC = () => {
                             </select>
                         </div>
                     </div>
-                    <button
-                        onClick={handleGenerateContent}
-                        disabled={isGenerating}
-                        className="w-full mt-6 flex items-center justify-center bg-indigo-600 text-white px-6 py-4 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 transition-colors font-bold text-lg"
-                    >
-                        {isGenerating ? <><Loader className="animate-spin mr-3" /> Oluşturuluyor...</> : <><Sparkles className="w-6 h-6 mr-3" /> Anlatımı Oluştur</>}
-                    </button>
+                    {isGenerating ? (
+                        <button
+                            onClick={handleStopGenerating}
+                            className="w-full mt-6 flex items-center justify-center bg-red-500 text-white px-6 py-4 rounded-lg hover:bg-red-600 transition-colors font-bold text-lg"
+                        >
+                            <Square className="w-5 h-5 mr-3" /> Durdur
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleGenerateContent}
+                            className="w-full mt-6 flex items-center justify-center bg-indigo-600 text-white px-6 py-4 rounded-lg hover:bg-indigo-700 transition-colors font-bold text-lg"
+                        >
+                            <Sparkles className="w-6 h-6 mr-3" /> Anlatımı Oluştur
+                        </button>
+                    )}
                 </div>
 
+                {isGenerating && !generatedContent && (
+                    <div className="mt-12 flex items-center justify-center text-gray-500 dark:text-gray-400">
+                        <Loader className="animate-spin mr-3" /> Yapay zeka sizin için çalışıyor...
+                    </div>
+                )}
+
                 {generatedContent && (
                     <div className="mt-12">
                         <div className="flex justify-end mb-4">
                             <button
                                 onClick={handleGeneratePdf}
-                                className="flex items-center justify-center bg-green-600 text-white px-5 py-2 rounded-lg hover:bg-green-700 transition-colors text-sm font-semibold"
+                                disabled={isGenerating}
+                                className="flex items-center justify-center bg-green-600 text-white px-5 py-2 rounded-lg hover:bg-green-700 disabled:bg-green-400 transition-colors text-sm font-semibold"
                             >
                                 <Download className="w-5 h-5 mr-2" /> PDF olarak İndir
                             </button>
                         </div>
                         <div ref={contentRef} className="bg-gray-800 p-8 rounded-2xl shadow-inner">
-                            <div className="prose prose-lg prose-invert max-w-none">
-                                <ReactMarkdown remarkPlugins={[remarkGfm]}>{generatedContent}</ReactMarkdown>
-                            </div>
+                            <MarkdownContent content={generatedContent} className="prose-lg prose-invert" />
                         </div>
                     </div>
                 )}
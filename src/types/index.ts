@@ -9,23 +9,23 @@ export interface User {
   progress: Record<string, number>;
   lastLogin: Date;
   createdAt: Date;
-}
-
-export interface Lesson {
-  id: string;
-  title: string;
-  subject: string;
-  grade: number;
-  content: string;
-  createdBy: string;
-  createdAt: Date;
+  // Activity counters the achievement rules are evaluated against
+  stats?: AchievementStats;
+  // Unlocked achievement ids and when they were earned
+  achievements?: Record<string, Date>;
+  // Users whose scores appear on this user's friends leaderboard
+  friendIds?: string[];
 }
 
 export interface Quiz {
   id: string;
   topic: string;
+  subject: string;
   difficulty: 'easy' | 'medium' | 'hard';
   questions: Question[];
+  timeLimitSeconds: number;
+  lessonId?: string;
+  userId: string;
   createdAt: Date;
 }
 
@@ -33,26 +33,80 @@ export interface Question {
   id: string;
   text: string;
   type: 'multiple-choice' | 'matching' | 'open-ended';
+  // multiple-choice: the choices. matching: the left-hand column.
   options?: string[];
-  correctAnswer: string | string[];
+  // matching only: the right-hand column, shown shuffled to the student.
+  matchOptions?: string[];
+  // multiple-choice: the correct option. matching: the right-hand item for
+  // each entry in `options`, in order. open-ended: the accepted answers.
+  // Only known after an attempt: the keys stay on the server until then.
+  correctAnswer?: string | string[];
   explanation?: string;
 }
 
+export type QuizAnswer = string | string[];
+
+export interface QuizAttempt {
+  id: string;
+  quizId: string;
+  userId: string;
+  topic: string;
+  answers: Record<string, QuizAnswer>;
+  results: Record<string, boolean>;
+  correctCount: number;
+  totalQuestions: number;
+  score: number; // 0-100
+  durationSeconds: number;
+  xpEarned: number;
+  completedAt: Date;
+}
+
 export interface Flashcard {
   id: string;
+  deckId: string;
   front: string;
   back: string;
   tags: string[];
-  difficulty: number;
+  difficulty: number; // SM-2 ease factor, starts at 2.5 and never drops below 1.3
+  interval: number; // days until the next review
+  repetitions: number; // consecutive successful reviews
   nextReview: Date;
+  lastReviewed?: Date;
+  // Set on generated cards (lesson id or lesson_mistakes row id) to avoid duplicates.
+  sourceId?: string;
   userId: string;
+  createdAt: Date;
+}
+
+export interface FlashcardDeck {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  source: 'manual' | 'lesson' | 'mistakes';
+  lessonId?: string;
+  createdAt: Date;
+}
+
+// Structured answer the question solver asks the model for.
+export interface QuestionSolution {
+  problemText: string;
+  subject: string;
+  difficulty: string;
+  steps: string[];
+  finalAnswer: string;
+  explanation?: string;
+  tips?: string[];
 }
 
 export interface SolvedQuestion {
   id: string;
   imageUrl: string;
+  // Storage path of the uploaded image, used to delete it with the record
+  imagePath: string;
   solvedText: string;
   solutionSteps: string[];
+  finalAnswer: string;
   subject: string;
   difficulty: string;
   solvedBy: 'ai';
@@ -64,7 +118,13 @@ export interface PDFSummary {
   id: string;
   title: string;
   originalPdfUrl: string;
+  originalPdfPath: string;
+  // Markdown produced by the model
   summaryText: string;
+  // Rendered, downloadable PDF of the summary
+  summaryPdfUrl: string;
+  summaryPdfPath: string;
+  pageCount: number;
   userId: string;
   createdAt: Date;
 }
@@ -72,10 +132,14 @@ export interface PDFSummary {
 export interface StudyPlan {
   id: string;
   userId: string;
+  examType: string;
   examDate: Date;
   tasks: StudyTask[];
   subjects: string[];
   weeklyHours: number;
+  createdAt: Date;
+  // Last time missed tasks were moved forward
+  rebalancedAt?: Date;
 }
 
 export interface StudyTask {
@@ -86,6 +150,110 @@ export interface StudyTask {
   completed: boolean;
   date: Date;
   estimatedMinutes: number;
+  lessonId?: string;
+  // Set when the task was missed and moved to a later day
+  originalDate?: Date;
+}
+
+export type XpSource = 'daily_login' | 'question_solved' | 'quiz_completed' | 'lesson_question' | 'achievement';
+
+// One server-written entry per XP award
+export interface XpEvent {
+  id: string;
+  userId: string;
+  source: XpSource;
+  refId: string;
+  amount: number;
+  createdAt: Date;
+}
+
+export interface Classroom {
+  id: string;
+  name: string;
+  description?: string;
+  teacherId: string;
+  teacherName: string;
+  joinCode: string;
+  studentIds: string[];
+  createdAt: Date;
+}
+
+// Row of classes/{classId}/students, written by the student on joining
+export interface ClassStudent {
+  id: string;
+  name: string;
+  joinedAt: Date;
+}
+
+export interface Assignment {
+  id: string;
+  classId: string;
+  teacherId: string;
+  type: 'lesson' | 'quiz';
+  // lessons table id or quizzes doc id, depending on type
+  targetId: string;
+  title: string;
+  subject?: string;
+  dueDate: Date;
+  createdAt: Date;
+}
+
+export interface AssignmentSubmission {
+  id: string;
+  assignmentId: string;
+  classId: string;
+  userId: string;
+  score?: number;
+  completedAt: Date;
+}
+
+// A stretch of the lesson video the student has watched, in seconds
+export interface WatchedSegment {
+  start: number;
+  end: number;
+}
+
+// Document of lessonProgress/{userId}_{lessonId}
+export interface LessonProgress {
+  userId: string;
+  lessonId: string;
+  watchedSegments: WatchedSegment[];
+  // Video length reported by the player; 0 until the player is ready
+  duration: number;
+  lastPosition: number;
+  answeredQuestionIds: string[];
+  timeSpentSeconds: number;
+  percent: number;
+  completed: boolean;
+  completedAt?: Date;
+  updatedAt: Date;
+}
+
+// Precomputed row of leaderboards/{boardId}/entries
+export interface LeaderboardEntry {
+  userId: string;
+  name: string;
+  xp: number;
+  level: number;
+  rank: number;
+}
+
+export type AchievementMetric =
+  | 'longestStreak'
+  | 'questionsSolved'
+  | 'lessonsCompleted'
+  | 'quizzesCompleted'
+  | 'perfectQuizzes'
+  | 'bestQuizScore'
+  | 'coachesCreated'
+  | 'coachMessages';
+
+export type AchievementStats = Partial<Record<AchievementMetric, number>>;
+
+// Met once the user's stat for `metric` reaches `threshold`.
+export interface AchievementCondition {
+  metric: AchievementMetric;
+  threshold: number;
 }
 
 export interface Achievement {
@@ -94,7 +262,7 @@ export interface Achievement {
   description: string;
   icon: string;
   xpReward: number;
-  condition: string;
+  condition: AchievementCondition;
 }
 
 export interface AICoach {
@@ -107,6 +275,12 @@ export interface AICoach {
   subjectFocus: string[];
   tone: string;
   examTargetDate: string;
+  examType: CoachCreationForm['examType'];
+  preferredStudyTime: CoachCreationForm['preferredStudyTime'];
+  studyHoursPerDay: number;
+  weakSubjects: string[];
+  // Check-in types picked in the coach wizard, e.g. morning_check, task_lists
+  dailyInteraction: string[];
   communicationPreferences: {
     morningCheckIn: boolean;
     taskLists: boolean;
@@ -119,8 +293,46 @@ export interface AICoach {
     supportiveness: number; // 1-10
     detailLevel: number; // 1-10
   };
+  // The student's own words about how the coach should behave
+  personalityNotes?: string;
+  motivationalMessages: string[];
+  studyTips: string[];
+  weeklyGoals: string[];
+  // Rolling summary of older chat turns, written by summarizeCoachChat
+  summary?: string;
   createdAt: Date;
   isActive: boolean;
+  // Coaches saved by the old wizard have no generated profile until upgraded
+  profileVersion: number;
+}
+
+// A photo or PDF sent with a chat message, stored under chat-attachments/{userId}
+export interface ChatAttachment {
+  url: string;
+  path: string;
+  name: string;
+  mimeType: string;
+}
+
+// One turn of a coach chat, stored in coaches/{coachId}/messages
+export interface CoachChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  content: string;
+  attachment?: ChatAttachment;
+  // The coach's step-by-step answer to an attachment
+  solution?: QuestionSolution;
+  createdAt: Date;
+}
+
+// Something the coach remembers about the student's recent work
+export interface CoachMemory {
+  id: string;
+  userId: string;
+  kind: 'mistakes' | 'solvedQuestions' | 'xp' | 'streak' | 'studyPlan';
+  text: string;
+  occurredAt: Date;
+  updatedAt: Date;
 }
 
 export interface CoachMessage {
@@ -133,12 +345,19 @@ export interface CoachMessage {
   isRead: boolean;
 }
 
+// Per-type opt-outs for proactive coach messages, stored in coachCheckInSettings/{userId}
+export interface CoachCheckInSettings {
+  mutedTypes: CoachMessage['type'][];
+  snoozedUntil: Partial<Record<CoachMessage['type'], Date>>;
+}
+
 export interface CoachCreationForm {
   style: 'friendly' | 'strict' | 'humorous' | 'calm' | 'energetic' | 'professional';
   subjectFocus: string[];
   tone: 'encouraging' | 'motivational' | 'no-nonsense' | 'detailed' | 'casual' | 'formal';
   dailyInteraction: string[];
   name?: string;
+  personalityNotes?: string;
   examTargetDate: string;
   examType: 'TYT' | 'AYT' | 'YDT' | 'LGS';
   studyHoursPerDay: number;
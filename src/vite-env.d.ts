@@ -1,9 +1 @@
 /// <reference types="vite/client" />
-
-interface ImportMetaEnv {
-    readonly VITE_GEMINI_API_KEY: string;
-}
-
-interface ImportMeta {
-    readonly env: ImportMetaEnv;
-}
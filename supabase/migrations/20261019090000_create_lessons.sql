@@ -0,0 +1,39 @@
+-- Lessons shown in the lesson library and edited in the admin panel.
+-- Existing projects already have this table, so every statement is idempotent.
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.lessons (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  content text not null default '',
+  subject text not null,
+  grade_level text not null,
+  cover_image_url text,
+  -- A YouTube link or the public URL of a video in the lesson-files bucket
+  video_url text,
+  -- [{ "name": string, "url": string }]
+  attachments jsonb not null default '[]'::jsonb,
+  -- [{ "id": string, "timestamp": number, "question": string, "options": string[], "correctAnswer": string }]
+  interactive_questions jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists lessons_created_at_idx on public.lessons (created_at desc);
+create index if not exists lessons_subject_grade_idx on public.lessons (subject, grade_level);
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists lessons_set_updated_at on public.lessons;
+create trigger lessons_set_updated_at
+  before update on public.lessons
+  for each row execute function public.set_updated_at();
@@ -0,0 +1,19 @@
+-- Wrong answers to video and quiz questions. Quiz rows have no lesson and
+-- carry "source": "quiz" and the quiz id inside the question payload.
+
+create table if not exists public.lesson_mistakes (
+  id uuid primary key default gen_random_uuid(),
+  -- Firebase Auth uid of the student
+  user_id text not null,
+  lesson_id uuid references public.lessons (id) on delete set null,
+  question jsonb not null,
+  user_answer text not null,
+  correct_answer text not null,
+  ai_explanation text not null default '',
+  created_at timestamptz not null default now()
+);
+
+alter table public.lesson_mistakes alter column lesson_id drop not null;
+
+create index if not exists lesson_mistakes_user_created_idx on public.lesson_mistakes (user_id, created_at desc);
+create index if not exists lesson_mistakes_lesson_idx on public.lesson_mistakes (lesson_id);
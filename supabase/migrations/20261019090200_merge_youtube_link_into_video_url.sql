@@ -0,0 +1,17 @@
+-- Lessons used to keep YouTube links in youtube_link and uploaded videos in
+-- video_url. The player now reads a single video_url and detects YouTube
+-- links itself; an uploaded video wins when a lesson had both.
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'lessons' and column_name = 'youtube_link'
+  ) then
+    update public.lessons
+      set video_url = youtube_link
+      where youtube_link is not null and youtube_link <> '' and coalesce(video_url, '') = '';
+    alter table public.lessons drop column youtube_link;
+  end if;
+end;
+$$;
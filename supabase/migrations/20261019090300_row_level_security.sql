@@ -0,0 +1,62 @@
+-- The app signs in with Firebase Auth and passes the Firebase ID token to
+-- Supabase (third-party auth). auth.jwt() therefore holds Firebase claims:
+-- "sub" is the Firebase uid and "app_role" mirrors users/{uid}.role, set by
+-- the syncSupabaseClaims function.
+
+create or replace function public.app_role()
+returns text
+language sql
+stable
+as $$
+  select coalesce(auth.jwt() ->> 'app_role', '');
+$$;
+
+alter table public.lessons enable row level security;
+alter table public.lesson_mistakes enable row level security;
+
+-- Lessons: everyone reads, only admins write
+drop policy if exists "lessons are readable by everyone" on public.lessons;
+create policy "lessons are readable by everyone" on public.lessons
+  for select using (true);
+
+drop policy if exists "admins manage lessons" on public.lessons;
+create policy "admins manage lessons" on public.lessons
+  for all to authenticated
+  using (public.app_role() = 'admin')
+  with check (public.app_role() = 'admin');
+
+-- Mistakes: students read and add their own; teachers and admins read all of
+-- them for class reports, since class rosters live in Firestore
+drop policy if exists "students read their mistakes" on public.lesson_mistakes;
+create policy "students read their mistakes" on public.lesson_mistakes
+  for select to authenticated
+  using (user_id = auth.jwt() ->> 'sub' or public.app_role() in ('teacher', 'admin'));
+
+drop policy if exists "students record their mistakes" on public.lesson_mistakes;
+create policy "students record their mistakes" on public.lesson_mistakes
+  for insert to authenticated
+  with check (user_id = auth.jwt() ->> 'sub');
+
+drop policy if exists "students delete their mistakes" on public.lesson_mistakes;
+create policy "students delete their mistakes" on public.lesson_mistakes
+  for delete to authenticated
+  using (user_id = auth.jwt() ->> 'sub');
+
+-- Lesson files: public bucket, only admins upload or delete
+insert into storage.buckets (id, name, public)
+  values ('lesson-files', 'lesson-files', true)
+  on conflict (id) do nothing;
+
+drop policy if exists "lesson files are readable by everyone" on storage.objects;
+create policy "lesson files are readable by everyone" on storage.objects
+  for select using (bucket_id = 'lesson-files');
+
+drop policy if exists "admins upload lesson files" on storage.objects;
+create policy "admins upload lesson files" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'lesson-files' and public.app_role() = 'admin');
+
+drop policy if exists "admins delete lesson files" on storage.objects;
+create policy "admins delete lesson files" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'lesson-files' and public.app_role() = 'admin');
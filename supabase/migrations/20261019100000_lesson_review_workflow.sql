@@ -0,0 +1,177 @@
+-- Lessons go through draft -> in_review -> approved/rejected. Teachers and
+-- admins author drafts, admins review them, students only see approved
+-- lessons. Status changes go through transition_lesson_status(), which
+-- checks who may make the move and records it in lesson_reviews.
+
+-- Lessons published before the workflow stay visible: existing rows get
+-- 'approved', new rows start as 'draft'
+alter table public.lessons
+  add column if not exists status text not null default 'approved'
+    check (status in ('draft', 'in_review', 'approved', 'rejected')),
+  add column if not exists author_id text;
+
+alter table public.lessons alter column status set default 'draft';
+
+create index if not exists lessons_status_idx on public.lessons (status);
+create index if not exists lessons_author_id_idx on public.lessons (author_id);
+
+create table if not exists public.lesson_reviews (
+  id uuid primary key default gen_random_uuid(),
+  lesson_id uuid not null references public.lessons (id) on delete cascade,
+  actor_id text not null,
+  actor_name text,
+  from_status text not null,
+  to_status text not null,
+  comment text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lesson_reviews_lesson_id_idx on public.lesson_reviews (lesson_id, created_at);
+
+-- New lessons start as drafts and status never changes outside
+-- transition_lesson_status()
+create or replace function public.guard_lesson_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('app.lesson_transition', true), '') = 'on' then
+    return new;
+  end if;
+  if tg_op = 'INSERT' and new.status <> 'draft' then
+    raise exception 'new lessons must start as draft' using errcode = '42501';
+  end if;
+  if tg_op = 'UPDATE' and new.status is distinct from old.status then
+    raise exception 'lesson status changes go through transition_lesson_status()' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists lessons_guard_status on public.lessons;
+create trigger lessons_guard_status
+  before insert or update on public.lessons
+  for each row execute function public.guard_lesson_status();
+
+-- Allowed moves:
+--   draft/rejected -> in_review   the author or an admin submits
+--   in_review      -> draft       the author or an admin withdraws
+--   in_review      -> approved    an admin approves
+--   in_review      -> rejected    an admin rejects, with a comment
+create or replace function public.transition_lesson_status(
+  p_lesson_id uuid,
+  p_to_status text,
+  p_comment text default null
+)
+returns public.lesson_reviews
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor text := auth.jwt() ->> 'sub';
+  v_is_admin boolean := public.app_role() = 'admin';
+  v_lesson public.lessons;
+  v_review public.lesson_reviews;
+  v_comment text := nullif(trim(coalesce(p_comment, '')), '');
+begin
+  if v_actor is null then
+    raise exception 'not signed in' using errcode = '42501';
+  end if;
+
+  select * into v_lesson from public.lessons where id = p_lesson_id for update;
+  if not found then
+    raise exception 'lesson % not found', p_lesson_id using errcode = 'P0002';
+  end if;
+
+  if p_to_status in ('in_review', 'draft') then
+    if v_lesson.author_id is distinct from v_actor and not v_is_admin then
+      raise exception 'only the author or an admin can do this' using errcode = '42501';
+    end if;
+    if p_to_status = 'in_review' and v_lesson.status not in ('draft', 'rejected') then
+      raise exception 'only drafts and rejected lessons can be sent to review' using errcode = '22023';
+    end if;
+    if p_to_status = 'draft' and v_lesson.status <> 'in_review' then
+      raise exception 'only lessons in review can be withdrawn' using errcode = '22023';
+    end if;
+  elsif p_to_status in ('approved', 'rejected') then
+    if not v_is_admin then
+      raise exception 'only admins review lessons' using errcode = '42501';
+    end if;
+    if v_lesson.status <> 'in_review' then
+      raise exception 'only lessons in review can be approved or rejected' using errcode = '22023';
+    end if;
+    if p_to_status = 'rejected' and v_comment is null then
+      raise exception 'a rejection needs a comment' using errcode = '22023';
+    end if;
+  else
+    raise exception 'unknown lesson status %', p_to_status using errcode = '22023';
+  end if;
+
+  perform set_config('app.lesson_transition', 'on', true);
+  update public.lessons set status = p_to_status where id = p_lesson_id;
+  perform set_config('app.lesson_transition', '', true);
+
+  insert into public.lesson_reviews (lesson_id, actor_id, actor_name, from_status, to_status, comment)
+    values (
+      p_lesson_id,
+      v_actor,
+      coalesce(auth.jwt() ->> 'name', auth.jwt() ->> 'email'),
+      v_lesson.status,
+      p_to_status,
+      v_comment
+    )
+    returning * into v_review;
+
+  return v_review;
+end;
+$$;
+
+revoke all on function public.transition_lesson_status(uuid, text, text) from public, anon;
+grant execute on function public.transition_lesson_status(uuid, text, text) to authenticated;
+
+alter table public.lesson_reviews enable row level security;
+
+-- Lessons: students see approved ones, authors their own, admins all
+drop policy if exists "lessons are readable by everyone" on public.lessons;
+drop policy if exists "approved lessons are readable by everyone" on public.lessons;
+create policy "approved lessons are readable by everyone" on public.lessons
+  for select using (
+    status = 'approved'
+    or public.app_role() = 'admin'
+    or author_id = auth.jwt() ->> 'sub'
+  );
+
+drop policy if exists "teachers create draft lessons" on public.lessons;
+create policy "teachers create draft lessons" on public.lessons
+  for insert to authenticated
+  with check (
+    public.app_role() in ('teacher', 'admin')
+    and author_id = auth.jwt() ->> 'sub'
+    and status = 'draft'
+  );
+
+drop policy if exists "authors edit their drafts" on public.lessons;
+create policy "authors edit their drafts" on public.lessons
+  for update to authenticated
+  using (author_id = auth.jwt() ->> 'sub' and status in ('draft', 'rejected'))
+  with check (author_id = auth.jwt() ->> 'sub');
+
+drop policy if exists "authors delete their drafts" on public.lessons;
+create policy "authors delete their drafts" on public.lessons
+  for delete to authenticated
+  using (author_id = auth.jwt() ->> 'sub' and status in ('draft', 'rejected'));
+
+-- Review history: admins and the lesson's author read it; rows are only
+-- written by transition_lesson_status()
+drop policy if exists "authors and admins read lesson reviews" on public.lesson_reviews;
+create policy "authors and admins read lesson reviews" on public.lesson_reviews
+  for select to authenticated
+  using (
+    public.app_role() = 'admin'
+    or exists (
+      select 1 from public.lessons
+      where lessons.id = lesson_reviews.lesson_id
+        and lessons.author_id = auth.jwt() ->> 'sub'
+    )
+  );
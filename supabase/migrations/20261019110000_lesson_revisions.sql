@@ -0,0 +1,144 @@
+-- Every save of a lesson is kept as an immutable revision. A trigger copies
+-- the saved row into lesson_revisions, together with who saved it and
+-- whether the content came from the AI, a person or a rollback. Clients
+-- only read revisions; rolling back goes through restore_lesson_revision().
+
+-- The client says where the saved content came from; the trigger copies it
+alter table public.lessons
+  add column if not exists edit_source text not null default 'human'
+    check (edit_source in ('human', 'ai', 'rollback'));
+
+create table if not exists public.lesson_revisions (
+  id uuid primary key default gen_random_uuid(),
+  lesson_id uuid not null references public.lessons (id) on delete cascade,
+  revision_number integer not null,
+  title text not null,
+  content text not null,
+  subject text not null,
+  grade_level text not null,
+  cover_image_url text,
+  video_url text,
+  attachments jsonb not null,
+  interactive_questions jsonb not null,
+  source text not null check (source in ('human', 'ai', 'rollback')),
+  -- Set when source is 'rollback'
+  restored_from uuid references public.lesson_revisions (id) on delete set null,
+  author_id text,
+  author_name text,
+  created_at timestamptz not null default now(),
+  unique (lesson_id, revision_number)
+);
+
+create or replace function public.record_lesson_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Status transitions and other bookkeeping do not make a revision
+  if tg_op = 'UPDATE'
+    and new.title = old.title
+    and new.content = old.content
+    and new.subject = old.subject
+    and new.grade_level = old.grade_level
+    and new.cover_image_url is not distinct from old.cover_image_url
+    and new.video_url is not distinct from old.video_url
+    and new.attachments = old.attachments
+    and new.interactive_questions = old.interactive_questions then
+    return new;
+  end if;
+
+  insert into public.lesson_revisions (
+    lesson_id, revision_number, title, content, subject, grade_level,
+    cover_image_url, video_url, attachments, interactive_questions,
+    source, restored_from, author_id, author_name
+  )
+  values (
+    new.id,
+    coalesce((select max(revision_number) from public.lesson_revisions where lesson_id = new.id), 0) + 1,
+    new.title, new.content, new.subject, new.grade_level,
+    new.cover_image_url, new.video_url, new.attachments, new.interactive_questions,
+    new.edit_source,
+    nullif(current_setting('app.restored_revision', true), '')::uuid,
+    auth.jwt() ->> 'sub',
+    coalesce(auth.jwt() ->> 'name', auth.jwt() ->> 'email')
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists lessons_record_revision on public.lessons;
+create trigger lessons_record_revision
+  after insert or update on public.lessons
+  for each row execute function public.record_lesson_revision();
+
+-- Lessons saved before revisions existed start with their current content
+insert into public.lesson_revisions (
+  lesson_id, revision_number, title, content, subject, grade_level,
+  cover_image_url, video_url, attachments, interactive_questions,
+  source, author_id, created_at
+)
+select
+  l.id, 1, l.title, l.content, l.subject, l.grade_level,
+  l.cover_image_url, l.video_url, l.attachments, l.interactive_questions,
+  'human', l.author_id, l.updated_at
+from public.lessons l
+where not exists (select 1 from public.lesson_revisions r where r.lesson_id = l.id);
+
+-- Copies a revision back onto its lesson, which records a new 'rollback'
+-- revision. Runs with the caller's rights, so the lessons update policies
+-- decide who may roll back.
+create or replace function public.restore_lesson_revision(p_revision_id uuid)
+returns public.lessons
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_revision public.lesson_revisions;
+  v_lesson public.lessons;
+begin
+  select * into v_revision from public.lesson_revisions where id = p_revision_id;
+  if not found then
+    raise exception 'revision % not found', p_revision_id using errcode = 'P0002';
+  end if;
+
+  perform set_config('app.restored_revision', p_revision_id::text, true);
+  update public.lessons set
+    title = v_revision.title,
+    content = v_revision.content,
+    subject = v_revision.subject,
+    grade_level = v_revision.grade_level,
+    cover_image_url = v_revision.cover_image_url,
+    video_url = v_revision.video_url,
+    attachments = v_revision.attachments,
+    interactive_questions = v_revision.interactive_questions,
+    edit_source = 'rollback'
+  where id = v_revision.lesson_id
+  returning * into v_lesson;
+  perform set_config('app.restored_revision', '', true);
+
+  if v_lesson.id is null then
+    raise exception 'not allowed to restore this lesson' using errcode = '42501';
+  end if;
+  return v_lesson;
+end;
+$$;
+
+revoke all on function public.restore_lesson_revision(uuid) from public, anon;
+grant execute on function public.restore_lesson_revision(uuid) to authenticated;
+
+alter table public.lesson_revisions enable row level security;
+
+-- Revisions: admins and the lesson's author read them; nobody edits them
+drop policy if exists "authors and admins read lesson revisions" on public.lesson_revisions;
+create policy "authors and admins read lesson revisions" on public.lesson_revisions
+  for select to authenticated
+  using (
+    public.app_role() = 'admin'
+    or exists (
+      select 1 from public.lessons
+      where lessons.id = lesson_revisions.lesson_id
+        and lessons.author_id = auth.jwt() ->> 'sub'
+    )
+  );
@@ -0,0 +1,5 @@
+-- Lets a lesson stop students from skipping ahead of its unanswered video
+-- questions. The player enforces it; existing lessons keep free seeking.
+
+alter table public.lessons
+  add column if not exists lock_video_seek boolean not null default false;
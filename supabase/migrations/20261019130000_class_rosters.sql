@@ -0,0 +1,41 @@
+-- app_role in the JWT is now set only by the setUserRole function, never
+-- from the client-writable users/{uid}.role.
+--
+-- Teachers used to read every student's mistakes because class rosters live
+-- in Firestore. The syncClassRoster function now mirrors each class's
+-- students into class_students, so teachers only see mistakes of students
+-- in their own classes.
+
+create table if not exists public.class_students (
+  class_id text not null,
+  teacher_id text not null,
+  student_id text not null,
+  primary key (class_id, student_id)
+);
+
+create index if not exists class_students_teacher_student_idx
+  on public.class_students (teacher_id, student_id);
+
+alter table public.class_students enable row level security;
+
+-- Written only with the service role key by syncClassRoster
+drop policy if exists "teachers read their rosters" on public.class_students;
+create policy "teachers read their rosters" on public.class_students
+  for select to authenticated
+  using (teacher_id = auth.jwt() ->> 'sub');
+
+drop policy if exists "students read their mistakes" on public.lesson_mistakes;
+create policy "students read their mistakes" on public.lesson_mistakes
+  for select to authenticated
+  using (
+    user_id = auth.jwt() ->> 'sub'
+    or public.app_role() = 'admin'
+    or (
+      public.app_role() = 'teacher'
+      and exists (
+        select 1 from public.class_students
+        where class_students.teacher_id = auth.jwt() ->> 'sub'
+          and class_students.student_id = lesson_mistakes.user_id
+      )
+    )
+  );
@@ -1,3 +1,5 @@
+import typography from '@tailwindcss/typography';
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
@@ -125,5 +127,6 @@ export default {
       },
     },
   },
-  plugins: [],
+  // `prose` styles rendered Markdown (components/Common/MarkdownContent)
+  plugins: [typography],
 };
\ No newline at end of file